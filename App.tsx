@@ -1,5 +1,4 @@
 import React, { useState, useEffect } from 'react';
-import { StatusBar } from 'expo-status-bar';
 import { Provider } from 'react-redux';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { store } from './src/store';
@@ -7,6 +6,7 @@ import AppNavigator from './src/navigation/AppNavigator';
 import ErrorBoundary from './src/components/ErrorBoundary';
 import SplashScreen from './src/components/SplashScreen';
 import AuthProvider from './src/components/AuthProvider';
+import ThemeProvider from './src/theme/ThemeProvider';
 import NotificationService from './src/services/NotificationService';
 
 export default function App() {
@@ -40,8 +40,9 @@ export default function App() {
       <ErrorBoundary>
         <Provider store={store}>
           <AuthProvider>
-            <AppNavigator />
-            <StatusBar style="auto" />
+            <ThemeProvider>
+              <AppNavigator />
+            </ThemeProvider>
           </AuthProvider>
         </Provider>
       </ErrorBoundary>
@@ -11,6 +11,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
+import { UserRole } from '../types';
+import { Permission, hasAllPermissions } from '../config/permissions';
 
 interface AuthGuardProps {
   children: React.ReactNode;
@@ -18,6 +20,8 @@ interface AuthGuardProps {
   fallbackMessage?: string;
   fallbackIcon?: keyof typeof Ionicons.glyphMap;
   showBackButton?: boolean;
+  allowedRoles?: UserRole[]; // restrict to these roles; any signed-in user when omitted
+  requiredPermissions?: Permission[]; // the user's role must grant all of these
 }
 
 const AuthGuard: React.FC<AuthGuardProps> = ({
@@ -26,10 +30,48 @@ const AuthGuard: React.FC<AuthGuardProps> = ({
   fallbackMessage = "Please sign in to access this feature",
   fallbackIcon = "lock-closed-outline",
   showBackButton = true,
+  allowedRoles,
+  requiredPermissions,
 }) => {
   const navigation = useNavigation();
   const { user, isAuthenticated } = useSelector((state: RootState) => state.auth) as any;
 
+  const isRoleAllowed = !allowedRoles || allowedRoles.includes(user?.role);
+  const hasPermissions = !requiredPermissions || hasAllPermissions(user, requiredPermissions);
+
+  // Signed-in users whose role isn't allowed here get a dead end rather than a login prompt
+  if (isAuthenticated && user && (user.isSuspended || !isRoleAllowed || !hasPermissions)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        {showBackButton && (
+          <View style={styles.header}>
+            <TouchableOpacity 
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons name="arrow-back" size={24} color="#2D1810" />
+            </TouchableOpacity>
+            <View style={styles.placeholder} />
+          </View>
+        )}
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="lock-closed-outline" size={80} color="#D2B48C" />
+          </View>
+          <Text style={styles.title}>
+            {user.isSuspended ? 'Account Suspended' : 'Access Restricted'}
+          </Text>
+          <Text style={styles.message}>
+            {user.isSuspended
+              ? 'Your account has been suspended. Contact support to have it reviewed.'
+              : `Your ${user.role} account doesn't have access to this section`}
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   // If user is authenticated, render the protected content
   if (isAuthenticated && user) {
     return <>{children}</>;
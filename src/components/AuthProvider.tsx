@@ -1,9 +1,12 @@
 import React, { useEffect } from 'react';
 import { useDispatch } from 'react-redux';
-import { onAuthStateChanged } from 'firebase/auth';
+import { onAuthStateChanged, signOut } from 'firebase/auth';
 import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from '../config/firebase';
-import { setUser, clearUser } from '../store/slices/authSlice';
+import { setUser, clearUser, accountSuspended } from '../store/slices/authSlice';
+import { hydrateCart } from '../store/slices/cartSlice';
+import { clearAddresses } from '../store/slices/addressesSlice';
+import { hydrateSettings } from '../store/slices/settingsSlice';
 import { AppDispatch } from '../store';
 import { User } from '../types';
 
@@ -29,9 +32,22 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
               ...userData,
               uid: firebaseUser.uid, // Ensure uid is included
             } as User;
+
+            // A restored session can belong to an account suspended since it signed in
+            if (user.isSuspended) {
+              dispatch(accountSuspended({
+                email: user.email,
+                name: user.name,
+                reason: user.suspensionReason,
+              }));
+              await signOut(auth);
+              return;
+            }
             
             console.log('Setting user in Redux:', user);
             dispatch(setUser(user));
+            dispatch(hydrateCart(firebaseUser.uid));
+            dispatch(hydrateSettings(firebaseUser.uid));
           } else {
             console.error('User document not found in Firestore for UID:', firebaseUser.uid);
             dispatch(clearUser());
@@ -43,6 +59,10 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } else {
         console.log('Firebase auth state changed - user logged out');
         dispatch(clearUser());
+        // Back to this device's guest cart
+        dispatch(hydrateCart(null));
+        dispatch(clearAddresses());
+        dispatch(hydrateSettings(null));
       }
     });
 
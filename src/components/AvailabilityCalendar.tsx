@@ -0,0 +1,289 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Listing } from '../types';
+import RentalAvailabilityService, {
+  BookedRange,
+  DayStatus,
+  addDays,
+  endOfDay,
+  isSameDay,
+  startOfDay,
+} from '../services/RentalAvailabilityService';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
+
+interface AvailabilityCalendarProps {
+  listing: Pick<Listing, 'availableFrom' | 'availableUntil'>;
+  bookedRanges: BookedRange[];
+  isLoading?: boolean;
+  selectedStart?: Date | null;
+  selectedEnd?: Date | null;
+  // Called with the first day's start and the last day's end; read-only when omitted
+  onSelectRange?: (start: Date, end: Date) => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  listing,
+  bookedRanges,
+  isLoading = false,
+  selectedStart,
+  selectedEnd,
+  onSelectRange,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const today = startOfDay(new Date());
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const initial = selectedStart || today;
+    return new Date(initial.getFullYear(), initial.getMonth(), 1);
+  });
+
+  const isCurrentMonth = visibleMonth.getFullYear() === today.getFullYear()
+    && visibleMonth.getMonth() === today.getMonth();
+
+  // Leading blanks for the days before the 1st, then every day of the month
+  const cells = useMemo(() => {
+    const leading: (Date | null)[] = Array(visibleMonth.getDay()).fill(null);
+    const daysInMonth = new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + 1, 0).getDate();
+    const days = Array.from({ length: daysInMonth }, (_, index) => addDays(visibleMonth, index));
+    return [...leading, ...days];
+  }, [visibleMonth]);
+
+  const changeMonth = (offset: number) => {
+    setVisibleMonth(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + offset, 1));
+  };
+
+  // A first tap picks a single day; tapping a later day extends it, as long as every day between is free
+  const handleDayPress = (day: Date) => {
+    if (!onSelectRange) return;
+
+    const isSingleDay = selectedStart && selectedEnd && isSameDay(selectedStart, selectedEnd);
+    if (isSingleDay && day > selectedStart!
+      && RentalAvailabilityService.isRangeFree(listing, selectedStart!, day, bookedRanges)) {
+      onSelectRange(startOfDay(selectedStart!), endOfDay(day));
+      return;
+    }
+    onSelectRange(startOfDay(day), endOfDay(day));
+  };
+
+  const isSelected = (day: Date) =>
+    !!selectedStart && !!selectedEnd && day >= startOfDay(selectedStart) && day <= selectedEnd;
+
+  const dayStyle = (day: Date, status: DayStatus) => {
+    if (isSelected(day)) {
+      const isEdge = isSameDay(day, selectedStart!) || isSameDay(day, selectedEnd!);
+      return isEdge ? styles.selectedDay : styles.inRangeDay;
+    }
+    if (status === 'booked') return styles.bookedDay;
+    return null;
+  };
+
+  const dayTextStyle = (day: Date, status: DayStatus) => {
+    if (isSelected(day)) {
+      const isEdge = isSameDay(day, selectedStart!) || isSameDay(day, selectedEnd!);
+      return isEdge ? styles.selectedDayText : styles.dayText;
+    }
+    if (status === 'booked') return styles.bookedDayText;
+    if (status === 'unavailable') return styles.unavailableDayText;
+    return styles.dayText;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.monthButton}
+          onPress={() => changeMonth(-1)}
+          disabled={isCurrentMonth}
+        >
+          <Ionicons name="chevron-back" size={20} color={isCurrentMonth ? colors.disabled : colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {visibleMonth.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity style={styles.monthButton} onPress={() => changeMonth(1)}>
+          <Ionicons name="chevron-forward" size={20} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekRow}>
+        {WEEKDAYS.map((weekday, index) => (
+          <Text key={`${weekday}-${index}`} style={styles.weekdayText}>{weekday}</Text>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={styles.loadingText}>Checking availability...</Text>
+        </View>
+      ) : (
+        <View style={styles.grid}>
+          {cells.map((day, index) => {
+            if (!day) return <View key={`blank-${index}`} style={styles.dayCell} />;
+
+            const status = RentalAvailabilityService.getDayStatus(day, listing, bookedRanges, today);
+            return (
+              <TouchableOpacity
+                key={day.toISOString()}
+                style={styles.dayCell}
+                onPress={() => handleDayPress(day)}
+                disabled={!onSelectRange || status !== 'free'}
+              >
+                <View style={[styles.day, dayStyle(day, status)]}>
+                  <Text style={dayTextStyle(day, status)}>{day.getDate()}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.freeSwatch]} />
+          <Text style={styles.legendText}>Free</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.bookedDay]} />
+          <Text style={styles.legendText}>Booked</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.unavailableSwatch]} />
+          <Text style={styles.legendText}>Unavailable</Text>
+        </View>
+        {onSelectRange && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.selectedDay]} />
+            <Text style={styles.legendText}>Your dates</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  monthButton: {
+    padding: theme.spacing.xs,
+  },
+  monthTitle: {
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.xs,
+  },
+  weekdayText: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.textSecondary,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  day: {
+    flex: 1,
+    borderRadius: theme.radius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.text,
+  },
+  selectedDay: {
+    backgroundColor: theme.colors.primary,
+  },
+  selectedDayText: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.onPrimary,
+  },
+  inRangeDay: {
+    backgroundColor: theme.colors.accent,
+  },
+  bookedDay: {
+    backgroundColor: theme.colors.dangerBackground,
+  },
+  bookedDayText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.danger,
+    textDecorationLine: 'line-through',
+  },
+  unavailableDayText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textMuted,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xxl,
+    gap: theme.spacing.sm,
+  },
+  loadingText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: theme.spacing.md,
+    gap: theme.spacing.md,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  freeSwatch: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  unavailableSwatch: {
+    backgroundColor: theme.colors.surfaceAlt,
+  },
+  legendText: {
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default AvailabilityCalendar;
\ No newline at end of file
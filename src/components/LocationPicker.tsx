@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,7 +13,7 @@ import {
   ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import LocationService, { LocationData } from '../services/LocationService';
+import LocationService, { GeocodeResult, LocationData, PlaceKind } from '../services/LocationService';
 import { LocationInfo } from '../types';
 
 interface LocationPickerProps {
@@ -24,13 +24,17 @@ interface LocationPickerProps {
   title?: string;
 }
 
-interface LocationSuggestion {
-  address: string;
-  latitude: number;
-  longitude: number;
-  city?: string;
-  country?: string;
-}
+// Searching starts from the second letter; the gazetteer matches by prefix
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const PLACE_ICONS: { [kind in PlaceKind]: string } = {
+  town: 'business-outline',
+  suburb: 'home-outline',
+  campus: 'school-outline',
+  landmark: 'flag-outline',
+  address: 'location-outline',
+};
 
 const LocationPicker: React.FC<LocationPickerProps> = ({
   visible,
@@ -41,9 +45,20 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
 }) => {
   const [loading, setLoading] = useState(false);
   const [searchText, setSearchText] = useState('');
-  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
   const [userLocation, setUserLocation] = useState<LocationData | null>(null);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Only the newest search may update the results
+  const latestQuery = useRef('');
+
+  useEffect(() => {
+    return () => {
+      if (searchTimer.current) {
+        clearTimeout(searchTimer.current);
+      }
+    };
+  }, []);
 
   useEffect(() => {
     if (visible) {
@@ -86,49 +101,38 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
     onClose();
   };
 
-  const searchLocations = async (query: string) => {
-    if (!query.trim() || query.length < 3) {
+  const searchLocations = (query: string) => {
+    latestQuery.current = query;
+    if (searchTimer.current) {
+      clearTimeout(searchTimer.current);
+    }
+    if (query.trim().length < MIN_SEARCH_LENGTH) {
       setSuggestions([]);
+      setSearchLoading(false);
       return;
     }
 
     setSearchLoading(true);
-    try {
-      // Mock search results - in a real app, you'd use a geocoding service
-      const mockResults: LocationSuggestion[] = [
-        {
-          address: `${query}, Lusaka, Zambia`,
-          latitude: -15.4167 + Math.random() * 0.1,
-          longitude: 28.2833 + Math.random() * 0.1,
-          city: 'Lusaka',
-          country: 'Zambia'
-        },
-        {
-          address: `${query}, Ndola, Zambia`,
-          latitude: -12.9667 + Math.random() * 0.1,
-          longitude: 28.6333 + Math.random() * 0.1,
-          city: 'Ndola',
-          country: 'Zambia'
-        },
-        {
-          address: `${query}, Kitwe, Zambia`,
-          latitude: -12.8167 + Math.random() * 0.1,
-          longitude: 28.2167 + Math.random() * 0.1,
-          city: 'Kitwe',
-          country: 'Zambia'
+    searchTimer.current = setTimeout(async () => {
+      try {
+        const results = await LocationService.searchPlaces(query);
+        if (latestQuery.current === query) {
+          setSuggestions(results);
         }
-      ];
-
-      setSuggestions(mockResults);
-    } catch (error) {
-      console.error('Error searching locations:', error);
-      setSuggestions([]);
-    } finally {
-      setSearchLoading(false);
-    }
+      } catch (error) {
+        console.error('Error searching locations:', error);
+        if (latestQuery.current === query) {
+          setSuggestions([]);
+        }
+      } finally {
+        if (latestQuery.current === query) {
+          setSearchLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
   };
 
-  const handleLocationSelect = (suggestion: LocationSuggestion) => {
+  const handleLocationSelect = (suggestion: GeocodeResult) => {
     const locationInfo: LocationInfo = {
       latitude: suggestion.latitude,
       longitude: suggestion.longitude,
@@ -141,18 +145,16 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
     onClose();
   };
 
-  const renderLocationSuggestion = (suggestion: LocationSuggestion, index: number) => (
+  const renderLocationSuggestion = (suggestion: GeocodeResult, index: number) => (
     <TouchableOpacity
-      key={index}
+      key={`${suggestion.source}-${index}`}
       style={styles.suggestionItem}
       onPress={() => handleLocationSelect(suggestion)}
     >
-      <Ionicons name="location-outline" size={20} color="#8B4513" />
+      <Ionicons name={PLACE_ICONS[suggestion.kind] as any} size={20} color="#8B4513" />
       <View style={styles.suggestionText}>
-        <Text style={styles.suggestionAddress}>{suggestion.address}</Text>
-        <Text style={styles.suggestionCity}>
-          {suggestion.city}, {suggestion.country}
-        </Text>
+        <Text style={styles.suggestionAddress}>{suggestion.name}</Text>
+        <Text style={styles.suggestionCity}>{suggestion.address}</Text>
       </View>
     </TouchableOpacity>
   );
@@ -233,7 +235,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
                 renderLocationSuggestion(suggestion, index)
               )}
             </View>
-          ) : searchText.length >= 3 && !searchLoading ? (
+          ) : searchText.trim().length >= MIN_SEARCH_LENGTH && !searchLoading ? (
             <View style={styles.noResultsContainer}>
               <Ionicons name="location-outline" size={48} color="#D2B48C" />
               <Text style={styles.noResultsText}>No locations found</Text>
@@ -248,25 +250,13 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
             <View style={styles.popularSection}>
               <Text style={styles.sectionTitle}>Popular Locations in Zambia</Text>
               
-              {[
-                { name: 'Lusaka Central', address: 'Lusaka Central, Lusaka, Zambia', lat: -15.4167, lng: 28.2833 },
-                { name: 'Cairo Road', address: 'Cairo Road, Lusaka, Zambia', lat: -15.4100, lng: 28.2850 },
-                { name: 'Ndola Central', address: 'Ndola Central, Ndola, Zambia', lat: -12.9667, lng: 28.6333 },
-                { name: 'Kitwe Central', address: 'Kitwe Central, Kitwe, Zambia', lat: -12.8167, lng: 28.2167 },
-                { name: 'Livingstone', address: 'Livingstone, Southern Province, Zambia', lat: -17.8419, lng: 25.8561 },
-              ].map((location, index) => (
+              {LocationService.getPopularPlaces().map((location, index) => (
                 <TouchableOpacity
                   key={index}
                   style={styles.popularLocationItem}
-                  onPress={() => handleLocationSelect({
-                    address: location.address,
-                    latitude: location.lat,
-                    longitude: location.lng,
-                    city: location.address.split(',')[1]?.trim(),
-                    country: 'Zambia'
-                  })}
+                  onPress={() => handleLocationSelect(location)}
                 >
-                  <Ionicons name="location" size={20} color="#8B4513" />
+                  <Ionicons name={PLACE_ICONS[location.kind] as any} size={20} color="#8B4513" />
                   <View style={styles.popularLocationText}>
                     <Text style={styles.popularLocationName}>{location.name}</Text>
                     <Text style={styles.popularLocationAddress}>{location.address}</Text>
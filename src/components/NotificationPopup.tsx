@@ -147,6 +147,8 @@ const NotificationPopup: React.FC<NotificationPopupProps> = ({
         return 'chatbubble-outline';
       case 'store':
         return 'storefront-outline';
+      case 'promotion':
+        return 'pricetag-outline';
       default:
         return 'notifications-outline';
     }
@@ -162,6 +164,8 @@ const NotificationPopup: React.FC<NotificationPopupProps> = ({
         return '#06B6D4';
       case 'store':
         return '#8B4513';
+      case 'promotion':
+        return '#27AE60';
       default:
         return '#6B7280';
     }
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Listing, RentalRequest } from '../types';
+import RentalAmendmentService, { AmendmentType } from '../services/RentalAmendmentService';
+import { addDays, endOfDay, startOfDay } from '../services/RentalAvailabilityService';
+import RentalQuoteBreakdown from './RentalQuoteBreakdown';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
+
+interface RentalAmendmentModalProps {
+  visible: boolean;
+  request: RentalRequest | null;
+  type: AmendmentType;
+  isSubmitting?: boolean;
+  onCancel: () => void;
+  onSubmit: (newEnd: Date, note: string) => void;
+}
+
+/**
+ * The end dates a renter can pick: extensions run from the day after the current
+ * end, early returns from today up to the day before it
+ */
+const endDateLimits = (request: RentalRequest, type: AmendmentType) => {
+  const currentEnd = endOfDay(new Date(request.endDate));
+  if (type === 'extension') {
+    return { earliest: addDays(currentEnd, 1), latest: null };
+  }
+  const today = endOfDay(new Date());
+  const start = endOfDay(new Date(request.startDate));
+  return { earliest: start > today ? start : today, latest: addDays(currentEnd, -1) };
+};
+
+const RentalAmendmentModal: React.FC<RentalAmendmentModalProps> = ({
+  visible,
+  request,
+  type,
+  isSubmitting = false,
+  onCancel,
+  onSubmit,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [newEnd, setNewEnd] = useState<Date | null>(null);
+  const [note, setNote] = useState('');
+  const [listing, setListing] = useState<Partial<Listing>>({});
+
+  useEffect(() => {
+    if (visible && request) {
+      const { earliest, latest } = endDateLimits(request, type);
+      // Early returns default to today; extensions to one extra day
+      setNewEnd(latest && earliest > latest ? null : earliest);
+      setNote('');
+    }
+  }, [visible, request, type]);
+
+  // The listing sets the minimum and maximum rental the new dates are checked against
+  useEffect(() => {
+    if (!visible || !request) return;
+    let isCurrent = true;
+    setListing({});
+    RentalAmendmentService.getListing(request.listingId)
+      .then(loaded => { if (isCurrent) setListing(loaded); })
+      .catch(error => console.error('Error loading listing for booking change:', error));
+    return () => { isCurrent = false; };
+  }, [visible, request]);
+
+  if (!request) return null;
+
+  const { earliest, latest } = endDateLimits(request, type);
+  const isExtension = type === 'extension';
+  const canStepBack = !!newEnd && startOfDay(newEnd) > startOfDay(earliest);
+  const canStepForward = !!newEnd && (!latest || startOfDay(newEnd) < startOfDay(latest));
+
+  let preview = null;
+  let previewError = '';
+  if (newEnd) {
+    try {
+      preview = RentalAmendmentService.quote(request, type, newEnd, listing);
+    } catch (error: any) {
+      previewError = error.message;
+    }
+  }
+
+  const step = (days: number) => {
+    if (newEnd) setNewEnd(endOfDay(addDays(newEnd, days)));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onCancel}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel} disabled={isSubmitting}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{isExtension ? 'Extend Rental' : 'Return Early'}</Text>
+          <TouchableOpacity onPress={() => newEnd && onSubmit(newEnd, note)} disabled={isSubmitting || !newEnd}>
+            {isSubmitting
+              ? <ActivityIndicator size="small" color={colors.primary} />
+              : <Text style={[styles.submitText, !newEnd && styles.disabledText]}>Send</Text>}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.description}>
+            {isExtension
+              ? 'Ask the owner for more time. The extra days are charged at the rate you booked at.'
+              : 'Let the owner know you\'re bringing the item back sooner. You\'ll only pay for the days you used.'}
+          </Text>
+
+          <Text style={styles.label}>Currently ends</Text>
+          <Text style={styles.currentEnd}>{new Date(request.endDate).toLocaleDateString()}</Text>
+
+          <Text style={styles.label}>{isExtension ? 'New end date' : 'Return date'}</Text>
+          {newEnd ? (
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={[styles.stepButton, !canStepBack && styles.stepButtonDisabled]}
+                onPress={() => step(-1)}
+                disabled={!canStepBack}
+              >
+                <Ionicons name="remove" size={20} color={canStepBack ? colors.primary : colors.textMuted} />
+              </TouchableOpacity>
+              <Text style={styles.stepValue}>{newEnd.toLocaleDateString()}</Text>
+              <TouchableOpacity
+                style={[styles.stepButton, !canStepForward && styles.stepButtonDisabled]}
+                onPress={() => step(1)}
+                disabled={!canStepForward}
+              >
+                <Ionicons name="add" size={20} color={canStepForward ? colors.primary : colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={styles.errorText}>This rental ends too soon to return it early.</Text>
+          )}
+
+          {preview && (
+            <View style={styles.previewCard}>
+              <Text style={styles.label}>New price</Text>
+              <RentalQuoteBreakdown breakdown={preview} />
+            </View>
+          )}
+          {!!previewError && <Text style={styles.errorText}>{previewError}</Text>}
+
+          <Text style={styles.label}>Note to the owner (optional)</Text>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder={isExtension ? 'e.g. The project overran by a few days' : 'e.g. Finished with it early'}
+            placeholderTextColor={colors.textMuted}
+            multiline
+          />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.lg,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  cancelText: {
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
+  },
+  submitText: {
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.primary,
+  },
+  disabledText: {
+    color: theme.colors.textMuted,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.lg,
+  },
+  description: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing.xl,
+  },
+  label: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  currentEnd: {
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.lg,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.lg,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonDisabled: {
+    borderColor: theme.colors.border,
+  },
+  stepValue: {
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  previewCard: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+  },
+  errorText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.danger,
+    marginBottom: theme.spacing.lg,
+  },
+  noteInput: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+});
+
+export default RentalAmendmentModal;
\ No newline at end of file
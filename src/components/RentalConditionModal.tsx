@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Ionicons } from '@expo/vector-icons';
+import { ConditionReportInput } from '../services/RentalLifecycleService';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
+
+// Each photo is its own Firestore document, so it's scaled down to stay well under the size limit
+const MAX_PHOTOS = 3;
+const MAX_PHOTO_WIDTH = 1024;
+const PHOTO_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ImagePicker.MediaTypeOptions.Images,
+  allowsEditing: true,
+  aspect: [4, 3],
+  quality: 1,
+};
+
+const toResizedDataUri = async (asset: ImagePicker.ImagePickerAsset): Promise<string | null> => {
+  const context = ImageManipulator.manipulate(asset.uri);
+  if (asset.width > MAX_PHOTO_WIDTH) {
+    context.resize({ width: MAX_PHOTO_WIDTH });
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({ compress: 0.5, format: SaveFormat.JPEG, base64: true });
+  return result.base64 ? `data:image/jpeg;base64,${result.base64}` : null;
+};
+
+interface RentalConditionModalProps {
+  visible: boolean;
+  title: string;
+  description: string;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onCancel: () => void;
+  onSubmit: (report: ConditionReportInput) => void;
+}
+
+const RentalConditionModal: React.FC<RentalConditionModalProps> = ({
+  visible,
+  title,
+  description,
+  submitLabel,
+  isSubmitting = false,
+  onCancel,
+  onSubmit,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+
+  // Each opening starts a fresh report
+  useEffect(() => {
+    if (visible) {
+      setNotes('');
+      setPhotos([]);
+    }
+  }, [visible]);
+
+  const addPhoto = async (source: 'camera' | 'library') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission Required', `Please allow access to your ${source === 'camera' ? 'camera' : 'photo library'}`);
+      return;
+    }
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(PHOTO_OPTIONS)
+      : await ImagePicker.launchImageLibraryAsync(PHOTO_OPTIONS);
+
+    const asset = !result.canceled ? result.assets[0] : null;
+    if (!asset) return;
+
+    try {
+      const photo = await toResizedDataUri(asset);
+      if (photo) {
+        setPhotos(prev => [...prev, photo]);
+      }
+    } catch (error) {
+      console.error('Error resizing condition photo:', error);
+      Alert.alert('Error', 'Couldn\'t add that photo. Please try again.');
+    }
+  };
+
+  const handleAddPhoto = () => {
+    if (photos.length >= MAX_PHOTOS) {
+      Alert.alert('Limit Reached', `You can add up to ${MAX_PHOTOS} photos`);
+      return;
+    }
+    Alert.alert('Add Photo', 'Show the item\'s condition', [
+      { text: 'Take Photo', onPress: () => addPhoto('camera') },
+      { text: 'Choose from Library', onPress: () => addPhoto('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSubmit = () => {
+    if (!notes.trim() && photos.length === 0) {
+      Alert.alert('Condition Report', 'Add a note or a photo of the item\'s condition');
+      return;
+    }
+    onSubmit({ notes, photos });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onCancel}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel} disabled={isSubmitting}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{title}</Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting
+              ? <ActivityIndicator size="small" color={colors.primary} />
+              : <Text style={styles.submitText}>{submitLabel}</Text>}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.description}>{description}</Text>
+
+          <Text style={styles.label}>Condition notes</Text>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. Small scratch on the left side, all accessories included"
+            placeholderTextColor={colors.textMuted}
+            multiline
+            numberOfLines={4}
+          />
+
+          <Text style={styles.label}>Photos ({photos.length}/{MAX_PHOTOS})</Text>
+          <View style={styles.photoRow}>
+            {photos.map((photo, index) => (
+              <View key={index} style={styles.photoContainer}>
+                <Image source={{ uri: photo }} style={styles.photo} />
+                <TouchableOpacity
+                  style={styles.removePhotoButton}
+                  onPress={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Ionicons name="close-circle" size={22} color={colors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <TouchableOpacity style={styles.addPhotoButton} onPress={handleAddPhoto}>
+                <Ionicons name="camera-outline" size={28} color={colors.primary} />
+                <Text style={styles.addPhotoText}>Add</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.lg,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  cancelText: {
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
+  },
+  submitText: {
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.primary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.lg,
+  },
+  description: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing.xl,
+  },
+  label: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  notesInput: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    marginBottom: theme.spacing.xl,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.md,
+  },
+  photoContainer: {
+    position: 'relative',
+  },
+  photo: {
+    width: 96,
+    height: 72,
+    borderRadius: theme.radius.md,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 11,
+  },
+  addPhotoButton: {
+    width: 96,
+    height: 72,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addPhotoText: {
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
+    marginTop: 2,
+  },
+});
+
+export default RentalConditionModal;
\ No newline at end of file
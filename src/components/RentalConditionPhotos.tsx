@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, Image, StyleSheet, ActivityIndicator } from 'react-native';
+import RentalLifecycleService from '../services/RentalLifecycleService';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
+
+interface RentalConditionPhotosProps {
+  requestId: string;
+  photoIds: string[];
+}
+
+// The photos live beside the booking, so they're fetched when the report is shown
+const RentalConditionPhotos: React.FC<RentalConditionPhotosProps> = ({ requestId, photoIds }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const photoKey = photoIds.join(',');
+
+  useEffect(() => {
+    if (photoIds.length === 0) return;
+    let isCurrent = true;
+    setIsLoading(true);
+    RentalLifecycleService.getConditionPhotos(requestId, photoIds)
+      .then(loaded => { if (isCurrent) setPhotos(loaded); })
+      .catch(error => console.error('Error loading condition photos:', error))
+      .finally(() => { if (isCurrent) setIsLoading(false); });
+    return () => { isCurrent = false; };
+  }, [requestId, photoKey]);
+
+  if (photoIds.length === 0) return null;
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.container}>
+      {isLoading
+        ? <ActivityIndicator size="small" color={colors.primary} />
+        : photos.map((photo, index) => (
+          <Image key={index} source={{ uri: photo }} style={styles.photo} />
+        ))}
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    marginTop: theme.spacing.sm,
+  },
+  photo: {
+    width: 80,
+    height: 60,
+    borderRadius: theme.radius.sm,
+    marginRight: theme.spacing.sm,
+  },
+});
+
+export default RentalConditionPhotos;
\ No newline at end of file
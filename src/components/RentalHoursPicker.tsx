@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
+
+interface RentalHoursPickerProps {
+  startHour: number;
+  endHour: number;
+  isSameDay: boolean; // the return must then be after the pick-up
+  onChange: (startHour: number, endHour: number) => void;
+}
+
+export const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const RentalHoursPicker: React.FC<RentalHoursPickerProps> = ({ startHour, endHour, isSameDay, onChange }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const setStart = (hour: number) => {
+    onChange(hour, isSameDay && endHour <= hour ? hour + 1 : endHour);
+  };
+
+  const renderRow = (label: string, hour: number, min: number, max: number, onStep: (hour: number) => void) => (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity onPress={() => onStep(hour - 1)} disabled={hour <= min} style={styles.stepButton}>
+          <Ionicons name="remove" size={18} color={hour <= min ? colors.textMuted : colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.value}>{formatHour(hour)}</Text>
+        <TouchableOpacity onPress={() => onStep(hour + 1)} disabled={hour >= max} style={styles.stepButton}>
+          <Ionicons name="add" size={18} color={hour >= max ? colors.textMuted : colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {renderRow('Pick-up', startHour, 0, isSameDay ? 22 : 23, setStart)}
+      {renderRow('Return', endHour, isSameDay ? startHour + 1 : 0, 23, hour => onChange(startHour, hour))}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  value: {
+    minWidth: 52,
+    textAlign: 'center',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+});
+
+export default RentalHoursPicker;
\ No newline at end of file
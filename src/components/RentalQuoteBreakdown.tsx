@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { RentalPriceBreakdown } from '../types';
+import RentalPricingService from '../services/RentalPricingService';
+import { useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
+
+interface RentalQuoteBreakdownProps {
+  breakdown: RentalPriceBreakdown;
+  compact?: boolean; // smaller text for booking cards
+}
+
+const RentalQuoteBreakdown: React.FC<RentalQuoteBreakdownProps> = ({ breakdown, compact = false }) => {
+  const styles = useThemedStyles(createStyles);
+  const period = RentalPricingService.periodLabel(breakdown.rentalPeriod);
+  const labelStyle = [styles.label, compact && styles.compactText];
+  const valueStyle = [styles.value, compact && styles.compactText];
+  const { proration } = breakdown;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={labelStyle}>
+          {RentalPricingService.formatUnits(breakdown.rentalPeriod, breakdown.units)} × K{breakdown.rate.toFixed(2)}/{period}
+        </Text>
+        <Text style={valueStyle}>K{(proration ? proration.fullCost : breakdown.rentalCost).toFixed(2)}</Text>
+      </View>
+      {proration && (
+        <View style={styles.row}>
+          <Text style={labelStyle}>
+            Returned early ({proration.usedUnits} of {RentalPricingService.formatUnits(breakdown.rentalPeriod, proration.bookedUnits)})
+          </Text>
+          <Text style={[valueStyle, styles.discountValue]}>
+            -K{(proration.fullCost - breakdown.rentalCost).toFixed(2)}
+          </Text>
+        </View>
+      )}
+      {breakdown.securityDeposit > 0 && (
+        <View style={styles.row}>
+          <Text style={labelStyle}>Security deposit (refundable)</Text>
+          <Text style={valueStyle}>K{breakdown.securityDeposit.toFixed(2)}</Text>
+        </View>
+      )}
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={[styles.totalLabel, compact && styles.compactText]}>Total</Text>
+        <Text style={[styles.totalValue, compact && styles.compactTotal]}>K{breakdown.total.toFixed(2)}</Text>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    gap: theme.spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  label: {
+    flex: 1,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+  },
+  value: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.medium,
+    color: theme.colors.text,
+  },
+  discountValue: {
+    color: theme.colors.success,
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    paddingTop: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+  totalLabel: {
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  totalValue: {
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.primary,
+  },
+  compactText: {
+    fontSize: theme.typography.size.xs,
+  },
+  compactTotal: {
+    fontSize: theme.typography.size.md,
+  },
+});
+
+export default RentalQuoteBreakdown;
\ No newline at end of file
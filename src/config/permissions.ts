@@ -0,0 +1,80 @@
+import { User, UserRole } from '../types';
+
+// What a signed-in user may do. Store permissions always apply to the user's own store.
+export type Permission =
+  | 'shop'             // buy, rent and swap on the marketplace
+  | 'list_items'       // post rental and swap listings
+  | 'manage_store'     // store profile, staff and promotions
+  | 'manage_products'
+  | 'manage_orders'
+  | 'view_analytics'
+  | 'use_pos'
+  | 'deliver_orders'
+  | 'supply_stores'
+  | 'moderate_users';
+
+// The tab navigator each role lands on after signing in
+export type RoleNavigator = 'customer' | 'store_owner' | 'store_staff' | 'delivery';
+
+interface RoleAccess {
+  navigator: RoleNavigator;
+  permissions: Permission[];
+}
+
+export const ROLE_ACCESS: Record<UserRole, RoleAccess> = {
+  [UserRole.ADMIN]: {
+    navigator: 'customer',
+    permissions: ['shop', 'list_items', 'moderate_users'],
+  },
+  [UserRole.STORE_OWNER]: {
+    navigator: 'store_owner',
+    permissions: [
+      'shop',
+      'list_items',
+      'manage_store',
+      'manage_products',
+      'manage_orders',
+      'view_analytics',
+      'use_pos',
+    ],
+  },
+  [UserRole.CASHIER]: {
+    navigator: 'store_staff',
+    permissions: ['manage_orders', 'use_pos'],
+  },
+  [UserRole.DELIVERY]: {
+    navigator: 'delivery',
+    permissions: ['deliver_orders'],
+  },
+  [UserRole.SUPPLIER]: {
+    navigator: 'customer',
+    permissions: ['shop', 'supply_stores'],
+  },
+  [UserRole.CUSTOMER]: {
+    navigator: 'customer',
+    permissions: ['shop', 'list_items'],
+  },
+};
+
+// Suspended accounts and unknown roles get nothing
+export const permissionsFor = (user: User | null | undefined): Permission[] => {
+  if (!user || user.isSuspended) return [];
+  return ROLE_ACCESS[user.role]?.permissions || [];
+};
+
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean =>
+  permissionsFor(user).includes(permission);
+
+export const hasAllPermissions = (user: User | null | undefined, permissions: Permission[]): boolean => {
+  const granted = permissionsFor(user);
+  return permissions.every(permission => granted.includes(permission));
+};
+
+export const navigatorFor = (user: User | null | undefined): RoleNavigator => {
+  if (!user || user.isSuspended) return 'customer';
+  const navigator = ROLE_ACCESS[user.role]?.navigator || 'customer';
+
+  // Staff screens are scoped to a store; until one is assigned they shop like anyone else
+  if (navigator === 'store_staff' && !user.storeId) return 'customer';
+  return navigator;
+};
\ No newline at end of file
@@ -1,12 +1,15 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useMemo } from 'react';
+import { NavigationContainer, DefaultTheme, DarkTheme } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createDrawerNavigator } from '@react-navigation/drawer';
-import { useSelector } from 'react-redux';
+import { useSelector, useDispatch } from 'react-redux';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { RootState } from '../store';
+import { RootState, AppDispatch } from '../store';
+import { fetchStaffStore } from '../store/slices/dashboardSlice';
+import { useTheme } from '../theme/ThemeProvider';
+import { navigatorFor } from '../config/permissions';
 
 // Screen imports (we'll create these)
 import HomeScreen from '../screens/HomeScreen';
@@ -43,7 +46,12 @@ import HelpScreen from '../screens/HelpScreen';
 import MyItemsScreen from '../screens/MyItemsScreen';
 import MyBookingsScreen from '../screens/MyBookingsScreen';
 import MyRequestsScreen from '../screens/MyRequestsScreen';
-import { UserRole } from '../types';
+import ReceiptsScreen from '../screens/ReceiptsScreen';
+import QuotationsScreen from '../screens/QuotationsScreen';
+import MyQuotationsScreen from '../screens/MyQuotationsScreen';
+import POSScreen from '../screens/POSScreen';
+import DeliveryOrdersScreen from '../screens/DeliveryOrdersScreen';
+import AccountSuspendedScreen from '../screens/auth/AccountSuspendedScreen';
 
 export type RootStackParamList = {
   Auth: undefined;
@@ -89,16 +97,32 @@ export type StoreOwnerTabParamList = {
   Dashboard: undefined;
   Products: undefined;
   Orders: undefined;
+  POS: undefined;
   Analytics: undefined;
   Chat: undefined;
   Profile: undefined;
 };
 
+// Store staff (cashiers) only get order handling and the till
+export type StoreStaffTabParamList = {
+  Orders: undefined;
+  POS: undefined;
+  Profile: undefined;
+};
+
+// Delivery partners see the orders booked with them and their profile
+export type DeliveryTabParamList = {
+  Deliveries: undefined;
+  Profile: undefined;
+};
+
 export type StoreDashboardStackParamList = {
   DashboardMain: undefined;
   StoreManagement: undefined;
   AddProduct: undefined;
   EditProduct: { product: any };
+  Receipts: undefined;
+  Quotations: undefined;
 };
 
 export type StoreProductsStackParamList = {
@@ -137,12 +161,15 @@ export type ProfileStackParamList = {
   MyItems: undefined;
   MyBookings: undefined;
   MyRequests: undefined;
+  MyQuotations: undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
 const AuthStack = createStackNavigator<AuthStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
 const StoreOwnerTab = createBottomTabNavigator<StoreOwnerTabParamList>();
+const StoreStaffTab = createBottomTabNavigator<StoreStaffTabParamList>();
+const DeliveryTab = createBottomTabNavigator<DeliveryTabParamList>();
 const StoreDashboardStack = createStackNavigator<StoreDashboardStackParamList>();
 const StoreProductsStack = createStackNavigator<StoreProductsStackParamList>();
 const StoreOrdersStack = createStackNavigator<StoreOrdersStackParamList>();
@@ -271,6 +298,11 @@ function ProfileNavigator() {
         component={MyRequestsScreen} 
         options={{ headerShown: false }}
       />
+      <ProfileStack.Screen 
+        name="MyQuotations" 
+        component={MyQuotationsScreen} 
+        options={{ headerShown: false }}
+      />
     </ProfileStack.Navigator>
   );
 }
@@ -299,6 +331,16 @@ function StoreDashboardNavigator() {
         component={EditProductScreen} 
         options={{ headerShown: false }}
       />
+      <StoreDashboardStack.Screen 
+        name="Receipts" 
+        component={ReceiptsScreen} 
+        options={{ headerShown: false }}
+      />
+      <StoreDashboardStack.Screen 
+        name="Quotations" 
+        component={QuotationsScreen} 
+        options={{ headerShown: false }}
+      />
     </StoreDashboardStack.Navigator>
   );
 }
@@ -347,7 +389,9 @@ function StoreOrdersNavigator() {
 // Store Owner Tab Navigator
 function StoreOwnerNavigator() {
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
+  const { currentStore } = useSelector((state: RootState) => state.dashboard);
   const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
 
   return (
     <StoreOwnerTab.Navigator
@@ -366,6 +410,9 @@ function StoreOwnerNavigator() {
             case 'Orders':
               iconName = focused ? 'receipt' : 'receipt-outline';
               break;
+            case 'POS':
+              iconName = focused ? 'barcode' : 'barcode-outline';
+              break;
             case 'Analytics':
               iconName = focused ? 'bar-chart' : 'bar-chart-outline';
               break;
@@ -381,11 +428,11 @@ function StoreOwnerNavigator() {
 
           return <Ionicons name={iconName} size={size} color={color} />;
         },
-        tabBarActiveTintColor: '#8B4513',
-        tabBarInactiveTintColor: '#8B7355',
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textSecondary,
         tabBarStyle: {
-          backgroundColor: '#FFFFFF',
-          borderTopColor: '#E8E2DD',
+          backgroundColor: colors.surface,
+          borderTopColor: colors.border,
           paddingBottom: Math.max(insets.bottom, 8),
           height: 64 + Math.max(insets.bottom, 8),
           paddingTop: 4,
@@ -408,6 +455,13 @@ function StoreOwnerNavigator() {
         component={StoreOrdersNavigator} 
         options={{ tabBarLabel: 'Orders' }}
       />
+      {currentStore?.featurePosEnabled && (
+        <StoreOwnerTab.Screen 
+          name="POS" 
+          component={POSScreen} 
+          options={{ tabBarLabel: 'POS' }}
+        />
+      )}
       <StoreOwnerTab.Screen 
         name="Analytics" 
         component={StoreAnalyticsScreen} 
@@ -429,17 +483,141 @@ function StoreOwnerNavigator() {
   );
 }
 
+// Store Staff Tab Navigator
+function StoreStaffNavigator() {
+  const { user } = useSelector((state: RootState) => state.auth) as any;
+  const { currentStore } = useSelector((state: RootState) => state.dashboard);
+  const dispatch = useDispatch<AppDispatch>();
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    if (user?.storeId) {
+      dispatch(fetchStaffStore(user.storeId));
+    }
+  }, [user?.storeId]);
+
+  return (
+    <StoreStaffTab.Navigator
+      initialRouteName="Orders"
+      screenOptions={({ route }) => ({
+        tabBarIcon: ({ focused, color, size }) => {
+          let iconName: keyof typeof Ionicons.glyphMap;
+
+          switch (route.name) {
+            case 'Orders':
+              iconName = focused ? 'receipt' : 'receipt-outline';
+              break;
+            case 'POS':
+              iconName = focused ? 'barcode' : 'barcode-outline';
+              break;
+            case 'Profile':
+              iconName = focused ? 'person' : 'person-outline';
+              break;
+            default:
+              iconName = 'help-outline';
+          }
+
+          return <Ionicons name={iconName} size={size} color={color} />;
+        },
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textSecondary,
+        tabBarStyle: {
+          backgroundColor: colors.surface,
+          borderTopColor: colors.border,
+          paddingBottom: Math.max(insets.bottom, 8),
+          height: 64 + Math.max(insets.bottom, 8),
+          paddingTop: 4,
+        },
+        headerShown: false,
+      })}
+    >
+      <StoreStaffTab.Screen 
+        name="Orders" 
+        component={StoreOrdersNavigator} 
+        options={{ tabBarLabel: 'Orders' }}
+      />
+      {currentStore?.featurePosEnabled && (
+        <StoreStaffTab.Screen 
+          name="POS" 
+          component={POSScreen} 
+          options={{ tabBarLabel: 'POS' }}
+        />
+      )}
+      <StoreStaffTab.Screen 
+        name="Profile" 
+        component={ProfileNavigator} 
+        options={{ tabBarLabel: 'Profile' }}
+      />
+    </StoreStaffTab.Navigator>
+  );
+}
+
+// Delivery Partner Tab Navigator
+function DeliveryNavigator() {
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+
+  return (
+    <DeliveryTab.Navigator
+      initialRouteName="Deliveries"
+      screenOptions={({ route }) => ({
+        tabBarIcon: ({ focused, color, size }) => {
+          let iconName: keyof typeof Ionicons.glyphMap;
+
+          switch (route.name) {
+            case 'Deliveries':
+              iconName = focused ? 'bicycle' : 'bicycle-outline';
+              break;
+            case 'Profile':
+              iconName = focused ? 'person' : 'person-outline';
+              break;
+            default:
+              iconName = 'help-outline';
+          }
+
+          return <Ionicons name={iconName} size={size} color={color} />;
+        },
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textSecondary,
+        tabBarStyle: {
+          backgroundColor: colors.surface,
+          borderTopColor: colors.border,
+          paddingBottom: Math.max(insets.bottom, 8),
+          height: 64 + Math.max(insets.bottom, 8),
+          paddingTop: 4,
+        },
+        headerShown: false,
+      })}
+    >
+      <DeliveryTab.Screen 
+        name="Deliveries" 
+        component={DeliveryOrdersScreen} 
+        options={{ tabBarLabel: 'Deliveries' }}
+      />
+      <DeliveryTab.Screen 
+        name="Profile" 
+        component={ProfileNavigator} 
+        options={{ tabBarLabel: 'Profile' }}
+      />
+    </DeliveryTab.Navigator>
+  );
+}
+
 // Main Tab Navigator
 function MainNavigator() {
   const { isAuthenticated, user } = useSelector((state: RootState) => state.auth) as any;
   const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
   
-  // Check if user is a store owner
-  const isStoreOwner = user?.role === UserRole.STORE_OWNER;
-  
-  // If user is a store owner, show store owner navigation
-  if (isStoreOwner) {
-    return <StoreOwnerNavigator />;
+  // Each role's landing navigator comes from the central role map
+  switch (navigatorFor(user)) {
+    case 'store_owner':
+      return <StoreOwnerNavigator />;
+    case 'store_staff':
+      return <StoreStaffNavigator />;
+    case 'delivery':
+      return <DeliveryNavigator />;
   }
 
   return (
@@ -473,11 +651,11 @@ function MainNavigator() {
 
           return <Ionicons name={iconName} size={size} color={color} />;
         },
-        tabBarActiveTintColor: '#8B4513',
-        tabBarInactiveTintColor: '#8B7355',
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textSecondary,
         tabBarStyle: {
-          backgroundColor: '#FFFFFF',
-          borderTopColor: '#E8E2DD',
+          backgroundColor: colors.surface,
+          borderTopColor: colors.border,
           paddingBottom: Math.max(insets.bottom, 8),
           height: 64 + Math.max(insets.bottom, 8),
           paddingTop: 4,
@@ -523,8 +701,33 @@ function MainNavigator() {
 
 // Root Navigator
 export default function AppNavigator() {
+  const { theme } = useTheme();
+  const suspension = useSelector((state: RootState) => state.auth.suspension);
+
+  // Screen and card backgrounds behind the app's own screens follow the theme too
+  const navigationTheme = useMemo(() => {
+    const base = theme.isDark ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: theme.colors.primary,
+        background: theme.colors.background,
+        card: theme.colors.surface,
+        text: theme.colors.text,
+        border: theme.colors.border,
+        notification: theme.colors.danger,
+      },
+    };
+  }, [theme]);
+
+  // A suspended account is turned away before reaching any navigator
+  if (suspension) {
+    return <AccountSuspendedScreen />;
+  }
+
   return (
-    <NavigationContainer>
+    <NavigationContainer theme={navigationTheme}>
       <Stack.Navigator screenOptions={{ headerShown: false }}>
         <Stack.Screen name="Main" component={MainNavigator} />
         <Stack.Screen name="Auth" component={AuthNavigator} />
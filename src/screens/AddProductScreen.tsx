@@ -33,6 +33,7 @@ interface ProductForm {
   category: ListingCategory | '';
   type: ListingType;
   stock: string;
+  barcode: string;
   images: string[];
   condition: string;
   tags: string[];
@@ -48,6 +49,7 @@ const AddProductScreen: React.FC = () => {
     category: '',
     type: ListingType.SELL,
     stock: '',
+    barcode: '',
     images: [],
     condition: 'New',
     tags: [],
@@ -144,6 +146,7 @@ const AddProductScreen: React.FC = () => {
         category: productForm.category as any,
         type: productForm.type,
         stock: productForm.type === ListingType.SELL ? parseInt(productForm.stock) : undefined,
+        ...(productForm.barcode.trim() && { barcode: productForm.barcode.trim() }),
         imageUrl: productForm.images[0], // Primary image
         imageBase64: productForm.images[0], // For now, using the same as imageUrl
         condition: productForm.condition as any,
@@ -151,13 +154,6 @@ const AddProductScreen: React.FC = () => {
         sellerName: user?.storeName || user?.name || 'Store Owner',
         storeId: user?.storeId || '',
         postedDate: new Date().toISOString(),
-        // Generate search keywords for better searchability
-        searchKeywords: [
-          ...(productForm.title?.toLowerCase() || '').split(' '),
-          ...(productForm.description?.toLowerCase() || '').split(' '),
-          (productForm.category?.toLowerCase() || ''),
-          ...(productForm.tags?.map(tag => tag?.toLowerCase()) || []),
-        ].filter(keyword => keyword && keyword.length > 2),
       };
 
       const resultAction = await dispatch(addStoreProduct(productData));
@@ -370,6 +366,21 @@ const AddProductScreen: React.FC = () => {
               />
             </View>
           </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Barcode</Text>
+            <TextInput
+              style={styles.textInput}
+              value={productForm.barcode}
+              onChangeText={(text) => setProductForm(prev => ({ ...prev, barcode: text }))}
+              placeholder="Optional, used for point of sale scanning"
+              placeholderTextColor="#8B7355"
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={() => Keyboard.dismiss()}
+            />
+          </View>
         </View>
 
         {/* Category and Type */}
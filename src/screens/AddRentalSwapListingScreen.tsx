@@ -35,6 +35,7 @@ import {
 import { collection, addDoc, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import LocationService from '../services/LocationService';
+import SearchKeywordService from '../services/SearchKeywordService';
 import LocationPicker from '../components/LocationPicker';
 
 interface ListingForm {
@@ -55,7 +56,6 @@ interface ListingForm {
   securityDeposit: string;
   // Swap specific
   swapPreferences: string[];
-  swapValue: string;
   // Property specific
   houseDetails: HouseDetails;
   carDetails: CarDetails;
@@ -93,7 +93,6 @@ const AddRentalSwapListingScreen: React.FC = () => {
     minimumRentalPeriod: '1',
     securityDeposit: '',
     swapPreferences: [],
-    swapValue: '',
     houseDetails: {
       bedrooms: undefined,
       bathrooms: undefined,
@@ -139,6 +138,21 @@ const AddRentalSwapListingScreen: React.FC = () => {
     { key: PropertyType.OTHER, label: 'Other', icon: 'ellipsis-horizontal' },
   ];
 
+  // What a swap can be asked for in return: any property type, plus categories without one
+  const swapPreferenceOptions = [
+    ...propertyTypes.map(p => p.label),
+    ...categories.map(c => c.label).filter(label => !propertyTypes.some(p => p.label === label)),
+  ];
+
+  const toggleSwapPreference = (preference: string) => {
+    setListingForm(prev => ({
+      ...prev,
+      swapPreferences: prev.swapPreferences.includes(preference)
+        ? prev.swapPreferences.filter(p => p !== preference)
+        : [...prev.swapPreferences, preference],
+    }));
+  };
+
   const handleImagePicker = async () => {
     if (listingForm.images.length >= 8) {
       Alert.alert('Limit Reached', 'You can add up to 8 images');
@@ -238,7 +252,7 @@ const AddRentalSwapListingScreen: React.FC = () => {
         // Swap specific fields
         ...(listingForm.type === ListingType.SWAP && {
           swapPreferences: listingForm.swapPreferences,
-          swapValue: parseFloat(listingForm.swapValue) || 0,
+          swapValue: parseFloat(listingForm.price) || 0, // the estimated value field
         }),
         // Property specific details
         ...(listingForm.propertyType === PropertyType.HOUSE && {
@@ -249,7 +263,10 @@ const AddRentalSwapListingScreen: React.FC = () => {
         }),
       };
 
-      await addDoc(collection(db, 'listings'), listingData);
+      await addDoc(collection(db, 'listings'), {
+        ...listingData,
+        searchKeywords: SearchKeywordService.generateListingKeywords(listingData),
+      });
       
       Alert.alert('Success', 
         `${listingForm.type === ListingType.RENT ? 'Rental' : 'Swap'} listing created successfully!`,
@@ -532,6 +549,32 @@ const AddRentalSwapListingScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Swap Preferences */}
+        {listingType === 'swap' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Looking For</Text>
+            <Text style={styles.sectionSubtitle}>
+              Pick what you'd take in exchange so we can suggest matching swaps
+            </Text>
+            <View style={styles.preferenceChips}>
+              {swapPreferenceOptions.map(option => {
+                const isSelected = listingForm.swapPreferences.includes(option);
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.preferenceChip, isSelected && styles.preferenceChipSelected]}
+                    onPress={() => toggleSwapPreference(option)}
+                  >
+                    <Text style={[styles.preferenceChipText, isSelected && styles.preferenceChipTextSelected]}>
+                      {option}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Location */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Location *</Text>
@@ -722,6 +765,18 @@ const styles = StyleSheet.create({
     marginBottom: 16,
   },
   selectorText: { fontSize: 16, color: '#2D1810' },
+  preferenceChips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  preferenceChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    backgroundColor: '#F7F3F0',
+  },
+  preferenceChipSelected: { backgroundColor: '#8B4513', borderColor: '#8B4513' },
+  preferenceChipText: { fontSize: 14, color: '#2D1810' },
+  preferenceChipTextSelected: { color: '#FFFFFF', fontWeight: '600' },
   placeholderText: { fontSize: 16, color: '#8B7355' },
   imageItem: { position: 'relative', marginRight: 12 },
   image: { width: 80, height: 80, borderRadius: 8 },
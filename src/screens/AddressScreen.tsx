@@ -10,63 +10,50 @@ import {
   TextInput,
   Alert,
   Modal,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { useSelector } from 'react-redux';
-import { RootState } from '../store';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import {
+  fetchAddresses,
+  saveAddress,
+  deleteAddress,
+  setDefaultAddress,
+} from '../store/slices/addressesSlice';
 import LocationService, { LocationData } from '../services/LocationService';
-
-interface Address {
-  id: string;
-  label: string;
-  fullAddress: string;
-  city: string;
-  phone: string;
-  isDefault: boolean;
-  latitude?: number;
-  longitude?: number;
-}
+import { Address } from '../types';
 
 const AddressScreen: React.FC = () => {
   const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth) as any;
-  
-  const [addresses, setAddresses] = useState<Address[]>([
-    {
-      id: '1',
-      label: 'Home',
-      fullAddress: '123 Main Street, Apartment 4B',
-      city: 'Lusaka',
-      phone: '+260 97 123 4567',
-      isDefault: true,
-    },
-    {
-      id: '2',
-      label: 'University',
-      fullAddress: 'University of Zambia, Student Hostel Block A',
-      city: 'Lusaka',
-      phone: '+260 97 123 4567',
-      isDefault: false,
-    },
-  ]);
+  const { items: addresses, isLoading, isSaving } = useSelector((state: RootState) => state.addresses);
   
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingAddress, setEditingAddress] = useState<Address | null>(null);
   const [newAddress, setNewAddress] = useState({
-    label: '',
-    fullAddress: '',
+    name: '',
+    street: '',
     city: '',
     phone: '',
   });
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
   const [locationLoading, setLocationLoading] = useState(false);
 
+  useEffect(() => {
+    if (user?.uid) {
+      dispatch(fetchAddresses(user.uid));
+    }
+  }, [dispatch, user?.uid]);
+
   const handleAddAddress = () => {
     setEditingAddress(null);
+    setCurrentLocation(null);
     setNewAddress({
-      label: '',
-      fullAddress: '',
+      name: '',
+      street: '',
       city: '',
       phone: user?.phone || '',
     });
@@ -75,42 +62,49 @@ const AddressScreen: React.FC = () => {
 
   const handleEditAddress = (address: Address) => {
     setEditingAddress(address);
+    setCurrentLocation(null);
     setNewAddress({
-      label: address.label,
-      fullAddress: address.fullAddress,
+      name: address.name || '',
+      street: address.street,
       city: address.city,
-      phone: address.phone,
+      phone: address.phone || '',
     });
     setShowAddModal(true);
   };
 
-  const handleSaveAddress = () => {
-    if (!newAddress.label.trim() || !newAddress.fullAddress.trim() || !newAddress.city.trim()) {
+  const handleSaveAddress = async () => {
+    if (!newAddress.name.trim() || !newAddress.street.trim() || !newAddress.city.trim()) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
+    if (!user?.uid) {
+      Alert.alert('Error', 'Please log in to save addresses');
+      return;
+    }
+
+    try {
+      await dispatch(saveAddress({
+        userId: user.uid,
+        address: {
+          id: editingAddress?.id,
+          name: newAddress.name.trim(),
+          street: newAddress.street.trim(),
+          city: newAddress.city.trim(),
+          phone: newAddress.phone.trim(),
+          postalCode: editingAddress?.postalCode || '',
+          country: currentLocation?.country || editingAddress?.country || 'Zambia',
+          // A fresh GPS fix replaces the pin; otherwise an edit keeps the old one
+          lat: currentLocation?.latitude ?? editingAddress?.lat,
+          lng: currentLocation?.longitude ?? editingAddress?.lng,
+          label: currentLocation ? currentLocation.address : editingAddress?.label,
+        },
+      })).unwrap();
 
-    if (editingAddress) {
-      // Update existing address
-      setAddresses(addresses.map(addr => 
-        addr.id === editingAddress.id 
-          ? { ...addr, ...newAddress }
-          : addr
-      ));
-    } else {
-      // Add new address
-      const newAddr: Address = {
-        id: Date.now().toString(),
-        ...newAddress,
-        isDefault: addresses.length === 0,
-        latitude: currentLocation?.latitude,
-        longitude: currentLocation?.longitude,
-      };
-      setAddresses([...addresses, newAddr]);
+      setShowAddModal(false);
+      setCurrentLocation(null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save address. Please try again.');
     }
-    
-    setShowAddModal(false);
-    setCurrentLocation(null);
   };
 
   const handleDeleteAddress = (addressId: string) => {
@@ -122,27 +116,24 @@ const AddressScreen: React.FC = () => {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            const addressToDelete = addresses.find(addr => addr.id === addressId);
-            let updatedAddresses = addresses.filter(addr => addr.id !== addressId);
-            
-            // If deleted address was default and there are other addresses, make the first one default
-            if (addressToDelete?.isDefault && updatedAddresses.length > 0) {
-              updatedAddresses[0].isDefault = true;
+          onPress: async () => {
+            try {
+              await dispatch(deleteAddress({ userId: user.uid, addressId })).unwrap();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete address. Please try again.');
             }
-            
-            setAddresses(updatedAddresses);
           },
         },
       ]
     );
   };
 
-  const handleSetDefault = (addressId: string) => {
-    setAddresses(addresses.map(addr => ({
-      ...addr,
-      isDefault: addr.id === addressId,
-    })));
+  const handleSetDefault = async (addressId: string) => {
+    try {
+      await dispatch(setDefaultAddress({ userId: user.uid, addressId })).unwrap();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update default address. Please try again.');
+    }
   };
 
   const handleUseCurrentLocation = async () => {
@@ -153,7 +144,7 @@ const AddressScreen: React.FC = () => {
         setCurrentLocation(location);
         setNewAddress(prev => ({
           ...prev,
-          fullAddress: location.address || prev.fullAddress,
+          street: location.address || prev.street,
           city: location.city || prev.city,
         }));
         Alert.alert('Success', 'Location filled automatically!');
@@ -172,7 +163,7 @@ const AddressScreen: React.FC = () => {
     <View key={address.id} style={styles.addressCard}>
       <View style={styles.addressHeader}>
         <View style={styles.addressLabelContainer}>
-          <Text style={styles.addressLabel}>{address.label}</Text>
+          <Text style={styles.addressLabel}>{address.name || address.city}</Text>
           {address.isDefault && (
             <View style={styles.defaultBadge}>
               <Text style={styles.defaultBadgeText}>Default</Text>
@@ -190,30 +181,40 @@ const AddressScreen: React.FC = () => {
       <View style={styles.addressDetails}>
         <View style={styles.addressRow}>
           <Ionicons name="location-outline" size={16} color="#8B7355" />
-          <Text style={styles.addressText}>{address.fullAddress}</Text>
+          <Text style={styles.addressText}>{address.street}</Text>
         </View>
         <View style={styles.addressRow}>
           <Ionicons name="business-outline" size={16} color="#8B7355" />
           <Text style={styles.addressText}>{address.city}</Text>
         </View>
-        <View style={styles.addressRow}>
-          <Ionicons name="call-outline" size={16} color="#8B7355" />
-          <Text style={styles.addressText}>{address.phone}</Text>
-        </View>
+        {!!address.phone && (
+          <View style={styles.addressRow}>
+            <Ionicons name="call-outline" size={16} color="#8B7355" />
+            <Text style={styles.addressText}>{address.phone}</Text>
+          </View>
+        )}
+        {address.lat != null && address.lng != null && (
+          <View style={styles.addressRow}>
+            <Ionicons name="navigate-outline" size={16} color="#27AE60" />
+            <Text style={[styles.addressText, styles.pinnedText]}>Pinned on map</Text>
+          </View>
+        )}
       </View>
       
       <View style={styles.addressActions}>
         {!address.isDefault && (
           <TouchableOpacity 
             style={styles.actionButton}
-            onPress={() => handleSetDefault(address.id)}
+            onPress={() => handleSetDefault(address.id!)}
+            disabled={isSaving}
           >
             <Text style={styles.actionButtonText}>Set as Default</Text>
           </TouchableOpacity>
         )}
         <TouchableOpacity 
           style={[styles.actionButton, styles.deleteButton]}
-          onPress={() => handleDeleteAddress(address.id)}
+          onPress={() => handleDeleteAddress(address.id!)}
+          disabled={isSaving}
         >
           <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Delete</Text>
         </TouchableOpacity>
@@ -236,8 +237,12 @@ const AddressScreen: React.FC = () => {
           <Text style={styles.modalTitle}>
             {editingAddress ? 'Edit Address' : 'Add Address'}
           </Text>
-          <TouchableOpacity onPress={handleSaveAddress}>
-            <Text style={styles.modalSaveText}>Save</Text>
+          <TouchableOpacity onPress={handleSaveAddress} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#8B4513" />
+            ) : (
+              <Text style={styles.modalSaveText}>Save</Text>
+            )}
           </TouchableOpacity>
         </View>
         
@@ -246,8 +251,8 @@ const AddressScreen: React.FC = () => {
             <Text style={styles.inputLabel}>Label *</Text>
             <TextInput
               style={styles.textInput}
-              value={newAddress.label}
-              onChangeText={(text) => setNewAddress(prev => ({ ...prev, label: text }))}
+              value={newAddress.name}
+              onChangeText={(text) => setNewAddress(prev => ({ ...prev, name: text }))}
               placeholder="e.g. Home, Office, University"
               placeholderTextColor="#8B7355"
             />
@@ -273,13 +278,18 @@ const AddressScreen: React.FC = () => {
             </View>
             <TextInput
               style={[styles.textInput, styles.textArea]}
-              value={newAddress.fullAddress}
-              onChangeText={(text) => setNewAddress(prev => ({ ...prev, fullAddress: text }))}
+              value={newAddress.street}
+              onChangeText={(text) => setNewAddress(prev => ({ ...prev, street: text }))}
               placeholder="Enter full address with street, apartment/house number"
               placeholderTextColor="#8B7355"
               multiline
               numberOfLines={3}
             />
+            {currentLocation ? (
+              <Text style={styles.locationHint}>Your current location will be saved as the delivery pin</Text>
+            ) : editingAddress?.lat != null ? (
+              <Text style={styles.locationHint}>Tap "Use Current" to move the delivery pin here</Text>
+            ) : null}
           </View>
           
           <View style={styles.inputGroup}>
@@ -331,7 +341,11 @@ const AddressScreen: React.FC = () => {
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
-        {addresses.length === 0 ? (
+        {isLoading && addresses.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color="#8B4513" />
+          </View>
+        ) : addresses.length === 0 ? (
           <View style={styles.emptyState}>
             <Ionicons name="location-outline" size={64} color="#D2B48C" />
             <Text style={styles.emptyTitle}>No Addresses</Text>
@@ -475,6 +489,9 @@ const styles = StyleSheet.create({
     color: '#8B4513',
     fontWeight: '500',
   },
+  pinnedText: {
+    color: '#27AE60',
+  },
   deleteButton: {
     borderColor: '#DC2626',
   },
@@ -575,6 +592,11 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
+  locationHint: {
+    fontSize: 12,
+    color: '#8B7355',
+    marginTop: 6,
+  },
   locationButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,8 +1,8 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   Text,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   StyleSheet,
   Image,
@@ -10,7 +10,7 @@ import {
   StatusBar,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { AppDispatch, RootState } from '../store';
 import {
@@ -19,18 +19,41 @@ import {
   clearCart,
   incrementQuantity,
   decrementQuantity,
+  groupCartItemsByStore,
+  CartStoreGroup,
+  validateCart,
+  dismissCartIssues,
 } from '../store/slices/cartSlice';
+import CartSyncService from '../services/CartSyncService';
 import { CartItem } from '../types';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
 
 type CartScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Cart'>;
 
 const CartScreen: React.FC = () => {
+  const { theme, colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<CartScreenNavigationProp>();
-  const { items, totalAmount, totalItems } = useSelector((state: RootState) => state.cart) as any;
+  const { items, totalAmount, totalItems, issues } = useSelector((state: RootState) => state.cart);
   const { user } = useSelector((state: RootState) => state.auth);
+  const unavailableCount = items.filter(item => item.unavailable).length;
+
+  // Check prices and stock every time the cart is opened
+  useFocusEffect(
+    useCallback(() => {
+      if (items.length > 0) {
+        dispatch(validateCart());
+      }
+    }, [dispatch])
+  );
+
+  // Each store's items become a separate order at checkout
+  const storeGroups = groupCartItemsByStore(items);
+  const sections = storeGroups.map(group => ({ ...group, data: group.items }));
 
   const handleRemoveItem = (itemId: string) => {
     Alert.alert(
@@ -88,11 +111,19 @@ const CartScreen: React.FC = () => {
       return;
     }
 
+    if (unavailableCount > 0) {
+      Alert.alert(
+        'Unavailable Items',
+        'Some items in your cart are no longer available. Please remove them before checkout.'
+      );
+      return;
+    }
+
     navigation.navigate('Checkout');
   };
 
   const renderCartItem = ({ item }: { item: CartItem }) => (
-    <View style={styles.cartItem}>
+    <View style={[styles.cartItem, item.unavailable && styles.cartItemUnavailable]}>
       <Image
         source={{
           uri: item.listing.imageBase64
@@ -112,6 +143,9 @@ const CartScreen: React.FC = () => {
         {item.listing.condition && (
           <Text style={styles.itemCondition}>{item.listing.condition}</Text>
         )}
+        {item.unavailable && (
+          <Text style={styles.unavailableText}>No longer available</Text>
+        )}
       </View>
 
       <View style={styles.itemActions}>
@@ -127,7 +161,7 @@ const CartScreen: React.FC = () => {
             style={styles.quantityButton}
             onPress={() => dispatch(decrementQuantity(item.id))}
           >
-            <Ionicons name="remove" size={16} color="#8B4513" />
+            <Ionicons name="remove" size={16} color={colors.primary} />
           </TouchableOpacity>
           
           <Text style={styles.quantityText}>{item.quantity}</Text>
@@ -136,7 +170,7 @@ const CartScreen: React.FC = () => {
             style={styles.quantityButton}
             onPress={() => dispatch(incrementQuantity(item.id))}
           >
-            <Ionicons name="add" size={16} color="#8B4513" />
+            <Ionicons name="add" size={16} color={colors.primary} />
           </TouchableOpacity>
         </View>
 
@@ -144,15 +178,27 @@ const CartScreen: React.FC = () => {
           style={styles.removeButton}
           onPress={() => handleRemoveItem(item.id)}
         >
-          <Ionicons name="trash-outline" size={18} color="#E74C3C" />
+          <Ionicons name="trash-outline" size={18} color={colors.error} />
         </TouchableOpacity>
       </View>
     </View>
   );
 
+  const renderStoreHeader = ({ section }: { section: CartStoreGroup }) => (
+    <View style={styles.storeHeader}>
+      <View style={styles.storeHeaderInfo}>
+        <Ionicons name="storefront-outline" size={18} color={colors.primary} />
+        <Text style={styles.storeHeaderName} numberOfLines={1}>{section.sellerName}</Text>
+      </View>
+      <Text style={styles.storeHeaderSubtotal}>
+        {section.itemCount} item{section.itemCount !== 1 ? 's' : ''} • K{section.subtotal.toFixed(2)}
+      </Text>
+    </View>
+  );
+
   const renderEmptyCart = () => (
     <View style={styles.emptyContainer}>
-      <Ionicons name="cart-outline" size={80} color="#ccc" />
+      <Ionicons name="cart-outline" size={80} color={colors.textMuted} />
       <Text style={styles.emptyTitle}>Your cart is empty</Text>
       <Text style={styles.emptySubtitle}>
         Add some items to your cart and they will appear here
@@ -169,7 +215,7 @@ const CartScreen: React.FC = () => {
   if (items.length === 0) {
     return (
       <View style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.surface} />
         {renderEmptyCart()}
       </View>
     );
@@ -177,7 +223,7 @@ const CartScreen: React.FC = () => {
 
   return (
     <View style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.surface} />
       
       {/* Clear All Button */}
       {items.length > 0 && (
@@ -188,11 +234,32 @@ const CartScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Changes found since the items were added */}
+      {issues.length > 0 && (
+        <View style={styles.issuesBanner}>
+          <View style={styles.issuesContent}>
+            <Ionicons name="alert-circle-outline" size={20} color={colors.primary} />
+            <View style={styles.issuesTextContainer}>
+              {issues.map(issue => (
+                <Text key={`${issue.itemId}-${issue.kind}`} style={styles.issueText}>
+                  {CartSyncService.describeIssue(issue)}
+                </Text>
+              ))}
+            </View>
+          </View>
+          <TouchableOpacity onPress={() => dispatch(dismissCartIssues())}>
+            <Ionicons name="close" size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Cart Items */}
-      <FlatList
-        data={items}
+      <SectionList
+        sections={sections}
         renderItem={renderCartItem}
+        renderSectionHeader={renderStoreHeader}
         keyExtractor={(item) => item.id}
+        stickySectionHeadersEnabled={false}
         style={styles.cartList}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.listContainer}
@@ -210,6 +277,12 @@ const CartScreen: React.FC = () => {
           <Text style={styles.summaryValue}>Calculated at checkout</Text>
         </View>
 
+        {storeGroups.length > 1 && (
+          <Text style={styles.splitNotice}>
+            Your items come from {storeGroups.length} stores, so you'll get a separate order from each
+          </Text>
+        )}
+
         <View style={styles.divider} />
 
         <View style={styles.summaryRow}>
@@ -218,17 +291,17 @@ const CartScreen: React.FC = () => {
         </View>
 
         <TouchableOpacity
-          style={styles.checkoutButton}
+          style={[styles.checkoutButton, unavailableCount > 0 && styles.checkoutButtonDisabled]}
           onPress={handleCheckout}
         >
           <Text style={styles.checkoutButtonText}>
             Proceed to Checkout
           </Text>
-          <Ionicons name="arrow-forward" size={20} color="white" />
+          <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
         </TouchableOpacity>
 
         <View style={styles.secureCheckout}>
-          <Ionicons name="shield-checkmark" size={16} color="#27AE60" />
+          <Ionicons name="shield-checkmark" size={16} color={colors.success} />
           <Text style={styles.secureText}>Secure Checkout</Text>
         </View>
       </View>
@@ -236,79 +309,136 @@ const CartScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   actionContainer: {
-    backgroundColor: '#FFFFFF',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
     borderBottomWidth: 1,
-    borderBottomColor: '#E8E2DD',
+    borderBottomColor: theme.colors.border,
     alignItems: 'flex-end',
   },
   clearAllButton: {
-    paddingHorizontal: 12,
+    paddingHorizontal: theme.spacing.md,
     paddingVertical: 6,
   },
   clearAllText: {
-    color: '#EF4444',
-    fontSize: 14,
-    fontWeight: '600',
+    color: theme.colors.danger,
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
   },
   cartList: {
     flex: 1,
   },
   listContainer: {
-    paddingBottom: 20,
+    paddingBottom: theme.spacing.xl,
+  },
+  storeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.xl,
+  },
+  storeHeaderInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  storeHeaderName: {
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginLeft: 6,
+  },
+  storeHeaderSubtotal: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.textSecondary,
   },
   cartItem: {
     flexDirection: 'row',
-    backgroundColor: '#FFFFFF',
-    marginHorizontal: 16,
-    marginTop: 12,
-    borderRadius: 12,
-    padding: 16,
-    shadowColor: '#000',
+    backgroundColor: theme.colors.surface,
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.md,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
     shadowRadius: 8,
     elevation: 3,
   },
+  cartItemUnavailable: {
+    opacity: 0.6,
+  },
+  unavailableText: {
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.error,
+    marginTop: theme.spacing.xs,
+  },
+  issuesBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: theme.colors.surfaceAlt,
+    borderColor: theme.colors.accent,
+    borderWidth: 1,
+    borderRadius: theme.radius.lg,
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.md,
+  },
+  issuesContent: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  issuesTextContainer: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+  issueText: {
+    fontSize: 13,
+    color: theme.colors.text,
+    marginBottom: 2,
+  },
   itemImage: {
     width: 80,
     height: 80,
-    borderRadius: 8,
-    marginRight: 12,
-    backgroundColor: '#F7F3F0',
+    borderRadius: theme.radius.md,
+    marginRight: theme.spacing.md,
+    backgroundColor: theme.colors.background,
   },
   itemDetails: {
     flex: 1,
     justifyContent: 'space-between',
   },
   itemTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginBottom: 4,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
   },
   itemSeller: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
     marginBottom: 2,
   },
   itemCategory: {
-    fontSize: 12,
-    color: '#8B4513',
-    fontWeight: '600',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
     marginBottom: 2,
   },
   itemCondition: {
-    fontSize: 12,
-    color: '#10B981',
-    fontWeight: '500',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.success,
+    fontWeight: theme.typography.weight.medium,
   },
   itemActions: {
     alignItems: 'flex-end',
@@ -319,34 +449,34 @@ const styles = StyleSheet.create({
     alignItems: 'flex-end',
   },
   itemPrice: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
   },
   totalPrice: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#2D1810',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
   },
   quantityContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#E8E2DD',
-    borderRadius: 8,
-    paddingHorizontal: 4,
+    backgroundColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.xs,
   },
   quantityButton: {
-    padding: 8,
+    padding: theme.spacing.sm,
   },
   quantityText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#2D1810',
-    marginHorizontal: 12,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+    marginHorizontal: theme.spacing.md,
     minWidth: 20,
     textAlign: 'center',
   },
   removeButton: {
-    padding: 4,
+    padding: theme.spacing.xs,
   },
   emptyContainer: {
     flex: 1,
@@ -355,93 +485,101 @@ const styles = StyleSheet.create({
     paddingHorizontal: 40,
   },
   emptyTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#2D1810',
-    marginTop: 20,
-    marginBottom: 8,
+    fontSize: theme.typography.size.xxl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.xl,
+    marginBottom: theme.spacing.sm,
   },
   emptySubtitle: {
-    fontSize: 16,
-    color: '#8B7355',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
     lineHeight: 24,
     marginBottom: 32,
   },
   continueShoppingButton: {
-    backgroundColor: '#8B4513',
-    borderRadius: 12,
-    paddingHorizontal: 24,
-    paddingVertical: 12,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.lg,
+    paddingHorizontal: theme.spacing.xxl,
+    paddingVertical: theme.spacing.md,
   },
   continueShoppingText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: '600',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
   },
   summaryContainer: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderTopWidth: 1,
-    borderTopColor: '#E8E2DD',
-    paddingHorizontal: 20,
-    paddingVertical: 20,
+    borderTopColor: theme.colors.border,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.xl,
   },
   summaryRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 12,
+    marginBottom: theme.spacing.md,
   },
   summaryLabel: {
-    fontSize: 16,
-    color: '#8B7355',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
   },
   summaryValue: {
-    fontSize: 16,
-    color: '#2D1810',
-    fontWeight: '500',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.weight.medium,
+  },
+  splitNotice: {
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
   },
   divider: {
     height: 1,
-    backgroundColor: '#E8E2DD',
-    marginVertical: 12,
+    backgroundColor: theme.colors.border,
+    marginVertical: theme.spacing.md,
   },
   totalLabel: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#2D1810',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
   },
   totalValue: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#8B4513',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.primary,
   },
   checkoutButton: {
-    backgroundColor: '#8B4513',
-    borderRadius: 12,
-    paddingVertical: 16,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.lg,
+    paddingVertical: theme.spacing.lg,
     flexDirection: 'row',
     justifyContent: 'center',
     alignItems: 'center',
-    marginTop: 20,
+    marginTop: theme.spacing.xl,
+  },
+  checkoutButtonDisabled: {
+    backgroundColor: theme.colors.accent,
   },
   checkoutButtonText: {
-    color: 'white',
-    fontSize: 18,
-    fontWeight: '600',
-    marginRight: 8,
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.semibold,
+    marginRight: theme.spacing.sm,
   },
   secureCheckout: {
     flexDirection: 'row',
     justifyContent: 'center',
     alignItems: 'center',
-    marginTop: 12,
+    marginTop: theme.spacing.md,
   },
   secureText: {
-    color: '#27AE60',
-    fontSize: 12,
-    fontWeight: '500',
-    marginLeft: 4,
+    color: theme.colors.success,
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.medium,
+    marginLeft: theme.spacing.xs,
   },
 });
 
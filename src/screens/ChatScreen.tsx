@@ -22,6 +22,8 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { safeFormatRelativeTime } from '../utils/textUtils';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
 
 type ChatScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -35,6 +37,8 @@ interface ConversationPreview {
 }
 
 const ChatScreen: React.FC = () => {
+  const { theme, colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<ChatScreenNavigationProp>();
   const insets = useSafeAreaInsets();
@@ -231,16 +235,16 @@ const ChatScreen: React.FC = () => {
         </Text>
       </View>
       
-      <Ionicons name="chevron-forward" size={20} color="#8B7355" />
+      <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
     </TouchableOpacity>
   );
 
   if (!user) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.surface} />
         <View style={styles.emptyState}>
-          <Ionicons name="log-in-outline" size={64} color="#D2B48C" />
+          <Ionicons name="log-in-outline" size={64} color={colors.accent} />
           <Text style={styles.emptyTitle}>Login Required</Text>
           <Text style={styles.emptyText}>
             Please login to view your conversations
@@ -254,7 +258,7 @@ const ChatScreen: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.surface} />
       
       {/* Header */}
       <View style={styles.header}>
@@ -268,19 +272,19 @@ const ChatScreen: React.FC = () => {
             </View>
           )}
           <TouchableOpacity style={styles.refreshButton} onPress={onRefresh}>
-            <Ionicons name="refresh" size={24} color="#8B4513" />
+            <Ionicons name="refresh" size={24} color={colors.primary} />
           </TouchableOpacity>
         </View>
       </View>
 
       {initialLoading && isLoading ? (
         <View style={styles.loadingState}>
-          <ActivityIndicator size="large" color="#8B4513" />
+          <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Loading conversations...</Text>
         </View>
       ) : conversationPreviews.length === 0 ? (
         <View style={styles.emptyState}>
-          <Ionicons name="chatbubbles-outline" size={64} color="#D2B48C" />
+          <Ionicons name="chatbubbles-outline" size={64} color={colors.accent} />
           <Text style={styles.emptyTitle}>No Conversations</Text>
           <Text style={styles.emptyText}>
             Start chatting with sellers and buyers.{"\n"}
@@ -303,45 +307,45 @@ const ChatScreen: React.FC = () => {
             <RefreshControl
               refreshing={refreshing}
               onRefresh={onRefresh}
-              colors={['#8B4513']}
-              tintColor="#8B4513"
+              colors={[colors.primary]}
+              tintColor={colors.primary}
             />
           }
           showsVerticalScrollIndicator={false}
-          ItemSeparatorComponent={() => <View style={{ height: 1, backgroundColor: '#E8E2DD' }} />}
+          ItemSeparatorComponent={() => <View style={{ height: 1, backgroundColor: colors.border }} />}
         />
       )}
     </SafeAreaView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    backgroundColor: '#FFFFFF',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
     borderBottomWidth: 1,
-    borderBottomColor: '#E8E2DD',
+    borderBottomColor: theme.colors.border,
   },
   headerTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
   },
   headerActions: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 8,
+    gap: theme.spacing.sm,
   },
   headerUnreadBadge: {
-    backgroundColor: '#DC2626',
+    backgroundColor: theme.colors.danger,
     borderRadius: 10,
     minWidth: 20,
     height: 20,
@@ -349,12 +353,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   headerUnreadText: {
-    color: '#FFFFFF',
-    fontSize: 12,
-    fontWeight: '700',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.bold,
   },
   refreshButton: {
-    padding: 4,
+    padding: theme.spacing.xs,
   },
   loadingState: {
     flex: 1,
@@ -363,9 +367,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 40,
   },
   loadingText: {
-    marginTop: 16,
-    fontSize: 16,
-    color: '#8B7355',
+    marginTop: theme.spacing.lg,
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
   },
   conversationsList: {
     flex: 1,
@@ -373,37 +377,37 @@ const styles = StyleSheet.create({
   conversationItem: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FFFFFF',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
   },
   avatarContainer: {
     position: 'relative',
-    marginRight: 12,
+    marginRight: theme.spacing.md,
   },
   avatar: {
     width: 50,
     height: 50,
     borderRadius: 25,
-    backgroundColor: '#F5F1ED',
+    backgroundColor: theme.colors.surfaceAlt,
   },
   unreadBadge: {
     position: 'absolute',
     top: -2,
     right: -2,
-    backgroundColor: '#DC2626',
+    backgroundColor: theme.colors.danger,
     borderRadius: 10,
     minWidth: 20,
     height: 20,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 2,
-    borderColor: '#FFFFFF',
+    borderColor: theme.colors.surface,
   },
   unreadText: {
-    color: '#FFFFFF',
-    fontSize: 12,
-    fontWeight: '700',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.bold,
   },
   conversationContent: {
     flex: 1,
@@ -412,33 +416,33 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 4,
+    marginBottom: theme.spacing.xs,
   },
   userName: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#2D1810',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
     flex: 1,
-    marginRight: 8,
+    marginRight: theme.spacing.sm,
   },
   timestamp: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
   },
   listingTitle: {
-    fontSize: 12,
-    color: '#8B4513',
-    fontWeight: '500',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.medium,
     marginBottom: 2,
   },
   lastMessage: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     lineHeight: 18,
   },
   unreadMessage: {
-    color: '#2D1810',
-    fontWeight: '500',
+    color: theme.colors.text,
+    fontWeight: theme.typography.weight.medium,
   },
   emptyState: {
     flex: 1,
@@ -447,29 +451,29 @@ const styles = StyleSheet.create({
     paddingHorizontal: 40,
   },
   emptyTitle: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginTop: 16,
-    marginBottom: 8,
+    fontSize: theme.typography.size.xl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
   },
   emptyText: {
-    fontSize: 16,
-    color: '#6B7280',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
     lineHeight: 22,
-    marginBottom: 24,
+    marginBottom: theme.spacing.xxl,
   },
   exploreButton: {
-    backgroundColor: '#8B4513',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: theme.spacing.xxl,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.radius.md,
   },
   exploreButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontWeight: '600',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
   },
 });
 
@@ -14,14 +14,22 @@ import { useDispatch, useSelector } from 'react-redux';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { AppDispatch, RootState } from '../store';
-import { clearCart } from '../store/slices/cartSlice';
-import { Order, OrderItem, OrderStatus } from '../types';
-import { addDoc, collection, Timestamp } from 'firebase/firestore';
+import { clearCart, validateCart, groupCartItemsByStore, CartStoreGroup } from '../store/slices/cartSlice';
+import { fetchAddresses } from '../store/slices/addressesSlice';
+import { Address, CartItem, DeliveryPartner, Order, OrderItem, OrderStatus, Promotion, Store } from '../types';
+import { collection, doc, runTransaction, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import LocationService, { LocationData } from '../services/LocationService';
 import NotificationService from '../services/NotificationService';
+import DeliveryPricingService, { DeliveryQuote } from '../services/DeliveryPricingService';
+import OrderQueryService from '../services/OrderQueryService';
+import InventoryService, { InsufficientStockError } from '../services/InventoryService';
+import CartSyncService from '../services/CartSyncService';
+import PromotionPricingService from '../services/PromotionPricingService';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
 
 type CheckoutScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Checkout'>;
 
@@ -32,6 +40,8 @@ interface DeliveryAddress {
 }
 
 const CheckoutScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [deliveryMethod, setDeliveryMethod] = useState<'pickup' | 'delivery'>('delivery');
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'mobile_money' | 'bank'>('cash');
   const [address, setAddress] = useState<DeliveryAddress>({
@@ -42,20 +52,148 @@ const CheckoutScreen: React.FC = () => {
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
   const [locationLoading, setLocationLoading] = useState(false);
+  // The saved address being delivered to, null while typing one in
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [hasPickedAddress, setHasPickedAddress] = useState(false);
+  const [groupStores, setGroupStores] = useState<{ [groupKey: string]: Store | null }>({});
+  const [deliveryPartners, setDeliveryPartners] = useState<DeliveryPartner[]>([]);
+  const [selectedQuoteKeys, setSelectedQuoteKeys] = useState<{ [groupKey: string]: string }>({});
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedPromotion, setAppliedPromotion] = useState<Promotion | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
 
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<CheckoutScreenNavigationProp>();
-  const { items, totalAmount } = useSelector((state: RootState) => state.cart) as any;
+  const { items: cartItems, totalAmount, isValidating } = useSelector((state: RootState) => state.cart);
   const { user } = useSelector((state: RootState) => state.auth);
+  const { items: savedAddresses, loadedForUserId } = useSelector((state: RootState) => state.addresses);
 
-  const deliveryFee = deliveryMethod === 'delivery' ? 5.00 : 0;
-  const finalTotal = totalAmount + deliveryFee;
+  // Unavailable items are left in the cart for the shopper to remove; they aren't ordered
+  const items: CartItem[] = cartItems.filter(item => !item.unavailable);
+
+  // Every store in the cart gets its own order, delivery fee and lifecycle
+  const storeGroups = groupCartItemsByStore(items);
+
+  const getQuoteKey = (quote: DeliveryQuote) => quote.partnerId || 'store';
+
+  const getGroupQuotes = (group: CartStoreGroup) => {
+    const store = groupStores[group.key] || null;
+    return DeliveryPricingService.quoteAll(store, deliveryPartners, {
+      storeLat: store?.lat,
+      storeLng: store?.lng,
+      dropLat: currentLocation?.latitude,
+      dropLng: currentLocation?.longitude,
+      itemSubtotal: group.subtotal,
+    });
+  };
+
+  const getSelectedQuote = (group: CartStoreGroup, quotes: DeliveryQuote[]) => {
+    if (deliveryMethod !== 'delivery') return null;
+    const selectedKey = selectedQuoteKeys[group.key] || 'store';
+    return quotes.find(quote => getQuoteKey(quote) === selectedKey) || quotes[0];
+  };
+
+  const groupCheckouts = storeGroups.map(group => {
+    const quotes = getGroupQuotes(group);
+    const selectedQuote = getSelectedQuote(group, quotes);
+    return { group, quotes, selectedQuote, deliveryFee: selectedQuote?.fee ?? 0 };
+  });
+
+  // Recomputed from the live cart so the discount follows price and quantity changes
+  const promotionQuote = appliedPromotion ? PromotionPricingService.computeDiscount(appliedPromotion, items) : null;
+  const discountAmount = promotionQuote?.discountAmount || 0;
+
+  const deliveryFee = groupCheckouts.reduce((sum, checkout) => sum + checkout.deliveryFee, 0);
+  const finalTotal = totalAmount - discountAmount + deliveryFee;
+  const lowestDeliveryFee = groupCheckouts.reduce(
+    (sum, checkout) => sum + Math.min(...checkout.quotes.map(quote => quote.fee)),
+    0
+  );
+  const hasDeliveryChoice = groupCheckouts.some(checkout => checkout.quotes.length > 1);
 
   // Load location on component mount
   useEffect(() => {
     loadCurrentLocation();
+    loadDeliveryOptions();
+    refreshCart();
   }, []);
 
+  useEffect(() => {
+    if (user?.uid && loadedForUserId !== user.uid) {
+      dispatch(fetchAddresses(user.uid));
+    }
+  }, [dispatch, user?.uid, loadedForUserId]);
+
+  // Start from the default address, unless the customer has already chosen or typed one
+  useEffect(() => {
+    if (hasPickedAddress || loadedForUserId !== user?.uid) return;
+    const defaultAddress = savedAddresses.find(saved => saved.isDefault);
+    if (defaultAddress) {
+      applySavedAddress(defaultAddress);
+    }
+  }, [savedAddresses, loadedForUserId]);
+
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      const promotion = await PromotionPricingService.redeemCode(promoCode, items);
+      setAppliedPromotion(promotion);
+    } catch (error: any) {
+      if (error?.name === 'PromoCodeError') {
+        setPromoError(error.message);
+      } else {
+        console.error('Error applying promo code:', error);
+        setPromoError('Could not check this code. Please try again.');
+      }
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromotion(null);
+    setPromoCode('');
+    setPromoError(null);
+  };
+
+  // Prices and stock may have moved since the items were added
+  const refreshCart = async () => {
+    try {
+      const { issues } = await dispatch(validateCart()).unwrap();
+      if (issues.length > 0) {
+        Alert.alert(
+          'Cart Updated',
+          `${issues.map(CartSyncService.describeIssue).join('\n')}\n\nPlease review your order before placing it.`
+        );
+      }
+    } catch (error) {
+      console.warn('Failed to re-check cart:', error);
+    }
+  };
+
+  const loadDeliveryOptions = async () => {
+    try {
+      const [stores, partners] = await Promise.all([
+        Promise.all(storeGroups.map(group => DeliveryPricingService.fetchStoreForListing(group.items[0].listing))),
+        DeliveryPricingService.fetchActivePartners(),
+      ]);
+
+      const storesByGroup: { [groupKey: string]: Store | null } = {};
+      storeGroups.forEach((group, index) => {
+        storesByGroup[group.key] = stores[index];
+      });
+
+      setGroupStores(storesByGroup);
+      setDeliveryPartners(partners);
+    } catch (error) {
+      console.error('Error loading delivery options:', error);
+    }
+  };
+
   const loadCurrentLocation = async () => {
     try {
       setLocationLoading(true);
@@ -77,7 +215,37 @@ const CheckoutScreen: React.FC = () => {
     }
   };
 
+  const applySavedAddress = (saved: Address) => {
+    setSelectedAddressId(saved.id || null);
+    setHasPickedAddress(true);
+    setAddress({
+      street: saved.street,
+      city: saved.city,
+      phone: saved.phone || user?.phone || '',
+    });
+    // Quote delivery to the saved pin; addresses without one keep the device location
+    if (saved.lat != null && saved.lng != null) {
+      setCurrentLocation({
+        latitude: saved.lat,
+        longitude: saved.lng,
+        address: saved.label || saved.street,
+        city: saved.city,
+        country: saved.country,
+      });
+    }
+  };
+
+  const handleEnterNewAddress = () => {
+    setSelectedAddressId(null);
+    setHasPickedAddress(true);
+    setAddress(prev => ({ street: '', city: '', phone: prev.phone || user?.phone || '' }));
+  };
+
   const handleAddressChange = (field: keyof DeliveryAddress, value: string) => {
+    setHasPickedAddress(true);
+    if (field !== 'phone') {
+      setSelectedAddressId(null);
+    }
     setAddress(prev => ({
       ...prev,
       [field]: value,
@@ -90,6 +258,8 @@ const CheckoutScreen: React.FC = () => {
       const location = await LocationService.getCurrentLocationWithAddress();
       if (location) {
         setCurrentLocation(location);
+        setSelectedAddressId(null);
+        setHasPickedAddress(true);
         setAddress(prev => ({
           ...prev,
           street: location.address || prev.street,
@@ -162,6 +332,18 @@ const CheckoutScreen: React.FC = () => {
   const handlePlaceOrder = async () => {
     if (!validateOrder()) return;
 
+    // The code may have expired while the customer was on this screen
+    if (appliedPromotion) {
+      try {
+        PromotionPricingService.assertUsable(appliedPromotion);
+      } catch (error: any) {
+        setAppliedPromotion(null);
+        setPromoError(error.message);
+        Alert.alert('Promo Code Removed', `${error.message}. Your total has been updated.`);
+        return;
+      }
+    }
+
     setIsPlacingOrder(true);
 
     try {
@@ -174,7 +356,7 @@ const CheckoutScreen: React.FC = () => {
       console.log('Cart items before processing:', JSON.stringify(items, null, 2));
       
       // Create order items
-      const orderItems: OrderItem[] = items.map((item: any, index: number) => {
+      const buildOrderItem = (item: any, index: number): OrderItem => {
         console.log(`Processing cart item ${index}:`, item);
         
         // Cart items should have a nested listing object based on CartItem type
@@ -197,111 +379,131 @@ const CheckoutScreen: React.FC = () => {
           title: listing.title || 'Unknown Item',
           priceAtPurchase: Number(listing.price) || 0,
           quantity: Number(item.quantity) || 1,
+          discountAmount: PromotionPricingService.lineDiscount(promotionQuote, listing.id),
           imageUrl: listing.imageUrl || (listing.imageBase64 ? `data:image/jpeg;base64,${listing.imageBase64}` : ''),
           sellerName: listing.sellerName || 'Unknown Seller',
         };
         
         console.log(`Processed order item ${index}:`, orderItem);
-        return orderItem;
-      });
+        return orderItem as OrderItem;
+      };
 
       // Prepare shipping address
       const shippingAddress = deliveryMethod === 'delivery' 
         ? `${address.street.trim()}, ${address.city.trim()}`
         : 'Pickup from store';
 
-      // Create order object with proper data types
-      const orderData = {
-        customerId: user!.uid,
-        storeId: orderItems[0]?.storeId || null,
-        items: orderItems,
-        totalAmount: Number(finalTotal),
-        itemSubtotal: Number(totalAmount),
-        deliveryCost: Number(deliveryFee),
-        status: OrderStatus.PENDING,
-        shippingAddress,
-        shippingLat: deliveryMethod === 'delivery' && currentLocation ? currentLocation.latitude : null,
-        shippingLng: deliveryMethod === 'delivery' && currentLocation ? currentLocation.longitude : null,
-        shippingLabel: shippingAddress,
-        contactPhone: address.phone?.trim() || user!.phone || '',
-        deliveryMethod,
-        partnerId: null,
-        deliveryPayee: deliveryMethod === 'delivery' ? 'store' : null,
-        storeRevenueAmount: Number(totalAmount + (deliveryMethod === 'delivery' ? deliveryFee : 0)),
-        partnerDeliveryAmount: deliveryMethod === 'delivery' ? Number(deliveryFee) : 0,
-        paymentMethod,
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      };
-      
-      // Validate order data before saving
-      console.log('Final order data:', JSON.stringify(orderData, null, 2));
-      
-      // Additional validation
-      if (!orderData.customerId) {
-        throw new Error('Customer ID is missing');
-      }
-      if (!orderData.items || orderData.items.length === 0) {
-        throw new Error('Order has no items');
-      }
-      if (isNaN(orderData.totalAmount) || orderData.totalAmount <= 0) {
-        throw new Error('Invalid order total amount');
-      }
+      // All orders from one checkout share a group id so the customer sees them together
+      const checkoutGroupRef = doc(collection(db, 'checkoutGroups'));
+      const placedOrders: { id: string; sellerId: string; orderItems: OrderItem[]; totalAmount: number; orderData: any }[] = [];
+
+      groupCheckouts.forEach(({ group, selectedQuote }) => {
+        const orderItems = group.items.map(buildOrderItem);
+        // Discounts come out of the store's share, since stores run their own promotions
+        const orderDiscount = PromotionPricingService.discountFor(promotionQuote, group.items);
+        const settlement = DeliveryPricingService.settle(selectedQuote, Number(group.subtotal) - orderDiscount);
+        const orderTotal = Number(group.subtotal) - orderDiscount + settlement.deliveryCost;
+
+        // Create order object with proper data types
+        const orderData = {
+          customerId: user!.uid,
+          storeId: group.storeId || null,
+          sellerIds: OrderQueryService.getSellerIds(orderItems),
+          checkoutGroupId: checkoutGroupRef.id,
+          items: orderItems,
+          totalAmount: Number(orderTotal),
+          itemSubtotal: Number(group.subtotal),
+          discountAmount: orderDiscount,
+          promotionId: orderDiscount > 0 ? promotionQuote?.promotionId || null : null,
+          discountCode: orderDiscount > 0 ? promotionQuote?.code || null : null,
+          deliveryCost: settlement.deliveryCost,
+          status: OrderStatus.PENDING,
+          shippingAddress,
+          shippingLat: deliveryMethod === 'delivery' && currentLocation ? currentLocation.latitude : null,
+          shippingLng: deliveryMethod === 'delivery' && currentLocation ? currentLocation.longitude : null,
+          shippingLabel: shippingAddress,
+          contactPhone: address.phone?.trim() || user!.phone || '',
+          deliveryMethod,
+          partnerId: settlement.partnerId || null,
+          deliveryPayee: settlement.deliveryPayee,
+          deliveryDistanceKm: selectedQuote?.distanceKm !== undefined
+            ? Math.round(selectedQuote.distanceKm * 10) / 10
+            : null,
+          storeRevenueAmount: settlement.storeRevenueAmount,
+          partnerDeliveryAmount: settlement.partnerDeliveryAmount,
+          paymentMethod,
+          stockReserved: true,
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        };
+        
+        // Validate order data before saving
+        console.log('Final order data:', JSON.stringify(orderData, null, 2));
+        
+        // Additional validation
+        if (!orderData.customerId) {
+          throw new Error('Customer ID is missing');
+        }
+        if (!orderData.items || orderData.items.length === 0) {
+          throw new Error('Order has no items');
+        }
+        // A full discount on a pickup order can bring the total to zero
+        if (isNaN(orderData.totalAmount) || orderData.totalAmount < 0) {
+          throw new Error('Invalid order total amount');
+        }
+
+        const orderRef = doc(collection(db, 'orders'));
+        placedOrders.push({ id: orderRef.id, sellerId: group.sellerId, orderItems, totalAmount: orderTotal, orderData });
+      });
+
+      // Reserve stock and save all orders in one transaction so a checkout never
+      // half-succeeds and two customers can't buy the same last item
+      console.log('Attempting to save', placedOrders.length, 'orders for checkout group:', checkoutGroupRef.id);
+      const stockUpdates = await runTransaction(db, async (transaction) => {
+        const updates = await InventoryService.reserveStock(
+          transaction,
+          placedOrders.flatMap(order => order.orderItems.map(item => ({
+            listingId: item.listingId,
+            title: item.title,
+            quantity: item.quantity,
+          })))
+        );
 
-      // Save order to Firestore
-      console.log('Attempting to save order:', orderData);
-      const docRef = await addDoc(collection(db, 'orders'), orderData);
-      console.log('Order saved successfully with ID:', docRef.id);
+        placedOrders.forEach(order => {
+          transaction.set(doc(db, 'orders', order.id), order.orderData);
+        });
+        transaction.set(checkoutGroupRef, {
+          customerId: user!.uid,
+          orderIds: placedOrders.map(order => order.id),
+          totalAmount: Number(finalTotal),
+          createdAt: Timestamp.now(),
+        });
+
+        return updates;
+      });
+      console.log('Orders saved successfully:', placedOrders.map(order => order.id));
 
-      // Send notification to store owner about new order
+      await InventoryService.notifyLowStock(stockUpdates);
+
+      // Send notification to each store owner about their order
       try {
-        // Get all unique store owners from order items
-        const storeOwnerIds = [...new Set(orderItems.map(item => item.sellerId).filter(Boolean))];
-        console.log('Found store owner IDs from order items:', storeOwnerIds);
-        console.log('Order items for debugging:', orderItems.map(item => ({
-          listingId: item.listingId,
-          sellerId: item.sellerId,
-          storeId: item.storeId,
-          title: item.title,
-          sellerName: item.sellerName
-        })));
+        const notificationService = NotificationService.getInstance();
         
-        if (storeOwnerIds.length === 0) {
-          console.warn('No store owner IDs found in order items');
-          console.log('Original cart items before processing:', items.map((item: any) => ({
-            id: item.id,
-            listing: {
-              id: item.listing?.id,
-              sellerId: item.listing?.sellerId,
-              storeId: item.listing?.storeId,
-              title: item.listing?.title,
-              sellerName: item.listing?.sellerName
-            }
-          })));
-        } else {
-          const notificationService = NotificationService.getInstance();
-          
-          // Send notification to each unique store owner
-          for (const storeOwnerId of storeOwnerIds) {
-            console.log('Sending new order notification to store owner:', storeOwnerId);
-            console.log('Order notification details:', {
-              orderId: docRef.id,
-              storeOwnerId,
-              customerId: user!.uid,
-              finalTotal,
-              itemCount: orderItems.filter(item => item.sellerId === storeOwnerId).length,
-              totalItemCount: orderItems.length
-            });
-            
-            await notificationService.notifyNewOrder(
-              docRef.id,
-              storeOwnerId,
-              user!.uid,
-              finalTotal,
-              orderItems.filter(item => item.sellerId === storeOwnerId).length
-            );
-            console.log('New order notification sent successfully to store owner:', storeOwnerId);
+        for (const placedOrder of placedOrders) {
+          if (!placedOrder.sellerId) {
+            console.warn('No store owner ID found for order:', placedOrder.id);
+            continue;
           }
+
+          console.log('Sending new order notification to store owner:', placedOrder.sellerId);
+          await notificationService.notifyNewOrder(
+            placedOrder.id,
+            placedOrder.sellerId,
+            user!.uid,
+            placedOrder.totalAmount,
+            placedOrder.orderItems.length
+          );
+          console.log('New order notification sent successfully to store owner:', placedOrder.sellerId);
         }
       } catch (notificationError) {
         console.error('Failed to send new order notification:', notificationError);
@@ -319,7 +521,9 @@ const CheckoutScreen: React.FC = () => {
       // Show success message
       Alert.alert(
         'Order Placed Successfully!',
-        `Your order #${docRef.id.slice(-6)} has been placed. You will receive updates on your order status.`,
+        placedOrders.length === 1
+          ? `Your order #${placedOrders[0].id.slice(-6)} has been placed. You will receive updates on your order status.`
+          : `Your items were split into ${placedOrders.length} orders, one per store. You will receive updates on each order's status.`,
         [
           {
             text: 'View Orders',
@@ -351,6 +555,11 @@ const CheckoutScreen: React.FC = () => {
         stack: error?.stack
       });
       
+      if (error instanceof InsufficientStockError) {
+        Alert.alert('Not Enough Stock', `${error.message}\n\nPlease update your cart and try again.`);
+        return;
+      }
+      
       let errorMessage = 'Failed to place order. Please try again.';
       
       if (error?.code === 'invalid-argument') {
@@ -382,6 +591,19 @@ const CheckoutScreen: React.FC = () => {
             </Text>
             <Text style={styles.summaryAmount}>K{totalAmount.toFixed(2)}</Text>
           </View>
+          {storeGroups.length > 1 && storeGroups.map(group => (
+            <View key={group.key} style={styles.storeSummaryRow}>
+              <Text style={styles.storeSummaryName} numberOfLines={1}>
+                {group.sellerName} ({group.itemCount})
+              </Text>
+              <Text style={styles.storeSummaryAmount}>K{group.subtotal.toFixed(2)}</Text>
+            </View>
+          ))}
+          {storeGroups.length > 1 && (
+            <Text style={styles.optionSubtitle}>
+              Each store sends its own order and delivery
+            </Text>
+          )}
         </View>
 
         {/* Delivery Method */}
@@ -396,7 +618,7 @@ const CheckoutScreen: React.FC = () => {
             onPress={() => setDeliveryMethod('pickup')}
           >
             <View style={styles.optionContent}>
-              <Ionicons name="walk-outline" size={24} color="#007AFF" />
+              <Ionicons name="walk-outline" size={24} color={colors.info} />
               <View style={styles.optionText}>
                 <Text style={styles.optionTitle}>Pickup</Text>
                 <Text style={styles.optionSubtitle}>Collect from store</Text>
@@ -413,16 +635,65 @@ const CheckoutScreen: React.FC = () => {
             onPress={() => setDeliveryMethod('delivery')}
           >
             <View style={styles.optionContent}>
-              <Ionicons name="bicycle-outline" size={24} color="#007AFF" />
+              <Ionicons name="bicycle-outline" size={24} color={colors.info} />
               <View style={styles.optionText}>
                 <Text style={styles.optionTitle}>Delivery</Text>
                 <Text style={styles.optionSubtitle}>Delivered to your address</Text>
               </View>
             </View>
-            <Text style={styles.optionPrice}>K{deliveryFee.toFixed(2)}</Text>
+            <Text style={styles.optionPrice}>
+              {hasDeliveryChoice ? 'From ' : ''}K{lowestDeliveryFee.toFixed(2)}
+            </Text>
           </TouchableOpacity>
         </View>
 
+        {/* Delivery Partner */}
+        {deliveryMethod === 'delivery' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Delivered By</Text>
+            {groupCheckouts.map(({ group, quotes, selectedQuote }) => (
+              <View key={group.key}>
+                {storeGroups.length > 1 && (
+                  <Text style={styles.groupTitle}>{group.sellerName}</Text>
+                )}
+                {quotes.map((quote) => (
+                  <TouchableOpacity
+                    key={getQuoteKey(quote)}
+                    style={[
+                      styles.optionButton,
+                      selectedQuote && getQuoteKey(selectedQuote) === getQuoteKey(quote) && styles.selectedOption
+                    ]}
+                    onPress={() => setSelectedQuoteKeys(prev => ({ ...prev, [group.key]: getQuoteKey(quote) }))}
+                  >
+                    <View style={styles.optionContent}>
+                      <Ionicons
+                        name={quote.payee === 'store' ? 'storefront-outline' : 'car-outline'}
+                        size={24}
+                        color={colors.info}
+                      />
+                      <View style={styles.optionText}>
+                        <Text style={styles.optionTitle}>{quote.label}</Text>
+                        <Text style={styles.optionSubtitle}>
+                          {quote.distanceKm !== undefined ? `${quote.distanceKm.toFixed(1)} km` : 'Flat rate'}
+                          {quote.isFree ? ' • Free delivery on this order' : ''}
+                        </Text>
+                      </View>
+                    </View>
+                    <Text style={styles.optionPrice}>
+                      {quote.fee === 0 ? 'Free' : `K${quote.fee.toFixed(2)}`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+            {!currentLocation && deliveryPartners.some(partner => partner.pricingMode === 'distance') && (
+              <Text style={styles.optionSubtitle}>
+                Share your location to see partners that charge by distance
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Delivery Address */}
         {deliveryMethod === 'delivery' && (
           <View style={styles.section}>
@@ -436,13 +707,62 @@ const CheckoutScreen: React.FC = () => {
                 <Ionicons 
                   name={locationLoading ? "refresh" : "location"} 
                   size={16} 
-                  color="#8B4513" 
+                  color={colors.primary} 
                 />
                 <Text style={styles.locationButtonText}>
                   {locationLoading ? 'Getting...' : 'Use Current'}
                 </Text>
               </TouchableOpacity>
             </View>
+
+            {savedAddresses.length > 0 && (
+              <>
+                {savedAddresses.map(saved => (
+                  <TouchableOpacity
+                    key={saved.id}
+                    style={[
+                      styles.optionButton,
+                      selectedAddressId === saved.id && styles.selectedOption
+                    ]}
+                    onPress={() => applySavedAddress(saved)}
+                  >
+                    <View style={styles.optionContent}>
+                      <Ionicons
+                        name={selectedAddressId === saved.id ? 'radio-button-on' : 'radio-button-off'}
+                        size={22}
+                        color={colors.info}
+                      />
+                      <View style={styles.optionText}>
+                        <Text style={styles.optionTitle}>
+                          {saved.name || saved.city}{saved.isDefault ? ' (Default)' : ''}
+                        </Text>
+                        <Text style={styles.optionSubtitle} numberOfLines={1}>
+                          {saved.street}, {saved.city}
+                        </Text>
+                      </View>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={[
+                    styles.optionButton,
+                    selectedAddressId === null && styles.selectedOption
+                  ]}
+                  onPress={handleEnterNewAddress}
+                >
+                  <View style={styles.optionContent}>
+                    <Ionicons name="add-circle-outline" size={22} color={colors.info} />
+                    <View style={styles.optionText}>
+                      <Text style={styles.optionTitle}>Another address</Text>
+                      <Text style={styles.optionSubtitle}>Type in where to deliver</Text>
+                    </View>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => (navigation as any).navigate('Address')}>
+                  <Text style={styles.manageAddressesText}>Manage saved addresses</Text>
+                </TouchableOpacity>
+              </>
+            )}
             
             <View style={styles.inputContainer}>
               <Text style={styles.inputLabel}>Street Address</Text>
@@ -451,7 +771,7 @@ const CheckoutScreen: React.FC = () => {
                 value={address.street}
                 onChangeText={(text) => handleAddressChange('street', text)}
                 placeholder="Enter street address"
-                placeholderTextColor="#999"
+                placeholderTextColor={colors.textMuted}
               />
             </View>
 
@@ -462,7 +782,7 @@ const CheckoutScreen: React.FC = () => {
                 value={address.city}
                 onChangeText={(text) => handleAddressChange('city', text)}
                 placeholder="Enter city"
-                placeholderTextColor="#999"
+                placeholderTextColor={colors.textMuted}
               />
             </View>
 
@@ -474,7 +794,7 @@ const CheckoutScreen: React.FC = () => {
                 onChangeText={(text) => handleAddressChange('phone', text)}
                 placeholder="Contact phone number"
                 keyboardType="phone-pad"
-                placeholderTextColor="#999"
+                placeholderTextColor={colors.textMuted}
               />
             </View>
           </View>
@@ -492,7 +812,7 @@ const CheckoutScreen: React.FC = () => {
             onPress={() => setPaymentMethod('cash')}
           >
             <View style={styles.optionContent}>
-              <Ionicons name="cash-outline" size={24} color="#007AFF" />
+              <Ionicons name="cash-outline" size={24} color={colors.info} />
               <View style={styles.optionText}>
                 <Text style={styles.optionTitle}>Cash on Delivery</Text>
                 <Text style={styles.optionSubtitle}>Pay when you receive</Text>
@@ -508,7 +828,7 @@ const CheckoutScreen: React.FC = () => {
             onPress={() => setPaymentMethod('mobile_money')}
           >
             <View style={styles.optionContent}>
-              <Ionicons name="phone-portrait-outline" size={24} color="#007AFF" />
+              <Ionicons name="phone-portrait-outline" size={24} color={colors.info} />
               <View style={styles.optionText}>
                 <Text style={styles.optionTitle}>Mobile Money</Text>
                 <Text style={styles.optionSubtitle}>M-Pesa, Airtel Money, etc.</Text>
@@ -524,7 +844,7 @@ const CheckoutScreen: React.FC = () => {
             onPress={() => setPaymentMethod('bank')}
           >
             <View style={styles.optionContent}>
-              <Ionicons name="card-outline" size={24} color="#007AFF" />
+              <Ionicons name="card-outline" size={24} color={colors.info} />
               <View style={styles.optionText}>
                 <Text style={styles.optionTitle}>Bank Transfer</Text>
                 <Text style={styles.optionSubtitle}>Direct bank payment</Text>
@@ -533,6 +853,49 @@ const CheckoutScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Promo Code */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Promo Code</Text>
+
+          {appliedPromotion && promotionQuote ? (
+            <View style={styles.appliedPromo}>
+              <Ionicons name="pricetag" size={20} color={colors.success} />
+              <View style={styles.appliedPromoText}>
+                <Text style={styles.appliedPromoCode}>{promotionQuote.code}</Text>
+                <Text style={styles.appliedPromoDetail}>
+                  {promotionQuote.discountPercentage}% off {promotionQuote.lines.length} item{promotionQuote.lines.length !== 1 ? 's' : ''} • -K{discountAmount.toFixed(2)}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={handleRemovePromo}>
+                <Text style={styles.removePromoText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.promoRow}>
+              <TextInput
+                style={[styles.textInput, styles.promoInput]}
+                value={promoCode}
+                onChangeText={(text) => {
+                  setPromoCode(text);
+                  setPromoError(null);
+                }}
+                placeholder="Enter promo code"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={[styles.applyPromoButton, (!promoCode.trim() || isApplyingPromo) && styles.buttonDisabled]}
+                onPress={handleApplyPromo}
+                disabled={!promoCode.trim() || isApplyingPromo}
+              >
+                <Text style={styles.applyPromoText}>{isApplyingPromo ? 'Checking...' : 'Apply'}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {promoError && <Text style={styles.promoError}>{promoError}</Text>}
+        </View>
+
         {/* Order Total */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Order Total</Text>
@@ -542,9 +905,18 @@ const CheckoutScreen: React.FC = () => {
               <Text style={styles.totalLabel}>Subtotal</Text>
               <Text style={styles.totalValue}>K{totalAmount.toFixed(2)}</Text>
             </View>
+
+            {discountAmount > 0 && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Discount ({promotionQuote?.code})</Text>
+                <Text style={[styles.totalValue, styles.discountValue]}>-K{discountAmount.toFixed(2)}</Text>
+              </View>
+            )}
             
             <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Delivery</Text>
+              <Text style={styles.totalLabel}>
+                Delivery{storeGroups.length > 1 ? ` (${storeGroups.length} stores)` : ''}
+              </Text>
               <Text style={styles.totalValue}>K{deliveryFee.toFixed(2)}</Text>
             </View>
             
@@ -561,12 +933,16 @@ const CheckoutScreen: React.FC = () => {
       {/* Bottom Action */}
       <View style={styles.bottomContainer}>
         <TouchableOpacity
-          style={[styles.placeOrderButton, isPlacingOrder && styles.buttonDisabled]}
+          style={[styles.placeOrderButton, (isPlacingOrder || isValidating) && styles.buttonDisabled]}
           onPress={handlePlaceOrder}
-          disabled={isPlacingOrder}
+          disabled={isPlacingOrder || isValidating}
         >
           <Text style={styles.placeOrderText}>
-            {isPlacingOrder ? 'Placing Order...' : `Place Order - K${finalTotal.toFixed(2)}`}
+            {isPlacingOrder
+              ? 'Placing Order...'
+              : isValidating
+                ? 'Checking prices...'
+                : `Place Order - K${finalTotal.toFixed(2)}`}
           </Text>
         </TouchableOpacity>
       </View>
@@ -574,47 +950,53 @@ const CheckoutScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#f8f9fa',
+    backgroundColor: theme.colors.surfaceAlt,
   },
   scrollView: {
     flex: 1,
   },
   section: {
-    backgroundColor: 'white',
-    marginBottom: 12,
-    paddingHorizontal: 20,
-    paddingVertical: 20,
+    backgroundColor: theme.colors.surface,
+    marginBottom: theme.spacing.md,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.xl,
   },
   sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#333',
-    marginBottom: 16,
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.lg,
   },
   sectionHeaderWithButton: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 16,
+    marginBottom: theme.spacing.lg,
   },
   locationButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#F5F1ED',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderRadius: 8,
+    backgroundColor: theme.colors.surfaceAlt,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.radius.md,
     borderWidth: 1,
-    borderColor: '#E8E2DD',
+    borderColor: theme.colors.border,
   },
   locationButtonText: {
-    fontSize: 14,
-    color: '#8B4513',
-    fontWeight: '600',
-    marginLeft: 4,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    marginLeft: theme.spacing.xs,
+  },
+  manageAddressesText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    marginBottom: theme.spacing.lg,
   },
   summaryContainer: {
     flexDirection: 'row',
@@ -622,27 +1004,51 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   summaryText: {
-    fontSize: 16,
-    color: '#666',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
   },
   summaryAmount: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#333',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  storeSummaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  storeSummaryName: {
+    flex: 1,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    marginRight: theme.spacing.md,
+  },
+  storeSummaryAmount: {
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
   },
   optionButton: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     borderWidth: 1,
-    borderColor: '#ddd',
-    borderRadius: 12,
-    padding: 16,
-    marginBottom: 12,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
   },
   selectedOption: {
-    borderColor: '#007AFF',
-    backgroundColor: '#f0f8ff',
+    borderColor: theme.colors.info,
+    backgroundColor: theme.colors.infoBackground,
   },
   optionContent: {
     flexDirection: 'row',
@@ -650,26 +1056,26 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   optionText: {
-    marginLeft: 12,
+    marginLeft: theme.spacing.md,
     flex: 1,
   },
   optionTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#333',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
   },
   optionSubtitle: {
-    fontSize: 14,
-    color: '#666',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     marginTop: 2,
   },
   optionPrice: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#007AFF',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.info,
   },
   inputContainer: {
-    marginBottom: 16,
+    marginBottom: theme.spacing.lg,
   },
   inputRow: {
     flexDirection: 'row',
@@ -679,76 +1085,127 @@ const styles = StyleSheet.create({
     flex: 0.48,
   },
   inputLabel: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: '#333',
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.medium,
+    color: theme.colors.text,
     marginBottom: 6,
   },
   textInput: {
     borderWidth: 1,
-    borderColor: '#ddd',
-    borderRadius: 8,
-    paddingHorizontal: 12,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.md,
     paddingVertical: 10,
-    fontSize: 16,
-    color: '#333',
-    backgroundColor: '#fafafa',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surfaceAlt,
+  },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  promoInput: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  applyPromoButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+  },
+  applyPromoText: {
+    color: theme.colors.onPrimary,
+    fontWeight: theme.typography.weight.semibold,
+  },
+  promoError: {
+    color: theme.colors.error,
+    fontSize: 13,
+    marginTop: theme.spacing.sm,
+  },
+  appliedPromo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.successBackground,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+  },
+  appliedPromoText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  appliedPromoCode: {
+    fontSize: 15,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.success,
+  },
+  appliedPromoDetail: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  removePromoText: {
+    color: theme.colors.error,
+    fontWeight: theme.typography.weight.semibold,
+  },
+  discountValue: {
+    color: theme.colors.success,
   },
   totalContainer: {
-    backgroundColor: '#f8f9fa',
-    borderRadius: 12,
-    padding: 16,
+    backgroundColor: theme.colors.surfaceAlt,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
   },
   totalRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 8,
+    marginBottom: theme.spacing.sm,
   },
   totalLabel: {
-    fontSize: 16,
-    color: '#666',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
   },
   totalValue: {
-    fontSize: 16,
-    color: '#333',
-    fontWeight: '500',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.weight.medium,
   },
   divider: {
     height: 1,
-    backgroundColor: '#ddd',
-    marginVertical: 12,
+    backgroundColor: theme.colors.disabled,
+    marginVertical: theme.spacing.md,
   },
   finalTotalLabel: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#333',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
   },
   finalTotalValue: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#007AFF',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.info,
   },
   bottomContainer: {
-    backgroundColor: 'white',
+    backgroundColor: theme.colors.surface,
     borderTopWidth: 1,
-    borderTopColor: '#f0f0f0',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
+    borderTopColor: theme.colors.divider,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.lg,
   },
   placeOrderButton: {
-    backgroundColor: '#007AFF',
-    borderRadius: 12,
-    paddingVertical: 16,
+    backgroundColor: theme.colors.info,
+    borderRadius: theme.radius.lg,
+    paddingVertical: theme.spacing.lg,
     alignItems: 'center',
   },
   buttonDisabled: {
-    backgroundColor: '#ccc',
+    backgroundColor: theme.colors.disabled,
   },
   placeOrderText: {
-    color: 'white',
-    fontSize: 18,
-    fontWeight: '600',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.semibold,
   },
 });
 
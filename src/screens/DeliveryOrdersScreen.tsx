@@ -0,0 +1,430 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  RefreshControl,
+  SafeAreaView,
+  StatusBar,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import {
+  fetchDeliveryPartnerProfile,
+  fetchPartnerOrders,
+  advanceDelivery,
+  getNextDeliveryStep,
+  DeliveryStep,
+} from '../store/slices/deliverySlice';
+import { Order } from '../types';
+import { safeFormatDateTime } from '../utils/textUtils';
+
+const stepActions: { [step in DeliveryStep]: { label: string; icon: keyof typeof Ionicons.glyphMap } } = {
+  accept: { label: 'Accept Delivery', icon: 'checkmark-circle-outline' },
+  pickup: { label: 'Mark Picked Up', icon: 'cube-outline' },
+  in_transit: { label: 'Start Delivery', icon: 'bicycle-outline' },
+  deliver: { label: 'Mark Delivered', icon: 'home-outline' },
+};
+
+const DeliveryOrdersScreen: React.FC = () => {
+  const [refreshing, setRefreshing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'active' | 'completed'>('active');
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { partner, orders, isLoading, error } = useSelector((state: RootState) => state.delivery);
+
+  useEffect(() => {
+    if (user && !partner) {
+      dispatch(fetchDeliveryPartnerProfile({ uid: user.uid, email: user.email }));
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [partner?.id]);
+
+  const loadOrders = async () => {
+    if (!partner?.id) return;
+    await dispatch(fetchPartnerOrders(partner.id));
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    if (!partner && user) {
+      await dispatch(fetchDeliveryPartnerProfile({ uid: user.uid, email: user.email }));
+    } else {
+      await loadOrders();
+    }
+    setRefreshing(false);
+  };
+
+  const activeOrders = orders.filter(order => getNextDeliveryStep(order) !== null);
+  const completedOrders = orders.filter(order => getNextDeliveryStep(order) === null);
+  const currentOrders = activeTab === 'active' ? activeOrders : completedOrders;
+
+  const handleAdvance = (order: Order, step: DeliveryStep) => {
+    Alert.alert(
+      stepActions[step].label,
+      `Order #${order.id.slice(-6).toUpperCase()} - ${order.shippingAddress}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Confirm',
+          onPress: async () => {
+            setUpdatingOrderId(order.id);
+            try {
+              await dispatch(advanceDelivery({ order, step, partnerId: partner!.id, changedBy: user!.uid })).unwrap();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to update delivery');
+              loadOrders();
+            } finally {
+              setUpdatingOrderId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCallCustomer = (phone?: string) => {
+    if (!phone) {
+      Alert.alert('No Phone Number', 'The customer did not leave a contact number');
+      return;
+    }
+    Linking.openURL(`tel:${phone}`);
+  };
+
+  const renderProgress = (order: Order) => {
+    const steps = [
+      { label: 'Accepted', at: order.assignedAt },
+      { label: 'Picked up', at: order.pickedUpAt },
+      { label: 'In transit', at: order.inTransitAt },
+      { label: 'Delivered', at: order.deliveredAt },
+    ];
+
+    return (
+      <View style={styles.progressContainer}>
+        {steps.map((step) => (
+          <View key={step.label} style={styles.progressStep}>
+            <Ionicons
+              name={step.at ? 'checkmark-circle' : 'ellipse-outline'}
+              size={16}
+              color={step.at ? '#059669' : '#D2B48C'}
+            />
+            <Text style={[styles.progressLabel, !!step.at && styles.progressLabelDone]}>
+              {step.label}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderOrderItem = ({ item }: { item: Order }) => {
+    const nextStep = getNextDeliveryStep(item);
+    const storeName = item.items?.[0]?.sellerName || 'Store';
+
+    return (
+      <View style={styles.orderCard}>
+        <View style={styles.orderHeader}>
+          <View>
+            <Text style={styles.orderNumber}>Order #{item.id.slice(-6).toUpperCase()}</Text>
+            <Text style={styles.orderMeta}>{safeFormatDateTime(item.createdAt)}</Text>
+          </View>
+          <Text style={styles.feeText}>K{(item.partnerDeliveryAmount ?? item.deliveryCost ?? 0).toFixed(2)}</Text>
+        </View>
+
+        <View style={styles.infoRow}>
+          <Ionicons name="storefront-outline" size={16} color="#8B7355" />
+          <Text style={styles.infoText}>Collect from {storeName}</Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Ionicons name="location-outline" size={16} color="#8B7355" />
+          <Text style={styles.infoText}>{item.shippingAddress}</Text>
+        </View>
+        {item.deliveryDistanceKm !== undefined && item.deliveryDistanceKm !== null && (
+          <View style={styles.infoRow}>
+            <Ionicons name="navigate-outline" size={16} color="#8B7355" />
+            <Text style={styles.infoText}>{item.deliveryDistanceKm.toFixed(1)} km</Text>
+          </View>
+        )}
+        <View style={styles.infoRow}>
+          <Ionicons name="cash-outline" size={16} color="#8B7355" />
+          <Text style={styles.infoText}>
+            {item.paymentMethod === 'cash'
+              ? `Collect K${item.totalAmount.toFixed(2)} cash`
+              : 'Paid in advance'}
+          </Text>
+        </View>
+
+        {renderProgress(item)}
+
+        {nextStep && (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.callButton}
+              onPress={() => handleCallCustomer(item.contactPhone)}
+            >
+              <Ionicons name="call-outline" size={18} color="#8B4513" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryAction}
+              onPress={() => handleAdvance(item, nextStep)}
+              disabled={updatingOrderId === item.id}
+            >
+              {updatingOrderId === item.id ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Ionicons name={stepActions[nextStep].icon} size={18} color="#FFFFFF" />
+                  <Text style={styles.primaryActionText}>{stepActions[nextStep].label}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="bicycle-outline" size={64} color="#D2B48C" />
+      <Text style={styles.emptyStateTitle}>
+        {!partner ? 'No Partner Profile' : activeTab === 'active' ? 'No Active Deliveries' : 'No Completed Deliveries'}
+      </Text>
+      <Text style={styles.emptyStateText}>
+        {!partner
+          ? error || 'Your account is not linked to a delivery partner yet. Contact KUTRA support.'
+          : activeTab === 'active'
+            ? 'Orders customers book with you will appear here'
+            : 'Delivered and cancelled orders will appear here'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Deliveries</Text>
+        {!!partner && <Text style={styles.headerSubtitle}>{partner.companyName || partner.name}</Text>}
+      </View>
+
+      {/* Tabs */}
+      <View style={styles.tabContainer}>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'active' && styles.activeTab]}
+          onPress={() => setActiveTab('active')}
+        >
+          <Text style={[styles.tabText, activeTab === 'active' && styles.activeTabText]}>
+            Active ({activeOrders.length})
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'completed' && styles.activeTab]}
+          onPress={() => setActiveTab('completed')}
+        >
+          <Text style={[styles.tabText, activeTab === 'completed' && styles.activeTabText]}>
+            Completed ({completedOrders.length})
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={currentOrders}
+        renderItem={renderOrderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.listContainer, currentOrders.length === 0 && styles.emptyListContainer]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing || isLoading}
+            onRefresh={onRefresh}
+            colors={['#8B4513']}
+            tintColor="#8B4513"
+          />
+        }
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+        ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F3F0',
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#2D1810',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#8B7355',
+    marginTop: 2,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#8B4513',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  activeTabText: {
+    color: '#8B4513',
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  emptyListContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  orderCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  orderNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginBottom: 4,
+  },
+  orderMeta: {
+    fontSize: 12,
+    color: '#8B7355',
+  },
+  feeText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#8B4513',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D1810',
+    marginLeft: 8,
+  },
+  progressContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F7F3F0',
+  },
+  progressStep: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  progressLabel: {
+    fontSize: 11,
+    color: '#8B7355',
+    marginTop: 4,
+  },
+  progressLabelDone: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  callButton: {
+    width: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+  },
+  primaryAction: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#8B4513',
+    borderRadius: 10,
+    paddingVertical: 12,
+    gap: 6,
+  },
+  primaryActionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8B7355',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
+
+export default DeliveryOrdersScreen;
\ No newline at end of file
@@ -31,6 +31,7 @@ interface ProductForm {
   category: ListingCategory | '';
   type: ListingType;
   stock: string;
+  barcode: string;
   images: string[];
   condition: string;
   tags: string[];
@@ -53,6 +54,7 @@ const EditProductScreen: React.FC = () => {
     category: product.category || '',
     type: product.type || ListingType.SELL,
     stock: product.stock?.toString() || '',
+    barcode: product.barcode || '',
     images: product.imageBase64 ? [`data:image/jpeg;base64,${product.imageBase64}`] : product.imageUrl ? [product.imageUrl] : [],
     condition: product.condition || 'New',
     tags: [],
@@ -172,6 +174,7 @@ const EditProductScreen: React.FC = () => {
         type: productForm.type,
         condition: productForm.condition as ItemCondition,
         stock: productForm.type === ListingType.SELL ? parseInt(productForm.stock) : undefined,
+        barcode: productForm.barcode.trim(),
       };
 
       // Add image data if available
@@ -386,6 +389,19 @@ const EditProductScreen: React.FC = () => {
               />
             </View>
           )}
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Barcode</Text>
+            <TextInput
+              style={styles.textInput}
+              value={productForm.barcode}
+              onChangeText={(text) => setProductForm(prev => ({ ...prev, barcode: text }))}
+              placeholder="Optional, used for point of sale scanning"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
         </View>
       </ScrollView>
 
@@ -27,7 +27,7 @@ const FeaturedProductsScreen: React.FC = () => {
 
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<FeaturedProductsScreenNavigationProp>();
-  const { featuredItems, isLoading } = useSelector((state: RootState) => state.listings);
+  const { featuredItems, featuredHasMore, isLoading, isLoadingMore } = useSelector((state: RootState) => state.listings);
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
 
   useEffect(() => {
@@ -49,6 +49,20 @@ const FeaturedProductsScreen: React.FC = () => {
     setRefreshing(false);
   };
 
+  const loadMoreFeaturedProducts = () => {
+    if (!featuredHasMore || isLoadingMore) return;
+    dispatch(fetchFeaturedListings({ loadMore: true }));
+  };
+
+  const renderListFooter = () => {
+    if (!isLoadingMore) return null;
+    return (
+      <View style={styles.listFooter}>
+        <ActivityIndicator size="small" color="#8B4513" />
+      </View>
+    );
+  };
+
   const handleProductPress = (listing: Listing) => {
     navigation.navigate('ProductDetail', { 
       productId: listing.id, 
@@ -158,6 +172,9 @@ const FeaturedProductsScreen: React.FC = () => {
           />
         }
         ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={renderListFooter}
+        onEndReached={loadMoreFeaturedProducts}
+        onEndReachedThreshold={0.5}
         showsVerticalScrollIndicator={false}
         ItemSeparatorComponent={() => <View style={{ height: 16 }} />}
       />
@@ -282,6 +299,10 @@ const styles = StyleSheet.create({
     marginTop: 16,
     fontWeight: '500',
   },
+  listFooter: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -13,6 +13,9 @@ import {
   StatusBar,
   SafeAreaView,
   Alert,
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigation } from '@react-navigation/native';
@@ -29,12 +32,16 @@ import HeroCarousel from '../components/HeroCarousel';
 import StoreCard from '../components/StoreCard';
 import LocationService, { LocationData } from '../services/LocationService';
 import NotificationService, { NotificationData } from '../services/NotificationService';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
 
 type HomeScreenNavigationProp = StackNavigationProp<HomeStackParamList, 'HomeMain'>;
 
 const { width } = Dimensions.get('window');
 
 const HomeScreen: React.FC = () => {
+  const { theme, colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
@@ -54,6 +61,8 @@ const HomeScreen: React.FC = () => {
   const featuredItems = listings?.featuredItems || [];
   const items = listings?.items || [];
   const isLoading = listings?.isLoading || false;
+  const isLoadingMore = listings?.isLoadingMore || false;
+  const hasMoreListings = listings?.hasMore || false;
   const totalItems = cart?.totalItems || 0;
   const featuredStores = stores?.featuredStores || [];
 
@@ -161,6 +170,15 @@ const HomeScreen: React.FC = () => {
     setRefreshing(false);
   };
 
+  // The whole screen scrolls as one, so load the next page of listings near the bottom
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    const isNearBottom = layoutMeasurement.height + contentOffset.y >= contentSize.height - 400;
+    if (isNearBottom && hasMoreListings && !isLoadingMore && !selectedCategory) {
+      dispatch(fetchListings({ loadMore: true }));
+    }
+  };
+
   const handleSearch = () => {
     if (searchQuery.trim()) {
       navigation.navigate('Search', { query: searchQuery.trim() });
@@ -252,7 +270,7 @@ const HomeScreen: React.FC = () => {
         activeOpacity={0.7}
       >
         <View style={[styles.categoryIcon, { backgroundColor: isSelected ? item.color : `${item.color}30` }]}>
-          <Ionicons name={item.icon as any} size={20} color={isSelected ? "white" : item.color} />
+          <Ionicons name={item.icon as any} size={20} color={isSelected ? colors.onPrimary : item.color} />
         </View>
         <Text style={[styles.categoryText, isSelected && styles.categoryTextSelected]}>{item.label}</Text>
       </TouchableOpacity>
@@ -283,7 +301,7 @@ const HomeScreen: React.FC = () => {
           onPress={() => handleAddToCart(item)}
           activeOpacity={0.8}
         >
-          <Ionicons name="add" size={18} color="white" />
+          <Ionicons name="add" size={18} color={colors.onPrimary} />
         </TouchableOpacity>
       )}
       <View style={styles.featuredContent}>
@@ -319,7 +337,7 @@ const HomeScreen: React.FC = () => {
           onPress={() => handleAddToCart(item)}
           activeOpacity={0.8}
         >
-          <Ionicons name="add-circle" size={28} color="#8B4513" />
+          <Ionicons name="add-circle" size={28} color={colors.primary} />
         </TouchableOpacity>
       )}
       <View style={styles.listingContent}>
@@ -344,16 +362,18 @@ const HomeScreen: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.surface} />
       
       <ScrollView
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={400}
         refreshControl={
           <RefreshControl 
             refreshing={refreshing} 
             onRefresh={onRefresh}
-            colors={['#8B4513']}
-            tintColor="#8B4513"
+            colors={[colors.primary]}
+            tintColor={colors.primary}
           />
         }
       >
@@ -363,7 +383,7 @@ const HomeScreen: React.FC = () => {
             <Ionicons 
               name={locationLoading ? "refresh" : "location-outline"} 
               size={20} 
-              color="#8B4513" 
+              color={colors.primary} 
               style={locationLoading ? { transform: [{ rotate: '45deg' }] } : {}}
             />
             <Text style={styles.locationText}>
@@ -392,7 +412,7 @@ const HomeScreen: React.FC = () => {
                   navigation.getParent()?.getParent()?.navigate('Notifications');
                 }}
               >
-                <Ionicons name="notifications-outline" size={24} color="#8B4513" />
+                <Ionicons name="notifications-outline" size={24} color={colors.primary} />
                 {unreadNotifications > 0 && (
                   <View style={styles.notificationBadge}>
                     <Text style={styles.notificationBadgeText}>
@@ -416,7 +436,7 @@ const HomeScreen: React.FC = () => {
               </TouchableOpacity>
             ) : (
               <TouchableOpacity style={styles.loginButton}>
-                <Ionicons name="person-outline" size={24} color="#8B4513" />
+                <Ionicons name="person-outline" size={24} color={colors.primary} />
               </TouchableOpacity>
             )}
             
@@ -425,7 +445,7 @@ const HomeScreen: React.FC = () => {
               onPress={handleCartPress}
             >
               <View style={styles.cartIconContainer}>
-                <Ionicons name="bag-outline" size={24} color="#374151" />
+                <Ionicons name="bag-outline" size={24} color={colors.text} />
                 {totalItems > 0 && (
                   <View style={styles.cartBadge}>
                     <Text style={styles.cartBadgeText}>{totalItems}</Text>
@@ -439,24 +459,24 @@ const HomeScreen: React.FC = () => {
         {/* Search Bar */}
         <View style={styles.searchContainer}>
           <View style={styles.searchBar}>
-            <Ionicons name="search" size={20} color="#9CA3AF" />
+            <Ionicons name="search" size={20} color={colors.textMuted} />
             <TextInput
               style={styles.searchInput}
               placeholder="Search products, brands, stores..."
               value={searchQuery}
               onChangeText={setSearchQuery}
               onSubmitEditing={handleSearch}
-              placeholderTextColor="#9CA3AF"
+              placeholderTextColor={colors.textMuted}
               returnKeyType="search"
             />
             {searchQuery.length > 0 && (
               <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearButton}>
-                <Ionicons name="close-circle" size={20} color="#9CA3AF" />
+                <Ionicons name="close-circle" size={20} color={colors.textMuted} />
               </TouchableOpacity>
             )}
           </View>
           <TouchableOpacity style={styles.filterButton} activeOpacity={0.7}>
-            <Ionicons name="options" size={22} color="#8B4513" />
+            <Ionicons name="options" size={22} color={colors.primary} />
           </TouchableOpacity>
         </View>
 
@@ -483,7 +503,7 @@ const HomeScreen: React.FC = () => {
           />
           {selectedCategory && (
             <View style={styles.filterInfo}>
-              <Ionicons name="funnel" size={14} color="#8B4513" />
+              <Ionicons name="funnel" size={14} color={colors.primary} />
               <Text style={styles.filterInfoText}>
                 Showing {categories.find(c => c.key === selectedCategory)?.label} items
               </Text>
@@ -550,25 +570,47 @@ const HomeScreen: React.FC = () => {
             </View>
           )}
         </View>
+
+        {/* Recent Listings */}
+        {!selectedCategory && items.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Recent Listings</Text>
+            </View>
+            <FlatList
+              key="recent-listings-grid"
+              data={items}
+              renderItem={renderListingItem}
+              keyExtractor={(item) => item.id}
+              numColumns={2}
+              scrollEnabled={false}
+              columnWrapperStyle={styles.gridRow}
+              contentContainerStyle={styles.gridContainer}
+            />
+            {isLoadingMore && (
+              <ActivityIndicator style={styles.loadMoreIndicator} size="small" color={colors.primary} />
+            )}
+          </View>
+        )}
     </ScrollView>
     </SafeAreaView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingTop: 16,
-    paddingBottom: 16,
-    backgroundColor: '#FFFFFF',
-    shadowColor: '#000',
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.lg,
+    backgroundColor: theme.colors.surface,
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 8,
@@ -578,59 +620,59 @@ const styles = StyleSheet.create({
   locationContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 4,
+    gap: theme.spacing.xs,
     flex: 0.2,
   },
   locationText: {
-    fontSize: 12,
-    color: '#8B4513',
-    fontWeight: '600',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
   },
   centerContainer: {
     flex: 0.6,
     alignItems: 'center',
   },
   welcomeText: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
     marginBottom: 2,
     textAlign: 'center',
   },
   headerSubtitle: {
-    fontSize: 14,
-    color: '#8B7355',
-    fontWeight: '400',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    fontWeight: theme.typography.weight.regular,
     textAlign: 'center',
   },
   rightContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 8,
+    gap: theme.spacing.sm,
     flex: 0.2,
     justifyContent: 'flex-end',
   },
   notificationButton: {
     position: 'relative',
-    padding: 8,
+    padding: theme.spacing.sm,
   },
   notificationBadge: {
     position: 'absolute',
     right: 4,
     top: 4,
-    backgroundColor: '#EF4444',
+    backgroundColor: theme.colors.danger,
     borderRadius: 10,
     minWidth: 20,
     height: 20,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 2,
-    borderColor: '#FFFFFF',
+    borderColor: theme.colors.surface,
   },
   notificationBadgeText: {
-    color: '#FFFFFF',
+    color: theme.colors.onPrimary,
     fontSize: 10,
-    fontWeight: '700',
+    fontWeight: theme.typography.weight.bold,
   },
   profileButton: {
     padding: 2,
@@ -638,15 +680,15 @@ const styles = StyleSheet.create({
   profileImage: {
     width: 32,
     height: 32,
-    borderRadius: 16,
+    borderRadius: theme.radius.xl,
     borderWidth: 2,
-    borderColor: '#8B4513',
+    borderColor: theme.colors.primary,
   },
   loginButton: {
-    padding: 4,
+    padding: theme.spacing.xs,
   },
   cartButton: {
-    padding: 4,
+    padding: theme.spacing.xs,
   },
   cartIconContainer: {
     position: 'relative',
@@ -655,25 +697,25 @@ const styles = StyleSheet.create({
     position: 'absolute',
     top: -8,
     right: -8,
-    backgroundColor: '#EF4444',
-    borderRadius: 12,
+    backgroundColor: theme.colors.danger,
+    borderRadius: theme.radius.lg,
     minWidth: 24,
     height: 24,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 2,
-    borderColor: '#FFFFFF',
+    borderColor: theme.colors.surface,
   },
   cartBadgeText: {
-    color: 'white',
-    fontSize: 12,
-    fontWeight: '700',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.bold,
   },
   searchContainer: {
     flexDirection: 'row',
-    paddingHorizontal: 16,
-    paddingBottom: 12,
-    backgroundColor: '#FFFFFF',
+    paddingHorizontal: theme.spacing.lg,
+    paddingBottom: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
     alignItems: 'center',
     gap: 10,
   },
@@ -681,64 +723,64 @@ const styles = StyleSheet.create({
     flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#F3F4F6',
-    borderRadius: 16,
-    paddingHorizontal: 16,
+    backgroundColor: theme.colors.surfaceAlt,
+    borderRadius: theme.radius.xl,
+    paddingHorizontal: theme.spacing.lg,
     paddingVertical: 14,
     borderWidth: 1,
-    borderColor: '#E5E7EB',
+    borderColor: theme.colors.border,
   },
   searchInput: {
     flex: 1,
-    marginLeft: 12,
-    fontSize: 16,
-    color: '#111827',
-    fontWeight: '400',
+    marginLeft: theme.spacing.md,
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.weight.regular,
   },
   clearButton: {
-    padding: 4,
+    padding: theme.spacing.xs,
   },
   filterButton: {
-    backgroundColor: '#F3F4F6',
-    borderRadius: 16,
+    backgroundColor: theme.colors.surfaceAlt,
+    borderRadius: theme.radius.xl,
     padding: 14,
     borderWidth: 1,
-    borderColor: '#E5E7EB',
+    borderColor: theme.colors.border,
   },
   section: {
-    marginTop: 16,
+    marginTop: theme.spacing.lg,
   },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    paddingHorizontal: 16,
-    marginBottom: 12,
+    paddingHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
   },
   sectionTitle: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.xl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
     letterSpacing: -0.3,
   },
   seeAllText: {
-    color: '#8B4513',
-    fontSize: 16,
-    fontWeight: '600',
+    color: theme.colors.primary,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
   },
   categoriesList: {
-    paddingHorizontal: 12,
-    paddingVertical: 4,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
   },
   categoryItem: {
     alignItems: 'center',
-    marginHorizontal: 4,
-    paddingVertical: 12,
-    paddingHorizontal: 8,
-    borderRadius: 12,
-    backgroundColor: '#FFFFFF',
+    marginHorizontal: theme.spacing.xs,
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.surface,
     minWidth: 65,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 4,
@@ -754,42 +796,42 @@ const styles = StyleSheet.create({
   },
   categoryText: {
     fontSize: 11,
-    fontWeight: '600',
-    color: '#374151',
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
     textAlign: 'center',
   },
   categoryItemSelected: {
-    backgroundColor: '#F5F1ED',
+    backgroundColor: theme.colors.surfaceAlt,
     borderWidth: 1,
-    borderColor: '#8B4513',
+    borderColor: theme.colors.primary,
   },
   categoryTextSelected: {
-    color: '#8B4513',
-    fontWeight: '700',
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.bold,
   },
   clearFilterText: {
-    color: '#DC2626',
-    fontSize: 14,
-    fontWeight: '600',
+    color: theme.colors.danger,
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
   },
   filterInfo: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingTop: 8,
-    gap: 4,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.sm,
+    gap: theme.spacing.xs,
   },
   filterInfoText: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
     fontStyle: 'italic',
   },
 
   featuredItem: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 16,
-    marginBottom: 16,
-    shadowColor: '#000',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.xl,
+    marginBottom: theme.spacing.lg,
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.08,
     shadowRadius: 8,
@@ -802,54 +844,54 @@ const styles = StyleSheet.create({
     height: 160,
   },
   featuredContent: {
-    padding: 16,
+    padding: theme.spacing.lg,
   },
   featuredTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
     marginBottom: 6,
     lineHeight: 20,
   },
   featuredPrice: {
-    fontSize: 18,
+    fontSize: theme.typography.size.lg,
     fontWeight: '800',
-    color: '#8B4513',
-    marginBottom: 8,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.sm,
   },
 
   featuredSeller: {
-    fontSize: 12,
-    color: '#6B7280',
-    fontWeight: '500',
-    marginTop: 4,
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
+    fontWeight: theme.typography.weight.medium,
+    marginTop: theme.spacing.xs,
   },
   featuredBadge: {
     position: 'absolute',
     top: 8,
     left: 8,
-    backgroundColor: '#8B4513',
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.radius.md,
   },
   featuredBadgeText: {
-    color: '#FFFFFF',
+    color: theme.colors.onPrimary,
     fontSize: 10,
-    fontWeight: '700',
+    fontWeight: theme.typography.weight.bold,
     textTransform: 'uppercase',
   },
   featuredAddButton: {
     position: 'absolute',
     top: 8,
     right: 8,
-    backgroundColor: '#8B4513',
-    borderRadius: 16,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.xl,
     width: 32,
     height: 32,
     justifyContent: 'center',
     alignItems: 'center',
-    shadowColor: '#8B4513',
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -857,10 +899,10 @@ const styles = StyleSheet.create({
   },
 
   listingItem: {
-    backgroundColor: '#FFFFFF',
-    marginBottom: 12,
-    borderRadius: 12,
-    shadowColor: '#000',
+    backgroundColor: theme.colors.surface,
+    marginBottom: theme.spacing.md,
+    borderRadius: theme.radius.lg,
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
     shadowRadius: 6,
@@ -871,73 +913,76 @@ const styles = StyleSheet.create({
   listingImage: {
     width: '100%',
     height: 140,
-    backgroundColor: '#F3F4F6',
+    backgroundColor: theme.colors.surfaceAlt,
   },
   listingContent: {
-    padding: 12,
+    padding: theme.spacing.md,
   },
   listingTitle: {
-    fontSize: 14,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginBottom: 4,
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
     lineHeight: 18,
   },
   listingCategory: {
-    fontSize: 12,
-    color: '#8B4513',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
     marginBottom: 2,
-    fontWeight: '600',
+    fontWeight: theme.typography.weight.semibold,
   },
   listingPrice: {
-    fontSize: 16,
+    fontSize: theme.typography.size.md,
     fontWeight: '800',
-    color: '#8B4513',
-    marginBottom: 4,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.xs,
   },
   listingCondition: {
-    fontSize: 12,
-    color: '#8B4513',
-    fontWeight: '600',
-    backgroundColor: '#F5F1ED',
-    paddingHorizontal: 8,
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    backgroundColor: theme.colors.surfaceAlt,
+    paddingHorizontal: theme.spacing.sm,
     paddingVertical: 2,
-    borderRadius: 6,
+    borderRadius: theme.radius.sm,
     alignSelf: 'flex-start',
   },
   quickAddButton: {
     position: 'absolute',
     top: 8,
     right: 8,
-    backgroundColor: 'rgba(255, 255, 255, 0.9)',
-    borderRadius: 16,
+    backgroundColor: theme.colors.overlay,
+    borderRadius: theme.radius.xl,
     padding: 6,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
     elevation: 3,
   },
   storesList: {
-    paddingHorizontal: 12,
-    paddingVertical: 4,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
   },
   emptyStores: {
-    paddingHorizontal: 16,
-    paddingVertical: 20,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.xl,
     alignItems: 'center',
   },
   emptyStoresText: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
   },
   gridContainer: {
-    paddingHorizontal: 16,
+    paddingHorizontal: theme.spacing.lg,
   },
   gridRow: {
     justifyContent: 'space-between',
   },
+  loadMoreIndicator: {
+    paddingVertical: theme.spacing.lg,
+  },
 });
 
 export default HomeScreen;
\ No newline at end of file
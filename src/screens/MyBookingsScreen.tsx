@@ -9,15 +9,24 @@ import {
   StatusBar,
   RefreshControl,
   ActivityIndicator,
+  Alert,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { RentalRequest } from '../types';
+import { RentalAmendment, RentalConditionReport, RentalRequest } from '../types';
 import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import AuthGuard from '../components/AuthGuard';
+import RentalQuoteBreakdown from '../components/RentalQuoteBreakdown';
+import RentalConditionModal from '../components/RentalConditionModal';
+import RentalConditionPhotos from '../components/RentalConditionPhotos';
+import RentalAmendmentModal from '../components/RentalAmendmentModal';
+import RentalLifecycleService, { ConditionReportInput } from '../services/RentalLifecycleService';
+import RentalAmendmentService, { AmendmentType } from '../services/RentalAmendmentService';
 import { safeFormatDate, safeFormatDateRange } from '../utils/textUtils';
 
 const MyBookingsScreen: React.FC = () => {
@@ -29,6 +38,12 @@ const MyBookingsScreen: React.FC = () => {
   const [receivedRequests, setReceivedRequests] = useState<RentalRequest[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [conditionAction, setConditionAction] = useState<{ request: RentalRequest; kind: 'handover' | 'return' } | null>(null);
+  const [settlingRequest, setSettlingRequest] = useState<RentalRequest | null>(null);
+  const [deductionAmount, setDeductionAmount] = useState('');
+  const [deductionReason, setDeductionReason] = useState('');
+  const [amendmentAction, setAmendmentAction] = useState<{ request: RentalRequest; type: AmendmentType } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     loadBookings();
@@ -102,8 +117,113 @@ const MyBookingsScreen: React.FC = () => {
     setRefreshing(false);
   };
 
+  const handleConditionSubmit = async (report: ConditionReportInput) => {
+    if (!conditionAction?.request.id || !user?.uid) return;
+
+    setIsSubmitting(true);
+    try {
+      if (conditionAction.kind === 'handover') {
+        await RentalLifecycleService.startRental(conditionAction.request.id, report, user.uid);
+        Alert.alert('Rental Started', 'The handover has been recorded.');
+      } else {
+        const result = await RentalLifecycleService.completeRental(conditionAction.request.id, report, user.uid);
+        Alert.alert(
+          'Return Checked In',
+          result.isLateReturn
+            ? `The item came back ${result.daysLate} day${result.daysLate === 1 ? '' : 's'} late.`
+            : 'The rental is complete.'
+        );
+      }
+      setConditionAction(null);
+      loadBookings();
+    } catch (error: any) {
+      console.error('Error recording rental condition:', error);
+      Alert.alert('Error', error.message || 'Failed to update the booking. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openDepositSettlement = (request: RentalRequest) => {
+    setDeductionAmount('');
+    setDeductionReason('');
+    setSettlingRequest(request);
+  };
+
+  const handleSettleDeposit = async (refundInFull: boolean) => {
+    if (!settlingRequest?.id || !user?.uid) return;
+
+    const deducted = refundInFull ? 0 : Number(deductionAmount);
+    if (!refundInFull && !(deducted > 0)) {
+      Alert.alert('Error', 'Enter the amount to keep, e.g. 150');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const settlement = await RentalLifecycleService.settleDeposit(
+        settlingRequest.id,
+        deducted,
+        deductionReason,
+        user.uid
+      );
+      Alert.alert('Deposit Settled', `K${settlement.refundedAmount.toFixed(2)} will be refunded to the renter.`);
+      setSettlingRequest(null);
+      loadBookings();
+    } catch (error: any) {
+      console.error('Error settling deposit:', error);
+      Alert.alert('Error', error.message || 'Failed to settle the deposit. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAmendmentSubmit = async (newEnd: Date, note: string) => {
+    if (!amendmentAction?.request.id || !user?.uid) return;
+
+    setIsSubmitting(true);
+    try {
+      await RentalAmendmentService.requestAmendment(amendmentAction.request.id, amendmentAction.type, newEnd, user.uid, note);
+      Alert.alert('Request Sent', 'The owner will be asked to approve the new end date.');
+      setAmendmentAction(null);
+      loadBookings();
+    } catch (error: any) {
+      console.error('Error requesting booking change:', error);
+      Alert.alert(
+        error?.name === 'RentalUnavailableError' ? 'Dates Unavailable' : 'Error',
+        error.message || 'Failed to send the request. Please try again.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAmendmentResponse = async (request: RentalRequest, approve: boolean) => {
+    if (!request.id || !user?.uid) return;
+
+    setIsSubmitting(true);
+    try {
+      await RentalAmendmentService.respondToAmendment(request.id, approve, user.uid);
+      Alert.alert(
+        approve ? 'Change Approved' : 'Change Declined',
+        approve ? 'The booking has been updated with the new end date.' : 'The booking keeps its current dates.'
+      );
+      loadBookings();
+    } catch (error: any) {
+      console.error('Error answering booking change:', error);
+      Alert.alert(
+        error?.name === 'RentalUnavailableError' ? 'Dates Unavailable' : 'Error',
+        error.message || 'Failed to update the booking. Please try again.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'active':
+        return '#3B82F6';
       case 'approved':
         return '#10B981';
       case 'rejected':
@@ -119,6 +239,8 @@ const MyBookingsScreen: React.FC = () => {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case 'active':
+        return 'key';
       case 'approved':
         return 'checkmark-circle';
       case 'rejected':
@@ -132,8 +254,63 @@ const MyBookingsScreen: React.FC = () => {
     }
   };
 
+  const renderConditionReport = (requestId: string | undefined, label: string, report: RentalConditionReport) => (
+    <View style={styles.reportContainer}>
+      <Text style={styles.reportLabel}>
+        {label} · {safeFormatDate(report.recordedAt, 'Unknown date')}
+      </Text>
+      {!!report.notes && (
+        <Text style={styles.reportNotes}>{report.notes}</Text>
+      )}
+      {!!requestId && report.photoIds?.length > 0 && (
+        <RentalConditionPhotos requestId={requestId} photoIds={report.photoIds} />
+      )}
+    </View>
+  );
+
+  const getAmendmentStatusColor = (status: RentalAmendment['status']) => {
+    switch (status) {
+      case 'approved':
+        return '#10B981';
+      case 'declined':
+        return '#EF4444';
+      default:
+        return '#F59E0B';
+    }
+  };
+
+  const renderAmendment = (amendment: RentalAmendment, index: number) => (
+    <View key={index} style={styles.amendmentRow}>
+      <Ionicons
+        name={amendment.type === 'extension' ? 'calendar-outline' : 'return-down-back-outline'}
+        size={14}
+        color="#8B7355"
+      />
+      <View style={styles.amendmentInfo}>
+        <Text style={styles.amendmentText}>
+          {amendment.type === 'extension' ? 'Extend' : 'Return early'}: {safeFormatDate(amendment.previousEndDate)} → {safeFormatDate(amendment.requestedEndDate)}
+          {amendment.pricing ? ` · K${amendment.pricing.total.toFixed(2)}` : ''}
+        </Text>
+        {!!amendment.note && (
+          <Text style={styles.amendmentNote} numberOfLines={2}>{amendment.note}</Text>
+        )}
+      </View>
+      <Text style={[styles.amendmentStatus, { color: getAmendmentStatusColor(amendment.status) }]}>
+        {amendment.status.charAt(0).toUpperCase() + amendment.status.slice(1)}
+      </Text>
+    </View>
+  );
+
   const renderBookingCard = ({ item }: { item: RentalRequest }) => {
     const isMyRequest = activeTab === 'sent';
+    const isOverdue = RentalLifecycleService.isOverdue(item);
+    const deposit = RentalLifecycleService.depositOf(item);
+    const canHandOver = item.status === 'approved';
+    const canCheckIn = !isMyRequest && item.status === 'active';
+    const canSettleDeposit = !isMyRequest && RentalLifecycleService.needsDepositSettlement(item);
+    const canAmend = isMyRequest && RentalAmendmentService.canRequest(item, user?.uid);
+    const pendingAmendment = RentalAmendmentService.pendingAmendment(item);
+    const canAnswerAmendment = !isMyRequest && item.status === 'active' && !!pendingAmendment;
     
     return (
       <TouchableOpacity style={styles.bookingCard} activeOpacity={0.7}>
@@ -181,7 +358,7 @@ const MyBookingsScreen: React.FC = () => {
             </View>
           )}
           
-          {item.totalCost && (
+          {!item.pricing && item.totalCost && (
             <View style={styles.detailRow}>
               <Ionicons name="cash-outline" size={16} color="#8B7355" />
               <Text style={styles.detailLabel}>Total Cost:</Text>
@@ -200,6 +377,59 @@ const MyBookingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {item.pricing && (
+          <View style={styles.pricingContainer}>
+            <RentalQuoteBreakdown breakdown={item.pricing} />
+          </View>
+        )}
+
+        {isOverdue && (
+          <View style={[styles.alertRow, styles.lateRow]}>
+            <Ionicons name="alarm-outline" size={16} color="#EF4444" />
+            <Text style={styles.lateText}>
+              Overdue since {safeFormatDate(item.endDate, 'the end date')}
+            </Text>
+          </View>
+        )}
+
+        {item.handover && renderConditionReport(item.id, 'Picked up', item.handover)}
+        {item.returnReport && renderConditionReport(item.id, 'Returned', item.returnReport)}
+
+        {item.isLateReturn && (
+          <View style={[styles.alertRow, styles.lateRow]}>
+            <Ionicons name="alarm-outline" size={16} color="#EF4444" />
+            <Text style={styles.lateText}>
+              Returned {item.daysLate} day{item.daysLate === 1 ? '' : 's'} late
+            </Text>
+          </View>
+        )}
+
+        {item.depositSettlement ? (
+          <View style={[styles.alertRow, styles.depositRow]}>
+            <Ionicons name="shield-checkmark-outline" size={16} color="#10B981" />
+            <Text style={styles.depositText}>
+              Deposit: K{item.depositSettlement.refundedAmount.toFixed(2)} refunded
+              {item.depositSettlement.deductedAmount > 0
+                ? `, K${item.depositSettlement.deductedAmount.toFixed(2)} kept — ${item.depositSettlement.reason}`
+                : ' in full'}
+            </Text>
+          </View>
+        ) : item.status === 'completed' && deposit > 0 && (
+          <View style={styles.alertRow}>
+            <Ionicons name="shield-outline" size={16} color="#8B7355" />
+            <Text style={styles.detailLabel}>
+              Deposit of K{deposit.toFixed(2)} awaiting settlement
+            </Text>
+          </View>
+        )}
+
+        {item.amendments && item.amendments.length > 0 && (
+          <View style={styles.amendmentsContainer}>
+            <Text style={styles.reportLabel}>Date changes</Text>
+            {item.amendments.map(renderAmendment)}
+          </View>
+        )}
+
         {item.message && (
           <View style={styles.messageContainer}>
             <Text style={styles.messageLabel}>Message:</Text>
@@ -220,6 +450,71 @@ const MyBookingsScreen: React.FC = () => {
             </TouchableOpacity>
           </View>
         )}
+
+        {canAmend && (
+          <View style={styles.actionContainer}>
+            <TouchableOpacity
+              style={styles.rejectButton}
+              onPress={() => setAmendmentAction({ request: item, type: 'early_return' })}
+            >
+              <Text style={styles.rejectButtonText}>Return Early</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.approveButton}
+              onPress={() => setAmendmentAction({ request: item, type: 'extension' })}
+            >
+              <Text style={styles.approveButtonText}>Extend</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {canAnswerAmendment && (
+          <View style={styles.actionContainer}>
+            <TouchableOpacity
+              style={styles.rejectButton}
+              onPress={() => handleAmendmentResponse(item, false)}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.rejectButtonText}>Decline Change</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.approveButton}
+              onPress={() => handleAmendmentResponse(item, true)}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.approveButtonText}>Approve Change</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {(canHandOver || canCheckIn || canSettleDeposit) && (
+          <View style={styles.actionContainer}>
+            {canHandOver && (
+              <TouchableOpacity
+                style={styles.approveButton}
+                onPress={() => setConditionAction({ request: item, kind: 'handover' })}
+              >
+                <Text style={styles.approveButtonText}>Start Rental</Text>
+              </TouchableOpacity>
+            )}
+            {canCheckIn && (
+              <TouchableOpacity
+                style={styles.approveButton}
+                onPress={() => setConditionAction({ request: item, kind: 'return' })}
+              >
+                <Text style={styles.approveButtonText}>Check In Return</Text>
+              </TouchableOpacity>
+            )}
+            {canSettleDeposit && (
+              <TouchableOpacity
+                style={styles.approveButton}
+                onPress={() => openDepositSettlement(item)}
+              >
+                <Text style={styles.approveButtonText}>Settle Deposit</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </TouchableOpacity>
     );
   };
@@ -320,6 +615,87 @@ const MyBookingsScreen: React.FC = () => {
             )
           }
         />
+
+        <RentalConditionModal
+          visible={!!conditionAction}
+          title={conditionAction?.kind === 'return' ? 'Check In Return' : 'Start Rental'}
+          description={conditionAction?.kind === 'return'
+            ? 'Note the item\'s condition now that it\'s back. This completes the rental.'
+            : 'Note the item\'s condition as it\'s handed over. Both of you will see this record.'}
+          submitLabel={conditionAction?.kind === 'return' ? 'Complete' : 'Start'}
+          isSubmitting={isSubmitting}
+          onCancel={() => setConditionAction(null)}
+          onSubmit={handleConditionSubmit}
+        />
+
+        <RentalAmendmentModal
+          visible={!!amendmentAction}
+          request={amendmentAction?.request || null}
+          type={amendmentAction?.type || 'extension'}
+          isSubmitting={isSubmitting}
+          onCancel={() => setAmendmentAction(null)}
+          onSubmit={handleAmendmentSubmit}
+        />
+
+        <Modal
+          visible={!!settlingRequest}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setSettlingRequest(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.settlementCard}>
+              <Text style={styles.settlementTitle}>Settle Deposit</Text>
+              <Text style={styles.settlementText}>
+                The renter paid a K{settlingRequest ? RentalLifecycleService.depositOf(settlingRequest).toFixed(2) : '0.00'} deposit.
+                Refund it in full, or keep part of it to cover damage or a late return.
+              </Text>
+
+              <Text style={styles.inputLabel}>Amount to keep (K)</Text>
+              <TextInput
+                style={styles.input}
+                value={deductionAmount}
+                onChangeText={setDeductionAmount}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+                placeholderTextColor="#999"
+              />
+              <Text style={styles.inputLabel}>Reason</Text>
+              <TextInput
+                style={[styles.input, styles.reasonInput]}
+                value={deductionReason}
+                onChangeText={setDeductionReason}
+                placeholder="e.g. Cracked screen noted at return"
+                multiline
+                placeholderTextColor="#999"
+              />
+
+              <View style={styles.actionContainer}>
+                <TouchableOpacity
+                  style={styles.rejectButton}
+                  onPress={() => handleSettleDeposit(false)}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.rejectButtonText}>Keep Amount</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.approveButton}
+                  onPress={() => handleSettleDeposit(true)}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.approveButtonText}>Refund in Full</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={styles.settlementCancel}
+                onPress={() => setSettlingRequest(null)}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.settlementCancelText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
       </SafeAreaView>
     </AuthGuard>
   );
@@ -449,6 +825,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  pricingContainer: {
+    padding: 12,
+    backgroundColor: '#F7F3F0',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
   messageContainer: {
     marginTop: 8,
     padding: 12,
@@ -500,6 +882,128 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  alertRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  lateRow: {
+    padding: 10,
+    backgroundColor: '#FEF2F2',
+    borderRadius: 8,
+  },
+  lateText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  depositRow: {
+    padding: 10,
+    backgroundColor: '#ECFDF5',
+    borderRadius: 8,
+  },
+  depositText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#065F46',
+  },
+  reportContainer: {
+    padding: 12,
+    backgroundColor: '#F7F3F0',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  reportLabel: {
+    fontSize: 12,
+    color: '#8B7355',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  reportNotes: {
+    fontSize: 14,
+    color: '#2D1810',
+    lineHeight: 18,
+  },
+  amendmentsContainer: {
+    padding: 12,
+    backgroundColor: '#F7F3F0',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  amendmentRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  amendmentInfo: {
+    flex: 1,
+  },
+  amendmentText: {
+    fontSize: 13,
+    color: '#2D1810',
+  },
+  amendmentNote: {
+    fontSize: 12,
+    color: '#8B7355',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  amendmentStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  settlementCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+  },
+  settlementTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginBottom: 8,
+  },
+  settlementText: {
+    fontSize: 14,
+    color: '#8B7355',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2D1810',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#2D1810',
+    marginBottom: 12,
+  },
+  reasonInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  settlementCancel: {
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  settlementCancelText: {
+    fontSize: 14,
+    color: '#8B7355',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 60,
@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { fetchCustomerQuotations, respondToQuotation } from '../store/slices/quotationsSlice';
+import { Quotation, QuotationStatus } from '../types';
+import AuthGuard from '../components/AuthGuard';
+import { safeFormatDate } from '../utils/textUtils';
+
+const MyQuotationsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { customerQuotations, isLoading } = useSelector((state: RootState) => state.quotations);
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQuotations();
+  }, [user]);
+
+  const loadQuotations = async () => {
+    if (!user?.uid) return;
+    await dispatch(fetchCustomerQuotations(user.uid));
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadQuotations();
+    setRefreshing(false);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case QuotationStatus.SENT: return '#06B6D4';
+      case QuotationStatus.ACCEPTED: return '#059669';
+      case QuotationStatus.REJECTED: return '#EF4444';
+      case QuotationStatus.EXPIRED: return '#9CA3AF';
+      default: return '#8B7355';
+    }
+  };
+
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case QuotationStatus.SENT: return 'Awaiting Response';
+      case QuotationStatus.ACCEPTED: return 'Accepted';
+      case QuotationStatus.REJECTED: return 'Declined';
+      case QuotationStatus.EXPIRED: return 'Expired';
+      default: return status;
+    }
+  };
+
+  const handleRespond = (quotation: Quotation, accept: boolean) => {
+    Alert.alert(
+      accept ? 'Accept Quotation' : 'Decline Quotation',
+      accept
+        ? `Accept this quotation from ${quotation.storeName || 'the store'} for K${quotation.totalAmount.toFixed(2)}?`
+        : 'Are you sure you want to decline this quotation?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: accept ? 'Accept' : 'Decline',
+          style: accept ? 'default' : 'destructive',
+          onPress: async () => {
+            setRespondingId(quotation.id);
+            try {
+              await dispatch(respondToQuotation({ quotation, accept })).unwrap();
+              Alert.alert(
+                'Success',
+                accept
+                  ? 'Quotation accepted. The store will confirm your order.'
+                  : 'Quotation declined.'
+              );
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to respond to quotation');
+              loadQuotations();
+            } finally {
+              setRespondingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderQuotationCard = ({ item }: { item: Quotation }) => (
+    <View style={styles.quotationCard}>
+      <View style={styles.cardHeader}>
+        <View style={styles.cardTitleContainer}>
+          <Text style={styles.storeName}>{item.storeName || 'Store'}</Text>
+          <Text style={styles.quotationNumber}>Quote #{item.id.slice(-6).toUpperCase()}</Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) + '20' }]}>
+          <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
+            {getStatusLabel(item.status)}
+          </Text>
+        </View>
+      </View>
+
+      {item.items.map((lineItem, index) => (
+        <View key={index} style={styles.itemRow}>
+          <Text style={styles.itemText} numberOfLines={1}>
+            {lineItem.quantity}x {lineItem.title}
+          </Text>
+          <Text style={styles.itemPrice}>K{lineItem.subtotal.toFixed(2)}</Text>
+        </View>
+      ))}
+
+      {!!item.discountAmount && item.discountAmount > 0 && (
+        <View style={styles.itemRow}>
+          <Text style={styles.itemText}>Discount</Text>
+          <Text style={styles.discountText}>-K{item.discountAmount.toFixed(2)}</Text>
+        </View>
+      )}
+
+      {!!item.notes && <Text style={styles.notesText}>{item.notes}</Text>}
+
+      <View style={styles.cardFooter}>
+        <Text style={styles.validText}>Valid until {safeFormatDate(item.validUntil)}</Text>
+        <Text style={styles.totalText}>K{item.totalAmount.toFixed(2)}</Text>
+      </View>
+
+      {item.status === QuotationStatus.SENT && (
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={styles.declineButton}
+            onPress={() => handleRespond(item, false)}
+            disabled={respondingId === item.id}
+          >
+            <Text style={styles.declineButtonText}>Decline</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.acceptButton}
+            onPress={() => handleRespond(item, true)}
+            disabled={respondingId === item.id}
+          >
+            {respondingId === item.id ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.acceptButtonText}>Accept</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {!!item.orderId && (
+        <Text style={styles.orderLinkText}>Order #{item.orderId.slice(-6).toUpperCase()} placed</Text>
+      )}
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="document-text-outline" size={64} color="#D2B48C" />
+      <Text style={styles.emptyStateTitle}>No Quotations</Text>
+      <Text style={styles.emptyStateText}>
+        Quotations sent to you by stores will appear here
+      </Text>
+    </View>
+  );
+
+  return (
+    <AuthGuard
+      fallbackTitle="View Your Quotations"
+      fallbackMessage="Sign in to review quotations sent to you by stores"
+      fallbackIcon="document-text-outline"
+    >
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color="#2D1810" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>My Quotations</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <FlatList
+          data={customerQuotations}
+          renderItem={renderQuotationCard}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={['#8B4513']}
+              tintColor="#8B4513"
+            />
+          }
+          ListEmptyComponent={
+            isLoading ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#8B4513" />
+                <Text style={styles.loadingText}>Loading quotations...</Text>
+              </View>
+            ) : (
+              renderEmptyState()
+            )
+          }
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+        />
+      </SafeAreaView>
+    </AuthGuard>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F3F0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+  },
+  placeholder: {
+    width: 40,
+  },
+  listContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  quotationCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  cardTitleContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  storeName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginBottom: 4,
+  },
+  quotationNumber: {
+    fontSize: 13,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  statusBadge: {
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D1810',
+    marginRight: 8,
+  },
+  itemPrice: {
+    fontSize: 14,
+    color: '#2D1810',
+    fontWeight: '500',
+  },
+  discountText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '500',
+  },
+  notesText: {
+    fontSize: 13,
+    color: '#8B7355',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F7F3F0',
+  },
+  validText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#8B4513',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  declineButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  declineButtonText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  acceptButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#8B4513',
+  },
+  acceptButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  orderLinkText: {
+    fontSize: 13,
+    color: '#059669',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#8B7355',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8B7355',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
+
+export default MyQuotationsScreen;
\ No newline at end of file
@@ -171,6 +171,8 @@ const NotificationScreen: React.FC = () => {
         return 'chatbubble-outline';
       case 'store':
         return 'storefront-outline';
+      case 'promotion':
+        return 'pricetag-outline';
       default:
         return 'notifications-outline';
     }
@@ -186,6 +188,8 @@ const NotificationScreen: React.FC = () => {
         return '#06B6D4';
       case 'store':
         return '#8B4513';
+      case 'promotion':
+        return '#27AE60';
       default:
         return '#6B7280';
     }
@@ -13,6 +13,9 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { OrderStatus } from '../types';
+import OrderLifecycleService from '../services/OrderLifecycleService';
+import { safeFormatDateTime } from '../utils/textUtils';
 
 type OrderDetailNavigationProp = StackNavigationProp<RootStackParamList, 'OrderDetail'>;
 
@@ -29,11 +32,19 @@ const OrderDetailScreen: React.FC = () => {
     switch ((status || '').toLowerCase().replace(' ', '')) {
       case 'pending':
         return '#F59E0B';
+      case 'confirmed':
+        return '#3B82F6';
+      case 'preparing':
+        return '#8B5CF6';
+      case 'ready':
+        return '#10B981';
       case 'intransit':
         return '#06B6D4';
       case 'delivered':
+      case 'completed':
         return '#059669';
       case 'cancelled':
+      case 'rejected':
         return '#EF4444';
       default:
         return '#6B7280';
@@ -44,11 +55,20 @@ const OrderDetailScreen: React.FC = () => {
     switch ((status || '').toLowerCase().replace(' ', '')) {
       case 'pending':
         return 'time-outline';
+      case 'confirmed':
+        return 'checkmark-outline';
+      case 'preparing':
+        return 'construct-outline';
+      case 'ready':
+        return 'bag-check-outline';
       case 'intransit':
         return 'car-outline';
       case 'delivered':
         return 'home-outline';
+      case 'completed':
+        return 'checkmark-done-outline';
       case 'cancelled':
+      case 'rejected':
         return 'close-circle-outline';
       default:
         return 'help-outline';
@@ -56,26 +76,28 @@ const OrderDetailScreen: React.FC = () => {
   };
 
   const getStatusSteps = () => {
-    const allStatuses = ['pending', 'in transit', 'delivered'];
-    let currentStatusIndex = -1;
-    
-    // Handle cancelled status separately as it's not in the normal flow
-    if ((order.status || '').toLowerCase() === 'cancelled') {
+    // Cancelled and rejected orders leave the normal flow, so show where they stopped
+    if (order.status === OrderStatus.CANCELLED || order.status === OrderStatus.REJECTED) {
       return [
-        { status: 'cancelled', label: 'Cancelled', isCompleted: true, isCurrent: true }
+        {
+          status: order.status,
+          label: order.status,
+          isCompleted: true,
+          isCurrent: true,
+          timestamp: OrderLifecycleService.getStatusTimestamp(order, order.status),
+        }
       ];
     }
     
-    // Find current status index
-    currentStatusIndex = allStatuses.findIndex(s => 
-      s.toLowerCase().replace(' ', '') === (order.status || '').toLowerCase().replace(' ', '')
-    );
+    const allStatuses = OrderLifecycleService.getProgressSteps(order.deliveryMethod);
+    const currentStatusIndex = allStatuses.findIndex(status => status === order.status);
     
     return allStatuses.map((status, index) => ({
       status,
-      label: status.charAt(0).toUpperCase() + status.slice(1),
+      label: status,
       isCompleted: index <= currentStatusIndex,
       isCurrent: index === currentStatusIndex,
+      timestamp: OrderLifecycleService.getStatusTimestamp(order, status),
     }));
   };
 
@@ -125,6 +147,9 @@ const OrderDetailScreen: React.FC = () => {
               >
                 {step.label}
               </Text>
+              {step.isCompleted && !!step.timestamp && (
+                <Text style={styles.progressTime}>{safeFormatDateTime(step.timestamp)}</Text>
+              )}
             </View>
           </View>
         ))}
@@ -142,6 +167,9 @@ const OrderDetailScreen: React.FC = () => {
             <Text style={styles.itemDetails}>
               Quantity: {item.quantity} × K{item.priceAtPurchase?.toFixed(2) || '0.00'}
             </Text>
+            {item.discountAmount > 0 && (
+              <Text style={styles.itemDiscount}>Discount: -K{item.discountAmount.toFixed(2)}</Text>
+            )}
           </View>
           <Text style={styles.itemTotal}>
             K{((item.quantity || 1) * (item.priceAtPurchase || 0)).toFixed(2)}
@@ -158,6 +186,14 @@ const OrderDetailScreen: React.FC = () => {
         <Text style={styles.summaryLabel}>Subtotal:</Text>
         <Text style={styles.summaryValue}>K{order.itemSubtotal?.toFixed(2) || '0.00'}</Text>
       </View>
+      {order.discountAmount > 0 && (
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>
+            Discount{order.discountCode ? ` (${order.discountCode})` : ''}:
+          </Text>
+          <Text style={[styles.summaryValue, styles.discountValue]}>-K{order.discountAmount.toFixed(2)}</Text>
+        </View>
+      )}
       <View style={styles.summaryRow}>
         <Text style={styles.summaryLabel}>Delivery Cost:</Text>
         <Text style={styles.summaryValue}>K{order.deliveryCost?.toFixed(2) || '0.00'}</Text>
@@ -342,6 +378,11 @@ const styles = StyleSheet.create({
   progressText: {
     fontSize: 14,
   },
+  progressTime: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
   section: {
     backgroundColor: '#FFFFFF',
     marginHorizontal: 16,
@@ -395,6 +436,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#2D1810',
   },
+  discountValue: {
+    color: '#27AE60',
+  },
+  itemDiscount: {
+    fontSize: 12,
+    color: '#27AE60',
+    marginTop: 2,
+  },
   totalRow: {
     borderTopWidth: 1,
     borderTopColor: '#E8E2DD',
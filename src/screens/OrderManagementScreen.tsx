@@ -10,16 +10,17 @@ import {
   SafeAreaView,
   StatusBar,
   Modal,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
-import { fetchStoreOrders, updateOrderStatus as updateOrderStatusAction } from '../store/slices/ordersSlice';
-import { Order, OrderStatus } from '../types';
+import { fetchStoreOrders, fetchMoreStoreOrders, fetchStoreOrderStats, updateOrderStatus as updateOrderStatusAction } from '../store/slices/ordersSlice';
+import { Order, OrderStatus, UserRole } from '../types';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import NotificationService from '../services/NotificationService';
+import OrderLifecycleService from '../services/OrderLifecycleService';
 
 type OrderManagementNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -33,12 +34,16 @@ const OrderManagementScreen: React.FC = () => {
   const navigation = useNavigation<OrderManagementNavigationProp>();
   const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth) as any;
+  const { currentStore } = useSelector((state: RootState) => state.dashboard);
   
   // Get real orders from Redux store
   const ordersState = useSelector((state: RootState) => state.orders);
   const {
     items: orders,
     isLoading,
+    lastOrderId,
+    hasMore,
+    isLoadingMore,
     error,
     stats
   } = ordersState;
@@ -46,14 +51,22 @@ const OrderManagementScreen: React.FC = () => {
   const statusOptions = [
     { key: 'all', label: 'All Orders', color: '#6B7280' },
     { key: OrderStatus.PENDING, label: 'Pending', color: '#F59E0B' },
+    { key: OrderStatus.CONFIRMED, label: 'Confirmed', color: '#3B82F6' },
+    { key: OrderStatus.PREPARING, label: 'Preparing', color: '#8B5CF6' },
+    { key: OrderStatus.READY, label: 'Ready', color: '#10B981' },
     { key: OrderStatus.IN_TRANSIT, label: 'In Transit', color: '#06B6D4' },
     { key: OrderStatus.DELIVERED, label: 'Delivered', color: '#059669' },
+    { key: OrderStatus.COMPLETED, label: 'Completed', color: '#059669' },
     { key: OrderStatus.CANCELLED, label: 'Cancelled', color: '#EF4444' },
+    { key: OrderStatus.REJECTED, label: 'Rejected', color: '#EF4444' },
   ];
 
+  // Staff accounts manage the owner's orders, so key everything off the store owner
+  const storeOwnerId = currentStore?.ownerId || (user?.role !== UserRole.CASHIER ? user?.uid : undefined);
+
   useEffect(() => {
     loadOrders();
-  }, []);
+  }, [storeOwnerId]);
 
   useEffect(() => {
     filterOrders();
@@ -68,13 +81,14 @@ const OrderManagementScreen: React.FC = () => {
 
   const loadOrders = async () => {
     try {
-      if (!user?.uid) {
-        console.error('No user ID available');
+      if (!storeOwnerId) {
+        console.log('Store owner not loaded yet, skipping order fetch');
         return;
       }
       
-      console.log('Loading orders for store owner:', user.uid);
-      await dispatch(fetchStoreOrders(user.uid));
+      console.log('Loading orders for store owner:', storeOwnerId);
+      await dispatch(fetchStoreOrders(storeOwnerId));
+      dispatch(fetchStoreOrderStats(storeOwnerId));
     } catch (error) {
       console.error('Error loading orders:', error);
       Alert.alert('Error', 'Failed to load orders');
@@ -95,6 +109,11 @@ const OrderManagementScreen: React.FC = () => {
     setRefreshing(false);
   };
 
+  const loadMoreOrders = () => {
+    if (!storeOwnerId || !lastOrderId || !hasMore || isLoadingMore) return;
+    dispatch(fetchMoreStoreOrders({ storeOwnerId, afterOrderId: lastOrderId }));
+  };
+
   const getStatusColor = (status: string) => {
     const statusOption = statusOptions.find(option => option.key === status);
     return statusOption?.color || '#6B7280';
@@ -122,43 +141,36 @@ const OrderManagementScreen: React.FC = () => {
   const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
       const order = orders.find(o => o.id === orderId);
-      if (!order) {
+      if (!order || !storeOwnerId) {
         Alert.alert('Error', 'Order not found');
         return;
       }
 
-      const oldStatus = order.status;
-      
-      // Update order status in Redux and Firestore
+      // Validates the transition, stamps the timestamp, notifies the customer and issues the receipt
       await dispatch(updateOrderStatusAction({ 
         orderId, 
         status: newStatus, 
-        storeOwnerId: user.uid 
-      }));
-      
-      // Send notification about status change
-      const notificationService = NotificationService.getInstance();
-      await notificationService.notifyOrderStatusChange(
-        orderId,
-        order.customerId,
-        user.uid,
-        oldStatus,
-        newStatus,
-        order.totalAmount
-      );
-      
+        changedBy: user.uid,
+        storeOwnerId 
+      })).unwrap();
+
       Alert.alert('Success', `Order status updated to ${getStatusLabel(newStatus)}`);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating order status:', error);
-      Alert.alert('Error', 'Failed to update order status');
+      if (error?.name === 'IllegalOrderTransitionError') {
+        Alert.alert('Status Change Not Allowed', error.message);
+        loadOrders();
+      } else {
+        Alert.alert('Error', 'Failed to update order status');
+      }
     }
   };
 
   const showOrderActions = (order: Order) => {
-    const nextStatuses = getNextStatusOptions(order.status);
+    const nextStatuses = OrderLifecycleService.getAllowedTransitions(order);
     const actions = nextStatuses.map(status => ({
       text: `Mark as ${getStatusLabel(status)}`,
-      onPress: () => handleUpdateOrderStatus(order, status as OrderStatus),
+      onPress: () => handleUpdateOrderStatus(order, status),
     }));
 
     actions.push({ text: 'Cancel', style: 'cancel' } as any);
@@ -166,21 +178,6 @@ const OrderManagementScreen: React.FC = () => {
     Alert.alert('Order Actions', 'Choose an action:', actions as any);
   };
 
-  const getNextStatusOptions = (currentStatus: string): string[] => {
-    switch (currentStatus) {
-      case OrderStatus.PENDING:
-        return [OrderStatus.IN_TRANSIT, OrderStatus.DELIVERED, OrderStatus.CANCELLED];
-      case OrderStatus.IN_TRANSIT:
-        return [OrderStatus.DELIVERED, OrderStatus.CANCELLED];
-      case OrderStatus.DELIVERED:
-        return []; // Final status - no further transitions
-      case OrderStatus.CANCELLED:
-        return []; // Final status - no further transitions
-      default:
-        return [];
-    }
-  };
-
   const renderOrderItem = ({ item }: { item: Order }) => (
     <TouchableOpacity
       style={styles.orderCard}
@@ -291,6 +288,15 @@ const OrderManagementScreen: React.FC = () => {
     </View>
   );
 
+  const renderListFooter = () => {
+    if (!isLoadingMore) return null;
+    return (
+      <View style={styles.listFooter}>
+        <ActivityIndicator size="small" color="#8B4513" />
+      </View>
+    );
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Ionicons name="receipt-outline" size={64} color="#D2B48C" />
@@ -358,6 +364,9 @@ const OrderManagementScreen: React.FC = () => {
           />
         }
         ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={renderListFooter}
+        onEndReached={loadMoreOrders}
+        onEndReachedThreshold={0.5}
         showsVerticalScrollIndicator={false}
         ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
       />
@@ -540,6 +549,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  listFooter: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 60,
@@ -157,8 +157,32 @@ const OrdersScreen: React.FC = () => {
     }
   };
 
+  // Orders placed together in one checkout, one per store
+  const getCheckoutGroup = (order: Order) => {
+    if (!order.checkoutGroupId) return [];
+    return orders.filter(other => other.checkoutGroupId === order.checkoutGroupId);
+  };
+
+  const renderCheckoutGroupBanner = (order: Order) => {
+    const groupOrders = getCheckoutGroup(order);
+    if (groupOrders.length < 2) return null;
+
+    const position = groupOrders.findIndex(other => other.id === order.id) + 1;
+    const groupTotal = groupOrders.reduce((sum, other) => sum + (other.totalAmount || 0), 0);
+
+    return (
+      <View style={styles.checkoutGroupBanner}>
+        <Ionicons name="layers-outline" size={14} color="#8B4513" />
+        <Text style={styles.checkoutGroupText}>
+          Checkout #{order.checkoutGroupId!.slice(-6).toUpperCase()} • Store {position} of {groupOrders.length} • K{groupTotal.toFixed(2)} total
+        </Text>
+      </View>
+    );
+  };
+
   const renderOrderCard = ({ item }: { item: Order }) => (
     <TouchableOpacity style={styles.orderCard} activeOpacity={0.7}>
+      {renderCheckoutGroupBanner(item)}
       <View style={styles.orderHeader}>
         <View style={styles.orderInfo}>
           <Text style={styles.orderNumber}>
@@ -190,6 +214,15 @@ const OrdersScreen: React.FC = () => {
         </Text>
         
         <View style={styles.orderDetails}>
+          {!!item.items[0]?.sellerName && (
+            <View style={styles.detailRow}>
+              <Ionicons name="storefront-outline" size={14} color="#8B7355" />
+              <Text style={styles.detailText} numberOfLines={1}>
+                {item.items[0].sellerName}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.detailRow}>
             <Ionicons name="location-outline" size={14} color="#8B7355" />
             <Text style={styles.detailText} numberOfLines={1}>
@@ -418,6 +451,22 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 3,
   },
+  checkoutGroupBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F7F3F0',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginBottom: 12,
+    gap: 6,
+  },
+  checkoutGroupText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B4513',
+  },
   orderHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
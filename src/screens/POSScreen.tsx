@@ -0,0 +1,559 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  SafeAreaView,
+  StatusBar,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { fetchStoreListings } from '../store/slices/listingsSlice';
+import { recordPosSale, PosBasketItem } from '../store/slices/receiptsSlice';
+import { Listing } from '../types';
+
+const POSScreen: React.FC = () => {
+  const [code, setCode] = useState('');
+  const [basket, setBasket] = useState<PosBasketItem[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'mobile_money'>('cash');
+  const [amountTendered, setAmountTendered] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const codeInputRef = useRef<TextInput>(null);
+
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { currentStore } = useSelector((state: RootState) => state.dashboard);
+  const { storeListings, isLoading } = useSelector((state: RootState) => state.listings);
+
+  const storeId = currentStore?.id || user?.storeId;
+  const listings = storeId ? storeListings[storeId] || [] : [];
+  const posEnabled = !!currentStore?.featurePosEnabled;
+
+  useEffect(() => {
+    loadListings();
+  }, [currentStore?.id]);
+
+  const loadListings = async () => {
+    if (!currentStore?.id || !posEnabled) {
+      return;
+    }
+    await dispatch(fetchStoreListings({ storeId: currentStore.id, store: currentStore }));
+  };
+
+  const searchText = code.trim().toLowerCase();
+  const matchingListings = searchText
+    ? listings
+        .filter(listing =>
+          listing.barcode === code.trim() ||
+          listing.title.toLowerCase().includes(searchText)
+        )
+        .slice(0, 5)
+    : [];
+
+  const basketTotal = basket.reduce((sum, item) => sum + item.listing.price * item.quantity, 0);
+  const basketCount = basket.reduce((sum, item) => sum + item.quantity, 0);
+  const tendered = parseFloat(amountTendered);
+  const changeDue = !isNaN(tendered) ? tendered - basketTotal : 0;
+
+  const addToBasket = (listing: Listing) => {
+    const existing = basket.find(item => item.listing.id === listing.id);
+    const nextQuantity = (existing?.quantity || 0) + 1;
+
+    if (listing.stock !== undefined && nextQuantity > listing.stock) {
+      Alert.alert('Insufficient Stock', `Only ${listing.stock} of ${listing.title} in stock`);
+      return;
+    }
+
+    if (existing) {
+      setBasket(basket.map(item =>
+        item.listing.id === listing.id ? { ...item, quantity: nextQuantity } : item
+      ));
+    } else {
+      setBasket([...basket, { listing, quantity: 1 }]);
+    }
+    setCode('');
+    codeInputRef.current?.focus();
+  };
+
+  const changeQuantity = (listingId: string, delta: number) => {
+    setBasket(prev => prev
+      .map(item => {
+        if (item.listing.id !== listingId) return item;
+        const quantity = item.quantity + delta;
+        if (item.listing.stock !== undefined && quantity > item.listing.stock) {
+          Alert.alert('Insufficient Stock', `Only ${item.listing.stock} of ${item.listing.title} in stock`);
+          return item;
+        }
+        return { ...item, quantity };
+      })
+      .filter(item => item.quantity > 0)
+    );
+  };
+
+  // Barcode scanners type the code and press enter, so lookups happen on submit
+  const handleCodeSubmit = () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    const byBarcode = listings.find(listing => listing.barcode === trimmed);
+    if (byBarcode) {
+      addToBasket(byBarcode);
+      return;
+    }
+
+    if (matchingListings.length === 1) {
+      addToBasket(matchingListings[0]);
+      return;
+    }
+
+    if (matchingListings.length === 0) {
+      Alert.alert('Not Found', `No product matches "${trimmed}"`);
+    }
+  };
+
+  const resetSale = () => {
+    setBasket([]);
+    setAmountTendered('');
+    setPaymentMethod('cash');
+    setCode('');
+  };
+
+  const handleCompleteSale = async () => {
+    if (!storeId || !user) return;
+
+    if (basket.length === 0) {
+      Alert.alert('Error', 'Add at least one product to the basket');
+      return;
+    }
+    if (paymentMethod === 'cash' && amountTendered && (isNaN(tendered) || tendered < basketTotal)) {
+      Alert.alert('Error', `Amount tendered must be at least K${basketTotal.toFixed(2)}`);
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { receipt } = await dispatch(recordPosSale({
+        storeId,
+        cashierId: user.uid,
+        basket,
+        paymentMethod,
+        ...(paymentMethod === 'cash' && amountTendered && { amountTendered: tendered }),
+      })).unwrap();
+
+      Alert.alert(
+        'Sale Complete',
+        `Receipt #${receipt.id.slice(-6).toUpperCase()} issued for K${receipt.totalAmount.toFixed(2)}` +
+          (receipt.changeDue !== undefined ? `\nChange due: K${receipt.changeDue.toFixed(2)}` : '')
+      );
+      resetSale();
+    } catch (error: any) {
+      Alert.alert('Sale Failed', error?.message || 'Failed to record sale');
+    } finally {
+      setIsProcessing(false);
+      // Refresh stock levels either way; a failed sale usually means stock changed
+      loadListings();
+    }
+  };
+
+  const renderBasketItem = ({ item }: { item: PosBasketItem }) => (
+    <View style={styles.basketItem}>
+      <View style={styles.basketItemInfo}>
+        <Text style={styles.basketItemTitle} numberOfLines={1}>{item.listing.title}</Text>
+        <Text style={styles.basketItemPrice}>K{item.listing.price.toFixed(2)} each</Text>
+      </View>
+      <View style={styles.quantityControls}>
+        <TouchableOpacity onPress={() => changeQuantity(item.listing.id, -1)}>
+          <Ionicons name="remove-circle-outline" size={26} color="#8B4513" />
+        </TouchableOpacity>
+        <Text style={styles.quantityText}>{String(item.quantity)}</Text>
+        <TouchableOpacity onPress={() => changeQuantity(item.listing.id, 1)}>
+          <Ionicons name="add-circle-outline" size={26} color="#8B4513" />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.basketItemSubtotal}>K{(item.listing.price * item.quantity).toFixed(2)}</Text>
+    </View>
+  );
+
+  if (!posEnabled) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Point of Sale</Text>
+        </View>
+        <View style={styles.emptyState}>
+          <Ionicons name="barcode-outline" size={64} color="#D2B48C" />
+          <Text style={styles.emptyStateTitle}>POS Not Enabled</Text>
+          <Text style={styles.emptyStateText}>
+            Point of sale is a premium feature. Contact KUTRA support to enable it for your store.
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Point of Sale</Text>
+        {basket.length > 0 && (
+          <TouchableOpacity onPress={resetSale}>
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Barcode / product lookup */}
+        <View style={styles.lookupContainer}>
+          <View style={styles.lookupInputContainer}>
+            <Ionicons name="barcode-outline" size={22} color="#8B7355" />
+            <TextInput
+              ref={codeInputRef}
+              style={styles.lookupInput}
+              value={code}
+              onChangeText={setCode}
+              onSubmitEditing={handleCodeSubmit}
+              placeholder="Scan barcode or search products"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="search"
+              blurOnSubmit={false}
+              autoFocus
+            />
+            {isLoading && <ActivityIndicator size="small" color="#8B4513" />}
+          </View>
+
+          {matchingListings.map(listing => (
+            <TouchableOpacity
+              key={listing.id}
+              style={styles.matchRow}
+              onPress={() => addToBasket(listing)}
+            >
+              <View style={styles.basketItemInfo}>
+                <Text style={styles.basketItemTitle} numberOfLines={1}>{listing.title}</Text>
+                <Text style={styles.basketItemPrice}>
+                  {listing.barcode ? `${listing.barcode} • ` : ''}
+                  {listing.stock !== undefined ? `${listing.stock} in stock` : 'Not stock tracked'}
+                </Text>
+              </View>
+              <Text style={styles.basketItemSubtotal}>K{listing.price.toFixed(2)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Basket */}
+        <FlatList
+          data={basket}
+          renderItem={renderBasketItem}
+          keyExtractor={(item) => item.listing.id}
+          contentContainerStyle={[styles.basketList, basket.length === 0 && styles.emptyListContainer]}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="basket-outline" size={64} color="#D2B48C" />
+              <Text style={styles.emptyStateTitle}>Basket is Empty</Text>
+              <Text style={styles.emptyStateText}>Scan or search for products to start a sale</Text>
+            </View>
+          }
+          ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+          keyboardShouldPersistTaps="handled"
+        />
+
+        {/* Payment */}
+        <View style={styles.footer}>
+          <View style={styles.paymentMethods}>
+            {([
+              { key: 'cash', label: 'Cash', icon: 'cash-outline' },
+              { key: 'mobile_money', label: 'Mobile Money', icon: 'phone-portrait-outline' },
+            ] as const).map(option => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.paymentOption, paymentMethod === option.key && styles.activePaymentOption]}
+                onPress={() => setPaymentMethod(option.key)}
+              >
+                <Ionicons
+                  name={option.icon}
+                  size={18}
+                  color={paymentMethod === option.key ? '#FFFFFF' : '#8B7355'}
+                />
+                <Text style={[styles.paymentText, paymentMethod === option.key && styles.activePaymentText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {paymentMethod === 'cash' && (
+            <View style={styles.tenderedRow}>
+              <Text style={styles.summaryLabel}>Cash tendered (K)</Text>
+              <TextInput
+                style={styles.tenderedInput}
+                value={amountTendered}
+                onChangeText={setAmountTendered}
+                placeholder="0.00"
+                placeholderTextColor="#999"
+                keyboardType="decimal-pad"
+              />
+            </View>
+          )}
+          {paymentMethod === 'cash' && !!amountTendered && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Change</Text>
+              <Text style={[styles.summaryValue, changeDue < 0 && styles.negativeValue]}>
+                K{changeDue.toFixed(2)}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Total ({String(basketCount)} items)</Text>
+            <Text style={styles.totalText}>K{basketTotal.toFixed(2)}</Text>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.completeButton, (isProcessing || basket.length === 0) && styles.disabledButton]}
+            onPress={handleCompleteSale}
+            disabled={isProcessing || basket.length === 0}
+          >
+            {isProcessing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.completeButtonText}>Complete Sale</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F3F0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#2D1810',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  lookupContainer: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  lookupInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F7F3F0',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+  },
+  lookupInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2D1810',
+    paddingVertical: 12,
+    marginLeft: 8,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F7F3F0',
+  },
+  basketList: {
+    padding: 16,
+  },
+  emptyListContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  basketItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+  },
+  basketItemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  basketItemTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2D1810',
+  },
+  basketItemPrice: {
+    fontSize: 12,
+    color: '#8B7355',
+    marginTop: 2,
+  },
+  basketItemSubtotal: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#8B4513',
+    minWidth: 70,
+    textAlign: 'right',
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E8E2DD',
+    padding: 16,
+  },
+  paymentMethods: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  paymentOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    backgroundColor: '#F7F3F0',
+    gap: 6,
+  },
+  activePaymentOption: {
+    backgroundColor: '#8B4513',
+    borderColor: '#8B4513',
+  },
+  paymentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
+  activePaymentText: {
+    color: '#FFFFFF',
+  },
+  tenderedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  tenderedInput: {
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 120,
+    fontSize: 16,
+    color: '#2D1810',
+    textAlign: 'right',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  summaryValue: {
+    fontSize: 15,
+    color: '#2D1810',
+    fontWeight: '600',
+  },
+  negativeValue: {
+    color: '#EF4444',
+  },
+  totalText: {
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#8B4513',
+  },
+  completeButton: {
+    backgroundColor: '#8B4513',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  disabledButton: {
+    backgroundColor: '#D2B48C',
+  },
+  completeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8B7355',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
+
+export default POSScreen;
\ No newline at end of file
@@ -21,6 +21,9 @@ import { RootStackParamList } from '../navigation/AppNavigator';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RatingDisplay } from '../components/Rating';
 import RatingModal from '../components/RatingModal';
+import AvailabilityCalendar from '../components/AvailabilityCalendar';
+import RentalAvailabilityService, { BookedRange } from '../services/RentalAvailabilityService';
+import RentalPricingService from '../services/RentalPricingService';
 import { Listing, ListingType } from '../types';
 import { collection, addDoc, doc, updateDoc, increment } from 'firebase/firestore';
 import { db } from '../config/firebase';
@@ -34,6 +37,8 @@ const ProductDetailScreen: React.FC = () => {
   const [quantity, setQuantity] = useState(1);
   const [isFavorited, setIsFavorited] = useState(false);
   const [showRatingModal, setShowRatingModal] = useState(false);
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
+  const [isLoadingAvailability, setIsLoadingAvailability] = useState(false);
 
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<ProductDetailScreenNavigationProp>();
@@ -50,6 +55,29 @@ const ProductDetailScreen: React.FC = () => {
     }
   }, [listingId, productId]);
 
+  // Rentals show which days are already booked
+  useEffect(() => {
+    if (currentListing?.type !== ListingType.RENT) {
+      setBookedRanges([]);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsLoadingAvailability(true);
+    RentalAvailabilityService.getBookedRanges(currentListing.id)
+      .then(ranges => {
+        if (isCurrent) setBookedRanges(ranges);
+      })
+      .catch(error => console.error('Error loading availability:', error))
+      .finally(() => {
+        if (isCurrent) setIsLoadingAvailability(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentListing?.id, currentListing?.type]);
+
   useEffect(() => {
     if (currentListing) {
       const favorite = favoriteItems.find(
@@ -299,11 +327,24 @@ const ProductDetailScreen: React.FC = () => {
                 <Text style={styles.infoText}>Period: {currentListing.rentalPeriod}</Text>
               )}
               {currentListing.minimumRentalPeriod && (
-                <Text style={styles.infoText}>Minimum: {currentListing.minimumRentalPeriod} {currentListing.rentalPeriod || 'months'}</Text>
+                <Text style={styles.infoText}>
+                  Minimum: {RentalPricingService.formatUnits(RentalPricingService.periodOf(currentListing), currentListing.minimumRentalPeriod)}
+                </Text>
+              )}
+              {currentListing.maximumRentalPeriod && (
+                <Text style={styles.infoText}>
+                  Maximum: {RentalPricingService.formatUnits(RentalPricingService.periodOf(currentListing), currentListing.maximumRentalPeriod)}
+                </Text>
               )}
               {currentListing.securityDeposit && (
                 <Text style={styles.infoText}>Security Deposit: K{currentListing.securityDeposit.toFixed(2)}</Text>
               )}
+              <Text style={styles.availabilityTitle}>Availability</Text>
+              <AvailabilityCalendar
+                listing={currentListing}
+                bookedRanges={bookedRanges}
+                isLoading={isLoadingAvailability}
+              />
             </View>
           )}
 
@@ -679,6 +720,13 @@ const styles = StyleSheet.create({
   rentalInfoContainer: {
     marginBottom: 20,
   },
+  availabilityTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
   swapInfoContainer: {
     marginBottom: 20,
   },
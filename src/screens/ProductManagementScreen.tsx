@@ -20,6 +20,7 @@ import { fetchStoreProducts, updateStoreProduct, deleteStoreProduct } from '../s
 import { Listing, ListingCategory, ListingType } from '../types';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import AuthGuard from '../components/AuthGuard';
 
 type ProductManagementNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -237,86 +238,91 @@ const ProductManagementScreen: React.FC = () => {
   );
 
   return (
-    <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+    <AuthGuard
+      requiredPermissions={['manage_products']}
+      showBackButton={false}
+    >
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
       
-      {/* Header */}
-      <View style={styles.header}>
-        <TouchableOpacity 
-          style={styles.backButton}
-          onPress={() => navigation.goBack()}
-        >
-          <Ionicons name="arrow-back" size={24} color="#2D1810" />
-        </TouchableOpacity>
-        <Text style={styles.headerTitle}>Product Management</Text>
-        <TouchableOpacity style={styles.addButton} onPress={handleAddProduct}>
-          <Ionicons name="add" size={24} color="#FFFFFF" />
-        </TouchableOpacity>
-      </View>
-
-      {/* Search Bar */}
-      <View style={styles.searchContainer}>
-        <View style={styles.searchBar}>
-          <Ionicons name="search-outline" size={20} color="#8B7355" />
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Search products..."
-            value={searchQuery}
-            onChangeText={setSearchQuery}
-            placeholderTextColor="#8B7355"
-          />
-          {searchQuery.length > 0 && (
-            <TouchableOpacity onPress={() => setSearchQuery('')}>
-              <Ionicons name="close-circle" size={20} color="#8B7355" />
-            </TouchableOpacity>
-          )}
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity 
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color="#2D1810" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Product Management</Text>
+          <TouchableOpacity style={styles.addButton} onPress={handleAddProduct}>
+            <Ionicons name="add" size={24} color="#FFFFFF" />
+          </TouchableOpacity>
         </View>
-      </View>
 
-      {/* Product Stats */}
-      <View style={styles.statsContainer}>
-        <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{String(stats.totalProducts)}</Text>
-          <Text style={styles.statLabel}>Total Products</Text>
-        </View>
-        <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{String(stats.activeProducts)}</Text>
-          <Text style={styles.statLabel}>Active</Text>
-        </View>
-        <View style={styles.statItem}>
-          <Text style={styles.statNumber}>
-            {String(products.reduce((sum, p) => sum + (p.stock || 0), 0))}
-          </Text>
-          <Text style={styles.statLabel}>Total Stock</Text>
+        {/* Search Bar */}
+        <View style={styles.searchContainer}>
+          <View style={styles.searchBar}>
+            <Ionicons name="search-outline" size={20} color="#8B7355" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search products..."
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholderTextColor="#8B7355"
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <Ionicons name="close-circle" size={20} color="#8B7355" />
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
-        <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{String(stats.outOfStockProducts)}</Text>
-          <Text style={styles.statLabel}>Out of Stock</Text>
+
+        {/* Product Stats */}
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{String(stats.totalProducts)}</Text>
+            <Text style={styles.statLabel}>Total Products</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{String(stats.activeProducts)}</Text>
+            <Text style={styles.statLabel}>Active</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>
+              {String(products.reduce((sum, p) => sum + (p.stock || 0), 0))}
+            </Text>
+            <Text style={styles.statLabel}>Total Stock</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{String(stats.outOfStockProducts)}</Text>
+            <Text style={styles.statLabel}>Out of Stock</Text>
+          </View>
         </View>
-      </View>
 
-      {/* Products List */}
-      <FlatList
-        data={filteredProducts}
-        renderItem={renderProductItem}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={[
-          styles.listContainer,
-          filteredProducts.length === 0 && styles.emptyListContainer,
-        ]}
-        refreshControl={
-          <RefreshControl 
-            refreshing={refreshing} 
-            onRefresh={onRefresh}
-            colors={['#8B4513']}
-            tintColor="#8B4513"
-          />
-        }
-        ListEmptyComponent={renderEmptyState}
-        showsVerticalScrollIndicator={false}
-        ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
-      />
-    </SafeAreaView>
+        {/* Products List */}
+        <FlatList
+          data={filteredProducts}
+          renderItem={renderProductItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={[
+            styles.listContainer,
+            filteredProducts.length === 0 && styles.emptyListContainer,
+          ]}
+          refreshControl={
+            <RefreshControl 
+              refreshing={refreshing} 
+              onRefresh={onRefresh}
+              colors={['#8B4513']}
+              tintColor="#8B4513"
+            />
+          }
+          ListEmptyComponent={renderEmptyState}
+          showsVerticalScrollIndicator={false}
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+        />
+      </SafeAreaView>
+    </AuthGuard>
   );
 };
 
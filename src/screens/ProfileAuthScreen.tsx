@@ -48,6 +48,8 @@ const ProfileAuthScreen: React.FC = () => {
         })).unwrap();
         Alert.alert('Success', 'Welcome back!');
       } catch (error: any) {
+        // Suspended accounts get their own screen explaining why
+        if (error?.name === 'AccountSuspendedError') return;
         Alert.alert('Login Failed', error.message || 'Please try again');
       }
     } else {
@@ -20,14 +20,18 @@ import { useDispatch, useSelector } from 'react-redux';
 import { useNavigation, CompositeNavigationProp } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { AppDispatch, RootState } from '../store';
-import { logoutUser } from '../store/slices/authSlice';
+import { logoutUser, setUser } from '../store/slices/authSlice';
 import { fetchFavorites } from '../store/slices/favoritesSlice';
+import { fetchStaffInvites, respondToStaffInvite } from '../store/slices/staffSlice';
+import { StoreStaffMember } from '../types';
 import { ProfileStackParamList, MainTabParamList, RootStackParamList } from '../navigation/AppNavigator';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import ProfileAuthScreen from './ProfileAuthScreen';
 import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
 
 type ProfileScreenNavigationProp = CompositeNavigationProp<
   StackNavigationProp<ProfileStackParamList, 'ProfileMain'>,
@@ -38,11 +42,14 @@ type ProfileScreenNavigationProp = CompositeNavigationProp<
 >;
 
 const ProfileScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const auth = useSelector((state: RootState) => state.auth) as any;
   const cart = useSelector((state: RootState) => state.cart) as any;
   const favorites = useSelector((state: RootState) => state.favorites) as any;
+  const staffInvites = useSelector((state: RootState) => state.staff.invites);
   
   const user = auth?.user;
   const totalItems = cart?.totalItems || 0;
@@ -66,6 +73,7 @@ const ProfileScreen: React.FC = () => {
     campus: user?.campus || '',
   });
   const [isUpdating, setIsUpdating] = useState(false);
+  const [respondingInviteId, setRespondingInviteId] = useState<string | null>(null);
 
   // Load user statistics when component mounts
   useEffect(() => {
@@ -75,9 +83,42 @@ const ProfileScreen: React.FC = () => {
       if (user.role !== 'Store Owner') {
         dispatch(fetchFavorites(user.uid));
       }
+      // Only accounts not tied to a store can take up a staff invite
+      if (user.role === 'Customer' && !user.storeId) {
+        dispatch(fetchStaffInvites(user.uid));
+      }
     }
   }, [user]);
 
+  const respondToInvite = async (invite: StoreStaffMember, accept: boolean) => {
+    if (!invite.id) return;
+    setRespondingInviteId(invite.id);
+    try {
+      const result = await dispatch(respondToStaffInvite({ invite, accept, userId: user.uid })).unwrap();
+      if (result.accepted) {
+        // The staff role switches the app over to the store navigator
+        dispatch(setUser({ ...user, ...result.profile }));
+      }
+    } catch (error: any) {
+      console.error('Error responding to staff invite:', error);
+      Alert.alert('Error', error?.message || 'Failed to answer the invite');
+    } finally {
+      setRespondingInviteId(null);
+    }
+  };
+
+  const handleStaffInvite = (invite: StoreStaffMember) => {
+    Alert.alert(
+      'Store Staff Invite',
+      `${invite.storeName} has invited you to join as ${invite.role}. Accepting switches your account to the store's staff view.`,
+      [
+        { text: 'Later', style: 'cancel' },
+        { text: 'Decline', style: 'destructive', onPress: () => respondToInvite(invite, false) },
+        { text: 'Accept', onPress: () => respondToInvite(invite, true) },
+      ]
+    );
+  };
+
   const loadUserStats = async () => {
     if (!user?.uid) return;
     
@@ -196,6 +237,9 @@ const ProfileScreen: React.FC = () => {
     }
   };
 
+  // Staff and courier accounts are for working, so hide the shopping items
+  const isStoreStaff = user.role === 'Cashier' || user.role === 'Delivery';
+
   const menuItems = [
     // Store Dashboard for Store Owners
     ...(user.role === 'Store Owner' ? [{
@@ -203,55 +247,62 @@ const ProfileScreen: React.FC = () => {
       title: 'Store Dashboard',
       subtitle: 'Manage your store and products',
       onPress: () => navigation.getParent()?.getParent()?.navigate('StoreDashboard'),
-      color: '#8B4513',
+      color: colors.primary,
       isStoreOwner: true,
     }] : []),
-    // Only show these items for customers, not store owners
-    ...(user.role !== 'Store Owner' ? [
+    // Only show these items for customers, not store owners or staff
+    ...(user.role !== 'Store Owner' && !isStoreStaff ? [
       {
         icon: 'heart-outline',
         title: 'Favorites',
         subtitle: 'Your saved items',
         onPress: () => navigation.navigate('Favorites'),
-        color: '#8B4513',
+        color: colors.primary,
       },
       {
         icon: 'receipt-outline',
         title: 'My Orders',
         subtitle: 'Track your purchases',
         onPress: () => navigation.navigate('Orders'),
-        color: '#8B4513',
+        color: colors.primary,
       },
       {
         icon: 'cart-outline',
         title: 'Shopping Cart',
         subtitle: `${totalItems} items`,
         onPress: () => navigation.navigate('Cart'),
-        color: '#8B4513',
+        color: colors.primary,
       },
     ] : []),
-    // Only show swap/rental for customers, not store owners
-    ...(user.role !== 'Store Owner' ? [
+    // Only show swap/rental for customers, not store owners or staff
+    ...(user.role !== 'Store Owner' && !isStoreStaff ? [
       {
         icon: 'cube-outline',
         title: 'My Items',
         subtitle: 'View your swap and rental listings',
         onPress: () => navigation.navigate('MyItems' as never),
-        color: '#8B4513',
+        color: colors.primary,
       },
       {
         icon: 'calendar-outline',
         title: 'My Bookings',
         subtitle: 'View rental bookings and requests',
         onPress: () => navigation.navigate('MyBookings' as never),
-        color: '#8B4513',
+        color: colors.primary,
       },
       {
         icon: 'swap-horizontal-outline',
         title: 'My Requests',
         subtitle: 'View swap requests and offers',
         onPress: () => navigation.navigate('MyRequests' as never),
-        color: '#8B4513',
+        color: colors.primary,
+      },
+      {
+        icon: 'document-text-outline',
+        title: 'My Quotations',
+        subtitle: 'Review quotes sent by stores',
+        onPress: () => navigation.navigate('MyQuotations' as never),
+        color: colors.primary,
       },
     ] : []),
     {
@@ -259,35 +310,35 @@ const ProfileScreen: React.FC = () => {
       title: 'Messages',
       subtitle: 'Your conversations',
       onPress: () => navigation.getParent()?.navigate('Chat'),
-      color: '#8B4513',
+      color: colors.primary,
     },
     {
       icon: 'location-outline',
       title: 'Addresses',
       subtitle: 'Manage delivery addresses',
       onPress: () => navigation.navigate('Address' as never),
-      color: '#8B4513',
+      color: colors.primary,
     },
     {
       icon: 'notifications-outline',
       title: 'Notifications',
       subtitle: 'Notification preferences',
       onPress: () => navigation.getParent()?.getParent()?.navigate('Notifications'),
-      color: '#8B4513',
+      color: colors.primary,
     },
     {
       icon: 'help-circle-outline',
       title: 'Help & Support',
       subtitle: 'Get help and contact us',
       onPress: () => navigation.navigate('Help' as never),
-      color: '#8B4513',
+      color: colors.primary,
     },
     {
       icon: 'settings-outline',
       title: 'Settings',
       subtitle: 'App preferences',
       onPress: () => navigation.navigate('Settings' as never),
-      color: '#8B4513',
+      color: colors.primary,
     },
   ];
 
@@ -305,7 +356,7 @@ const ProfileScreen: React.FC = () => {
             style={styles.avatar}
           />
           <TouchableOpacity style={styles.editAvatarButton}>
-            <Ionicons name="camera" size={16} color="white" />
+            <Ionicons name="camera" size={16} color={colors.onPrimary} />
           </TouchableOpacity>
         </View>
         
@@ -323,16 +374,37 @@ const ProfileScreen: React.FC = () => {
         </View>
         
         <TouchableOpacity style={styles.editProfileButton} onPress={handleEditProfile}>
-          <Ionicons name="create-outline" size={20} color="#8B4513" />
+          <Ionicons name="create-outline" size={20} color={colors.primary} />
           <Text style={styles.editProfileText}>Edit</Text>
         </TouchableOpacity>
       </View>
 
+      {/* Staff Invites */}
+      {staffInvites.map((invite) => (
+        <TouchableOpacity
+          key={invite.id}
+          style={styles.inviteCard}
+          onPress={() => handleStaffInvite(invite)}
+          disabled={respondingInviteId === invite.id}
+        >
+          <Ionicons name="people-outline" size={24} color={colors.primary} />
+          <View style={styles.inviteTextContainer}>
+            <Text style={styles.inviteTitle}>Invite from {invite.storeName}</Text>
+            <Text style={styles.inviteSubtitle}>Join as {invite.role} • Tap to accept or decline</Text>
+          </View>
+          {respondingInviteId === invite.id ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+          )}
+        </TouchableOpacity>
+      ))}
+
       {/* Quick Stats */}
       <View style={styles.statsContainer}>
         <View style={styles.statItem}>
           {isLoadingStats ? (
-            <ActivityIndicator size="small" color="#8B4513" />
+            <ActivityIndicator size="small" color={colors.primary} />
           ) : (
             <Text style={styles.statValue}>{stats.orders}</Text>
           )}
@@ -343,7 +415,7 @@ const ProfileScreen: React.FC = () => {
             <View style={styles.statDivider} />
             <View style={styles.statItem}>
               {isLoadingStats || favorites.isLoading ? (
-                <ActivityIndicator size="small" color="#8B4513" />
+                <ActivityIndicator size="small" color={colors.primary} />
               ) : (
                 <Text style={styles.statValue}>{favoritesCount}</Text>
               )}
@@ -352,7 +424,7 @@ const ProfileScreen: React.FC = () => {
             <View style={styles.statDivider} />
             <View style={styles.statItem}>
               {isLoadingStats ? (
-                <ActivityIndicator size="small" color="#8B4513" />
+                <ActivityIndicator size="small" color={colors.primary} />
               ) : (
                 <Text style={styles.statValue}>{String(totalItems)}</Text>
               )}
@@ -368,28 +440,28 @@ const ProfileScreen: React.FC = () => {
           <Text style={styles.activityStatsTitle}>Your Activity</Text>
           <View style={styles.activityGrid}>
             <View style={styles.activityItem}>
-              <Ionicons name="cube" size={24} color="#8B4513" />
+              <Ionicons name="cube" size={24} color={colors.primary} />
               <Text style={styles.activityValue}>
                 {isLoadingStats ? '...' : String(((stats as any).swapListings || 0) + ((stats as any).rentalListings || 0))}
               </Text>
               <Text style={styles.activityLabel}>My Items</Text>
             </View>
             <View style={styles.activityItem}>
-              <Ionicons name="calendar" size={24} color="#8B4513" />
+              <Ionicons name="calendar" size={24} color={colors.primary} />
               <Text style={styles.activityValue}>
                 {isLoadingStats ? '...' : String((stats as any).rentalListings || 0)}
               </Text>
               <Text style={styles.activityLabel}>Rental Items</Text>
             </View>
             <View style={styles.activityItem}>
-              <Ionicons name="repeat" size={24} color="#8B4513" />
+              <Ionicons name="repeat" size={24} color={colors.primary} />
               <Text style={styles.activityValue}>
                 {isLoadingStats ? '...' : String((stats as any).swapRequests || 0)}
               </Text>
               <Text style={styles.activityLabel}>My Requests</Text>
             </View>
             <View style={styles.activityItem}>
-              <Ionicons name="time" size={24} color="#8B4513" />
+              <Ionicons name="time" size={24} color={colors.primary} />
               <Text style={styles.activityValue}>
                 {isLoadingStats ? '...' : String((stats as any).rentalRequests || 0)}
               </Text>
@@ -418,7 +490,7 @@ const ProfileScreen: React.FC = () => {
                 <Ionicons 
                   name={item.icon as any} 
                   size={24} 
-                  color={item.isStoreOwner ? '#FFFFFF' : item.color} 
+                  color={item.isStoreOwner ? colors.onPrimary : item.color} 
                 />
               </View>
               <View style={styles.menuTextContainer}>
@@ -429,7 +501,7 @@ const ProfileScreen: React.FC = () => {
                 <Text style={styles.menuSubtitle}>{item.subtitle}</Text>
               </View>
             </View>
-            <Ionicons name="chevron-forward" size={20} color="#8B7355" />
+            <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
           </TouchableOpacity>
         ))}
       </View>
@@ -447,7 +519,7 @@ const ProfileScreen: React.FC = () => {
       {/* Logout Button */}
       <View style={styles.logoutContainer}>
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
-          <Ionicons name="log-out-outline" size={20} color="#DC2626" />
+          <Ionicons name="log-out-outline" size={20} color={colors.danger} />
           <Text style={styles.logoutText}>Logout</Text>
         </TouchableOpacity>
       </View>
@@ -477,7 +549,7 @@ const ProfileScreen: React.FC = () => {
               disabled={isUpdating}
             >
               {isUpdating ? (
-                <ActivityIndicator size="small" color="#8B4513" />
+                <ActivityIndicator size="small" color={colors.primary} />
               ) : (
                 <Text style={styles.modalSaveText}>Save</Text>
               )}
@@ -496,7 +568,7 @@ const ProfileScreen: React.FC = () => {
                 value={editForm.name}
                 onChangeText={(text) => setEditForm({...editForm, name: text})}
                 placeholder="Enter your name"
-                placeholderTextColor="#8B7355"
+                placeholderTextColor={colors.textSecondary}
                 returnKeyType="next"
                 onSubmitEditing={() => Keyboard.dismiss()}
                 blurOnSubmit={false}
@@ -510,7 +582,7 @@ const ProfileScreen: React.FC = () => {
                 value={editForm.email}
                 onChangeText={(text) => setEditForm({...editForm, email: text})}
                 placeholder="Enter your email"
-                placeholderTextColor="#8B7355"
+                placeholderTextColor={colors.textSecondary}
                 keyboardType="email-address"
                 autoCapitalize="none"
                 returnKeyType="next"
@@ -526,7 +598,7 @@ const ProfileScreen: React.FC = () => {
                 value={editForm.campus}
                 onChangeText={(text) => setEditForm({...editForm, campus: text})}
                 placeholder="Enter your campus (optional)"
-                placeholderTextColor="#8B7355"
+                placeholderTextColor={colors.textSecondary}
                 returnKeyType="done"
                 onSubmitEditing={() => Keyboard.dismiss()}
                 blurOnSubmit={true}
@@ -539,18 +611,18 @@ const ProfileScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   profileHeader: {
-    backgroundColor: '#FFFFFF',
-    paddingHorizontal: 20,
-    paddingVertical: 24,
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.xxl,
     flexDirection: 'row',
     alignItems: 'center',
-    shadowColor: '#8B4513',
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -558,7 +630,7 @@ const styles = StyleSheet.create({
   },
   avatarContainer: {
     position: 'relative',
-    marginRight: 16,
+    marginRight: theme.spacing.lg,
   },
   avatar: {
     width: 80,
@@ -569,60 +641,84 @@ const styles = StyleSheet.create({
     position: 'absolute',
     bottom: 0,
     right: 0,
-    backgroundColor: '#8B4513',
-    borderRadius: 12,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.lg,
     width: 24,
     height: 24,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 2,
-    borderColor: '#FFFFFF',
+    borderColor: theme.colors.surface,
   },
   userInfo: {
     flex: 1,
   },
   userName: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginBottom: 4,
+    fontSize: theme.typography.size.xl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
   },
   userEmail: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     marginBottom: 2,
   },
   userCampus: {
-    fontSize: 14,
-    color: '#8B4513',
-    fontWeight: '500',
-    marginBottom: 4,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.medium,
+    marginBottom: theme.spacing.xs,
   },
   memberSince: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
   },
   editProfileButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#F5F1ED',
-    borderRadius: 8,
-    paddingHorizontal: 12,
+    backgroundColor: theme.colors.surfaceAlt,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.md,
     paddingVertical: 6,
   },
   editProfileText: {
-    fontSize: 14,
-    color: '#8B4513',
-    fontWeight: '600',
-    marginLeft: 4,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    marginLeft: theme.spacing.xs,
+  },
+  inviteCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surfaceAlt,
+    marginTop: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.lg,
+    borderLeftWidth: 4,
+    borderLeftColor: theme.colors.primary,
+  },
+  inviteTextContainer: {
+    flex: 1,
+    marginHorizontal: theme.spacing.md,
+  },
+  inviteTitle: {
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+  },
+  inviteSubtitle: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
   },
   statsContainer: {
-    backgroundColor: '#FFFFFF',
-    marginTop: 8,
+    backgroundColor: theme.colors.surface,
+    marginTop: theme.spacing.sm,
     flexDirection: 'row',
     justifyContent: 'space-around',
-    paddingVertical: 20,
-    shadowColor: '#8B4513',
+    paddingVertical: theme.spacing.xl,
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 4,
@@ -632,39 +728,39 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   statValue: {
-    fontSize: 24,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.xxl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
     textAlign: 'center',
-    marginBottom: 4,
+    marginBottom: theme.spacing.xs,
   },
   statLabel: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
-    fontWeight: '500',
+    fontWeight: theme.typography.weight.medium,
   },
   statDivider: {
     width: 1,
-    backgroundColor: '#E8E2DD',
-    marginVertical: 8,
+    backgroundColor: theme.colors.border,
+    marginVertical: theme.spacing.sm,
   },
   activityStatsContainer: {
-    backgroundColor: '#FFFFFF',
-    marginTop: 8,
-    paddingHorizontal: 20,
-    paddingVertical: 20,
-    shadowColor: '#8B4513',
+    backgroundColor: theme.colors.surface,
+    marginTop: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.xl,
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 4,
     elevation: 2,
   },
   activityStatsTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginBottom: 16,
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.lg,
     textAlign: 'center',
   },
   activityGrid: {
@@ -675,38 +771,38 @@ const styles = StyleSheet.create({
   activityItem: {
     width: '48%',
     alignItems: 'center',
-    backgroundColor: '#F7F3F0',
-    borderRadius: 12,
-    paddingVertical: 16,
-    paddingHorizontal: 12,
-    marginBottom: 12,
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.radius.lg,
+    paddingVertical: theme.spacing.lg,
+    paddingHorizontal: theme.spacing.md,
+    marginBottom: theme.spacing.md,
   },
   activityValue: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginTop: 8,
-    marginBottom: 4,
+    fontSize: theme.typography.size.xl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
   },
   activityLabel: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
-    fontWeight: '500',
+    fontWeight: theme.typography.weight.medium,
   },
   menuContainer: {
-    backgroundColor: '#FFFFFF',
-    marginTop: 8,
-    paddingVertical: 8,
+    backgroundColor: theme.colors.surface,
+    marginTop: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
   },
   menuItem: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.lg,
     borderBottomWidth: 1,
-    borderBottomColor: '#F5F1ED',
+    borderBottomColor: theme.colors.surfaceAlt,
   },
   menuItemLeft: {
     flexDirection: 'row',
@@ -717,151 +813,151 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#F5F1ED',
+    backgroundColor: theme.colors.surfaceAlt,
     justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 16,
+    marginRight: theme.spacing.lg,
   },
   menuTextContainer: {
     flex: 1,
   },
   menuTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#2D1810',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
     marginBottom: 2,
   },
   menuSubtitle: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
   },
   storeOwnerMenuItem: {
-    backgroundColor: '#F5F1ED',
+    backgroundColor: theme.colors.surfaceAlt,
     borderLeftWidth: 4,
-    borderLeftColor: '#8B4513',
+    borderLeftColor: theme.colors.primary,
   },
   storeOwnerIcon: {
-    backgroundColor: '#8B4513',
+    backgroundColor: theme.colors.primary,
   },
   storeOwnerTitle: {
-    color: '#8B4513',
-    fontWeight: '700',
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.bold,
   },
   appInfoContainer: {
-    backgroundColor: '#FFFFFF',
-    marginTop: 8,
-    paddingHorizontal: 20,
-    paddingVertical: 24,
+    backgroundColor: theme.colors.surface,
+    marginTop: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.xxl,
     alignItems: 'center',
   },
   appName: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginBottom: 4,
+    fontSize: theme.typography.size.xl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
   },
   appVersion: {
-    fontSize: 14,
-    color: '#8B7355',
-    marginBottom: 8,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
   },
   appDescription: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
     lineHeight: 20,
   },
   poweredByText: {
-    fontSize: 12,
-    color: '#8B7355',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
-    marginTop: 8,
+    marginTop: theme.spacing.sm,
     fontStyle: 'italic',
     opacity: 0.8,
   },
   logoutContainer: {
-    backgroundColor: '#FFFFFF',
-    marginTop: 8,
-    marginBottom: 20,
-    paddingHorizontal: 20,
-    paddingVertical: 16,
+    backgroundColor: theme.colors.surface,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xl,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.lg,
   },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#FEF2F2',
-    borderRadius: 12,
-    paddingVertical: 16,
+    backgroundColor: theme.colors.dangerBackground,
+    borderRadius: theme.radius.lg,
+    paddingVertical: theme.spacing.lg,
     borderWidth: 1,
-    borderColor: '#FECACA',
+    borderColor: theme.colors.dangerBorder,
   },
   logoutText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#DC2626',
-    marginLeft: 8,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.danger,
+    marginLeft: theme.spacing.sm,
   },
   modalContainer: {
     flex: 1,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   modalHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    backgroundColor: '#FFFFFF',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.xl,
+    paddingVertical: theme.spacing.lg,
     borderBottomWidth: 1,
-    borderBottomColor: '#E8E2DD',
+    borderBottomColor: theme.colors.border,
   },
   modalCancelButton: {
-    paddingVertical: 8,
-    paddingHorizontal: 12,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
   },
   modalCancelText: {
-    fontSize: 16,
-    color: '#8B7355',
-    fontWeight: '500',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
+    fontWeight: theme.typography.weight.medium,
   },
   modalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
   },
   modalSaveButton: {
-    paddingVertical: 8,
-    paddingHorizontal: 12,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
   },
   modalSaveText: {
-    fontSize: 16,
-    color: '#8B4513',
-    fontWeight: '600',
+    fontSize: theme.typography.size.md,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
   },
   modalContent: {
     flex: 1,
-    paddingHorizontal: 20,
-    paddingTop: 20,
+    paddingHorizontal: theme.spacing.xl,
+    paddingTop: theme.spacing.xl,
   },
   formGroup: {
-    marginBottom: 20,
+    marginBottom: theme.spacing.xl,
   },
   formLabel: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#2D1810',
-    marginBottom: 8,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
   },
   formInput: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 12,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    fontSize: 16,
-    color: '#2D1810',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.lg,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
     borderWidth: 1,
-    borderColor: '#E8E2DD',
+    borderColor: theme.colors.border,
   },
 });
 
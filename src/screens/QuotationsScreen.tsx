@@ -0,0 +1,840 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  RefreshControl,
+  SafeAreaView,
+  StatusBar,
+  Modal,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSelector, useDispatch } from 'react-redux';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootState, AppDispatch } from '../store';
+import {
+  fetchStoreQuotations,
+  createQuotation,
+  sendQuotation,
+  convertQuotationToOrder,
+} from '../store/slices/quotationsSlice';
+import { Listing, Quotation, QuotationItem, QuotationStatus } from '../types';
+import { safeFormatDate } from '../utils/textUtils';
+
+type QuotationsNavigationProp = StackNavigationProp<any>;
+
+interface DraftLine {
+  quantity: number;
+  unitPrice: string;
+}
+
+const quotationStatusOptions = [
+  { key: 'all', label: 'All', color: '#6B7280' },
+  { key: QuotationStatus.DRAFT, label: 'Draft', color: '#8B7355' },
+  { key: QuotationStatus.SENT, label: 'Sent', color: '#06B6D4' },
+  { key: QuotationStatus.ACCEPTED, label: 'Accepted', color: '#059669' },
+  { key: QuotationStatus.REJECTED, label: 'Rejected', color: '#EF4444' },
+  { key: QuotationStatus.EXPIRED, label: 'Expired', color: '#9CA3AF' },
+];
+
+const QuotationsScreen: React.FC = () => {
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [draftLines, setDraftLines] = useState<{ [listingId: string]: DraftLine }>({});
+  const [discount, setDiscount] = useState('');
+  const [validDays, setValidDays] = useState('7');
+  const [notes, setNotes] = useState('');
+  const [sendTarget, setSendTarget] = useState<Quotation | null>(null);
+  const [customerEmail, setCustomerEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const navigation = useNavigation<QuotationsNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { currentStore, storeProducts } = useSelector((state: RootState) => state.dashboard);
+  const { storeQuotations: quotations, isLoading, error } = useSelector((state: RootState) => state.quotations);
+
+  const quotationsEnabled = !!currentStore?.featureQuotationsEnabled;
+
+  useEffect(() => {
+    loadQuotations();
+  }, [currentStore?.id]);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', error);
+    }
+  }, [error]);
+
+  const loadQuotations = async () => {
+    if (!currentStore?.id || !quotationsEnabled) {
+      return;
+    }
+    await dispatch(fetchStoreQuotations(currentStore.id));
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadQuotations();
+    setRefreshing(false);
+  };
+
+  const filteredQuotations = selectedStatus === 'all'
+    ? quotations
+    : quotations.filter(quotation => quotation.status === selectedStatus);
+
+  const getStatusColor = (status: string) => {
+    return quotationStatusOptions.find(option => option.key === status)?.color || '#6B7280';
+  };
+
+  const getStatusLabel = (status: string) => {
+    return quotationStatusOptions.find(option => option.key === status)?.label || status;
+  };
+
+  const resetDraft = () => {
+    setDraftLines({});
+    setDiscount('');
+    setValidDays('7');
+    setNotes('');
+  };
+
+  const changeLineQuantity = (listing: Listing, delta: number) => {
+    setDraftLines(prev => {
+      const current = prev[listing.id];
+      const quantity = (current?.quantity || 0) + delta;
+      const next = { ...prev };
+      if (quantity <= 0) {
+        delete next[listing.id];
+      } else {
+        next[listing.id] = {
+          quantity,
+          unitPrice: current?.unitPrice ?? String(listing.price),
+        };
+      }
+      return next;
+    });
+  };
+
+  const changeLinePrice = (listingId: string, unitPrice: string) => {
+    setDraftLines(prev => ({
+      ...prev,
+      [listingId]: { ...prev[listingId], unitPrice },
+    }));
+  };
+
+  const buildQuotationItems = (): QuotationItem[] => {
+    return storeProducts
+      .filter(listing => draftLines[listing.id])
+      .map(listing => {
+        const line = draftLines[listing.id];
+        const unitPrice = parseFloat(line.unitPrice) || 0;
+        return {
+          listingId: listing.id,
+          title: listing.title,
+          quantity: line.quantity,
+          unitPrice,
+          subtotal: unitPrice * line.quantity,
+        };
+      });
+  };
+
+  const draftItems = buildQuotationItems();
+  const draftSubtotal = draftItems.reduce((sum, item) => sum + item.subtotal, 0);
+  const draftDiscount = parseFloat(discount) || 0;
+  const draftTotal = Math.max(draftSubtotal - draftDiscount, 0);
+
+  const handleCreateQuotation = async () => {
+    if (!currentStore) return;
+
+    if (draftItems.length === 0) {
+      Alert.alert('Error', 'Add at least one product to the quotation');
+      return;
+    }
+    const days = parseInt(validDays, 10);
+    if (isNaN(days) || days <= 0) {
+      Alert.alert('Error', 'Please enter how many days the quotation is valid for');
+      return;
+    }
+    if (draftDiscount < 0 || draftDiscount > draftSubtotal) {
+      Alert.alert('Error', 'Discount must be between 0 and the quotation subtotal');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await dispatch(createQuotation({
+        store: currentStore,
+        items: draftItems,
+        discountAmount: draftDiscount,
+        validDays: days,
+        notes: notes.trim() || undefined,
+      })).unwrap();
+      setShowCreateModal(false);
+      resetDraft();
+      Alert.alert('Success', 'Quotation saved as draft');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to create quotation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSendQuotation = async () => {
+    if (!sendTarget) return;
+
+    if (!customerEmail.trim()) {
+      Alert.alert('Error', 'Please enter the customer email');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await dispatch(sendQuotation({ quotation: sendTarget, customerEmail })).unwrap();
+      setSendTarget(null);
+      setCustomerEmail('');
+      Alert.alert('Success', 'Quotation sent to customer');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to send quotation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConvertToOrder = (quotation: Quotation) => {
+    Alert.alert(
+      'Convert to Order',
+      `Create a pickup order for ${quotation.customerName || 'the customer'} at K${quotation.totalAmount.toFixed(2)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Convert',
+          onPress: async () => {
+            try {
+              await dispatch(convertQuotationToOrder(quotation)).unwrap();
+              Alert.alert('Success', 'Order created from quotation');
+            } catch (error: any) {
+              Alert.alert(
+                error?.name === 'InsufficientStockError' ? 'Not Enough Stock' : 'Error',
+                error?.message || 'Failed to convert quotation'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderQuotationItem = ({ item }: { item: Quotation }) => (
+    <View style={styles.quotationCard}>
+      <View style={styles.cardHeader}>
+        <View style={styles.cardTitleContainer}>
+          <Text style={styles.quotationNumber}>Quote #{item.id.slice(-6).toUpperCase()}</Text>
+          <Text style={styles.quotationMeta}>
+            {item.customerName || item.customerEmail || 'No customer yet'}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) + '20' }]}>
+          <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
+            {getStatusLabel(item.status)}
+          </Text>
+        </View>
+      </View>
+
+      {item.items.slice(0, 3).map((lineItem, index) => (
+        <Text key={index} style={styles.itemText}>
+          {lineItem.quantity}x {lineItem.title} @ K{lineItem.unitPrice.toFixed(2)}
+        </Text>
+      ))}
+      {item.items.length > 3 && (
+        <Text style={styles.moreItemsText}>+{String(item.items.length - 3)} more items</Text>
+      )}
+
+      <View style={styles.cardFooter}>
+        <Text style={styles.validText}>Valid until {safeFormatDate(item.validUntil)}</Text>
+        <Text style={styles.totalText}>K{item.totalAmount.toFixed(2)}</Text>
+      </View>
+
+      {item.status === QuotationStatus.DRAFT && (
+        <TouchableOpacity style={styles.primaryAction} onPress={() => setSendTarget(item)}>
+          <Ionicons name="send-outline" size={16} color="#FFFFFF" />
+          <Text style={styles.primaryActionText}>Send to Customer</Text>
+        </TouchableOpacity>
+      )}
+      {item.status === QuotationStatus.ACCEPTED && !item.orderId && (
+        <TouchableOpacity style={styles.primaryAction} onPress={() => handleConvertToOrder(item)}>
+          <Ionicons name="receipt-outline" size={16} color="#FFFFFF" />
+          <Text style={styles.primaryActionText}>Convert to Order</Text>
+        </TouchableOpacity>
+      )}
+      {!!item.orderId && (
+        <Text style={styles.orderLinkText}>Order #{item.orderId.slice(-6).toUpperCase()} created</Text>
+      )}
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="document-outline" size={64} color="#D2B48C" />
+      <Text style={styles.emptyStateTitle}>
+        {quotationsEnabled ? 'No Quotations Found' : 'Quotations Not Enabled'}
+      </Text>
+      <Text style={styles.emptyStateText}>
+        {quotationsEnabled
+          ? 'Draft a quotation from your products and send it to a customer'
+          : 'Quotations are a premium feature. Contact KUTRA support to enable them for your store.'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#2D1810" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Quotations</Text>
+        {quotationsEnabled ? (
+          <TouchableOpacity style={styles.backButton} onPress={() => setShowCreateModal(true)}>
+            <Ionicons name="add-circle-outline" size={26} color="#8B4513" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.placeholder} />
+        )}
+      </View>
+
+      {/* Status Filter */}
+      {quotationsEnabled && (
+        <View style={styles.filterContainer}>
+          <FlatList
+            data={quotationStatusOptions}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[
+                  styles.filterButton,
+                  selectedStatus === item.key && styles.activeFilterButton,
+                ]}
+                onPress={() => setSelectedStatus(item.key)}
+              >
+                <Text
+                  style={[
+                    styles.filterText,
+                    selectedStatus === item.key && styles.activeFilterText,
+                  ]}
+                >
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            )}
+            keyExtractor={(item) => item.key}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterList}
+          />
+        </View>
+      )}
+
+      {/* Quotations List */}
+      <FlatList
+        data={quotationsEnabled ? filteredQuotations : []}
+        renderItem={renderQuotationItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[
+          styles.listContainer,
+          (!quotationsEnabled || filteredQuotations.length === 0) && styles.emptyListContainer,
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing || isLoading}
+            onRefresh={onRefresh}
+            colors={['#8B4513']}
+            tintColor="#8B4513"
+          />
+        }
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+        ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+      />
+
+      {/* Create Quotation Modal */}
+      <Modal
+        visible={showCreateModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowCreateModal(false)}
+      >
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => setShowCreateModal(false)}>
+              <Ionicons name="close" size={24} color="#2D1810" />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>New Quotation</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <KeyboardAvoidingView
+            style={{ flex: 1 }}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <ScrollView contentContainerStyle={styles.modalContent}>
+              <Text style={styles.modalSectionTitle}>Products</Text>
+              {storeProducts.length === 0 && (
+                <Text style={styles.emptyStateText}>Add products to your store to quote them</Text>
+              )}
+              {storeProducts.map(listing => {
+                const line = draftLines[listing.id];
+                return (
+                  <View key={listing.id} style={styles.productRow}>
+                    <View style={styles.productInfo}>
+                      <Text style={styles.productTitle} numberOfLines={1}>{listing.title}</Text>
+                      <Text style={styles.productPrice}>List price K{listing.price.toFixed(2)}</Text>
+                      {line && (
+                        <View style={styles.priceInputRow}>
+                          <Text style={styles.priceInputLabel}>Quoted K</Text>
+                          <TextInput
+                            style={styles.priceInput}
+                            value={line.unitPrice}
+                            onChangeText={(text) => changeLinePrice(listing.id, text)}
+                            keyboardType="decimal-pad"
+                          />
+                        </View>
+                      )}
+                    </View>
+                    <View style={styles.quantityControls}>
+                      <TouchableOpacity onPress={() => changeLineQuantity(listing, -1)} disabled={!line}>
+                        <Ionicons name="remove-circle-outline" size={26} color={line ? '#8B4513' : '#D2B48C'} />
+                      </TouchableOpacity>
+                      <Text style={styles.quantityText}>{String(line?.quantity || 0)}</Text>
+                      <TouchableOpacity onPress={() => changeLineQuantity(listing, 1)}>
+                        <Ionicons name="add-circle-outline" size={26} color="#8B4513" />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+
+              <Text style={styles.modalSectionTitle}>Terms</Text>
+              <Text style={styles.inputLabel}>Discount (K)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={discount}
+                onChangeText={setDiscount}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+                placeholderTextColor="#999"
+              />
+              <Text style={styles.inputLabel}>Valid for (days)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={validDays}
+                onChangeText={setValidDays}
+                keyboardType="number-pad"
+                placeholderTextColor="#999"
+              />
+              <Text style={styles.inputLabel}>Notes</Text>
+              <TextInput
+                style={[styles.textInput, styles.notesInput]}
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Delivery terms, lead times..."
+                multiline
+                placeholderTextColor="#999"
+              />
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Subtotal</Text>
+                <Text style={styles.summaryValue}>K{draftSubtotal.toFixed(2)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Total</Text>
+                <Text style={styles.totalText}>K{draftTotal.toFixed(2)}</Text>
+              </View>
+            </ScrollView>
+          </KeyboardAvoidingView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity
+              style={[styles.primaryAction, isSubmitting && styles.disabledAction]}
+              onPress={handleCreateQuotation}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.primaryActionText}>
+                {isSubmitting ? 'Saving...' : 'Save Draft'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Send Quotation Modal */}
+      <Modal
+        visible={!!sendTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSendTarget(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.modalSectionTitle}>Send Quotation</Text>
+            <Text style={styles.inputLabel}>Customer email</Text>
+            <TextInput
+              style={styles.textInput}
+              value={customerEmail}
+              onChangeText={setCustomerEmail}
+              placeholder="customer@example.com"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              placeholderTextColor="#999"
+            />
+            <View style={styles.dialogActions}>
+              <TouchableOpacity style={styles.secondaryAction} onPress={() => setSendTarget(null)}>
+                <Text style={styles.secondaryActionText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryAction, styles.dialogPrimary, isSubmitting && styles.disabledAction]}
+                onPress={handleSendQuotation}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.primaryActionText}>{isSubmitting ? 'Sending...' : 'Send'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F3F0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+  },
+  placeholder: {
+    width: 40,
+  },
+  filterContainer: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  filterList: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+    backgroundColor: '#F7F3F0',
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+  },
+  activeFilterButton: {
+    backgroundColor: '#8B4513',
+    borderColor: '#8B4513',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  activeFilterText: {
+    color: '#FFFFFF',
+  },
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  quotationCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  cardTitleContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  quotationNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginBottom: 4,
+  },
+  quotationMeta: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  statusBadge: {
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  itemText: {
+    fontSize: 13,
+    color: '#8B7355',
+    marginBottom: 2,
+  },
+  moreItemsText: {
+    fontSize: 13,
+    color: '#8B4513',
+    fontWeight: '500',
+    fontStyle: 'italic',
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  validText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#8B4513',
+  },
+  primaryAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#8B4513',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 12,
+    gap: 6,
+  },
+  primaryActionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledAction: {
+    backgroundColor: '#D2B48C',
+  },
+  secondaryAction: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+  },
+  secondaryActionText: {
+    color: '#8B7355',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  orderLinkText: {
+    fontSize: 13,
+    color: '#059669',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8B7355',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  modalContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  modalSectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  productInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  productTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2D1810',
+  },
+  productPrice: {
+    fontSize: 12,
+    color: '#8B7355',
+    marginTop: 2,
+  },
+  priceInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  priceInputLabel: {
+    fontSize: 12,
+    color: '#2D1810',
+    fontWeight: '500',
+    marginRight: 4,
+  },
+  priceInput: {
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    minWidth: 80,
+    fontSize: 14,
+    color: '#2D1810',
+    backgroundColor: '#F7F3F0',
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2D1810',
+    marginBottom: 6,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D1810',
+    backgroundColor: '#FFFFFF',
+    marginBottom: 12,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  summaryValue: {
+    fontSize: 15,
+    color: '#2D1810',
+    fontWeight: '600',
+  },
+  modalFooter: {
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E8E2DD',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+  },
+  dialogActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dialogPrimary: {
+    flex: 1,
+  },
+});
+
+export default QuotationsScreen;
\ No newline at end of file
@@ -0,0 +1,627 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  RefreshControl,
+  SafeAreaView,
+  StatusBar,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSelector, useDispatch } from 'react-redux';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootState, AppDispatch } from '../store';
+import { fetchStoreReceipts, updateReceiptStatus } from '../store/slices/receiptsSlice';
+import { Receipt, ReceiptStatus } from '../types';
+import { safeFormatDateTime } from '../utils/textUtils';
+
+type ReceiptsNavigationProp = StackNavigationProp<any>;
+
+type ClosingStatus = ReceiptStatus.REFUNDED | ReceiptStatus.VOIDED;
+
+const ReceiptsScreen: React.FC = () => {
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [expandedReceiptId, setExpandedReceiptId] = useState<string | null>(null);
+  const [statusChange, setStatusChange] = useState<{ receipt: Receipt; status: ClosingStatus } | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const navigation = useNavigation<ReceiptsNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useSelector((state: RootState) => state.auth) as any;
+  const { currentStore } = useSelector((state: RootState) => state.dashboard);
+  const { items: receipts, isLoading, error } = useSelector((state: RootState) => state.receipts);
+
+  const storeId = currentStore?.id || user?.storeId;
+
+  const statusOptions = [
+    { key: 'all', label: 'All Receipts', color: '#6B7280' },
+    { key: ReceiptStatus.ISSUED, label: 'Issued', color: '#059669' },
+    { key: ReceiptStatus.REFUNDED, label: 'Refunded', color: '#F59E0B' },
+    { key: ReceiptStatus.VOIDED, label: 'Voided', color: '#EF4444' },
+  ];
+
+  useEffect(() => {
+    loadReceipts();
+  }, [storeId]);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', error);
+    }
+  }, [error]);
+
+  const loadReceipts = async () => {
+    if (!storeId) {
+      console.error('No store ID available for receipts');
+      return;
+    }
+    await dispatch(fetchStoreReceipts(storeId));
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadReceipts();
+    setRefreshing(false);
+  };
+
+  const filteredReceipts = selectedStatus === 'all'
+    ? receipts
+    : receipts.filter(receipt => receipt.status === selectedStatus);
+
+  const issuedTotal = receipts
+    .filter(receipt => receipt.status === ReceiptStatus.ISSUED)
+    .reduce((sum, receipt) => sum + (receipt.totalAmount || 0), 0);
+  const refundedTotal = receipts
+    .filter(receipt => receipt.status === ReceiptStatus.REFUNDED)
+    .reduce((sum, receipt) => sum + (receipt.totalAmount || 0), 0);
+
+  const getStatusColor = (status: string) => {
+    return statusOptions.find(option => option.key === status)?.color || '#6B7280';
+  };
+
+  const getStatusLabel = (status: string) => {
+    return statusOptions.find(option => option.key === status)?.label || status;
+  };
+
+  const openStatusChange = (receipt: Receipt, status: ClosingStatus) => {
+    setStatusReason('');
+    setStatusChange({ receipt, status });
+  };
+
+  const changeReceiptStatus = async () => {
+    if (!statusChange) return;
+    if (!statusReason.trim()) {
+      Alert.alert('Reason Required', 'Please say why this receipt is being changed.');
+      return;
+    }
+
+    const { receipt, status } = statusChange;
+    setIsSubmitting(true);
+    try {
+      await dispatch(updateReceiptStatus({ receipt, status, reason: statusReason })).unwrap();
+      setStatusChange(null);
+      Alert.alert('Success', `Receipt marked as ${getStatusLabel(status).toLowerCase()}`);
+    } catch (error) {
+      console.error('Error updating receipt status:', error);
+      Alert.alert('Error', 'Failed to update receipt');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const showReceiptActions = (receipt: Receipt) => {
+    if (receipt.status !== ReceiptStatus.ISSUED) {
+      Alert.alert('Receipt Closed', `This receipt has already been ${getStatusLabel(receipt.status).toLowerCase()}.`);
+      return;
+    }
+
+    Alert.alert('Receipt Actions', 'Choose an action:', [
+      { text: 'Refund', onPress: () => openStatusChange(receipt, ReceiptStatus.REFUNDED) },
+      { text: 'Void', style: 'destructive', onPress: () => openStatusChange(receipt, ReceiptStatus.VOIDED) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderReceiptItem = ({ item }: { item: Receipt }) => {
+    const isExpanded = expandedReceiptId === item.id;
+
+    return (
+      <TouchableOpacity
+        style={styles.receiptCard}
+        onPress={() => setExpandedReceiptId(isExpanded ? null : item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.receiptHeader}>
+          <View>
+            <Text style={styles.receiptNumber}>Receipt #{item.id.slice(-6).toUpperCase()}</Text>
+            <Text style={styles.receiptMeta}>
+              {item.orderId ? `Order #${item.orderId.slice(-6).toUpperCase()}` : 'Walk-in sale'}
+              {item.customerName ? ` • ${item.customerName}` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => showReceiptActions(item)}
+          >
+            <Ionicons name="ellipsis-vertical" size={20} color="#8B7355" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.infoRow}>
+          <Ionicons name="time-outline" size={16} color="#8B7355" />
+          <Text style={styles.infoText}>{safeFormatDateTime(item.createdAt)}</Text>
+        </View>
+
+        {isExpanded && (
+          <View style={styles.lineItems}>
+            {item.items.map((lineItem, index) => (
+              <View key={index} style={styles.lineItemRow}>
+                <Text style={styles.lineItemText} numberOfLines={1}>
+                  {lineItem.quantity}x {lineItem.title}
+                </Text>
+                <Text style={styles.lineItemAmount}>K{lineItem.subtotal.toFixed(2)}</Text>
+              </View>
+            ))}
+            {!!item.discountAmount && (
+              <View style={styles.lineItemRow}>
+                <Text style={styles.lineItemText}>Discount</Text>
+                <Text style={styles.lineItemAmount}>-K{item.discountAmount.toFixed(2)}</Text>
+              </View>
+            )}
+            {item.amountTendered !== undefined && (
+              <View style={styles.lineItemRow}>
+                <Text style={styles.lineItemText}>Cash tendered</Text>
+                <Text style={styles.lineItemAmount}>K{item.amountTendered.toFixed(2)}</Text>
+              </View>
+            )}
+            {item.changeDue !== undefined && (
+              <View style={styles.lineItemRow}>
+                <Text style={styles.lineItemText}>Change</Text>
+                <Text style={styles.lineItemAmount}>K{item.changeDue.toFixed(2)}</Text>
+              </View>
+            )}
+            {!!item.statusReason && (
+              <Text style={styles.statusReason}>Reason: {item.statusReason}</Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.receiptFooter}>
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) + '20' }]}>
+            <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
+              {getStatusLabel(item.status)}
+            </Text>
+          </View>
+          <Text style={styles.totalText}>K{item.totalAmount.toFixed(2)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="document-text-outline" size={64} color="#D2B48C" />
+      <Text style={styles.emptyStateTitle}>No Receipts Found</Text>
+      <Text style={styles.emptyStateText}>
+        {selectedStatus === 'all'
+          ? 'Receipts are issued automatically when orders are delivered'
+          : `No ${getStatusLabel(selectedStatus).toLowerCase()} receipts`}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#2D1810" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Receipts</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Receipt Stats */}
+      <View style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>{String(receipts.length)}</Text>
+          <Text style={styles.statLabel}>Receipts</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>K{issuedTotal.toFixed(0)}</Text>
+          <Text style={styles.statLabel}>Issued</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>K{refundedTotal.toFixed(0)}</Text>
+          <Text style={styles.statLabel}>Refunded</Text>
+        </View>
+      </View>
+
+      {/* Status Filter */}
+      <View style={styles.filterContainer}>
+        <FlatList
+          data={statusOptions}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={[
+                styles.filterButton,
+                selectedStatus === item.key && styles.activeFilterButton,
+              ]}
+              onPress={() => setSelectedStatus(item.key)}
+            >
+              <Text
+                style={[
+                  styles.filterText,
+                  selectedStatus === item.key && styles.activeFilterText,
+                ]}
+              >
+                {item.label}
+              </Text>
+            </TouchableOpacity>
+          )}
+          keyExtractor={(item) => item.key}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterList}
+        />
+      </View>
+
+      {/* Receipts List */}
+      <FlatList
+        data={filteredReceipts}
+        renderItem={renderReceiptItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[
+          styles.listContainer,
+          filteredReceipts.length === 0 && styles.emptyListContainer,
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing || isLoading}
+            onRefresh={onRefresh}
+            colors={['#8B4513']}
+            tintColor="#8B4513"
+          />
+        }
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+        ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+      />
+
+      {/* Refund / Void Reason */}
+      <Modal
+        visible={!!statusChange}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setStatusChange(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>
+              {statusChange?.status === ReceiptStatus.REFUNDED ? 'Refund Receipt' : 'Void Receipt'}
+            </Text>
+            <Text style={styles.modalText}>
+              {statusChange?.status === ReceiptStatus.REFUNDED
+                ? `Refund K${statusChange.receipt.totalAmount.toFixed(2)} to the customer?`
+                : 'Voiding marks this receipt as issued in error.'}
+            </Text>
+
+            <Text style={styles.inputLabel}>Reason</Text>
+            <TextInput
+              style={styles.reasonInput}
+              value={statusReason}
+              onChangeText={setStatusReason}
+              placeholder={statusChange?.status === ReceiptStatus.REFUNDED ? 'e.g. Item returned damaged' : 'e.g. Rung up twice'}
+              multiline
+              placeholderTextColor="#999"
+            />
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setStatusChange(null)}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalConfirmButton,
+                  statusChange?.status === ReceiptStatus.VOIDED && styles.modalVoidButton,
+                  (isSubmitting || !statusReason.trim()) && styles.modalButtonDisabled,
+                ]}
+                onPress={changeReceiptStatus}
+                disabled={isSubmitting || !statusReason.trim()}
+              >
+                <Text style={styles.modalConfirmText}>
+                  {statusChange?.status === ReceiptStatus.REFUNDED ? 'Refund' : 'Void'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F3F0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+  },
+  placeholder: {
+    width: 40,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    justifyContent: 'space-around',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statNumber: {
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#8B4513',
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  filterContainer: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E2DD',
+  },
+  filterList: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+    backgroundColor: '#F7F3F0',
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+  },
+  activeFilterButton: {
+    backgroundColor: '#8B4513',
+    borderColor: '#8B4513',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  activeFilterText: {
+    color: '#FFFFFF',
+  },
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  receiptCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  receiptHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  receiptNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginBottom: 4,
+  },
+  receiptMeta: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  actionButton: {
+    padding: 4,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginLeft: 8,
+    fontWeight: '500',
+  },
+  lineItems: {
+    borderTopWidth: 1,
+    borderTopColor: '#F5F1ED',
+    paddingTop: 8,
+    marginBottom: 12,
+  },
+  lineItemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  lineItemText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#2D1810',
+    marginRight: 8,
+  },
+  lineItemAmount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2D1810',
+  },
+  statusReason: {
+    fontSize: 12,
+    color: '#8B7355',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  receiptFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  statusBadge: {
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#8B4513',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8B7355',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D1810',
+    marginBottom: 8,
+  },
+  modalText: {
+    fontSize: 14,
+    color: '#8B7355',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2D1810',
+    marginBottom: 6,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#2D1810',
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  modalCancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  modalCancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
+  modalConfirmButton: {
+    backgroundColor: '#8B4513',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  modalVoidButton: {
+    backgroundColor: '#EF4444',
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalConfirmText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default ReceiptsScreen;
\ No newline at end of file
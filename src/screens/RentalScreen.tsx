@@ -20,8 +20,15 @@ import { AppDispatch, RootState } from '../store';
 import { Listing, ListingType, RentalRequest } from '../types';
 import { collection, addDoc, query, where, getDocs, orderBy, Timestamp, doc, deleteDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import SearchKeywordService from '../services/SearchKeywordService';
+import RentalAvailabilityService, { BookedRange, atHour, isSameDay } from '../services/RentalAvailabilityService';
+import RentalPricingService from '../services/RentalPricingService';
+import RentalLifecycleService from '../services/RentalLifecycleService';
 import AuthGuard from '../components/AuthGuard';
 import MapView from '../components/MapView';
+import AvailabilityCalendar from '../components/AvailabilityCalendar';
+import RentalQuoteBreakdown from '../components/RentalQuoteBreakdown';
+import RentalHoursPicker, { formatHour } from '../components/RentalHoursPicker';
 
 const RentalScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -30,8 +37,12 @@ const RentalScreen: React.FC = () => {
   const [rentalRequests, setRentalRequests] = useState<RentalRequest[]>([]);
   const [showRentalModal, setShowRentalModal] = useState(false);
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
-  const [startDate, setStartDate] = useState(new Date());
-  const [endDate, setEndDate] = useState(new Date(Date.now() + 24 * 60 * 60 * 1000));
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [pickupHour, setPickupHour] = useState(9);
+  const [returnHour, setReturnHour] = useState(17);
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
+  const [isLoadingAvailability, setIsLoadingAvailability] = useState(false);
   const [rentalMessage, setRentalMessage] = useState('');
   const [activeTab, setActiveTab] = useState<'browse' | 'my_rentals' | 'bookings'>('browse');
   const [refreshing, setRefreshing] = useState(false);
@@ -327,6 +338,10 @@ const RentalScreen: React.FC = () => {
               try {
                 await updateDoc(doc(db, 'listings', listing.id), {
                   description: newDescription.trim(),
+                  searchKeywords: SearchKeywordService.generateListingKeywords({
+                    ...listing,
+                    description: newDescription.trim(),
+                  }),
                   updatedAt: Timestamp.now()
                 });
                 Alert.alert('Success', 'Description updated successfully!');
@@ -392,14 +407,18 @@ const RentalScreen: React.FC = () => {
   };
 
   const handleAcceptRentalRequest = async (requestId: string) => {
+    if (!user?.uid) return;
+
     try {
-      await updateDoc(doc(db, 'rentalRequests', requestId), {
-        status: 'approved',
-        updatedAt: Timestamp.now()
-      });
+      // Another request for these dates may have been approved since this one came in
+      await RentalLifecycleService.approveRequest(requestId, user.uid);
       Alert.alert('Success', 'Rental request approved!');
       loadRentalRequests();
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'RentalUnavailableError') {
+        Alert.alert('Dates Unavailable', `${error.message}. Reject this request or ask the renter for other dates.`);
+        return;
+      }
       console.error('Error approving request:', error);
       Alert.alert('Error', 'Failed to approve request.');
     }
@@ -432,7 +451,24 @@ const RentalScreen: React.FC = () => {
     }
 
     setSelectedListing(listing);
+    setStartDate(null);
+    setEndDate(null);
+    setPickupHour(9);
+    setReturnHour(17);
     setShowRentalModal(true);
+    loadAvailability(listing.id);
+  };
+
+  const loadAvailability = async (listingId: string) => {
+    setBookedRanges([]);
+    setIsLoadingAvailability(true);
+    try {
+      setBookedRanges(await RentalAvailabilityService.getBookedRanges(listingId));
+    } catch (error) {
+      console.error('Error loading availability:', error);
+    } finally {
+      setIsLoadingAvailability(false);
+    }
   };
 
   const getRequestStatusColor = (status: string) => {
@@ -441,6 +477,10 @@ const RentalScreen: React.FC = () => {
         return '#FFA500';
       case 'approved':
         return '#27AE60';
+      case 'active':
+        return '#3498DB';
+      case 'completed':
+        return '#8B4513';
       case 'rejected':
         return '#E74C3C';
       case 'cancelled':
@@ -450,34 +490,46 @@ const RentalScreen: React.FC = () => {
     }
   };
 
-  const calculateRentalCost = () => {
-    if (!selectedListing) return 0;
-    
-    const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    return selectedListing.price * Math.max(1, days);
-  };
+  // Hourly listings are booked from a pick-up to a return time; the rest by whole days
+  const isHourlyRental = !!selectedListing && RentalPricingService.periodOf(selectedListing) === 'hourly';
+  const rentalStart = startDate && isHourlyRental ? atHour(startDate, pickupHour) : startDate;
+  const rentalEnd = endDate && isHourlyRental ? atHour(endDate, returnHour) : endDate;
+  const describeRentalTime = (date: Date, hour: number) =>
+    isHourlyRental ? `${date.toLocaleDateString()} ${formatHour(hour)}` : date.toLocaleDateString();
+
+  // The price of the dates picked so far, and whether they break the listing's minimum/maximum
+  const rentalQuote = selectedListing && rentalStart && rentalEnd
+    ? RentalPricingService.quote(selectedListing, rentalStart, rentalEnd)
+    : null;
+  const periodError = selectedListing && rentalQuote
+    ? RentalPricingService.boundsError(selectedListing, rentalQuote.units)
+    : null;
 
   const handleSubmitRentalRequest = async () => {
     if (!user || !selectedListing) return;
 
-    if (startDate >= endDate) {
-      Alert.alert('Error', 'End date must be after start date');
+    if (!rentalStart || !rentalEnd) {
+      Alert.alert('Choose Dates', 'Pick the days you want to rent this item on the calendar');
       return;
     }
 
     try {
-      const totalCost = calculateRentalCost();
+      const pricing = RentalPricingService.quoteWithinBounds(selectedListing, rentalStart, rentalEnd);
+      await RentalAvailabilityService.assertAvailable(selectedListing.id, rentalStart, rentalEnd);
       
       const rentalRequestData: Omit<RentalRequest, 'id'> = {
         listingId: selectedListing.id,
         renterId: user.uid,
         ownerId: selectedListing.sellerId,
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-        totalCost,
+        startDate: rentalStart.toISOString(),
+        endDate: rentalEnd.toISOString(),
+        totalCost: pricing.total,
+        pricing,
         status: 'pending',
         message: rentalMessage.trim(),
-        terms: `Rental period: ${startDate.toLocaleDateString()} to ${endDate.toLocaleDateString()}. Total cost: K${totalCost.toFixed(2)}`,
+        terms: `Rental period: ${describeRentalTime(rentalStart, pickupHour)} to ${describeRentalTime(rentalEnd, returnHour)}. `
+          + `Rent: ${RentalPricingService.formatUnits(pricing.rentalPeriod, pricing.units)} at K${pricing.rate.toFixed(2)} = K${pricing.rentalCost.toFixed(2)}. `
+          + `Refundable deposit: K${pricing.securityDeposit.toFixed(2)}. Total: K${pricing.total.toFixed(2)}`,
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
       };
@@ -490,7 +542,16 @@ const RentalScreen: React.FC = () => {
       setRentalMessage('');
       
       loadRentalRequests();
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'RentalPricingError') {
+        Alert.alert('Rental Period', error.message);
+        return;
+      }
+      if (error?.name === 'RentalUnavailableError') {
+        Alert.alert('Dates Unavailable', error.message);
+        loadAvailability(selectedListing.id);
+        return;
+      }
       console.error('Error submitting rental request:', error);
       Alert.alert('Error', 'Failed to send rental request. Please try again.');
     }
@@ -560,7 +621,7 @@ const RentalScreen: React.FC = () => {
         )}
         
         <Text style={styles.price}>
-          K{typeof item.price === 'number' ? item.price.toFixed(2) : '0.00'}/{item.rentalPeriod || 'month'}
+          K{typeof item.price === 'number' ? item.price.toFixed(2) : '0.00'}/{RentalPricingService.periodLabel(RentalPricingService.periodOf(item))}
         </Text>
         
         {/* Contact info preview */}
@@ -661,7 +722,7 @@ const RentalScreen: React.FC = () => {
         )}
         
         <Text style={styles.price}>
-          K{typeof item.price === 'number' ? item.price.toFixed(2) : '0.00'}/{item.rentalPeriod || 'month'}
+          K{typeof item.price === 'number' ? item.price.toFixed(2) : '0.00'}/{RentalPricingService.periodLabel(RentalPricingService.periodOf(item))}
         </Text>
         
         {/* Views counter */}
@@ -825,9 +886,15 @@ const RentalScreen: React.FC = () => {
                         <Text style={styles.statusText}>{item.status}</Text>
                       </View>
                     </View>
-                    <Text style={styles.bookingCost}>
-                      Cost: K{item.totalCost?.toFixed(2) || '0.00'}
-                    </Text>
+                    {item.pricing ? (
+                      <View style={styles.bookingBreakdown}>
+                        <RentalQuoteBreakdown breakdown={item.pricing} compact />
+                      </View>
+                    ) : (
+                      <Text style={styles.bookingCost}>
+                        Cost: K{item.totalCost?.toFixed(2) || '0.00'}
+                      </Text>
+                    )}
                     <Text style={styles.bookingDate}>
                       {item.startDate && item.endDate 
                         ? `${new Date(item.startDate).toLocaleDateString()} - ${new Date(item.endDate).toLocaleDateString()}`
@@ -996,25 +1063,61 @@ const RentalScreen: React.FC = () => {
                     />
                     <View>
                       <Text style={styles.selectedItemTitle}>{selectedListing.title}</Text>
-                      <Text style={styles.selectedItemPrice}>K{selectedListing.price.toFixed(2)}/month</Text>
+                      <Text style={styles.selectedItemPrice}>
+                        K{selectedListing.price.toFixed(2)}/{RentalPricingService.periodLabel(RentalPricingService.periodOf(selectedListing))}
+                      </Text>
                     </View>
                   </View>
                 </View>
               )}
 
-              <View style={styles.costSummary}>
-                <Text style={styles.sectionTitle}>Cost Summary</Text>
-                <View style={styles.costRow}>
-                  <Text style={styles.costLabel}>
-                    Duration: {Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))} days
-                  </Text>
-                </View>
-                <View style={styles.totalCostRow}>
-                  <Text style={styles.totalCostLabel}>Total Cost:</Text>
-                  <Text style={styles.totalCostValue}>
-                    K{calculateRentalCost().toFixed(2)}
+              {selectedListing && (
+                <View style={styles.sectionContainer}>
+                  <Text style={styles.sectionTitle}>Choose your dates:</Text>
+                  <AvailabilityCalendar
+                    listing={selectedListing}
+                    bookedRanges={bookedRanges}
+                    isLoading={isLoadingAvailability}
+                    selectedStart={startDate}
+                    selectedEnd={endDate}
+                    onSelectRange={(start, end) => {
+                      setStartDate(start);
+                      setEndDate(end);
+                      if (isSameDay(start, end) && returnHour <= pickupHour) {
+                        setPickupHour(Math.min(pickupHour, 22));
+                        setReturnHour(Math.min(pickupHour, 22) + 1);
+                      }
+                    }}
+                  />
+                  {isHourlyRental && startDate && endDate && (
+                    <RentalHoursPicker
+                      startHour={pickupHour}
+                      endHour={returnHour}
+                      isSameDay={isSameDay(startDate, endDate)}
+                      onChange={(start, end) => {
+                        setPickupHour(start);
+                        setReturnHour(end);
+                      }}
+                    />
+                  )}
+                  <Text style={styles.selectedDatesText}>
+                    {startDate && endDate
+                      ? `${describeRentalTime(startDate, pickupHour)} - ${describeRentalTime(endDate, returnHour)}`
+                      : 'Tap a free day to start, then a later day to end your rental'}
                   </Text>
                 </View>
+              )}
+
+              <View style={styles.costSummary}>
+                <Text style={styles.sectionTitle}>Cost Summary</Text>
+                {rentalQuote ? (
+                  <RentalQuoteBreakdown breakdown={rentalQuote} />
+                ) : (
+                  <Text style={styles.costLabel}>Choose your dates to see the price</Text>
+                )}
+                {periodError && (
+                  <Text style={styles.periodError}>{periodError.message}</Text>
+                )}
               </View>
 
               <View style={styles.sectionContainer}>
@@ -1337,12 +1440,10 @@ const styles = StyleSheet.create({
   selectedItemTitle: { fontSize: 16, fontWeight: '500', color: '#333' },
   selectedItemPrice: { fontSize: 14, color: '#007AFF', fontWeight: '600' },
   costSummary: { backgroundColor: '#f8f9fa', borderRadius: 12, padding: 16, marginBottom: 20 },
-  costRow: { marginBottom: 8 },
   costLabel: { fontSize: 16, color: '#333' },
-  totalCostRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', borderTopWidth: 1, borderTopColor: '#ddd', paddingTop: 12, marginTop: 8 },
-  totalCostLabel: { fontSize: 18, fontWeight: 'bold', color: '#333' },
-  totalCostValue: { fontSize: 18, fontWeight: 'bold', color: '#007AFF' },
+  periodError: { fontSize: 14, color: '#E74C3C', marginTop: 12 },
   sectionContainer: { marginBottom: 20 },
+  selectedDatesText: { fontSize: 14, color: '#8B7355', marginTop: 8, textAlign: 'center' },
   messageInput: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, fontSize: 16, color: '#333', textAlignVertical: 'top', minHeight: 80 },
   loadingContainer: {
     flex: 1,
@@ -1438,6 +1539,9 @@ const styles = StyleSheet.create({
     color: '#2D1810',
     marginBottom: 4,
   },
+  bookingBreakdown: {
+    marginBottom: 8,
+  },
   bookingDate: {
     fontSize: 12,
     color: '#8B7355',
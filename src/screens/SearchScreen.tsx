@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -6,26 +6,364 @@ import {
   TouchableOpacity,
   StyleSheet,
   FlatList,
+  RefreshControl,
+  ActivityIndicator,
+  ScrollView,
 } from 'react-native';
-import { useRoute, RouteProp } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { ListingCategory } from '../types';
+import { AppDispatch, RootState } from '../store';
+import { fetchListings } from '../store/slices/listingsSlice';
+import { fetchStores } from '../store/slices/storesSlice';
+import SearchIndexService, { SearchFilters } from '../services/SearchIndexService';
+import SearchKeywordService from '../services/SearchKeywordService';
+import { LocationService } from '../services/LocationService';
+import { ItemCondition, Listing, ListingCategory, ListingType, Store } from '../types';
 
 type SearchScreenRouteProp = RouteProp<RootStackParamList, 'Search'>;
+type SearchScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Search'>;
+
+const DISTANCE_OPTIONS = [1, 5, 10, 25];
 
 const SearchScreen: React.FC = () => {
   const route = useRoute<SearchScreenRouteProp>();
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { items, isLoading, isLoadingMore, hasMore } = useSelector((state: RootState) => state.listings);
+  const stores = useSelector((state: RootState) => state.stores.items);
   const [searchQuery, setSearchQuery] = useState(route.params?.query || '');
+  const [selectedCategory, setSelectedCategory] = useState<ListingCategory | null>(
+    (route.params?.category as ListingCategory) || null
+  );
+  const [hasSearched, setHasSearched] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [selectedConditions, setSelectedConditions] = useState<ItemCondition[]>([]);
+  const [selectedTypes, setSelectedTypes] = useState<ListingType[]>([]);
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
   
   const categories = Object.values(ListingCategory);
+  const conditions = Object.values(ItemCondition);
+  const listingTypes = Object.values(ListingType);
+
+  useEffect(() => {
+    if (stores.length === 0) {
+      dispatch(fetchStores());
+    }
+
+    if (route.params?.query || route.params?.category) {
+      runSearch({
+        text: route.params?.query || '',
+        category: (route.params?.category as ListingCategory) || null,
+      });
+    }
+
+    // Search shares the listings feed with Home, so put the default feed back on the way out
+    return () => {
+      dispatch(fetchListings({}));
+    };
+  }, []);
+
+  // Type-ahead: suggest listing titles once typing pauses
+  useEffect(() => {
+    const text = searchQuery.trim();
+    if (!text || text === submittedQuery) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const titles = await SearchKeywordService.fetchSuggestions(text);
+        if (!cancelled) setSuggestions(titles);
+      } catch (error) {
+        console.warn('Failed to load search suggestions:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, submittedQuery]);
+
+  const buildFacets = (): SearchFilters => {
+    const facets: SearchFilters = {};
+    const min = parseFloat(minPrice);
+    const max = parseFloat(maxPrice);
+    if (!isNaN(min)) facets.minPrice = min;
+    if (!isNaN(max)) facets.maxPrice = max;
+    if (selectedConditions.length > 0) facets.conditions = selectedConditions;
+    if (selectedTypes.length > 0) facets.types = selectedTypes;
+
+    const origin = LocationService.getCachedLocation();
+    if (maxDistanceKm && origin) {
+      facets.maxDistanceKm = maxDistanceKm;
+      facets.origin = { latitude: origin.latitude, longitude: origin.longitude };
+    }
+    return facets;
+  };
+
+  const runSearch = ({ text = searchQuery, category = selectedCategory }: {
+    text?: string;
+    category?: ListingCategory | null;
+  } = {}) => {
+    setHasSearched(true);
+    setSuggestions([]);
+    setSubmittedQuery(text.trim());
+    return dispatch(fetchListings({
+      searchQuery: text.trim() || undefined,
+      category: category || undefined,
+      facets: buildFacets(),
+    }));
+  };
+
+  const handleSubmit = () => {
+    runSearch();
+  };
+
+  const handleSuggestionPress = (suggestion: string) => {
+    setSearchQuery(suggestion);
+    runSearch({ text: suggestion });
+  };
+
+  const handleCategoryPress = (category: ListingCategory) => {
+    const nextCategory = selectedCategory === category ? null : category;
+    setSelectedCategory(nextCategory);
+    runSearch({ category: nextCategory });
+  };
+
+  const handleClear = () => {
+    setSearchQuery('');
+    if (selectedCategory) {
+      runSearch({ text: '' });
+    } else {
+      setHasSearched(false);
+      setSubmittedQuery('');
+    }
+  };
+
+  const handleDistancePress = async (distance: number) => {
+    if (maxDistanceKm === distance) {
+      setMaxDistanceKm(null);
+      return;
+    }
+    // Distance needs a fix on where the user is
+    if (!LocationService.getCachedLocation()) {
+      await LocationService.getCurrentLocationWithAddress();
+    }
+    setMaxDistanceKm(distance);
+  };
+
+  const toggleValue = <T,>(values: T[], value: T): T[] => (
+    values.includes(value) ? values.filter(item => item !== value) : [...values, value]
+  );
+
+  const handleResetFilters = () => {
+    setMinPrice('');
+    setMaxPrice('');
+    setSelectedConditions([]);
+    setSelectedTypes([]);
+    setMaxDistanceKm(null);
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await runSearch();
+    setRefreshing(false);
+  };
+
+  const matchingStores = useMemo(
+    () => (submittedQuery ? SearchIndexService.rankStores(stores, submittedQuery).slice(0, 10) : []),
+    [stores, submittedQuery]
+  );
+
+  const activeFilterCount = [
+    minPrice.trim(),
+    maxPrice.trim(),
+    selectedConditions.length > 0,
+    selectedTypes.length > 0,
+    maxDistanceKm,
+  ].filter(Boolean).length;
+
+  const loadMoreResults = () => {
+    if (!hasMore || isLoadingMore) return;
+    dispatch(fetchListings({ loadMore: true }));
+  };
 
   const renderCategoryItem = ({ item }: { item: ListingCategory }) => (
-    <TouchableOpacity style={styles.categoryItem}>
-      <Text style={styles.categoryText}>{item}</Text>
+    <TouchableOpacity
+      style={[styles.categoryItem, selectedCategory === item && styles.categoryItemSelected]}
+      onPress={() => handleCategoryPress(item)}
+    >
+      <Text style={[styles.categoryText, selectedCategory === item && styles.categoryTextSelected]}>
+        {item}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilterChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.filterChip, isSelected && styles.filterChipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterChipText, isSelected && styles.filterChipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.filtersPanel}>
+      <Text style={styles.filterLabel}>Price (K)</Text>
+      <View style={styles.priceRow}>
+        <TextInput
+          style={styles.priceInput}
+          placeholder="Min"
+          value={minPrice}
+          onChangeText={setMinPrice}
+          keyboardType="numeric"
+          placeholderTextColor="#999"
+        />
+        <Text style={styles.priceSeparator}>–</Text>
+        <TextInput
+          style={styles.priceInput}
+          placeholder="Max"
+          value={maxPrice}
+          onChangeText={setMaxPrice}
+          keyboardType="numeric"
+          placeholderTextColor="#999"
+        />
+      </View>
+
+      <Text style={styles.filterLabel}>Condition</Text>
+      <View style={styles.chipRow}>
+        {conditions.map(condition => renderFilterChip(
+          condition,
+          selectedConditions.includes(condition),
+          () => setSelectedConditions(toggleValue(selectedConditions, condition))
+        ))}
+      </View>
+
+      <Text style={styles.filterLabel}>Type</Text>
+      <View style={styles.chipRow}>
+        {listingTypes.map(type => renderFilterChip(
+          type,
+          selectedTypes.includes(type),
+          () => setSelectedTypes(toggleValue(selectedTypes, type))
+        ))}
+      </View>
+
+      <Text style={styles.filterLabel}>Distance</Text>
+      <View style={styles.chipRow}>
+        {DISTANCE_OPTIONS.map(distance => renderFilterChip(
+          `Within ${distance} km`,
+          maxDistanceKm === distance,
+          () => handleDistancePress(distance)
+        ))}
+      </View>
+
+      <View style={styles.filterActions}>
+        <TouchableOpacity style={styles.resetButton} onPress={handleResetFilters}>
+          <Text style={styles.resetButtonText}>Reset</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.applyButton}
+          onPress={() => {
+            setShowFilters(false);
+            runSearch();
+          }}
+        >
+          <Text style={styles.applyButtonText}>Apply</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderStoreResult = (store: Store) => (
+    <TouchableOpacity
+      key={store.id}
+      style={styles.storeResult}
+      onPress={() => (navigation as any).navigate('StoreDetail', { store })}
+    >
+      <Ionicons name="storefront-outline" size={18} color="#8B4513" />
+      <Text style={styles.storeResultText} numberOfLines={1}>{store.name}</Text>
     </TouchableOpacity>
   );
 
+  const renderResultsHeader = () => {
+    if (matchingStores.length === 0) return null;
+    return (
+      <View style={styles.storeResults}>
+        <Text style={styles.resultsHeading}>Stores</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {matchingStores.map(renderStoreResult)}
+        </ScrollView>
+        <Text style={styles.resultsHeading}>Listings</Text>
+      </View>
+    );
+  };
+
+  const renderResultItem = ({ item }: { item: Listing }) => (
+    <TouchableOpacity
+      style={styles.resultItem}
+      onPress={() => navigation.navigate('ProductDetail', { productId: item.id, listingId: item.id })}
+    >
+      <View style={styles.resultInfo}>
+        <Text style={styles.resultTitle} numberOfLines={1}>{item.title}</Text>
+        <Text style={styles.resultMeta}>
+          {item.category}{item.condition ? ` • ${item.condition}` : ''}
+        </Text>
+      </View>
+      <Text style={styles.resultPrice}>K{item.price.toFixed(2)}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderResultsFooter = () => {
+    if (isLoadingMore) {
+      return <ActivityIndicator style={styles.listFooter} size="small" color="#8B4513" />;
+    }
+    if (!hasMore && items.length > 0) {
+      return <Text style={styles.endOfResults}>No more results</Text>;
+    }
+    return null;
+  };
+
+  const renderEmptyResults = () => {
+    if (isLoading) {
+      return <ActivityIndicator style={styles.listFooter} size="large" color="#8B4513" />;
+    }
+    // Nothing matched in the listings read so far, but there are more to look through
+    if (hasMore) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="search-outline" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>No matches yet</Text>
+          <TouchableOpacity style={styles.keepSearchingButton} onPress={loadMoreResults} disabled={isLoadingMore}>
+            {isLoadingMore ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.keepSearchingText}>Keep searching</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="search-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyText}>No listings match your search</Text>
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.searchContainer}>
@@ -36,24 +374,83 @@ const SearchScreen: React.FC = () => {
             placeholder="Search products, stores..."
             value={searchQuery}
             onChangeText={setSearchQuery}
+            onSubmitEditing={handleSubmit}
+            returnKeyType="search"
             placeholderTextColor="#999"
           />
           {searchQuery.length > 0 && (
-            <TouchableOpacity onPress={() => setSearchQuery('')}>
+            <TouchableOpacity onPress={handleClear}>
               <Ionicons name="close-circle" size={20} color="#666" />
             </TouchableOpacity>
           )}
         </View>
+        <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(!showFilters)}>
+          <Ionicons name="options-outline" size={22} color="#8B4513" />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       </View>
 
-      <Text style={styles.sectionTitle}>Categories</Text>
-      <FlatList
-        key="search-categories-list"
-        data={categories}
-        renderItem={renderCategoryItem}
-        keyExtractor={(item) => item}
-        contentContainerStyle={styles.categoriesList}
-      />
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={suggestion}
+              style={styles.suggestionItem}
+              onPress={() => handleSuggestionPress(suggestion)}
+            >
+              <Ionicons name="search-outline" size={16} color="#999" />
+              <Text style={styles.suggestionText} numberOfLines={1}>{suggestion}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {showFilters && renderFilters()}
+
+      {hasSearched ? (
+        <>
+          <FlatList
+            key="search-category-chips"
+            horizontal
+            data={categories}
+            renderItem={renderCategoryItem}
+            keyExtractor={(item) => item}
+            showsHorizontalScrollIndicator={false}
+            style={styles.categoryChips}
+            contentContainerStyle={styles.categoryChipsContent}
+          />
+          <FlatList
+            key="search-results-list"
+            data={items}
+            renderItem={renderResultItem}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.resultsList}
+            onEndReached={loadMoreResults}
+            onEndReachedThreshold={0.5}
+            ListHeaderComponent={renderResultsHeader}
+            ListFooterComponent={renderResultsFooter}
+            ListEmptyComponent={renderEmptyResults}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#8B4513" />
+            }
+          />
+        </>
+      ) : (
+        <>
+          <Text style={styles.sectionTitle}>Categories</Text>
+          <FlatList
+            key="search-categories-list"
+            data={categories}
+            renderItem={renderCategoryItem}
+            keyExtractor={(item) => item}
+            contentContainerStyle={styles.categoriesList}
+          />
+        </>
+      )}
     </View>
   );
 };
@@ -64,6 +461,8 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8f9fa',
   },
   searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 20,
     paddingVertical: 16,
     backgroundColor: 'white',
@@ -71,6 +470,7 @@ const styles = StyleSheet.create({
     borderBottomColor: '#f0f0f0',
   },
   searchBar: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: '#f8f9fa',
@@ -111,6 +511,218 @@ const styles = StyleSheet.create({
     color: '#333',
     fontWeight: '500',
   },
+  categoryItemSelected: {
+    backgroundColor: '#8B4513',
+  },
+  categoryTextSelected: {
+    color: 'white',
+  },
+  categoryChips: {
+    flexGrow: 0,
+  },
+  categoryChipsContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  resultsList: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 8,
+  },
+  resultInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  resultTitle: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  resultMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  resultPrice: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#8B4513',
+  },
+  suggestions: {
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  suggestionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  suggestionText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 15,
+    color: '#333',
+  },
+  filterButton: {
+    marginLeft: 12,
+    padding: 8,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#8B4513',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBadgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  filtersPanel: {
+    backgroundColor: 'white',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  priceInput: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  priceSeparator: {
+    marginHorizontal: 8,
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+  },
+  filterChipSelected: {
+    backgroundColor: '#8B4513',
+    borderColor: '#8B4513',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  filterChipTextSelected: {
+    color: 'white',
+  },
+  filterActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+    gap: 12,
+  },
+  resetButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  resetButtonText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  applyButton: {
+    backgroundColor: '#8B4513',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  applyButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  storeResults: {
+    marginBottom: 8,
+  },
+  resultsHeading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginVertical: 8,
+  },
+  storeResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    maxWidth: 200,
+  },
+  storeResultText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#333',
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  endOfResults: {
+    textAlign: 'center',
+    color: '#999',
+    paddingVertical: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+  keepSearchingButton: {
+    backgroundColor: '#8B4513',
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    marginTop: 16,
+  },
+  keepSearchingText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
 });
 
 export default SearchScreen;
\ No newline at end of file
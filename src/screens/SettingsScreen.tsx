@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -12,8 +12,10 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { useSelector } from 'react-redux';
-import { RootState } from '../store';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { setSetting, resetSettings } from '../store/slices/settingsSlice';
+import { UserSettings } from '../types';
 
 interface SettingItem {
   id: string;
@@ -22,6 +24,7 @@ interface SettingItem {
   type: 'toggle' | 'navigation' | 'action';
   icon: string;
   value?: boolean;
+  disabled?: boolean;
   onPress?: () => void;
   onToggle?: (value: boolean) => void;
   color?: string;
@@ -29,24 +32,13 @@ interface SettingItem {
 
 const SettingsScreen: React.FC = () => {
   const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth) as any;
-  
-  const [settings, setSettings] = useState({
-    pushNotifications: true,
-    emailNotifications: true,
-    orderUpdates: true,
-    newProducts: true,
-    promotions: false,
-    darkMode: false,
-    soundEffects: true,
-    vibration: true,
-    locationTracking: true,
-    analytics: false,
-  });
+  const settings = useSelector((state: RootState) => state.settings.values);
 
-  const handleToggleSetting = (key: string, value: boolean) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
-    // Here you would typically save to AsyncStorage or send to backend
+  // Saved on this device and to the user's account as soon as it changes
+  const handleToggleSetting = (key: keyof UserSettings, value: boolean) => {
+    dispatch(setSetting({ key, value }));
   };
 
   const handleClearCache = () => {
@@ -76,18 +68,7 @@ const SettingsScreen: React.FC = () => {
           text: 'Reset',
           style: 'destructive',
           onPress: () => {
-            setSettings({
-              pushNotifications: true,
-              emailNotifications: true,
-              orderUpdates: true,
-              newProducts: true,
-              promotions: false,
-              darkMode: false,
-              soundEffects: true,
-              vibration: true,
-              locationTracking: true,
-              analytics: false,
-            });
+            dispatch(resetSettings());
             Alert.alert('Success', 'Settings reset to default');
           },
         },
@@ -144,13 +125,25 @@ const SettingsScreen: React.FC = () => {
   ];
 
   const appSettings: SettingItem[] = [
+    {
+      id: 'followSystemTheme',
+      title: 'Match System Theme',
+      subtitle: 'Switch between light and dark with your device',
+      type: 'toggle',
+      icon: 'contrast-outline',
+      value: settings.followSystemTheme,
+      onToggle: (value) => handleToggleSetting('followSystemTheme', value),
+    },
     {
       id: 'darkMode',
       title: 'Dark Mode',
-      subtitle: 'Use dark theme throughout the app',
+      subtitle: settings.followSystemTheme
+        ? 'Turn off Match System Theme to choose'
+        : 'Use dark theme throughout the app',
       type: 'toggle',
       icon: 'moon-outline',
       value: settings.darkMode,
+      disabled: settings.followSystemTheme,
       onToggle: (value) => handleToggleSetting('darkMode', value),
     },
     {
@@ -243,6 +236,7 @@ const SettingsScreen: React.FC = () => {
           <Switch
             value={item.value}
             onValueChange={item.onToggle}
+            disabled={item.disabled}
             trackColor={{ false: '#D2B48C', true: '#8B4513' }}
             thumbColor={item.value ? '#FFFFFF' : '#F4F3F4'}
           />
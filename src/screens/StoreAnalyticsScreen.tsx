@@ -16,6 +16,7 @@ import { AppDispatch, RootState } from '../store';
 import { fetchStoreDashboardData } from '../store/slices/dashboardSlice';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { isValidDate } from '../utils/textUtils';
+import AuthGuard from '../components/AuthGuard';
 
 type StoreAnalyticsNavigationProp = StackNavigationProp<any, 'StoreAnalytics'>;
 
@@ -103,7 +104,7 @@ const StoreAnalyticsScreen: React.FC = () => {
     
     return (
       <View style={styles.analysisContainer}>
-        <Text style={styles.sectionTitle}>Payment Methods</Text>
+        <Text style={styles.sectionTitle}>Payment Methods (Last 30 Days)</Text>
         {paymentData.length > 0 ? (
           paymentData.map((payment: any, index: number) => (
             <View key={index} style={styles.paymentRow}>
@@ -131,7 +132,7 @@ const StoreAnalyticsScreen: React.FC = () => {
     
     return (
       <View style={styles.analysisContainer}>
-        <Text style={styles.sectionTitle}>Top Products</Text>
+        <Text style={styles.sectionTitle}>Top Products (Last 30 Days)</Text>
         {productData.length > 0 ? (
           productData.map((product: any, index: number) => (
             <View key={index} style={styles.productRow}>
@@ -158,95 +159,100 @@ const StoreAnalyticsScreen: React.FC = () => {
   };
 
   return (
-    <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+    <AuthGuard
+      requiredPermissions={['view_analytics']}
+      showBackButton={false}
+    >
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
       
-      {/* Header */}
-      <View style={styles.header}>
-        <Text style={styles.headerTitle}>Store Analytics</Text>
-        <Text style={styles.storeSubtitle}>
-          {currentStore?.name || 'Your Store'}
-        </Text>
-      </View>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Store Analytics</Text>
+          <Text style={styles.storeSubtitle}>
+            {currentStore?.name || 'Your Store'}
+          </Text>
+        </View>
 
-      <ScrollView
-        style={styles.scrollView}
-        refreshControl={
-          <RefreshControl 
-            refreshing={refreshing} 
-            onRefresh={onRefresh}
-            colors={['#8B4513']}
-            tintColor="#8B4513"
-          />
-        }
-        showsVerticalScrollIndicator={false}
-      >
-        {/* Key Metrics Overview */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Key Metrics</Text>
-          <View style={styles.metricsGrid}>
-            <View style={styles.metricCard}>
-              <Ionicons name="cash-outline" size={24} color="#10B981" />
-              <Text style={styles.metricValue}>
-                {formatCurrency(stats.totalRevenue)}
-              </Text>
-              <Text style={styles.metricLabel}>Total Revenue</Text>
-            </View>
-            <View style={styles.metricCard}>
-              <Ionicons name="trending-up-outline" size={24} color="#F59E0B" />
-              <Text style={styles.metricValue}>
-                {formatCurrency(stats.todaysSales)}
-              </Text>
-              <Text style={styles.metricLabel}>Today's Sales</Text>
-            </View>
-            <View style={styles.metricCard}>
-              <Ionicons name="bag-check-outline" size={24} color="#8B5CF6" />
-              <Text style={styles.metricValue}>{String(stats.totalSold)}</Text>
-              <Text style={styles.metricLabel}>Items Sold</Text>
-            </View>
-            <View style={styles.metricCard}>
-              <Ionicons name="receipt-outline" size={24} color="#EF4444" />
-              <Text style={styles.metricValue}>{String(stats.todaysOrders)}</Text>
-              <Text style={styles.metricLabel}>Today's Orders</Text>
+        <ScrollView
+          style={styles.scrollView}
+          refreshControl={
+            <RefreshControl 
+              refreshing={refreshing} 
+              onRefresh={onRefresh}
+              colors={['#8B4513']}
+              tintColor="#8B4513"
+            />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Key Metrics Overview */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Key Metrics</Text>
+            <View style={styles.metricsGrid}>
+              <View style={styles.metricCard}>
+                <Ionicons name="cash-outline" size={24} color="#10B981" />
+                <Text style={styles.metricValue}>
+                  {formatCurrency(stats.totalRevenue)}
+                </Text>
+                <Text style={styles.metricLabel}>Total Revenue</Text>
+              </View>
+              <View style={styles.metricCard}>
+                <Ionicons name="trending-up-outline" size={24} color="#F59E0B" />
+                <Text style={styles.metricValue}>
+                  {formatCurrency(stats.todaysSales)}
+                </Text>
+                <Text style={styles.metricLabel}>Today's Sales</Text>
+              </View>
+              <View style={styles.metricCard}>
+                <Ionicons name="bag-check-outline" size={24} color="#8B5CF6" />
+                <Text style={styles.metricValue}>{String(stats.totalSold)}</Text>
+                <Text style={styles.metricLabel}>Items Sold (30 Days)</Text>
+              </View>
+              <View style={styles.metricCard}>
+                <Ionicons name="receipt-outline" size={24} color="#EF4444" />
+                <Text style={styles.metricValue}>{String(stats.todaysOrders)}</Text>
+                <Text style={styles.metricLabel}>Today's Orders</Text>
+              </View>
             </View>
           </View>
-        </View>
 
-        {/* Sales Chart */}
-        <View style={styles.section}>
-          {renderSalesChart()}
-        </View>
+          {/* Sales Chart */}
+          <View style={styles.section}>
+            {renderSalesChart()}
+          </View>
 
-        {/* Payment Analysis */}
-        <View style={styles.section}>
-          {renderPaymentAnalysis()}
-        </View>
+          {/* Payment Analysis */}
+          <View style={styles.section}>
+            {renderPaymentAnalysis()}
+          </View>
 
-        {/* Top Products */}
-        <View style={styles.section}>
-          {renderTopProducts()}
-        </View>
+          {/* Top Products */}
+          <View style={styles.section}>
+            {renderTopProducts()}
+          </View>
 
-        {/* Additional Stats */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Order Statistics</Text>
-          <View style={styles.statsRow}>
-            <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{String(stats.pendingOrders)}</Text>
-              <Text style={styles.statLabel}>Pending</Text>
-            </View>
-            <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{String(stats.deliveredOrders)}</Text>
-              <Text style={styles.statLabel}>Delivered</Text>
-            </View>
-            <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{String(stats.cancelledOrders)}</Text>
-              <Text style={styles.statLabel}>Cancelled</Text>
+          {/* Additional Stats */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Order Statistics</Text>
+            <View style={styles.statsRow}>
+              <View style={styles.statItem}>
+                <Text style={styles.statNumber}>{String(stats.pendingOrders)}</Text>
+                <Text style={styles.statLabel}>Pending</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statNumber}>{String(stats.deliveredOrders)}</Text>
+                <Text style={styles.statLabel}>Delivered</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statNumber}>{String(stats.cancelledOrders)}</Text>
+                <Text style={styles.statLabel}>Cancelled</Text>
+              </View>
             </View>
           </View>
-        </View>
-      </ScrollView>
-    </SafeAreaView>
+        </ScrollView>
+      </SafeAreaView>
+    </AuthGuard>
   );
 };
 
@@ -182,7 +182,7 @@ const StoreDashboardScreen: React.FC = () => {
             <View style={styles.statCard}>
               <Ionicons name="bag-check-outline" size={20} color="#8B5CF6" />
               <Text style={styles.statNumber}>{String(stats.totalSold)}</Text>
-              <Text style={styles.statLabel}>Sold</Text>
+              <Text style={styles.statLabel}>Sold (30d)</Text>
             </View>
           </View>
           
@@ -236,7 +236,7 @@ const StoreDashboardScreen: React.FC = () => {
           
           {/* Payment Types Analysis - Pie Chart */}
           <View style={styles.chartContainer}>
-            <Text style={styles.chartTitle}>Payment Methods</Text>
+            <Text style={styles.chartTitle}>Payment Methods (Last 30 Days)</Text>
             {analytics.paymentTypes.length > 0 ? (
               <View style={styles.pieChartContainer}>
                 {analytics.paymentTypes.map((payment: any, index: number) => {
@@ -272,7 +272,7 @@ const StoreDashboardScreen: React.FC = () => {
           
           {/* Top Products - Bar Chart */}
           <View style={styles.chartContainer}>
-            <Text style={styles.chartTitle}>Top Selling Products</Text>
+            <Text style={styles.chartTitle}>Top Selling Products (Last 30 Days)</Text>
             {analytics.topProducts.length > 0 ? (
               <View style={styles.barChartContainer}>
                 {analytics.topProducts.slice(0, 5).map((product: any, index: number) => {
@@ -413,6 +413,30 @@ const StoreDashboardScreen: React.FC = () => {
               </View>
               <Text style={styles.quickActionText}>Manage Products</Text>
             </TouchableOpacity>
+            
+            <TouchableOpacity
+              style={styles.quickActionCard}
+              onPress={() => navigation.navigate('Receipts')}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.quickActionIcon, { backgroundColor: '#6B4226' }]}>
+                <Ionicons name="document-text" size={24} color="#FFFFFF" />
+              </View>
+              <Text style={styles.quickActionText}>Receipts</Text>
+            </TouchableOpacity>
+            
+            {currentStore?.featureQuotationsEnabled && (
+              <TouchableOpacity
+                style={styles.quickActionCard}
+                onPress={() => navigation.navigate('Quotations')}
+                activeOpacity={0.7}
+              >
+                <View style={[styles.quickActionIcon, { backgroundColor: '#8B7355' }]}>
+                  <Ionicons name="pricetags" size={24} color="#FFFFFF" />
+                </View>
+                <Text style={styles.quickActionText}>Quotations</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </ScrollView>
@@ -27,6 +27,8 @@ import { RatingDisplay } from '../components/Rating';
 import RatingModal from '../components/RatingModal';
 import { collection, addDoc, doc, updateDoc, increment } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import { Theme } from '../theme/tokens';
 
 type StoreDetailScreenNavigationProp = StackNavigationProp<StoreStackParamList, 'StoreDetail'>;
 type StoreDetailScreenRouteProp = RouteProp<StoreStackParamList, 'StoreDetail'>;
@@ -34,6 +36,8 @@ type StoreDetailScreenRouteProp = RouteProp<StoreStackParamList, 'StoreDetail'>;
 const { width } = Dimensions.get('window');
 
 const StoreDetailScreen: React.FC = () => {
+  const { theme, colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [refreshing, setRefreshing] = useState(false);
   const [products, setProducts] = useState<Listing[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Listing[]>([]);
@@ -273,20 +277,20 @@ const StoreDetailScreen: React.FC = () => {
 
     for (let i = 0; i < fullStars; i++) {
       stars.push(
-        <Ionicons key={i} name="star" size={14} color="#D2B48C" />
+        <Ionicons key={i} name="star" size={14} color={colors.accent} />
       );
     }
 
     if (hasHalfStar) {
       stars.push(
-        <Ionicons key="half" name="star-half" size={14} color="#D2B48C" />
+        <Ionicons key="half" name="star-half" size={14} color={colors.accent} />
       );
     }
 
     const emptyStars = 5 - Math.ceil(rating);
     for (let i = 0; i < emptyStars; i++) {
       stars.push(
-        <Ionicons key={`empty-${i}`} name="star-outline" size={14} color="#D2B48C" />
+        <Ionicons key={`empty-${i}`} name="star-outline" size={14} color={colors.accent} />
       );
     }
 
@@ -314,7 +318,7 @@ const StoreDetailScreen: React.FC = () => {
           onPress={() => handleAddToCart(item)}
           activeOpacity={0.8}
         >
-          <Ionicons name="add-circle" size={28} color="#8B4513" />
+          <Ionicons name="add-circle" size={28} color={colors.primary} />
         </TouchableOpacity>
       )}
       <View style={styles.productContent}>
@@ -332,7 +336,7 @@ const StoreDetailScreen: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.surface} />
       
       {/* Header */}
       <View style={styles.header}>
@@ -340,7 +344,7 @@ const StoreDetailScreen: React.FC = () => {
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Ionicons name="arrow-back" size={24} color="#2D1810" />
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
         
         <View style={styles.headerContent}>
@@ -360,7 +364,7 @@ const StoreDetailScreen: React.FC = () => {
           onPress={handleCartPress}
         >
           <View style={styles.cartIconContainer}>
-            <Ionicons name="bag-outline" size={24} color="#2D1810" />
+            <Ionicons name="bag-outline" size={24} color={colors.text} />
             {cart?.totalItems > 0 && (
               <View style={styles.cartBadge}>
                 <Text style={styles.cartBadgeText}>{String(cart.totalItems)}</Text>
@@ -408,7 +412,7 @@ const StoreDetailScreen: React.FC = () => {
                   onPress={initializeChat}
                   activeOpacity={0.8}
                 >
-                  <Ionicons name="chatbubble-outline" size={16} color="#8B4513" />
+                  <Ionicons name="chatbubble-outline" size={16} color={colors.primary} />
                   <Text style={styles.chatStoreButtonText}>Chat</Text>
                 </TouchableOpacity>
                 <TouchableOpacity 
@@ -416,7 +420,7 @@ const StoreDetailScreen: React.FC = () => {
                   onPress={() => setShowRatingModal(true)}
                   activeOpacity={0.8}
                 >
-                  <Ionicons name="star-outline" size={16} color="#8B4513" />
+                  <Ionicons name="star-outline" size={16} color={colors.primary} />
                   <Text style={styles.rateButtonText}>Rate Store</Text>
                 </TouchableOpacity>
               </View>
@@ -424,12 +428,12 @@ const StoreDetailScreen: React.FC = () => {
             
             <View style={styles.storeDetails}>
               <View style={styles.detailItem}>
-                <Ionicons name="time-outline" size={16} color="#8B7355" />
+                <Ionicons name="time-outline" size={16} color={colors.textSecondary} />
                 <Text style={styles.detailText}>{store.operatingHours || 'Open Now'}</Text>
               </View>
               
               <View style={styles.detailItem}>
-                <Ionicons name="bicycle-outline" size={16} color="#8B7355" />
+                <Ionicons name="bicycle-outline" size={16} color={colors.textSecondary} />
                 <Text style={styles.detailText}>
                   {store.deliveryFee === 0 ? 'Free Delivery' : `K${store.deliveryFee} Delivery`}
                 </Text>
@@ -443,17 +447,17 @@ const StoreDetailScreen: React.FC = () => {
           {/* Search Bar */}
           <View style={styles.searchContainer}>
             <View style={styles.searchBar}>
-              <Ionicons name="search-outline" size={20} color="#8B7355" />
+              <Ionicons name="search-outline" size={20} color={colors.textSecondary} />
               <TextInput
                 style={styles.searchInput}
                 placeholder="Search products..."
                 value={searchQuery}
                 onChangeText={setSearchQuery}
-                placeholderTextColor="#8B7355"
+                placeholderTextColor={colors.textSecondary}
               />
               {searchQuery.length > 0 && (
                 <TouchableOpacity onPress={() => setSearchQuery('')}>
-                  <Ionicons name="close-circle" size={20} color="#8B7355" />
+                  <Ionicons name="close-circle" size={20} color={colors.textSecondary} />
                 </TouchableOpacity>
               )}
             </View>
@@ -461,7 +465,7 @@ const StoreDetailScreen: React.FC = () => {
               style={styles.filterButton}
               onPress={() => setShowFilters(!showFilters)}
             >
-              <Ionicons name="options-outline" size={20} color="#8B4513" />
+              <Ionicons name="options-outline" size={20} color={colors.primary} />
             </TouchableOpacity>
           </View>
 
@@ -512,14 +516,14 @@ const StoreDetailScreen: React.FC = () => {
                 <RefreshControl 
                   refreshing={refreshing} 
                   onRefresh={onRefresh}
-                  colors={['#8B4513']}
-                  tintColor="#8B4513"
+                  colors={[colors.primary]}
+                  tintColor={colors.primary}
                 />
               }
             />
           ) : products.length > 0 ? (
             <View style={styles.emptyProducts}>
-              <Ionicons name="search-outline" size={48} color="#D2B48C" />
+              <Ionicons name="search-outline" size={48} color={colors.accent} />
               <Text style={styles.emptyProductsTitle}>No Results Found</Text>
               <Text style={styles.emptyProductsText}>
                 {searchQuery.trim() 
@@ -533,7 +537,7 @@ const StoreDetailScreen: React.FC = () => {
             </View>
           ) : (
             <View style={styles.emptyProducts}>
-              <Ionicons name="cube-outline" size={48} color="#D2B48C" />
+              <Ionicons name="cube-outline" size={48} color={colors.accent} />
               <Text style={styles.emptyProductsTitle}>No Products</Text>
               <Text style={styles.emptyProductsText}>
                 This store hasn't added any products yet.
@@ -555,34 +559,34 @@ const StoreDetailScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    backgroundColor: '#FFFFFF',
-    shadowColor: '#8B4513',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
     elevation: 3,
   },
   backButton: {
-    padding: 8,
-    marginRight: 8,
+    padding: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
   },
   headerContent: {
     flex: 1,
   },
   headerTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
     marginBottom: 2,
   },
   headerSubtitle: {
@@ -594,13 +598,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   ratingText: {
-    fontSize: 12,
-    color: '#8B7355',
-    marginLeft: 4,
-    fontWeight: '500',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+    fontWeight: theme.typography.weight.medium,
   },
   cartButton: {
-    padding: 8,
+    padding: theme.spacing.sm,
   },
   cartIconContainer: {
     position: 'relative',
@@ -609,7 +613,7 @@ const styles = StyleSheet.create({
     position: 'absolute',
     top: -8,
     right: -8,
-    backgroundColor: '#EF4444',
+    backgroundColor: theme.colors.danger,
     borderRadius: 10,
     minWidth: 20,
     height: 20,
@@ -617,179 +621,179 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   cartBadgeText: {
-    color: 'white',
+    color: theme.colors.onPrimary,
     fontSize: 10,
-    fontWeight: '700',
+    fontWeight: theme.typography.weight.bold,
   },
   content: {
     flex: 1,
   },
   searchSection: {
-    backgroundColor: '#FFFFFF',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    marginBottom: 8,
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
   },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginBottom: 8,
+    marginBottom: theme.spacing.sm,
   },
   searchBar: {
     flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#F7F3F0',
-    borderRadius: 12,
-    paddingHorizontal: 12,
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.radius.lg,
+    paddingHorizontal: theme.spacing.md,
     paddingVertical: 10,
     borderWidth: 1,
-    borderColor: '#E8E2DD',
-    marginRight: 8,
+    borderColor: theme.colors.border,
+    marginRight: theme.spacing.sm,
   },
   searchInput: {
     flex: 1,
-    marginLeft: 8,
-    fontSize: 16,
-    color: '#2D1810',
+    marginLeft: theme.spacing.sm,
+    fontSize: theme.typography.size.md,
+    color: theme.colors.text,
   },
   filterButton: {
-    backgroundColor: '#F5F1ED',
-    borderRadius: 12,
-    padding: 12,
+    backgroundColor: theme.colors.surfaceAlt,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.md,
     borderWidth: 1,
-    borderColor: '#E8E2DD',
+    borderColor: theme.colors.border,
   },
   filtersContainer: {
-    marginTop: 8,
-    paddingVertical: 8,
+    marginTop: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
   },
   filtersHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 12,
+    marginBottom: theme.spacing.md,
   },
   filtersTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#2D1810',
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.text,
   },
   clearFiltersText: {
-    fontSize: 14,
-    color: '#8B4513',
-    fontWeight: '600',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
   },
   categoriesContainer: {
     flexDirection: 'row',
-    paddingVertical: 4,
+    paddingVertical: theme.spacing.xs,
   },
   categoryButton: {
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
     borderRadius: 20,
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    marginRight: 8,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
     borderWidth: 1,
-    borderColor: '#E8E2DD',
+    borderColor: theme.colors.border,
   },
   selectedCategoryButton: {
-    backgroundColor: '#8B4513',
-    borderColor: '#8B4513',
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
   },
   categoryButtonText: {
-    fontSize: 14,
-    color: '#2D1810',
-    fontWeight: '500',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.text,
+    fontWeight: theme.typography.weight.medium,
   },
   selectedCategoryButtonText: {
-    color: '#FFFFFF',
-    fontWeight: '600',
+    color: theme.colors.onPrimary,
+    fontWeight: theme.typography.weight.semibold,
   },
   resultsContainer: {
-    marginTop: 8,
+    marginTop: theme.spacing.sm,
   },
   resultsText: {
-    fontSize: 14,
-    color: '#8B7355',
-    fontWeight: '500',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
+    fontWeight: theme.typography.weight.medium,
   },
   storeInfoSection: {
-    backgroundColor: '#FFFFFF',
-    padding: 16,
-    marginBottom: 12,
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
   },
   storeLogoContainer: {
     alignItems: 'center',
-    marginBottom: 16,
+    marginBottom: theme.spacing.lg,
   },
   storeLogo: {
     width: 80,
     height: 80,
     borderRadius: 40,
     borderWidth: 3,
-    borderColor: '#F5F1ED',
+    borderColor: theme.colors.surfaceAlt,
   },
   storeInfo: {
     alignItems: 'center',
   },
   storeDescription: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
     lineHeight: 20,
-    marginBottom: 16,
+    marginBottom: theme.spacing.lg,
   },
   ratingSection: {
     alignItems: 'center',
-    marginBottom: 16,
-    paddingVertical: 12,
-    backgroundColor: '#F9F6F3',
-    borderRadius: 12,
-    paddingHorizontal: 16,
+    marginBottom: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.surfaceAlt,
+    borderRadius: theme.radius.lg,
+    paddingHorizontal: theme.spacing.lg,
   },
   ratingsCount: {
-    fontSize: 12,
-    color: '#6B7280',
-    marginTop: 4,
-    marginBottom: 8,
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
   },
   storeActionButtons: {
     flexDirection: 'row',
-    gap: 12,
-    marginTop: 8,
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.sm,
   },
   chatStoreButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FFFFFF',
-    borderRadius: 8,
-    paddingHorizontal: 12,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.md,
     paddingVertical: 6,
     borderWidth: 1,
-    borderColor: '#8B4513',
+    borderColor: theme.colors.primary,
   },
   chatStoreButtonText: {
-    fontSize: 14,
-    color: '#8B4513',
-    fontWeight: '600',
-    marginLeft: 4,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    marginLeft: theme.spacing.xs,
   },
   rateButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FFFFFF',
-    borderRadius: 8,
-    paddingHorizontal: 12,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.md,
     paddingVertical: 6,
     borderWidth: 1,
-    borderColor: '#8B4513',
+    borderColor: theme.colors.primary,
   },
   rateButtonText: {
-    fontSize: 14,
-    color: '#8B4513',
-    fontWeight: '600',
-    marginLeft: 4,
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    marginLeft: theme.spacing.xs,
   },
   storeDetails: {
     flexDirection: 'row',
@@ -801,34 +805,34 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   detailText: {
-    fontSize: 12,
-    color: '#8B7355',
-    marginLeft: 4,
-    fontWeight: '500',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+    fontWeight: theme.typography.weight.medium,
   },
   productsSection: {
-    backgroundColor: '#FFFFFF',
-    padding: 16,
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.lg,
   },
   sectionHeader: {
-    marginBottom: 16,
+    marginBottom: theme.spacing.lg,
   },
   sectionTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#2D1810',
+    fontSize: theme.typography.size.lg,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
   },
   productsGrid: {
-    paddingBottom: 16,
+    paddingBottom: theme.spacing.lg,
   },
   productRow: {
     justifyContent: 'space-between',
   },
   productItem: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 12,
-    marginBottom: 12,
-    shadowColor: '#8B4513',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.lg,
+    marginBottom: theme.spacing.md,
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.08,
     shadowRadius: 4,
@@ -836,53 +840,53 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     flex: 0.48,
     borderWidth: 1,
-    borderColor: '#F5F1ED',
+    borderColor: theme.colors.surfaceAlt,
   },
   productImage: {
     width: '100%',
     height: 120,
-    backgroundColor: '#F7F3F0',
+    backgroundColor: theme.colors.background,
   },
   quickAddButton: {
     position: 'absolute',
     top: 8,
     right: 8,
-    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    backgroundColor: theme.colors.overlay,
     borderRadius: 14,
-    padding: 4,
-    shadowColor: '#8B4513',
+    padding: theme.spacing.xs,
+    shadowColor: theme.colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.2,
     shadowRadius: 4,
     elevation: 3,
   },
   productContent: {
-    padding: 12,
+    padding: theme.spacing.md,
   },
   productTitle: {
-    fontSize: 14,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginBottom: 4,
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
     lineHeight: 18,
   },
   productCategory: {
-    fontSize: 12,
-    color: '#8B4513',
+    fontSize: theme.typography.size.xs,
+    color: theme.colors.primary,
     marginBottom: 2,
-    fontWeight: '600',
+    fontWeight: theme.typography.weight.semibold,
   },
   productPrice: {
-    fontSize: 16,
+    fontSize: theme.typography.size.md,
     fontWeight: '800',
-    color: '#8B4513',
-    marginBottom: 4,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.xs,
   },
   productCondition: {
     fontSize: 11,
-    color: '#8B4513',
-    fontWeight: '600',
-    backgroundColor: '#F5F1ED',
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weight.semibold,
+    backgroundColor: theme.colors.surfaceAlt,
     paddingHorizontal: 6,
     paddingVertical: 2,
     borderRadius: 4,
@@ -893,28 +897,28 @@ const styles = StyleSheet.create({
     paddingVertical: 40,
   },
   emptyProductsTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#2D1810',
-    marginTop: 12,
-    marginBottom: 4,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.xs,
   },
   emptyProductsText: {
-    fontSize: 14,
-    color: '#8B7355',
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textSecondary,
     textAlign: 'center',
   },
   clearFiltersButton: {
-    backgroundColor: '#8B4513',
-    borderRadius: 8,
-    paddingHorizontal: 20,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.xl,
     paddingVertical: 10,
-    marginTop: 16,
+    marginTop: theme.spacing.lg,
   },
   clearFiltersButtonText: {
-    color: '#FFFFFF',
-    fontSize: 14,
-    fontWeight: '600',
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.sm,
+    fontWeight: theme.typography.weight.semibold,
   },
 });
 
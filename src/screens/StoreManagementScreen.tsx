@@ -17,9 +17,19 @@ import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { doc, updateDoc, addDoc, collection } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import { useSelector } from 'react-redux';
-import { RootState } from '../store';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
 import NotificationService from '../services/NotificationService';
+import SearchKeywordService from '../services/SearchKeywordService';
+import {
+  fetchStoreStaff,
+  inviteStaffMember,
+  removeStaffMember,
+  isPendingInvite,
+  STORE_STAFF_ROLES,
+} from '../store/slices/staffSlice';
+import { StoreStaffMember, UserRole } from '../types';
+import { safeFormatDate } from '../utils/textUtils';
 
 interface StoreDetails {
   name: string;
@@ -59,13 +69,26 @@ const StoreManagementScreen: React.FC = () => {
     },
   });
 
+  const [staffEmail, setStaffEmail] = useState('');
+  const [staffRole, setStaffRole] = useState<UserRole>(STORE_STAFF_ROLES[0]);
+  const [isInviting, setIsInviting] = useState(false);
+
   const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth) as any;
+  const { currentStore } = useSelector((state: RootState) => state.dashboard);
+  const { members: staffMembers } = useSelector((state: RootState) => state.staff);
 
   useEffect(() => {
     loadStoreDetails();
   }, []);
 
+  useEffect(() => {
+    if (currentStore?.id) {
+      dispatch(fetchStoreStaff(currentStore.id));
+    }
+  }, [currentStore?.id]);
+
   const loadStoreDetails = async () => {
     try {
       // TODO: Load actual store details from Firestore
@@ -118,6 +141,7 @@ const StoreManagementScreen: React.FC = () => {
           averageRating: 0,
           campusCoverage: [],
           categories: [],
+          searchKeywords: SearchKeywordService.generateStoreKeywords({ ...storeData, categories: [] }),
         };
         
         const docRef = await addDoc(collection(db, 'stores'), newStoreData);
@@ -141,7 +165,8 @@ const StoreManagementScreen: React.FC = () => {
       } else {
         // Update existing store
         const storeRef = doc(db, 'stores', storeId);
-        await updateDoc(storeRef, storeData);
+        const searchKeywords = await SearchKeywordService.keywordsForStoreUpdate(storeRef, storeData);
+        await updateDoc(storeRef, searchKeywords ? { ...storeData, searchKeywords } : storeData);
         Alert.alert('Success', 'Store details updated successfully');
       }
       
@@ -155,6 +180,55 @@ const StoreManagementScreen: React.FC = () => {
     }
   };
 
+  const handleInviteStaff = async () => {
+    if (!currentStore) return;
+
+    if (!staffEmail.trim()) {
+      Alert.alert('Error', 'Please enter the staff member\'s email');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const member = await dispatch(inviteStaffMember({
+        store: currentStore,
+        email: staffEmail,
+        role: staffRole,
+        addedBy: user?.uid,
+      })).unwrap();
+      setStaffEmail('');
+      Alert.alert('Invite Sent', `${member.userName} has been invited to join as ${member.role}. They'll be added once they accept.`);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to invite staff member');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemoveStaff = (member: StoreStaffMember) => {
+    const isPending = isPendingInvite(member);
+    Alert.alert(
+      isPending ? 'Withdraw Invite' : 'Remove Staff Member',
+      isPending
+        ? `Withdraw the invite sent to ${member.userName}?`
+        : `Remove ${member.userName} from your store? They will lose access to orders and the till.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isPending ? 'Withdraw' : 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dispatch(removeStaffMember(member)).unwrap();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to remove staff member');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleImagePicker = async () => {
     const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
     
@@ -369,6 +443,76 @@ const StoreManagementScreen: React.FC = () => {
             </View>
           ))}
         </View>
+
+        {/* Staff */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Staff</Text>
+          {currentStore ? (
+            <>
+              {staffMembers.map((member) => (
+                <View key={member.id} style={styles.staffRow}>
+                  <View style={styles.staffInfo}>
+                    <Text style={styles.staffName}>{member.userName}</Text>
+                    <Text style={styles.staffMeta}>
+                      {member.role} • {member.userEmail} • {isPendingInvite(member) ? 'Invited' : 'Added'} {safeFormatDate(member.addedAt)}
+                    </Text>
+                    {isPendingInvite(member) && (
+                      <Text style={styles.staffPending}>Waiting for them to accept</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={() => handleRemoveStaff(member)}>
+                    <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Invite staff by email</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={staffEmail}
+                  onChangeText={setStaffEmail}
+                  placeholder="staff@example.com"
+                  placeholderTextColor="#8B7355"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                />
+              </View>
+
+              <View style={styles.roleOptions}>
+                {STORE_STAFF_ROLES.map((role) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[styles.roleOption, staffRole === role && styles.activeRoleOption]}
+                    onPress={() => setStaffRole(role)}
+                  >
+                    <Text style={[styles.roleOptionText, staffRole === role && styles.activeRoleOptionText]}>
+                      {role}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.addStaffButton, isInviting && styles.addStaffButtonDisabled]}
+                onPress={handleInviteStaff}
+                disabled={isInviting}
+              >
+                <Ionicons name="person-add-outline" size={18} color="#FFFFFF" />
+                <Text style={styles.saveButtonText}>
+                  {isInviting ? 'Inviting...' : 'Invite Staff Member'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.statusDescription}>
+                Cashiers can manage orders and use the till, but cannot edit products or view analytics.
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.statusDescription}>
+              Save your store before adding staff members.
+            </Text>
+          )}
+        </View>
       </ScrollView>
     </SafeAreaView>
   );
@@ -541,6 +685,72 @@ const styles = StyleSheet.create({
     marginHorizontal: 16,
     fontWeight: '500',
   },
+  staffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F7F3F0',
+    marginBottom: 8,
+  },
+  staffInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  staffName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D1810',
+  },
+  staffMeta: {
+    fontSize: 12,
+    color: '#8B7355',
+    marginTop: 2,
+  },
+  staffPending: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F59E0B',
+    marginTop: 2,
+  },
+  roleOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  roleOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E8E2DD',
+    backgroundColor: '#F7F3F0',
+  },
+  activeRoleOption: {
+    backgroundColor: '#8B4513',
+    borderColor: '#8B4513',
+  },
+  roleOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  activeRoleOptionText: {
+    color: '#FFFFFF',
+  },
+  addStaffButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#8B4513',
+    borderRadius: 8,
+    paddingVertical: 12,
+    gap: 8,
+    marginBottom: 12,
+  },
+  addStaffButtonDisabled: {
+    backgroundColor: '#D2B48C',
+  },
 });
 
 export default StoreManagementScreen;
\ No newline at end of file
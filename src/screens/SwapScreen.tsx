@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -21,6 +21,8 @@ import { fetchListings } from '../store/slices/listingsSlice';
 import { Listing, ListingType, SwapRequest } from '../types';
 import { collection, addDoc, query, where, getDocs, orderBy, Timestamp, doc, deleteDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import SearchKeywordService from '../services/SearchKeywordService';
+import SwapMatchingService, { SwapMatch } from '../services/SwapMatchingService';
 import AuthGuard from '../components/AuthGuard';
 
 const SwapScreen: React.FC = () => {
@@ -32,7 +34,7 @@ const SwapScreen: React.FC = () => {
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
   const [selectedMyListing, setSelectedMyListing] = useState<Listing | null>(null);
   const [swapMessage, setSwapMessage] = useState('');
-  const [activeTab, setActiveTab] = useState<'browse' | 'my_swaps' | 'requests'>('browse');
+  const [activeTab, setActiveTab] = useState<'browse' | 'suggested' | 'my_swaps' | 'requests'>('browse');
   const [isLoading, setIsLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -48,7 +50,7 @@ const SwapScreen: React.FC = () => {
 
   useEffect(() => {
     // Reset tab when user logs out and they're on a restricted tab
-    if (!user && (activeTab === 'my_swaps' || activeTab === 'requests')) {
+    if (!user && activeTab !== 'browse') {
       setActiveTab('browse');
       setMySwapListings([]);
     }
@@ -58,6 +60,11 @@ const SwapScreen: React.FC = () => {
     }
   }, [user, activeTab]);
 
+  const suggestedSwaps = useMemo(
+    () => SwapMatchingService.suggest(mySwapListings, swapListings),
+    [mySwapListings, swapListings]
+  );
+
   const handleListingPress = (listing: Listing) => {
     (navigation as any).navigate('ProductDetail', {
       listingId: listing.id,
@@ -258,6 +265,10 @@ const SwapScreen: React.FC = () => {
               try {
                 await updateDoc(doc(db, 'listings', listing.id), {
                   description: newDescription.trim(),
+                  searchKeywords: SearchKeywordService.generateListingKeywords({
+                    ...listing,
+                    description: newDescription.trim(),
+                  }),
                   updatedAt: Timestamp.now()
                 });
                 Alert.alert('Success', 'Description updated successfully!');
@@ -367,6 +378,12 @@ const SwapScreen: React.FC = () => {
     setShowSwapModal(true);
   };
 
+  // A suggestion already knows which of my items to offer
+  const handleSuggestedSwapRequest = (match: SwapMatch) => {
+    setSelectedMyListing(match.myListing);
+    handleSwapRequest(match.listing);
+  };
+
   const handleSubmitSwapRequest = async () => {
     if (!user || !selectedListing || !selectedMyListing) {
       Alert.alert('Error', 'Please select an item to swap');
@@ -489,6 +506,62 @@ const SwapScreen: React.FC = () => {
     </TouchableOpacity>
   );
 
+  const renderSuggestedSwap = ({ item }: { item: SwapMatch }) => {
+    const { listing, myListing } = item;
+    const matchLabel = item.isMutual
+      ? 'Mutual match'
+      : item.theyWantMine ? 'Wants your item' : 'Matches what you want';
+
+    return (
+      <TouchableOpacity
+        style={styles.suggestionCard}
+        onPress={() => handleListingPress(listing)}
+      >
+        <Image
+          source={{
+            uri: listing.imageBase64
+              ? `data:image/jpeg;base64,${listing.imageBase64}`
+              : listing.imageUrl || 'https://placehold.co/150x150.png?text=No+Image'
+          }}
+          style={styles.suggestionImage}
+          resizeMode="cover"
+        />
+        <View style={styles.suggestionContent}>
+          <View style={[styles.matchBadge, item.isMutual && styles.mutualMatchBadge]}>
+            <Ionicons
+              name={item.isMutual ? 'swap-horizontal' : 'arrow-forward'}
+              size={10}
+              color={item.isMutual ? 'white' : '#8B4513'}
+            />
+            <Text style={[styles.matchBadgeText, item.isMutual && styles.mutualMatchBadgeText]}>
+              {matchLabel}
+            </Text>
+          </View>
+          <Text style={styles.listingTitle} numberOfLines={1}>
+            {listing.title}
+          </Text>
+          <Text style={styles.suggestionFor} numberOfLines={1}>
+            For your {myListing.title}
+          </Text>
+          <Text style={styles.swapValue}>
+            Est. Value: K{SwapMatchingService.valueOf(listing).toFixed(2)}
+            {item.valueDifference !== null && ` · ${Math.round(item.valueDifference * 100)}% apart`}
+          </Text>
+          <View style={styles.listingFooter}>
+            <Text style={styles.sellerName} numberOfLines={1}>by {listing.sellerName}</Text>
+            <TouchableOpacity
+              style={styles.swapButton}
+              onPress={() => handleSuggestedSwapRequest(item)}
+            >
+              <Ionicons name="swap-horizontal" size={14} color="white" />
+              <Text style={styles.swapButtonText}>Swap</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   const renderMySwapListing = ({ item }: { item: Listing }) => (
     <TouchableOpacity 
       style={styles.listingCard}
@@ -728,6 +801,44 @@ const SwapScreen: React.FC = () => {
           />
         );
         
+      case 'suggested':
+        return (
+          <FlatList
+            key={`swap-${activeTab}-list`}
+            data={suggestedSwaps}
+            renderItem={renderSuggestedSwap}
+            keyExtractor={(item) => `${item.myListing.id}-${item.listing.id}`}
+            contentContainerStyle={styles.listContainer}
+            showsVerticalScrollIndicator={false}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                colors={['#8B4513']}
+                tintColor="#8B4513"
+              />
+            }
+            ListEmptyComponent={
+              isLoading ? (
+                <View style={styles.loadingContainer}>
+                  <ActivityIndicator size="large" color="#8B4513" />
+                  <Text style={styles.loadingText}>Finding matches...</Text>
+                </View>
+              ) : (
+                <View style={styles.emptyState}>
+                  <Ionicons name="sparkles-outline" size={64} color="#D2B48C" />
+                  <Text style={styles.emptyTitle}>No suggested swaps yet</Text>
+                  <Text style={styles.emptyText}>
+                    {mySwapListings.length === 0
+                      ? 'List an item for swap and say what you\'re looking for to get suggestions'
+                      : 'Swaps that match what you\'re looking for, at a similar value, will appear here'}
+                  </Text>
+                </View>
+              )
+            }
+          />
+        );
+
       case 'my_swaps':
         return (
           <FlatList
@@ -840,6 +951,24 @@ const SwapScreen: React.FC = () => {
           </Text>
         </TouchableOpacity>
         
+        {user && (
+          <TouchableOpacity
+            style={[styles.tab, activeTab === 'suggested' && styles.activeTab]}
+            onPress={() => setActiveTab('suggested')}
+          >
+            <Text style={[styles.tabText, activeTab === 'suggested' && styles.activeTabText]}>
+              Suggested
+            </Text>
+            {suggestedSwaps.some(match => match.isMutual) && (
+              <View style={styles.notificationBadge}>
+                <Text style={styles.notificationText}>
+                  {String(suggestedSwaps.filter(match => match.isMutual).length)}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        )}
+
         {user && (
           <TouchableOpacity
             style={[styles.tab, activeTab === 'my_swaps' && styles.activeTab]}
@@ -1442,6 +1571,56 @@ const styles = StyleSheet.create({
     color: '#8B4513',
     fontWeight: '600',
   },
+  suggestionCard: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 8,
+    marginHorizontal: 4,
+    shadowColor: '#8B4513',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 3,
+    overflow: 'hidden',
+  },
+  suggestionImage: {
+    width: 110,
+    backgroundColor: '#F5F1ED',
+  },
+  suggestionContent: {
+    flex: 1,
+    padding: 12,
+  },
+  suggestionFor: {
+    fontSize: 12,
+    color: '#8B7355',
+    marginBottom: 4,
+  },
+  matchBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#8B4513',
+    marginBottom: 6,
+  },
+  mutualMatchBadge: {
+    backgroundColor: '#27AE60',
+    borderColor: '#27AE60',
+  },
+  matchBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#8B4513',
+  },
+  mutualMatchBadgeText: {
+    color: 'white',
+  },
   preferencesContainer: {
     marginBottom: 4,
   },
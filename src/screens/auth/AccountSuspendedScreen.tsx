@@ -0,0 +1,173 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Linking,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { Ionicons } from '@expo/vector-icons';
+import { AppDispatch, RootState } from '../../store';
+import { dismissSuspension } from '../../store/slices/authSlice';
+import { useTheme, useThemedStyles } from '../../theme/ThemeProvider';
+import { Theme } from '../../theme/tokens';
+
+// Shown in place of the app when a suspended account tries to sign in.
+// The account is already signed out; dismissing returns to browsing as a guest.
+const AccountSuspendedScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const suspension = useSelector((state: RootState) => state.auth.suspension);
+  const { theme, colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const contactSupport = () => {
+    const email = 'support@kutra.zm';
+    const subject = 'Suspended Account';
+    const body = `Hello KUTRA Support,\n\nMy account has been suspended and I would like it reviewed.\n\nUser Email: ${suspension?.email || 'N/A'}\n\n`;
+    const url = `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+    Linking.openURL(url).catch(() => {
+      Alert.alert('Error', 'Unable to open email client');
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle={theme.statusBarStyle} backgroundColor={colors.background} />
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons name="ban-outline" size={56} color={colors.danger} />
+        </View>
+
+        <Text style={styles.title}>Account Suspended</Text>
+        <Text style={styles.message}>
+          {suspension?.name ? `${suspension.name}, your` : 'Your'} account
+          {suspension?.email ? ` (${suspension.email})` : ''} has been suspended, so you can't sign in right now.
+        </Text>
+
+        {suspension?.reason && (
+          <View style={styles.reasonCard}>
+            <Text style={styles.reasonLabel}>Reason</Text>
+            <Text style={styles.reasonText}>{suspension.reason}</Text>
+          </View>
+        )}
+
+        <Text style={styles.hint}>
+          If you think this is a mistake, contact support and we'll review your account.
+        </Text>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.supportButton} onPress={contactSupport}>
+            <Ionicons name="mail-outline" size={20} color={colors.onPrimary} />
+            <Text style={styles.supportButtonText}>Contact Support</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.guestButton}
+            onPress={() => dispatch(dismissSuspension())}
+          >
+            <Text style={styles.guestButtonText}>Continue as Guest</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  iconContainer: {
+    width: 104,
+    height: 104,
+    borderRadius: 52,
+    backgroundColor: theme.colors.dangerBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xxl,
+  },
+  title: {
+    fontSize: theme.typography.size.xxl,
+    fontWeight: theme.typography.weight.bold,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  message: {
+    fontSize: theme.typography.size.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: theme.spacing.xl,
+  },
+  reasonCard: {
+    width: '100%',
+    backgroundColor: theme.colors.dangerBackground,
+    borderWidth: 1,
+    borderColor: theme.colors.dangerBorder,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.xl,
+  },
+  reasonLabel: {
+    fontSize: theme.typography.size.xs,
+    fontWeight: theme.typography.weight.semibold,
+    color: theme.colors.danger,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.xs,
+  },
+  reasonText: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.text,
+    lineHeight: 20,
+  },
+  hint: {
+    fontSize: theme.typography.size.sm,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 32,
+  },
+  buttonContainer: {
+    width: '100%',
+    gap: theme.spacing.md,
+  },
+  supportButton: {
+    backgroundColor: theme.colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing.lg,
+    paddingHorizontal: theme.spacing.xxl,
+    borderRadius: theme.radius.lg,
+    gap: theme.spacing.sm,
+  },
+  supportButtonText: {
+    color: theme.colors.onPrimary,
+    fontSize: theme.typography.size.md,
+    fontWeight: theme.typography.weight.semibold,
+  },
+  guestButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  guestButtonText: {
+    color: theme.colors.textSecondary,
+    fontSize: theme.typography.size.sm,
+    textDecorationLine: 'underline',
+  },
+});
+
+export default AccountSuspendedScreen;
\ No newline at end of file
@@ -59,6 +59,8 @@ const LoginScreen: React.FC = () => {
       await dispatch(loginUser({ email: email.trim(), password })).unwrap();
       // Navigation will be handled by the auth state change
     } catch (error: any) {
+      // Suspended accounts get their own screen explaining why
+      if (error?.name === 'AccountSuspendedError') return;
       Alert.alert('Login Failed', error.message || 'An error occurred during login');
     } finally {
       setIsSubmitting(false);
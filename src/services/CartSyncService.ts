@@ -0,0 +1,233 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { CartItem, Listing } from '../types';
+import { isTracked } from './InventoryService';
+
+const GUEST_CART_KEY = 'cart:guest';
+const userCartKey = (userId: string) => `cart:${userId}`;
+
+// Wait for quantity taps to settle before writing to Firestore
+const REMOTE_SAVE_DELAY_MS = 1500;
+
+export type CartIssueKind = 'unavailable' | 'out_of_stock' | 'price_changed' | 'quantity_clamped';
+
+export interface CartIssue {
+  itemId: string;
+  title: string;
+  kind: CartIssueKind;
+  previousPrice?: number;
+  price?: number;
+  requested?: number;
+  available?: number;
+}
+
+export interface CartValidationResult {
+  items: CartItem[];
+  issues: CartIssue[];
+}
+
+export interface StoredCart {
+  items: CartItem[];
+  updatedAt: string; // when the cart was last changed, on whichever device changed it
+}
+
+// Listing snapshots are kept for offline display only; the base64 image is
+// dropped so the cart fits comfortably in AsyncStorage and a Firestore document
+const toStoredItem = (item: CartItem): CartItem => {
+  const { imageBase64, ...listing } = item.listing;
+  return {
+    id: item.id,
+    quantity: item.quantity,
+    ...(item.selectedVariant && { selectedVariant: item.selectedVariant }),
+    listing: listing as Listing,
+  };
+};
+
+const toStoredCart = (items: CartItem[], updatedAt: string): StoredCart => ({
+  items: items.map(toStoredItem),
+  updatedAt,
+});
+
+// Carts saved before updatedAt was read, or by hand, may lack fields
+const readStoredCart = (data: any): StoredCart | null => {
+  if (!data || !Array.isArray(data.items)) return null;
+  return { items: data.items, updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : '' };
+};
+
+export class CartSyncService {
+  private static remoteSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * The cart saved on this device for the user (or the guest cart when signed out)
+   */
+  static async loadLocalCart(userId: string | null): Promise<StoredCart | null> {
+    try {
+      const raw = await AsyncStorage.getItem(userId ? userCartKey(userId) : GUEST_CART_KEY);
+      return raw ? readStoredCart(JSON.parse(raw)) : null;
+    } catch (error) {
+      console.warn('Failed to read saved cart:', error);
+      return null;
+    }
+  }
+
+  static async saveLocalCart(userId: string | null, items: CartItem[], updatedAt: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        userId ? userCartKey(userId) : GUEST_CART_KEY,
+        JSON.stringify(toStoredCart(items, updatedAt))
+      );
+    } catch (error) {
+      console.warn('Failed to save cart:', error);
+    }
+  }
+
+  static async clearGuestCart(): Promise<void> {
+    await AsyncStorage.removeItem(GUEST_CART_KEY);
+  }
+
+  /**
+   * The cart the user last saved from any device
+   */
+  static async loadRemoteCart(userId: string): Promise<StoredCart | null> {
+    const snapshot = await getDoc(doc(db, 'carts', userId));
+    return snapshot.exists() ? readStoredCart(snapshot.data()) : null;
+  }
+
+  static async saveRemoteCart(userId: string, items: CartItem[], updatedAt: string): Promise<void> {
+    // Firestore rejects undefined fields, which listing snapshots often carry
+    await setDoc(doc(db, 'carts', userId), JSON.parse(JSON.stringify(toStoredCart(items, updatedAt))));
+  }
+
+  /**
+   * Save to Firestore once the cart stops changing. Later calls replace earlier ones.
+   */
+  static scheduleRemoteSave(userId: string, items: CartItem[], updatedAt: string): void {
+    if (this.remoteSaveTimer) {
+      clearTimeout(this.remoteSaveTimer);
+    }
+    this.remoteSaveTimer = setTimeout(() => {
+      this.remoteSaveTimer = null;
+      this.saveRemoteCart(userId, items, updatedAt).catch(error => {
+        console.warn('Failed to sync cart:', error);
+      });
+    }, REMOTE_SAVE_DELAY_MS);
+  }
+
+  /**
+   * Whichever saved cart was changed last. The other is out of date, so the two
+   * aren't merged: that would bring back items removed or checked out since.
+   */
+  static newerCart(...carts: (StoredCart | null)[]): StoredCart | null {
+    return carts.reduce<StoredCart | null>((newest, cart) => {
+      if (!cart) return newest;
+      return !newest || cart.updatedAt > newest.updatedAt ? cart : newest;
+    }, null);
+  }
+
+  /**
+   * Combine carts item by item, keeping the larger quantity of anything in both.
+   * Only for folding in a cart from the same shopper's session, e.g. the guest cart at sign-in.
+   */
+  static mergeCarts(...carts: CartItem[][]): CartItem[] {
+    const merged: CartItem[] = [];
+    carts.forEach(cart => {
+      cart.forEach(item => {
+        const existing = merged.find(mergedItem => mergedItem.id === item.id);
+        if (existing) {
+          existing.quantity = Math.max(existing.quantity, item.quantity);
+        } else {
+          merged.push({ ...item });
+        }
+      });
+    });
+    return merged;
+  }
+
+  /**
+   * Check every cart item against its live listing: flag removed, inactive and
+   * sold-out listings, refresh snapshots (so prices are current) and clamp
+   * quantities to the stock left. Items whose listing can't be read right now
+   * are kept as they are.
+   */
+  static async validateItems(items: CartItem[]): Promise<CartValidationResult> {
+    const issues: CartIssue[] = [];
+
+    const validated = await Promise.all(items.map(async (item): Promise<CartItem> => {
+      const title = item.listing?.title || 'An item';
+
+      let snapshot;
+      try {
+        snapshot = await getDoc(doc(db, 'listings', item.id));
+      } catch (error) {
+        console.warn('Could not check cart item:', item.id, error);
+        return item;
+      }
+
+      if (!snapshot.exists() || snapshot.data().isActive === false) {
+        issues.push({ itemId: item.id, title, kind: 'unavailable' });
+        return { ...item, unavailable: true };
+      }
+
+      const data = snapshot.data();
+      const listing = {
+        ...data,
+        id: snapshot.id,
+        postedDate: data.postedDate?.toDate?.()?.toISOString() || data.postedDate,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
+      } as unknown as Listing;
+
+      if (isTracked(listing.stock) && listing.stock <= 0) {
+        issues.push({ itemId: item.id, title: listing.title, kind: 'out_of_stock' });
+        return { ...item, listing, unavailable: true };
+      }
+
+      if (typeof item.listing?.price === 'number' && item.listing.price !== listing.price) {
+        issues.push({
+          itemId: item.id,
+          title: listing.title,
+          kind: 'price_changed',
+          previousPrice: item.listing.price,
+          price: listing.price,
+        });
+      }
+
+      let quantity = item.quantity;
+      if (isTracked(listing.stock) && quantity > listing.stock) {
+        issues.push({
+          itemId: item.id,
+          title: listing.title,
+          kind: 'quantity_clamped',
+          requested: quantity,
+          available: listing.stock,
+        });
+        quantity = listing.stock;
+      }
+
+      return { id: item.id, listing, quantity, ...(item.selectedVariant && { selectedVariant: item.selectedVariant }) };
+    }));
+
+    return { items: validated, issues };
+  }
+
+  /**
+   * A line of text describing the issue for the cart banner
+   */
+  static describeIssue(issue: CartIssue): string {
+    switch (issue.kind) {
+      case 'unavailable':
+        return `${issue.title} is no longer available`;
+      case 'out_of_stock':
+        return `${issue.title} is out of stock`;
+      case 'price_changed':
+        return `${issue.title} is now K${issue.price?.toFixed(2)} (was K${issue.previousPrice?.toFixed(2)})`;
+      case 'quantity_clamped':
+        return `Only ${issue.available} of ${issue.title} left, so your quantity was reduced from ${issue.requested}`;
+      default:
+        return issue.title;
+    }
+  }
+}
+
+export default CartSyncService;
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { collection, getDocs, doc, getDoc, query, where, limit } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { DeliveryPartner, Listing, Order, Store } from '../types';
+import LocationService from './LocationService';
+
+// What stores charged before per-store fees were configurable
+export const DEFAULT_STORE_DELIVERY_FEE = 5.0;
+
+export interface DeliveryRoute {
+  storeLat?: number;
+  storeLng?: number;
+  dropLat?: number;
+  dropLng?: number;
+  itemSubtotal: number;
+}
+
+export interface DeliveryQuote {
+  payee: 'store' | 'partner';
+  partnerId?: string;
+  label: string;
+  fee: number;
+  distanceKm?: number;
+  isFree: boolean; // fee waived by a freeOver threshold
+}
+
+export type DeliverySettlement = Pick<
+  Order,
+  'deliveryCost' | 'deliveryPayee' | 'partnerId' | 'storeRevenueAmount' | 'partnerDeliveryAmount'
+>;
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export class DeliveryPricingService {
+  /**
+   * Load delivery partners that are currently taking orders
+   */
+  static async fetchActivePartners(): Promise<DeliveryPartner[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'deliveryPartners'));
+      const partners: DeliveryPartner[] = [];
+
+      snapshot.forEach((docSnap) => {
+        const partner = { ...docSnap.data(), id: docSnap.id } as DeliveryPartner;
+        // Older partner docs only carry the `active` alias
+        if (partner.isActive ?? partner.active) {
+          partners.push(partner);
+        }
+      });
+
+      return partners;
+    } catch (error) {
+      console.error('Error fetching delivery partners:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve the store a listing is sold from, by storeId or by its owner
+   */
+  static async fetchStoreForListing(listing: Listing): Promise<Store | null> {
+    try {
+      if (listing.storeId) {
+        const storeDoc = await getDoc(doc(db, 'stores', listing.storeId));
+        if (storeDoc.exists()) {
+          return { ...storeDoc.data(), id: storeDoc.id } as Store;
+        }
+      }
+
+      const snapshot = await getDocs(query(
+        collection(db, 'stores'),
+        where('ownerId', '==', listing.sellerId),
+        limit(1)
+      ));
+      if (!snapshot.empty) {
+        return { ...snapshot.docs[0].data(), id: snapshot.docs[0].id } as Store;
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error fetching store for listing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Distance between store and drop-off in km, when both ends are known
+   */
+  static routeDistance(route: DeliveryRoute): number | undefined {
+    if (
+      route.storeLat === undefined || route.storeLng === undefined ||
+      route.dropLat === undefined || route.dropLng === undefined
+    ) {
+      return undefined;
+    }
+    return LocationService.calculateDistance(route.storeLat, route.storeLng, route.dropLat, route.dropLng);
+  }
+
+  /**
+   * Quote the store's own delivery, which is always a flat fee
+   */
+  static quoteStoreDelivery(store: Store | null, route: DeliveryRoute): DeliveryQuote {
+    const fee = store?.deliveryFee ?? DEFAULT_STORE_DELIVERY_FEE;
+    return {
+      payee: 'store',
+      label: store?.name ? `${store.name} delivery` : 'Store delivery',
+      fee: roundCurrency(fee),
+      distanceKm: this.routeDistance(route),
+      isFree: false,
+    };
+  }
+
+  /**
+   * Quote a delivery partner. Returns null when the partner prices by distance
+   * and either end of the route has no coordinates.
+   */
+  static quotePartner(partner: DeliveryPartner, route: DeliveryRoute): DeliveryQuote | null {
+    const distanceKm = this.routeDistance(route);
+    let fee: number;
+
+    if (partner.pricingMode === 'distance') {
+      if (distanceKm === undefined) {
+        return null;
+      }
+      fee = (partner.baseFee || 0) + (partner.perKmFee || 0) * distanceKm;
+      fee = Math.max(fee, partner.minFee || 0);
+    } else {
+      fee = partner.flatFee ?? partner.deliveryFee ?? 0;
+    }
+
+    const isFree = partner.freeOver !== undefined && partner.freeOver > 0 && route.itemSubtotal >= partner.freeOver;
+
+    return {
+      payee: 'partner',
+      partnerId: partner.id,
+      label: partner.companyName || partner.name,
+      fee: isFree ? 0 : roundCurrency(fee),
+      distanceKm,
+      isFree,
+    };
+  }
+
+  /**
+   * All delivery options for a route: the store's own delivery first, then partners by price
+   */
+  static quoteAll(store: Store | null, partners: DeliveryPartner[], route: DeliveryRoute): DeliveryQuote[] {
+    const partnerQuotes = partners
+      .map(partner => this.quotePartner(partner, route))
+      .filter((quote): quote is DeliveryQuote => quote !== null)
+      .sort((a, b) => a.fee - b.fee);
+
+    return [this.quoteStoreDelivery(store, route), ...partnerQuotes];
+  }
+
+  /**
+   * Split the order's money between store and partner for settlement
+   */
+  static settle(quote: DeliveryQuote | null, itemSubtotal: number): DeliverySettlement {
+    if (!quote) {
+      return {
+        deliveryCost: 0,
+        deliveryPayee: null,
+        storeRevenueAmount: roundCurrency(itemSubtotal),
+        partnerDeliveryAmount: 0,
+      };
+    }
+
+    if (quote.payee === 'partner') {
+      return {
+        deliveryCost: quote.fee,
+        deliveryPayee: 'partner',
+        partnerId: quote.partnerId,
+        storeRevenueAmount: roundCurrency(itemSubtotal),
+        partnerDeliveryAmount: quote.fee,
+      };
+    }
+
+    return {
+      deliveryCost: quote.fee,
+      deliveryPayee: 'store',
+      storeRevenueAmount: roundCurrency(itemSubtotal + quote.fee),
+      partnerDeliveryAmount: 0,
+    };
+  }
+}
+
+export default DeliveryPricingService;
\ No newline at end of file
@@ -0,0 +1,179 @@
+import type { Geocoder, GeocodeResult, PlaceKind } from './LocationService';
+
+interface GazetteerPlace {
+  name: string;
+  aliases?: string[];
+  kind: PlaceKind;
+  city: string;
+  province: string;
+  latitude: number;
+  longitude: number;
+  popular?: boolean; // offered before anything is typed
+}
+
+// Bundled so place search works offline. Coordinates are centre points, good to
+// within a neighbourhood, which is all delivery quotes and distance filters need.
+const ZAMBIA_GAZETTEER: GazetteerPlace[] = [
+  // Towns
+  { name: 'Lusaka', kind: 'town', city: 'Lusaka', province: 'Lusaka', latitude: -15.4167, longitude: 28.2833, popular: true },
+  { name: 'Ndola', kind: 'town', city: 'Ndola', province: 'Copperbelt', latitude: -12.9587, longitude: 28.6366, popular: true },
+  { name: 'Kitwe', kind: 'town', city: 'Kitwe', province: 'Copperbelt', latitude: -12.8024, longitude: 28.2132, popular: true },
+  { name: 'Kabwe', kind: 'town', city: 'Kabwe', province: 'Central', latitude: -14.4469, longitude: 28.4464 },
+  { name: 'Chingola', kind: 'town', city: 'Chingola', province: 'Copperbelt', latitude: -12.5290, longitude: 27.8536 },
+  { name: 'Mufulira', kind: 'town', city: 'Mufulira', province: 'Copperbelt', latitude: -12.5498, longitude: 28.2407 },
+  { name: 'Luanshya', kind: 'town', city: 'Luanshya', province: 'Copperbelt', latitude: -13.1367, longitude: 28.4166 },
+  { name: 'Chililabombwe', kind: 'town', city: 'Chililabombwe', province: 'Copperbelt', latitude: -12.3667, longitude: 27.8278 },
+  { name: 'Kalulushi', kind: 'town', city: 'Kalulushi', province: 'Copperbelt', latitude: -12.8418, longitude: 28.0946 },
+  { name: 'Livingstone', kind: 'town', city: 'Livingstone', province: 'Southern', latitude: -17.8419, longitude: 25.8543, popular: true },
+  { name: 'Choma', kind: 'town', city: 'Choma', province: 'Southern', latitude: -16.8065, longitude: 26.9531 },
+  { name: 'Mazabuka', kind: 'town', city: 'Mazabuka', province: 'Southern', latitude: -15.8560, longitude: 27.7480 },
+  { name: 'Monze', kind: 'town', city: 'Monze', province: 'Southern', latitude: -16.2803, longitude: 27.4733 },
+  { name: 'Siavonga', kind: 'town', city: 'Siavonga', province: 'Southern', latitude: -16.5383, longitude: 28.7087 },
+  { name: 'Kafue', kind: 'town', city: 'Kafue', province: 'Lusaka', latitude: -15.7691, longitude: 28.1814 },
+  { name: 'Chongwe', kind: 'town', city: 'Chongwe', province: 'Lusaka', latitude: -15.3292, longitude: 28.6820 },
+  { name: 'Chirundu', kind: 'town', city: 'Chirundu', province: 'Lusaka', latitude: -16.0339, longitude: 28.8503 },
+  { name: 'Kapiri Mposhi', kind: 'town', city: 'Kapiri Mposhi', province: 'Central', latitude: -13.9710, longitude: 28.6690 },
+  { name: 'Mumbwa', kind: 'town', city: 'Mumbwa', province: 'Central', latitude: -14.9783, longitude: 27.0619 },
+  { name: 'Kasama', kind: 'town', city: 'Kasama', province: 'Northern', latitude: -10.2129, longitude: 31.1808 },
+  { name: 'Chinsali', kind: 'town', city: 'Chinsali', province: 'Muchinga', latitude: -10.5414, longitude: 32.0816 },
+  { name: 'Mpika', kind: 'town', city: 'Mpika', province: 'Muchinga', latitude: -11.8343, longitude: 31.4529 },
+  { name: 'Nakonde', kind: 'town', city: 'Nakonde', province: 'Muchinga', latitude: -9.3333, longitude: 32.7500 },
+  { name: 'Chipata', kind: 'town', city: 'Chipata', province: 'Eastern', latitude: -13.6333, longitude: 32.6500 },
+  { name: 'Petauke', kind: 'town', city: 'Petauke', province: 'Eastern', latitude: -14.2426, longitude: 31.3253 },
+  { name: 'Solwezi', kind: 'town', city: 'Solwezi', province: 'North-Western', latitude: -12.1688, longitude: 26.3894 },
+  { name: 'Mansa', kind: 'town', city: 'Mansa', province: 'Luapula', latitude: -11.1998, longitude: 28.8943 },
+  { name: 'Mongu', kind: 'town', city: 'Mongu', province: 'Western', latitude: -15.2484, longitude: 23.1274 },
+  { name: 'Kaoma', kind: 'town', city: 'Kaoma', province: 'Western', latitude: -14.7833, longitude: 24.8000 },
+  { name: 'Sesheke', kind: 'town', city: 'Sesheke', province: 'Western', latitude: -17.4760, longitude: 24.2966 },
+
+  // Lusaka neighbourhoods
+  { name: 'Kabulonga', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4100, longitude: 28.3400 },
+  { name: 'Woodlands', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4300, longitude: 28.3250 },
+  { name: 'Chelstone', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.3700, longitude: 28.3800 },
+  { name: 'Matero', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.3800, longitude: 28.2500 },
+  { name: 'Kalingalinga', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4100, longitude: 28.3300 },
+  { name: 'Chilenje', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4450, longitude: 28.3050 },
+  { name: 'Kabwata', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4400, longitude: 28.2950 },
+  { name: 'Roma', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.3700, longitude: 28.3100 },
+  { name: 'Northmead', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4050, longitude: 28.3050 },
+  { name: 'Emmasdale', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.3880, longitude: 28.2700 },
+  { name: 'Mtendere', kind: 'suburb', city: 'Lusaka', province: 'Lusaka', latitude: -15.4100, longitude: 28.3600 },
+
+  // Copperbelt neighbourhoods
+  { name: 'Nkana West', kind: 'suburb', city: 'Kitwe', province: 'Copperbelt', latitude: -12.8200, longitude: 28.2000 },
+  { name: 'Parklands', kind: 'suburb', city: 'Kitwe', province: 'Copperbelt', latitude: -12.8100, longitude: 28.2300 },
+
+  // Campuses
+  { name: 'University of Zambia', aliases: ['UNZA', 'Great East Road Campus'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.3925, longitude: 28.3290, popular: true },
+  { name: 'UNZA Ridgeway Campus', aliases: ['Ridgeway'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.4290, longitude: 28.3070 },
+  { name: 'Copperbelt University', aliases: ['CBU', 'Riverside Campus'], kind: 'campus', city: 'Kitwe', province: 'Copperbelt', latitude: -12.8070, longitude: 28.2400, popular: true },
+  { name: 'Mulungushi University', aliases: ['MU'], kind: 'campus', city: 'Kabwe', province: 'Central', latitude: -14.2945, longitude: 28.5620 },
+  { name: 'Kwame Nkrumah University', aliases: ['KNU'], kind: 'campus', city: 'Kabwe', province: 'Central', latitude: -14.4420, longitude: 28.4520 },
+  { name: 'Mukuba University', kind: 'campus', city: 'Kitwe', province: 'Copperbelt', latitude: -12.8300, longitude: 28.2000 },
+  { name: 'Northrise University', kind: 'campus', city: 'Ndola', province: 'Copperbelt', latitude: -12.9950, longitude: 28.6850 },
+  { name: 'Evelyn Hone College', aliases: ['EHC'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.4214, longitude: 28.2944 },
+  { name: 'University of Lusaka', aliases: ['UNILUS'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.4170, longitude: 28.3270 },
+  { name: 'Cavendish University', aliases: ['CUZ'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.4060, longitude: 28.2850 },
+  { name: 'ZCAS University', aliases: ['ZCAS'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.4140, longitude: 28.2890 },
+  { name: 'Levy Mwanawasa Medical University', aliases: ['LMMU'], kind: 'campus', city: 'Lusaka', province: 'Lusaka', latitude: -15.3735, longitude: 28.3600 },
+  { name: 'Chalimbana University', kind: 'campus', city: 'Chongwe', province: 'Lusaka', latitude: -15.3870, longitude: 28.5400 },
+
+  // Landmarks
+  { name: 'Cairo Road', kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4200, longitude: 28.2820, popular: true },
+  { name: 'Manda Hill Mall', aliases: ['Manda Hill'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.3966, longitude: 28.3063 },
+  { name: 'East Park Mall', kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.3970, longitude: 28.3180 },
+  { name: 'Levy Junction Mall', aliases: ['Levy Junction'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4120, longitude: 28.2900 },
+  { name: 'Arcades Shopping Mall', aliases: ['Arcades'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4000, longitude: 28.3220 },
+  { name: 'Cosmopolitan Mall', kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4555, longitude: 28.2665 },
+  { name: 'University Teaching Hospital', aliases: ['UTH'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4290, longitude: 28.3150 },
+  { name: 'City Market', kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4250, longitude: 28.2830 },
+  { name: 'Soweto Market', kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4240, longitude: 28.2770 },
+  { name: 'Intercity Bus Terminus', aliases: ['Intercity'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.4190, longitude: 28.2800 },
+  { name: 'National Heroes Stadium', aliases: ['Heroes Stadium'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.3950, longitude: 28.2530 },
+  { name: 'Kenneth Kaunda International Airport', aliases: ['KKIA', 'Lusaka Airport'], kind: 'landmark', city: 'Lusaka', province: 'Lusaka', latitude: -15.3308, longitude: 28.4526 },
+  { name: 'Simon Mwansa Kapwepwe International Airport', aliases: ['Ndola Airport'], kind: 'landmark', city: 'Ndola', province: 'Copperbelt', latitude: -12.9990, longitude: 28.6649 },
+  { name: 'Victoria Falls', aliases: ['Mosi-oa-Tunya'], kind: 'landmark', city: 'Livingstone', province: 'Southern', latitude: -17.9243, longitude: 25.8572 },
+  { name: 'Harry Mwaanga Nkumbula International Airport', aliases: ['Livingstone Airport'], kind: 'landmark', city: 'Livingstone', province: 'Southern', latitude: -17.8218, longitude: 25.8227 },
+];
+
+// How a place ranks when it matches equally well (after popular places); towns are the most likely meaning
+const KIND_ORDER: { [kind in PlaceKind]: number } = {
+  town: 0,
+  campus: 1,
+  landmark: 2,
+  suburb: 3,
+  address: 4,
+};
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+const wordsOf = (text: string) => normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+const toResult = (place: GazetteerPlace): GeocodeResult => ({
+  name: place.name,
+  address: place.kind === 'town'
+    ? `${place.name}, ${place.province} Province, Zambia`
+    : `${place.name}, ${place.city}, Zambia`,
+  latitude: place.latitude,
+  longitude: place.longitude,
+  city: place.city,
+  country: 'Zambia',
+  kind: place.kind,
+  source: 'gazetteer',
+});
+
+/**
+ * Offline search over bundled Zambian towns, neighbourhoods, campuses and landmarks.
+ * Every typed word must start a word of the place's name, one of its aliases or its
+ * town, so "cbu", "copperbelt uni" and "univ kitwe" all find Copperbelt University.
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = 'gazetteer';
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const queryWords = wordsOf(query);
+    if (queryWords.length === 0) return [];
+    const phrase = queryWords.join(' ');
+
+    const matches: { place: GazetteerPlace; score: number }[] = [];
+    ZAMBIA_GAZETTEER.forEach(place => {
+      const names = [place.name, ...(place.aliases || [])];
+      const nameWords = names.flatMap(wordsOf);
+      const areaWords = wordsOf(`${place.city} ${place.province}`);
+
+      let score = 0;
+      for (const word of queryWords) {
+        if (nameWords.some(nameWord => nameWord.startsWith(word))) {
+          score += 2;
+        } else if (areaWords.some(areaWord => areaWord.startsWith(word))) {
+          score += 1;
+        } else {
+          return;
+        }
+      }
+
+      // Typing the start of the name itself beats matching scattered words
+      if (names.some(name => wordsOf(name).join(' ').startsWith(phrase))) {
+        score += 3;
+      }
+      matches.push({ place, score });
+    });
+
+    return matches
+      .sort((a, b) => b.score - a.score
+        || Number(!!b.place.popular) - Number(!!a.place.popular)
+        || KIND_ORDER[a.place.kind] - KIND_ORDER[b.place.kind]
+        || a.place.name.localeCompare(b.place.name))
+      .slice(0, limit)
+      .map(match => toResult(match.place));
+  }
+
+  /**
+   * Places to suggest before anything has been typed
+   */
+  popularPlaces(): GeocodeResult[] {
+    return ZAMBIA_GAZETTEER.filter(place => place.popular).map(toResult);
+  }
+}
+
+export default GazetteerGeocoder;
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { doc, runTransaction, Transaction } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import NotificationService from './NotificationService';
+
+// Store owners are warned once stock drops to this level after a sale
+export const LOW_STOCK_THRESHOLD = 5;
+
+export interface StockRequest {
+  listingId: string;
+  title: string;
+  quantity: number;
+}
+
+export interface StockShortage {
+  listingId: string;
+  title: string;
+  requested: number;
+  available: number;
+}
+
+export interface StockUpdate {
+  listingId: string;
+  sellerId: string;
+  title: string;
+  previousStock: number;
+  stock: number;
+}
+
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(shortages.map(InsufficientStockError.describe).join('\n'));
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+
+  static describe(shortage: StockShortage): string {
+    if (shortage.available <= 0) {
+      return `${shortage.title} is no longer available`;
+    }
+    return `Only ${shortage.available} of ${shortage.title} left in stock (you asked for ${shortage.requested})`;
+  }
+}
+
+// Listings without a stock count (e.g. services) aren't tracked
+export const isTracked = (stock: unknown): stock is number => typeof stock === 'number';
+
+// Combine repeated listings so one listing is only read and written once
+const mergeRequests = (requests: StockRequest[]): StockRequest[] => {
+  const merged: StockRequest[] = [];
+  requests.forEach(request => {
+    const existing = merged.find(item => item.listingId === request.listingId);
+    if (existing) {
+      existing.quantity += request.quantity;
+    } else {
+      merged.push({ ...request });
+    }
+  });
+  return merged;
+};
+
+export class InventoryService {
+  /**
+   * Check and decrement stock for every request inside the caller's transaction.
+   * Throws InsufficientStockError listing every item that can't be fulfilled.
+   */
+  static async reserveStock(
+    transaction: Transaction,
+    requests: StockRequest[],
+    updatedAt: string = new Date().toISOString()
+  ): Promise<StockUpdate[]> {
+    const merged = mergeRequests(requests);
+    const snapshots = await Promise.all(
+      merged.map(request => transaction.get(doc(db, 'listings', request.listingId)))
+    );
+
+    const shortages: StockShortage[] = [];
+    const updates: StockUpdate[] = [];
+
+    snapshots.forEach((snapshot, index) => {
+      const request = merged[index];
+      if (!snapshot.exists()) {
+        shortages.push({ listingId: request.listingId, title: request.title, requested: request.quantity, available: 0 });
+        return;
+      }
+
+      const data = snapshot.data();
+      if (!isTracked(data.stock)) return;
+
+      if (data.stock < request.quantity) {
+        shortages.push({ listingId: request.listingId, title: request.title, requested: request.quantity, available: data.stock });
+        return;
+      }
+
+      updates.push({
+        listingId: request.listingId,
+        sellerId: data.sellerId,
+        title: data.title || request.title,
+        previousStock: data.stock,
+        stock: data.stock - request.quantity,
+      });
+    });
+
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+
+    updates.forEach(update => {
+      transaction.update(doc(db, 'listings', update.listingId), {
+        stock: update.stock,
+        updatedAt,
+      });
+    });
+
+    return updates;
+  }
+
+  /**
+   * Put a cancelled or rejected order's items back on the shelf. Only orders that
+   * reserved stock at checkout are restored, and each order is restored once.
+   */
+  static async restoreOrderStock(orderId: string): Promise<StockUpdate[]> {
+    return runTransaction(db, async (transaction) => {
+      const orderRef = doc(db, 'orders', orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) {
+        throw new Error('Order not found');
+      }
+
+      const order = orderSnap.data();
+      if (!order.stockReserved || order.stockRestoredAt) {
+        return [];
+      }
+
+      const requests = mergeRequests((order.items || [])
+        .filter((item: any) => item.listingId)
+        .map((item: any) => ({
+          listingId: item.listingId,
+          title: item.title,
+          quantity: Number(item.quantity) || 0,
+        })));
+      const snapshots = await Promise.all(
+        requests.map(request => transaction.get(doc(db, 'listings', request.listingId)))
+      );
+
+      const now = new Date().toISOString();
+      const updates: StockUpdate[] = [];
+
+      snapshots.forEach((snapshot, index) => {
+        const request = requests[index];
+        // Deleted listings have nothing to restore to
+        if (!snapshot.exists() || !isTracked(snapshot.data().stock)) return;
+
+        const data = snapshot.data();
+        updates.push({
+          listingId: request.listingId,
+          sellerId: data.sellerId,
+          title: data.title || request.title,
+          previousStock: data.stock,
+          stock: data.stock + request.quantity,
+        });
+      });
+
+      updates.forEach(update => {
+        transaction.update(doc(db, 'listings', update.listingId), {
+          stock: update.stock,
+          updatedAt: now,
+        });
+      });
+      transaction.update(orderRef, { stockRestoredAt: now });
+
+      return updates;
+    });
+  }
+
+  /**
+   * Warn store owners about listings that just dropped to the low stock threshold
+   */
+  static async notifyLowStock(updates: StockUpdate[]): Promise<void> {
+    const notificationService = NotificationService.getInstance();
+
+    for (const update of updates) {
+      if (update.previousStock > LOW_STOCK_THRESHOLD && update.stock <= LOW_STOCK_THRESHOLD) {
+        try {
+          await notificationService.notifyProductLowStock(update.listingId, update.sellerId, update.title, update.stock);
+        } catch (notifyError) {
+          console.warn('Failed to send low stock notification:', notifyError);
+        }
+      }
+    }
+  }
+}
+
+export default InventoryService;
\ No newline at end of file
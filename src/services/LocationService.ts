@@ -1,5 +1,7 @@
 // Note: Run 'npx expo install expo-location' to add location dependencies
 
+import GazetteerGeocoder from './GazetteerGeocoder';
+
 // Fallback types for when expo-location is not installed
 interface LocationObjectCoords {
   latitude: number;
@@ -44,6 +46,7 @@ try {
     getForegroundPermissionsAsync: () => Promise.resolve({ status: 'denied' }),
     getCurrentPositionAsync: () => Promise.reject(new Error('expo-location not installed')),
     reverseGeocodeAsync: () => Promise.reject(new Error('expo-location not installed')),
+    geocodeAsync: () => Promise.reject(new Error('expo-location not installed')),
     hasServicesEnabledAsync: () => Promise.resolve(false),
     Accuracy: { Balanced: 4 }
   };
@@ -57,9 +60,79 @@ export interface LocationData {
   country?: string;
 }
 
+export type PlaceKind = 'town' | 'suburb' | 'campus' | 'landmark' | 'address';
+
+export interface GeocodeResult {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  city?: string;
+  country?: string;
+  kind: PlaceKind;
+  source: string; // the geocoder that found it
+}
+
+/**
+ * A place search backend. LocationService.searchPlaces asks each registered
+ * geocoder in turn until it has enough results.
+ */
+export interface Geocoder {
+  readonly name: string;
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+}
+
+// Results closer than this to one already listed are treated as the same place
+const DUPLICATE_PLACE_KM = 0.25;
+
+/**
+ * Geocoding through expo-location (the platform geocoder). Needs a network
+ * connection and is not available when expo-location isn't installed.
+ */
+class DeviceGeocoder implements Geocoder {
+  readonly name = 'device';
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const scopedQuery = /zambia/i.test(query) ? query : `${query}, Zambia`;
+    const positions: { latitude: number; longitude: number }[] = await Location.geocodeAsync(scopedQuery);
+
+    return Promise.all(positions.slice(0, limit).map(async (position): Promise<GeocodeResult> => {
+      let details: LocationGeocodedAddress | undefined;
+      try {
+        [details] = await Location.reverseGeocodeAsync(position);
+      } catch (error) {
+        console.warn('Could not label geocoded place:', error);
+      }
+
+      return {
+        name: details?.name || query.trim(),
+        address: details ? LocationService.formatAddress(details) : scopedQuery,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        city: details?.city || details?.subregion,
+        country: details?.country || 'Zambia',
+        kind: 'address',
+        source: this.name,
+      };
+    }));
+  }
+}
+
+const gazetteer = new GazetteerGeocoder();
+
 export class LocationService {
+  private static geocoders: Geocoder[] = [gazetteer, new DeviceGeocoder()];
   private static currentLocation: LocationData | null = null;
   private static locationPermissionGranted: boolean = false;
+  // Follows the Location Services switch in Settings
+  private static trackingEnabled: boolean = true;
+
+  static setTrackingEnabled(enabled: boolean) {
+    this.trackingEnabled = enabled;
+    if (!enabled) {
+      this.currentLocation = null;
+    }
+  }
 
   /**
    * Request location permissions from the user
@@ -80,6 +153,11 @@ export class LocationService {
    */
   static async getCurrentLocation(): Promise<LocationData | null> {
     try {
+      if (!this.trackingEnabled) {
+        console.log('Location services are turned off in settings');
+        return null;
+      }
+
       // Check permission first
       const hasPermission = await this.checkLocationPermission();
       if (!hasPermission) {
@@ -190,10 +268,53 @@ export class LocationService {
     return distance;
   }
 
+  /**
+   * Replace the place search backends, e.g. to add an online geocoding API.
+   * They are asked in the order given.
+   */
+  static setGeocoders(geocoders: Geocoder[]) {
+    this.geocoders = geocoders;
+  }
+
+  /**
+   * Search for places by name, most relevant first. The bundled gazetteer answers
+   * first; the device geocoder fills in when it finds too little. A backend that
+   * fails is skipped.
+   */
+  static async searchPlaces(query: string, limit: number = 8): Promise<GeocodeResult[]> {
+    if (!query.trim()) return [];
+
+    const results: GeocodeResult[] = [];
+    for (const geocoder of this.geocoders) {
+      if (results.length >= limit) break;
+      try {
+        const found = await geocoder.search(query, limit - results.length);
+        found.forEach(place => {
+          const duplicate = results.some(existing => this.calculateDistance(
+            existing.latitude, existing.longitude, place.latitude, place.longitude
+          ) < DUPLICATE_PLACE_KM);
+          if (!duplicate) {
+            results.push(place);
+          }
+        });
+      } catch (error) {
+        console.warn(`Place search with the ${geocoder.name} geocoder failed:`, error);
+      }
+    }
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Well-known places to offer before anything has been typed
+   */
+  static getPopularPlaces(): GeocodeResult[] {
+    return gazetteer.popularPlaces();
+  }
+
   /**
    * Format address from reverse geocoding result
    */
-  private static formatAddress(addressInfo: LocationGeocodedAddress): string {
+  static formatAddress(addressInfo: LocationGeocodedAddress): string {
     const parts = [];
     
     if (addressInfo.streetNumber) parts.push(addressInfo.streetNumber);
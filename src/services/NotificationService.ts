@@ -1,8 +1,10 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { doc, collection, addDoc, serverTimestamp, query, where, onSnapshot, orderBy, limit, updateDoc, getDocs, deleteDoc } from 'firebase/firestore';
+import { doc, collection, addDoc, serverTimestamp, query, where, onSnapshot, orderBy, limit, updateDoc, getDocs, getDoc, deleteDoc } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import Constants from 'expo-constants';
+import { UserSettings } from '../types';
+import SettingsService from './SettingsService';
 
 // Check if we're running in Expo Go
 const isExpoGo = Constants.appOwnership === 'expo';
@@ -11,7 +13,7 @@ const isExpoGo = Constants.appOwnership === 'expo';
 if (!isExpoGo) {
   Notifications.setNotificationHandler({
     handleNotification: async () => ({
-      shouldPlaySound: true,
+      shouldPlaySound: NotificationService.getInstance().getPreferences().soundEffects,
       shouldSetBadge: true,
       shouldShowBanner: true,
       shouldShowList: true,
@@ -24,7 +26,7 @@ if (!isExpoGo) {
 export interface NotificationData {
   id?: string;
   userId: string;
-  type: 'order' | 'listing' | 'product' | 'message' | 'store';
+  type: 'order' | 'listing' | 'product' | 'message' | 'store' | 'promotion';
   title: string;
   body: string;
   data?: any;
@@ -32,9 +34,27 @@ export interface NotificationData {
   createdAt?: any;
 }
 
+// The setting a notification can be turned off with. Messages, quotations and
+// store operations have none; they are only held back by the push switch.
+const preferenceFor = (notification: NotificationData): keyof UserSettings | null => {
+  const kind = notification.data?.type;
+  if (notification.type === 'promotion' || kind === 'promotion') return 'promotions';
+  if (notification.type === 'order') return 'orderUpdates';
+  if (kind === 'new_product' || kind === 'new_store') return 'newProducts';
+  return null;
+};
+
+const allows = (settings: UserSettings, notification: NotificationData) => {
+  const preference = preferenceFor(notification);
+  return !preference || settings[preference];
+};
+
 class NotificationService {
   private static instance: NotificationService;
   private listeners: Map<string, () => void> = new Map();
+  // The signed-in user on this device and their settings
+  private preferencesUserId: string | null = null;
+  private preferences: UserSettings = SettingsService.withDefaults();
 
   public static getInstance(): NotificationService {
     if (!NotificationService.instance) {
@@ -43,6 +63,29 @@ class NotificationService {
     return NotificationService.instance;
   }
 
+  setPreferences(userId: string | null, settings: UserSettings) {
+    this.preferencesUserId = userId;
+    this.preferences = settings;
+  }
+
+  getPreferences(): UserSettings {
+    return this.preferences;
+  }
+
+  // Settings of the user a notification is for; the defaults if they can't be read
+  async getRecipientSettings(userId: string): Promise<UserSettings> {
+    if (userId === this.preferencesUserId) {
+      return this.preferences;
+    }
+    try {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      return SettingsService.withDefaults(userDoc.exists() ? userDoc.data().settings : null);
+    } catch (error) {
+      console.warn('Could not read notification settings for user:', userId, error);
+      return SettingsService.withDefaults();
+    }
+  }
+
   // Initialize notifications
   async initialize() {
     try {
@@ -92,7 +135,8 @@ class NotificationService {
     }
   }
 
-  // Send local notification
+  // Send local notification. Only shown when it is for the user signed in on this
+  // device and they allow push notifications of its kind.
   async sendLocalNotification(notification: NotificationData) {
     try {
       // Skip local notifications in Expo Go
@@ -101,12 +145,21 @@ class NotificationService {
         return;
       }
 
+      if (notification.userId !== this.preferencesUserId) {
+        return;
+      }
+      if (!this.preferences.pushNotifications || !allows(this.preferences, notification)) {
+        console.log('Local notification turned off in settings:', notification.title);
+        return;
+      }
+
       await Notifications.scheduleNotificationAsync({
         content: {
           title: notification.title,
           body: notification.body,
           data: notification.data || {},
-          sound: true,
+          sound: this.preferences.soundEffects,
+          vibrate: this.preferences.vibration ? [0, 250, 250, 250] : [],
           priority: Notifications.AndroidNotificationPriority.HIGH,
         },
         trigger: null, // Show immediately
@@ -133,9 +186,15 @@ class NotificationService {
     }
   }
 
-  // Send and store notification
-  async sendNotification(notification: NotificationData) {
+  // Send and store notification, unless the recipient has turned off its kind.
+  // Returns the stored notification's id, or null when it was not sent.
+  async sendNotification(notification: NotificationData, recipientSettings?: UserSettings): Promise<string | null> {
     try {
+      const settings = recipientSettings || await this.getRecipientSettings(notification.userId);
+      if (!allows(settings, notification)) {
+        return null;
+      }
+
       // Store in Firestore first
       const notificationId = await this.storeNotification(notification);
       
@@ -185,6 +244,43 @@ class NotificationService {
     await this.sendNotification(notification);
   }
 
+  // Quotation notifications
+  async notifyQuotationSent(quotationId: string, customerId: string, storeName: string, totalAmount: number) {
+    const notification: NotificationData = {
+      userId: customerId,
+      type: 'store',
+      title: 'New Quotation Received',
+      body: `${storeName} sent you quotation #${quotationId.slice(-6).toUpperCase()} - K${totalAmount.toFixed(2)}`,
+      data: { quotationId, storeName, totalAmount, type: 'quotation_sent' }
+    };
+
+    await this.sendNotification(notification);
+  }
+
+  async notifyQuotationResponse(quotationId: string, storeOwnerId: string, customerName: string, accepted: boolean) {
+    const notification: NotificationData = {
+      userId: storeOwnerId,
+      type: 'store',
+      title: accepted ? 'Quotation Accepted' : 'Quotation Rejected',
+      body: `${customerName} ${accepted ? 'accepted' : 'rejected'} quotation #${quotationId.slice(-6).toUpperCase()}`,
+      data: { quotationId, accepted, type: 'quotation_response' }
+    };
+
+    await this.sendNotification(notification);
+  }
+
+  async notifyStaffInvited(userId: string, storeId: string, storeName: string, role: string) {
+    const notification: NotificationData = {
+      userId,
+      type: 'store',
+      title: 'Store Staff Invite',
+      body: `${storeName} has invited you to join as ${role}. Open your profile to accept or decline.`,
+      data: { storeId, role, type: 'staff_invited' }
+    };
+
+    await this.sendNotification(notification);
+  }
+
   // Product/Listing notifications
   async notifyNewProduct(productId: string, storeId: string, productName: string, price: number, storeName?: string) {
     try {
@@ -194,7 +290,7 @@ class NotificationService {
       const allUsersQuery = query(collection(db, 'users'));
       const usersSnapshot = await getDocs(allUsersQuery);
       
-      const notifications: Promise<string>[] = [];
+      const notifications: Promise<string | null>[] = [];
       
       usersSnapshot.forEach((userDoc) => {
         const userData = userDoc.data();
@@ -208,7 +304,7 @@ class NotificationService {
             data: { productId, storeId, productName, price, storeName, type: 'new_product' }
           };
           
-          notifications.push(this.sendNotification(notification));
+          notifications.push(this.sendNotification(notification, SettingsService.withDefaults(userData.settings)));
         }
       });
       
@@ -233,7 +329,7 @@ class NotificationService {
       );
       const customersSnapshot = await getDocs(customersQuery);
       
-      const notifications: Promise<string>[] = [];
+      const notifications: Promise<string | null>[] = [];
       
       customersSnapshot.forEach((userDoc) => {
         // Don't notify the store owner themselves
@@ -246,7 +342,7 @@ class NotificationService {
             data: { storeId, storeName, storeDescription, type: 'new_store' }
           };
           
-          notifications.push(this.sendNotification(notification));
+          notifications.push(this.sendNotification(notification, SettingsService.withDefaults(userDoc.data().settings)));
         }
       });
       
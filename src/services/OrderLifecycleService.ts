@@ -0,0 +1,238 @@
+import { doc, runTransaction, arrayUnion } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Order, OrderStatus, OrderStatusChange } from '../types';
+import ReceiptService, { RECEIPT_STATUSES } from './ReceiptService';
+
+type DeliveryMethod = Order['deliveryMethod'];
+
+// Courier steps that are recorded on the order without changing its status
+export type CourierStep = 'accept' | 'pickup';
+
+// Statuses a courier may accept an order in, and pick it up in. Pickup waits for
+// READY so the order can go straight on to IN_TRANSIT.
+const COURIER_STEP_STATUSES: { [step in CourierStep]: string[] } = {
+  accept: [OrderStatus.CONFIRMED, OrderStatus.PREPARING, OrderStatus.READY],
+  pickup: [OrderStatus.READY],
+};
+
+// Statuses an order can move to next. Pickup orders go straight from READY to
+// COMPLETED when collected; only delivery orders pass through IN_TRANSIT.
+const DELIVERY_TRANSITIONS: { [status: string]: OrderStatus[] } = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.REJECTED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.PREPARING, OrderStatus.READY, OrderStatus.CANCELLED],
+  [OrderStatus.PREPARING]: [OrderStatus.READY, OrderStatus.CANCELLED],
+  [OrderStatus.READY]: [OrderStatus.IN_TRANSIT, OrderStatus.CANCELLED],
+  [OrderStatus.IN_TRANSIT]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+  [OrderStatus.DELIVERED]: [OrderStatus.COMPLETED],
+};
+
+const PICKUP_TRANSITIONS: { [status: string]: OrderStatus[] } = {
+  ...DELIVERY_TRANSITIONS,
+  [OrderStatus.READY]: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+  [OrderStatus.IN_TRANSIT]: [],
+  [OrderStatus.DELIVERED]: [],
+};
+
+// The field stamped when an order enters each status
+export const ORDER_STATUS_TIMESTAMP_FIELDS: { [status: string]: keyof Order } = {
+  [OrderStatus.CONFIRMED]: 'confirmedAt',
+  [OrderStatus.PREPARING]: 'preparingAt',
+  [OrderStatus.READY]: 'readyAt',
+  [OrderStatus.IN_TRANSIT]: 'inTransitAt',
+  [OrderStatus.DELIVERED]: 'deliveredAt',
+  [OrderStatus.COMPLETED]: 'completedAt',
+  [OrderStatus.CANCELLED]: 'cancelledAt',
+  [OrderStatus.REJECTED]: 'rejectedAt',
+};
+
+export class IllegalOrderTransitionError extends Error {
+  from: string;
+  to: string;
+
+  constructor(from: string, to: string, deliveryMethod: DeliveryMethod) {
+    super(
+      `A ${deliveryMethod === 'pickup' ? 'pickup' : 'delivery'} order can't go from ${from} to ${to}`
+    );
+    this.name = 'IllegalOrderTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export class DeliveryAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryAssignmentError';
+  }
+}
+
+export interface OrderTransitionResult {
+  orderId: string;
+  previousStatus: string;
+  updateData: Partial<Order>;
+  change: OrderStatusChange;
+  order: Pick<Order, 'customerId' | 'totalAmount' | 'items' | 'storeId'>;
+}
+
+export class OrderLifecycleService {
+  /**
+   * Statuses the order may move to from where it is now
+   */
+  static getAllowedTransitions(order: Pick<Order, 'status' | 'deliveryMethod'>): OrderStatus[] {
+    const transitions = order.deliveryMethod === 'pickup' ? PICKUP_TRANSITIONS : DELIVERY_TRANSITIONS;
+    return transitions[order.status] || [];
+  }
+
+  static canTransition(order: Pick<Order, 'status' | 'deliveryMethod'>, to: OrderStatus): boolean {
+    return this.getAllowedTransitions(order).includes(to);
+  }
+
+  static assertTransition(order: Pick<Order, 'status' | 'deliveryMethod'>, to: OrderStatus): void {
+    if (!this.canTransition(order, to)) {
+      throw new IllegalOrderTransitionError(order.status, to, order.deliveryMethod);
+    }
+  }
+
+  /**
+   * The happy path an order follows, used to draw progress
+   */
+  static getProgressSteps(deliveryMethod: DeliveryMethod): OrderStatus[] {
+    return deliveryMethod === 'pickup'
+      ? [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.PREPARING, OrderStatus.READY, OrderStatus.COMPLETED]
+      : [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.PREPARING, OrderStatus.READY, OrderStatus.IN_TRANSIT, OrderStatus.DELIVERED];
+  }
+
+  /**
+   * When the order entered a status, if it has
+   */
+  static getStatusTimestamp(order: Order, status: OrderStatus): any {
+    if (status === OrderStatus.PENDING) return order.createdAt;
+    const field = ORDER_STATUS_TIMESTAMP_FIELDS[status];
+    return field ? order[field] : undefined;
+  }
+
+  /**
+   * Move an order to a new status, checked against its current status in Firestore
+   */
+  static async transition(orderId: string, to: OrderStatus, changedBy: string): Promise<OrderTransitionResult> {
+    let completedOrder = null as Order | null;
+
+    const result = await runTransaction(db, async (transaction) => {
+      const orderRef = doc(db, 'orders', orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) {
+        throw new Error('Order not found');
+      }
+
+      const current = orderSnap.data() as Order;
+      this.assertTransition(current, to);
+
+      const now = new Date().toISOString();
+      const change: OrderStatusChange = {
+        from: current.status,
+        to,
+        changedBy,
+        changedAt: now,
+      };
+
+      const updateData: Partial<Order> = {
+        status: to,
+        updatedAt: now,
+        statusUpdatedBy: changedBy,
+      };
+      const timestampField = ORDER_STATUS_TIMESTAMP_FIELDS[to];
+      if (timestampField) {
+        (updateData as any)[timestampField] = now;
+      }
+
+      transaction.update(orderRef, {
+        ...updateData,
+        statusHistory: arrayUnion(change),
+      });
+
+      completedOrder = RECEIPT_STATUSES.includes(to) ? { ...current, ...updateData, id: orderId } : null;
+
+      return {
+        orderId,
+        previousStatus: current.status,
+        updateData,
+        change,
+        order: {
+          customerId: current.customerId,
+          totalAmount: current.totalAmount,
+          items: current.items,
+          storeId: current.storeId,
+        },
+      };
+    });
+
+    // Completed sales get a proof-of-sale receipt, whoever completed them
+    if (completedOrder) {
+      try {
+        await ReceiptService.issueOrderReceipt(completedOrder);
+      } catch (receiptError) {
+        // Don't fail the status change if receipt issuance fails
+        console.warn('Failed to issue receipt for order:', receiptError);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a courier accepting or picking up an order, checked against the order in Firestore.
+   * Only the partner the customer chose may carry the order, and once one of its
+   * couriers accepts it no other courier can take it over.
+   */
+  static async recordCourierStep(
+    orderId: string,
+    step: CourierStep,
+    partnerId: string,
+    courierId: string
+  ): Promise<Partial<Order>> {
+    return runTransaction(db, async (transaction) => {
+      const orderRef = doc(db, 'orders', orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) {
+        throw new Error('Order not found');
+      }
+
+      const current = orderSnap.data() as Order;
+      if (current.partnerId !== partnerId) {
+        throw new DeliveryAssignmentError('This order is not assigned to your delivery service');
+      }
+      if (current.courierId && current.courierId !== courierId) {
+        throw new DeliveryAssignmentError('Another courier has already accepted this order');
+      }
+      if (step === 'accept' ? current.assignedAt : current.pickedUpAt) {
+        throw new DeliveryAssignmentError(
+          step === 'accept' ? 'This order has already been accepted' : 'This order has already been picked up'
+        );
+      }
+      if (step === 'pickup' && !current.assignedAt) {
+        throw new DeliveryAssignmentError('Accept this order before picking it up');
+      }
+      if (!COURIER_STEP_STATUSES[step].includes(current.status)) {
+        throw new DeliveryAssignmentError(
+          step === 'accept'
+            ? `Can't accept an order that is ${current.status.toLowerCase()}`
+            : `Can't pick up an order until the store marks it ready (it is ${current.status.toLowerCase()})`
+        );
+      }
+
+      const now = new Date().toISOString();
+      const updateData: Partial<Order> = { updatedAt: now };
+      if (step === 'accept') {
+        updateData.assignedAt = now;
+        updateData.courierId = courierId;
+      } else {
+        updateData.pickedUpAt = now;
+      }
+
+      transaction.update(orderRef, updateData);
+      return updateData;
+    });
+  }
+}
+
+export default OrderLifecycleService;
\ No newline at end of file
@@ -0,0 +1,220 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  getDoc,
+  doc,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  writeBatch,
+  getCountFromServer,
+  getAggregateFromServer,
+  sum,
+  Timestamp,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Order, OrderItem, OrderStatus } from '../types';
+
+export const ORDER_PAGE_SIZE = 50;
+
+// Orders whose money counts as the store's revenue
+export const REVENUE_STATUSES: OrderStatus[] = [OrderStatus.COMPLETED, OrderStatus.DELIVERED];
+
+export interface SellerOrderStats {
+  totalOrders: number;
+  pendingOrders: number;
+  deliveredOrders: number;
+  cancelledOrders: number;
+  revenue: number;
+}
+
+export interface OrderPage {
+  orders: Order[];
+  lastOrderId: string | null; // cursor for the next page
+  hasMore: boolean;
+}
+
+export interface OrderBackfillResult {
+  scanned: number;
+  updated: number;
+}
+
+const ORDER_TIMESTAMP_FIELDS = [
+  'createdAt', 'updatedAt', 'confirmedAt', 'preparingAt', 'readyAt', 'inTransitAt',
+  'pickedUpAt', 'deliveredAt', 'completedAt', 'cancelledAt', 'rejectedAt', 'assignedAt',
+];
+
+const ITEM_TIMESTAMP_FIELDS = ['pickedUpAt', 'deliveredAt', 'createdAt', 'updatedAt'];
+
+const toIsoString = (value: any) => value?.toDate?.()?.toISOString() || value;
+
+export class OrderQueryService {
+  /**
+   * Convert an order document into a serializable Order
+   */
+  static normalizeOrder(docSnap: DocumentSnapshot | QueryDocumentSnapshot): Order {
+    const data: any = { ...docSnap.data(), id: docSnap.id };
+
+    ORDER_TIMESTAMP_FIELDS.forEach(field => {
+      data[field] = toIsoString(data[field]);
+    });
+
+    if (Array.isArray(data.items)) {
+      data.items = data.items.map((item: any) => {
+        const converted = { ...item };
+        ITEM_TIMESTAMP_FIELDS.forEach(field => {
+          converted[field] = toIsoString(converted[field]);
+        });
+        return converted;
+      });
+    }
+
+    return data as Order;
+  }
+
+  /**
+   * The owners whose items are in an order, written on the order so stores can query it
+   */
+  static getSellerIds(items: Pick<OrderItem, 'sellerId'>[]): string[] {
+    return [...new Set((items || []).map(item => item.sellerId).filter(Boolean))];
+  }
+
+  /**
+   * One page of a store owner's orders, newest first.
+   * Needs the composite index orders(sellerIds array-contains, createdAt desc).
+   */
+  static async fetchSellerOrdersPage(
+    sellerId: string,
+    afterOrderId?: string | null,
+    pageSize: number = ORDER_PAGE_SIZE
+  ): Promise<OrderPage> {
+    const constraints: any[] = [
+      where('sellerIds', 'array-contains', sellerId),
+      orderBy('createdAt', 'desc'),
+    ];
+
+    if (afterOrderId) {
+      const cursorDoc = await getDoc(doc(db, 'orders', afterOrderId));
+      if (cursorDoc.exists()) {
+        constraints.push(startAfter(cursorDoc));
+      }
+    }
+
+    const snapshot = await getDocs(query(collection(db, 'orders'), ...constraints, limit(pageSize)));
+    const orders = snapshot.docs.map(docSnap => this.normalizeOrder(docSnap));
+
+    return {
+      orders,
+      lastOrderId: orders.length > 0 ? orders[orders.length - 1].id : afterOrderId || null,
+      hasMore: snapshot.size === pageSize,
+    };
+  }
+
+  /**
+   * Store-wide order counts and revenue, counted by Firestore rather than by
+   * downloading the orders. Revenue sums storeRevenueAmount, which older orders
+   * only have once backfillOrderIndexFields has run.
+   */
+  static async fetchSellerOrderStats(sellerId: string): Promise<SellerOrderStats> {
+    const sellerOrders = query(collection(db, 'orders'), where('sellerIds', 'array-contains', sellerId));
+    const countWithStatus = async (status: OrderStatus) =>
+      (await getCountFromServer(query(sellerOrders, where('status', '==', status)))).data().count;
+
+    const [totalSnapshot, pendingOrders, deliveredOrders, cancelledOrders, revenueSnapshot] = await Promise.all([
+      getCountFromServer(sellerOrders),
+      countWithStatus(OrderStatus.PENDING),
+      countWithStatus(OrderStatus.DELIVERED),
+      countWithStatus(OrderStatus.CANCELLED),
+      getAggregateFromServer(
+        query(sellerOrders, where('status', 'in', REVENUE_STATUSES)),
+        { revenue: sum('storeRevenueAmount') }
+      ),
+    ]);
+
+    return {
+      totalOrders: totalSnapshot.data().count,
+      pendingOrders,
+      deliveredOrders,
+      cancelledOrders,
+      revenue: revenueSnapshot.data().revenue || 0,
+    };
+  }
+
+  /**
+   * A store owner's orders placed since the given time, newest first, for charts
+   * that only look back a few weeks. Uses the same index as fetchSellerOrdersPage.
+   */
+  static async fetchSellerOrdersSince(sellerId: string, since: Date): Promise<Order[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'orders'),
+      where('sellerIds', 'array-contains', sellerId),
+      where('createdAt', '>=', Timestamp.fromDate(since)),
+      orderBy('createdAt', 'desc')
+    ));
+    return snapshot.docs.map(docSnap => this.normalizeOrder(docSnap));
+  }
+
+  /**
+   * One-off migration: write sellerIds (and storeId where an item carries one) on
+   * orders created before they were indexed, and storeRevenueAmount where it's missing
+   * so the revenue aggregate counts them. Safe to re-run; it only touches orders
+   * missing a field. Run from an account allowed to update every order.
+   */
+  static async backfillOrderIndexFields(batchSize: number = 200): Promise<OrderBackfillResult> {
+    const result: OrderBackfillResult = { scanned: 0, updated: 0 };
+    let lastDoc: QueryDocumentSnapshot | null = null;
+
+    while (true) {
+      const constraints: any[] = [orderBy(documentId())];
+      if (lastDoc) {
+        constraints.push(startAfter(lastDoc));
+      }
+      constraints.push(limit(batchSize));
+
+      const snapshot = await getDocs(query(collection(db, 'orders'), ...constraints));
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(db);
+      let pendingWrites = 0;
+
+      snapshot.docs.forEach((docSnap) => {
+        const data = docSnap.data();
+        result.scanned++;
+
+        const updateData: { [key: string]: any } = {};
+        if (!Array.isArray(data.sellerIds) || data.sellerIds.length === 0) {
+          updateData.sellerIds = this.getSellerIds(data.items || []);
+          if (!data.storeId) {
+            const storeId = data.items?.find((item: any) => item.storeId)?.storeId;
+            if (storeId) updateData.storeId = storeId;
+          }
+        }
+        if (typeof data.storeRevenueAmount !== 'number') {
+          updateData.storeRevenueAmount = data.itemSubtotal || 0;
+        }
+        if (Object.keys(updateData).length === 0) return;
+
+        batch.update(docSnap.ref, updateData);
+        pendingWrites++;
+      });
+
+      if (pendingWrites > 0) {
+        await batch.commit();
+        result.updated += pendingWrites;
+      }
+
+      console.log('Order backfill progress:', result);
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      if (snapshot.size < batchSize) break;
+    }
+
+    return result;
+  }
+}
+
+export default OrderQueryService;
\ No newline at end of file
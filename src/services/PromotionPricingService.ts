@@ -0,0 +1,162 @@
+import { collection, getDocs, query, where, limit } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { CartItem, Promotion } from '../types';
+
+export type PromoCodeFailure = 'not_found' | 'inactive' | 'not_started' | 'expired' | 'not_applicable';
+
+export class PromoCodeError extends Error {
+  reason: PromoCodeFailure;
+
+  constructor(reason: PromoCodeFailure, message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+    this.reason = reason;
+  }
+}
+
+export interface LineDiscount {
+  listingId: string;
+  title: string;
+  amount: number;
+}
+
+export interface PromotionQuote {
+  promotionId?: string;
+  code: string;
+  title: string;
+  discountPercentage: number;
+  lines: LineDiscount[];
+  discountAmount: number;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Codes are matched case-insensitively and stored in upper case
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// Promotion dates arrive as Firestore Timestamps, ISO strings or Dates
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate?.() || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export class PromotionPricingService {
+  /**
+   * Load the promotion behind a code. Codes entered in a different case still match.
+   */
+  static async findByCode(code: string): Promise<Promotion | null> {
+    const normalized = normalizePromoCode(code);
+    if (!normalized) return null;
+
+    const candidates = [...new Set([normalized, code.trim()])];
+    for (const candidate of candidates) {
+      const snapshot = await getDocs(query(
+        collection(db, 'promotions'),
+        where('discountCode', '==', candidate),
+        limit(1)
+      ));
+      if (!snapshot.empty) {
+        const docSnap = snapshot.docs[0];
+        return { id: docSnap.id, ...docSnap.data() } as Promotion;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Throw a PromoCodeError unless the promotion can be used right now
+   */
+  static assertUsable(promotion: Promotion, now: Date = new Date()): void {
+    if (!promotion.isActive) {
+      throw new PromoCodeError('inactive', 'This code is no longer active');
+    }
+
+    const startDate = toDate(promotion.startDate);
+    const endDate = toDate(promotion.endDate);
+    if (startDate && now < startDate) {
+      throw new PromoCodeError('not_started', `This code can be used from ${startDate.toLocaleDateString()}`);
+    }
+    if (endDate && now > endDate) {
+      throw new PromoCodeError('expired', 'This code has expired');
+    }
+  }
+
+  /**
+   * Whether a cart item falls within the promotion's store and category scope
+   */
+  static isEligible(promotion: Promotion, item: CartItem): boolean {
+    if (item.unavailable) return false;
+    if (promotion.storeId && item.listing.storeId !== promotion.storeId) return false;
+    if (promotion.applicableCategory && item.listing.category !== promotion.applicableCategory) return false;
+    return true;
+  }
+
+  /**
+   * The discount on every eligible line. The percentage is applied to each line
+   * and rounded to the ngwee, so the per-store orders add up to the total.
+   */
+  static computeDiscount(promotion: Promotion, items: CartItem[]): PromotionQuote {
+    const percentage = Math.min(Math.max(Number(promotion.discountPercentage) || 0, 0), 100);
+
+    const lines: LineDiscount[] = items
+      .filter(item => this.isEligible(promotion, item))
+      .map(item => ({
+        listingId: item.id,
+        title: item.listing.title,
+        amount: roundCurrency(item.listing.price * item.quantity * percentage / 100),
+      }))
+      .filter(line => line.amount > 0);
+
+    return {
+      promotionId: promotion.id,
+      code: normalizePromoCode(promotion.discountCode || ''),
+      title: promotion.title,
+      discountPercentage: percentage,
+      lines,
+      discountAmount: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+    };
+  }
+
+  /**
+   * Look up a code and check it can be used on this cart. The discount itself is
+   * worked out with computeDiscount so it follows later cart changes.
+   */
+  static async redeemCode(code: string, items: CartItem[], now: Date = new Date()): Promise<Promotion> {
+    const promotion = await this.findByCode(code);
+    if (!promotion) {
+      throw new PromoCodeError('not_found', "We couldn't find that code");
+    }
+
+    this.assertUsable(promotion, now);
+
+    if (this.computeDiscount(promotion, items).lines.length === 0) {
+      const scope = [
+        promotion.applicableCategory && `${promotion.applicableCategory} items`,
+        promotion.storeName ? `items from ${promotion.storeName}` : promotion.storeId && 'items from one store',
+      ].filter(Boolean).join(' and ');
+      throw new PromoCodeError('not_applicable', `This code only applies to ${scope || 'certain items'}`);
+    }
+    return promotion;
+  }
+
+  /**
+   * The part of the discount that falls on the given items (one store's order)
+   */
+  static discountFor(quote: PromotionQuote | null, items: CartItem[]): number {
+    if (!quote) return 0;
+    const ids = new Set(items.map(item => item.id));
+    return roundCurrency(
+      quote.lines.filter(line => ids.has(line.listingId)).reduce((sum, line) => sum + line.amount, 0)
+    );
+  }
+
+  /**
+   * The discount on one line, 0 when it isn't covered by the promotion
+   */
+  static lineDiscount(quote: PromotionQuote | null, listingId: string): number {
+    return quote?.lines.find(line => line.listingId === listingId)?.amount || 0;
+  }
+}
+
+export default PromotionPricingService;
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { collection, doc, getDoc, getDocs, limit, query, runTransaction, where } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Order, OrderStatus, Receipt, ReceiptItem, ReceiptStatus } from '../types';
+
+// Order statuses that complete a sale and so earn the customer a receipt
+export const RECEIPT_STATUSES: string[] = [OrderStatus.DELIVERED, OrderStatus.COMPLETED];
+
+// Map order payment methods onto the narrower set receipts support
+const toReceiptPaymentMethod = (method: Order['paymentMethod']): Receipt['paymentMethod'] => {
+  switch (method) {
+    case 'cash':
+      return 'cash';
+    case 'mobile_money':
+      return 'mobile_money';
+    default:
+      return 'other';
+  }
+};
+
+export class ReceiptService {
+  /**
+   * Convert a receipt document into a serializable Receipt
+   */
+  static normalizeReceipt(id: string, data: any): Receipt {
+    return {
+      ...data,
+      id,
+      createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+      updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
+    } as Receipt;
+  }
+
+  /**
+   * The store an order was sold by: written on newer orders and their items,
+   * otherwise the store owned by the seller
+   */
+  static async getOrderStoreId(order: Order): Promise<string | null> {
+    const storeId = order.storeId || order.items?.find(item => item.storeId)?.storeId;
+    if (storeId) return storeId;
+
+    const sellerId = order.items?.[0]?.sellerId;
+    if (!sellerId) return null;
+    const storeSnapshot = await getDocs(query(collection(db, 'stores'), where('ownerId', '==', sellerId), limit(1)));
+    return storeSnapshot.empty ? null : storeSnapshot.docs[0].id;
+  }
+
+  /**
+   * Issue a receipt for an order, reusing the existing one if it was already issued.
+   * The receipt is keyed by the order id, so two devices issuing at once get the same one.
+   */
+  static async issueOrderReceipt(order: Order): Promise<Receipt> {
+    const receiptStoreId = await this.getOrderStoreId(order);
+    if (!receiptStoreId) {
+      throw new Error(`Order ${order.id} has no store to issue a receipt from`);
+    }
+
+    // Customer name is a nice-to-have on the receipt; don't fail if lookup fails
+    let customerName: string | undefined;
+    try {
+      const customerDoc = await getDoc(doc(db, 'users', order.customerId));
+      if (customerDoc.exists()) {
+        customerName = customerDoc.data().name;
+      }
+    } catch (lookupError) {
+      console.warn('Could not load customer name for receipt:', lookupError);
+    }
+
+    const items: ReceiptItem[] = (order.items || []).map(item => ({
+      title: item.title,
+      quantity: item.quantity,
+      unitPrice: item.priceAtPurchase,
+      subtotal: item.priceAtPurchase * item.quantity,
+    }));
+
+    const itemSubtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+
+    const receiptData: Omit<Receipt, 'id'> = {
+      storeId: receiptStoreId,
+      orderId: order.id,
+      customerId: order.customerId,
+      ...(customerName && { customerName }),
+      items,
+      itemSubtotal,
+      ...(order.discountAmount && { discountAmount: order.discountAmount }),
+      totalAmount: order.totalAmount,
+      paymentMethod: toReceiptPaymentMethod(order.paymentMethod),
+      source: 'order',
+      status: ReceiptStatus.ISSUED,
+      createdAt: new Date().toISOString(),
+    };
+
+    const receiptRef = doc(db, 'receipts', order.id);
+    return runTransaction(db, async (transaction) => {
+      const existingDoc = await transaction.get(receiptRef);
+      if (existingDoc.exists()) {
+        console.log('Receipt already issued for order:', order.id);
+        return this.normalizeReceipt(existingDoc.id, existingDoc.data());
+      }
+
+      transaction.set(receiptRef, receiptData);
+      console.log('Receipt issued for order:', order.id);
+      return { ...receiptData, id: receiptRef.id } as Receipt;
+    });
+  }
+}
+
+export default ReceiptService;
\ No newline at end of file
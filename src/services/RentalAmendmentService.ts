@@ -0,0 +1,226 @@
+import { doc, getDoc, runTransaction } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Listing, RentalAmendment, RentalPriceBreakdown, RentalRequest } from '../types';
+import RentalAvailabilityService, { startOfDay } from './RentalAvailabilityService';
+import RentalPricingService from './RentalPricingService';
+
+export type AmendmentType = RentalAmendment['type'];
+
+/**
+ * What to price a change with: the rate, period and deposit the renter booked at, so a
+ * later price change on the listing doesn't reach existing bookings. The listing still
+ * sets the minimum and maximum rental.
+ */
+const pricingBasis = (request: RentalRequest, listing: Partial<Listing>) => ({
+  price: request.pricing?.rate ?? listing.price ?? 0,
+  rentalPeriod: request.pricing?.rentalPeriod ?? listing.rentalPeriod,
+  securityDeposit: request.pricing?.securityDeposit ?? listing.securityDeposit,
+  minimumRentalPeriod: listing.minimumRentalPeriod,
+  maximumRentalPeriod: listing.maximumRentalPeriod,
+});
+
+// The added days of an extension: from just after the current end to the new one
+const extensionRange = (request: Pick<RentalRequest, 'endDate'>, newEnd: Date) => ({
+  start: new Date(new Date(request.endDate).getTime() + 1),
+  end: newEnd,
+});
+
+export class RentalAmendmentService {
+  /**
+   * The listing a booking is for, for its minimum/maximum rental and availability window
+   */
+  static async getListing(listingId: string): Promise<Partial<Listing>> {
+    const listingDoc = await getDoc(doc(db, 'listings', listingId));
+    return listingDoc.exists() ? (listingDoc.data() as Listing) : {};
+  }
+
+  static pendingAmendment(request: Pick<RentalRequest, 'amendments'>): RentalAmendment | null {
+    return request.amendments?.find(amendment => amendment.status === 'pending') || null;
+  }
+
+  /**
+   * Whether the renter can ask for a change now: the rental is underway and nothing is awaiting the owner
+   */
+  static canRequest(request: RentalRequest, userId: string): boolean {
+    return request.status === 'active' && request.renterId === userId && !this.pendingAmendment(request);
+  }
+
+  /**
+   * The booking's price with a new end date. Extensions are re-priced by the listing's
+   * rental period over the whole booking; early returns are pro-rated by the periods used,
+   * and neither may take the booking outside the listing's minimum or maximum rental.
+   */
+  static quote(
+    request: RentalRequest,
+    type: AmendmentType,
+    newEnd: Date,
+    listing: Partial<Listing> = {}
+  ): RentalPriceBreakdown {
+    const basis = pricingBasis(request, listing);
+    const start = new Date(request.startDate);
+
+    if (type === 'extension') {
+      return RentalPricingService.quoteWithinBounds(basis, start, newEnd);
+    }
+
+    const shortenedUnits = RentalPricingService.countUnits(RentalPricingService.periodOf(basis), start, newEnd);
+    const boundsError = RentalPricingService.boundsError(basis, shortenedUnits);
+    if (boundsError) throw boundsError;
+
+    const current = request.pricing || RentalPricingService.quote(basis, start, new Date(request.endDate));
+    return RentalPricingService.prorate(current, start, newEnd);
+  }
+
+  /**
+   * Throw unless the new end date suits the kind of change and, for an extension,
+   * the extra days are still free
+   */
+  static async assertNewEndAllowed(
+    request: RentalRequest,
+    requestId: string,
+    type: AmendmentType,
+    newEnd: Date,
+    listing: Partial<Listing>
+  ): Promise<void> {
+    const currentEnd = new Date(request.endDate);
+
+    if (type === 'early_return') {
+      if (newEnd >= currentEnd) {
+        throw new Error('An early return must be before the current end date');
+      }
+      if (startOfDay(newEnd) < startOfDay(new Date())) {
+        throw new Error('The return date has already passed');
+      }
+      return;
+    }
+
+    if (newEnd <= currentEnd) {
+      throw new Error('An extension must end after the current end date');
+    }
+
+    // Only the added days need to be free; an overdue rental can still be extended from its old end
+    const extra = extensionRange(request, newEnd);
+    const bookedRanges = await RentalAvailabilityService.getBookedRanges(request.listingId, requestId);
+    RentalAvailabilityService.assertRangeAvailable(listing, extra.start, extra.end, bookedRanges, extra.start);
+  }
+
+  /**
+   * Ask the owner to move the end date of an active booking
+   */
+  static async requestAmendment(
+    requestId: string,
+    type: AmendmentType,
+    newEnd: Date,
+    requestedBy: string,
+    note: string = ''
+  ): Promise<RentalAmendment> {
+    const requestSnap = await getDoc(doc(db, 'rentalRequests', requestId));
+    if (!requestSnap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const request = requestSnap.data() as RentalRequest;
+    const listing = await this.getListing(request.listingId);
+    await this.assertNewEndAllowed(request, requestId, type, newEnd, listing);
+    const pricing = this.quote(request, type, newEnd, listing);
+
+    return runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'rentalRequests', requestId);
+      const latestSnap = await transaction.get(requestRef);
+      const current = latestSnap.data() as RentalRequest;
+
+      if (current.renterId !== requestedBy) {
+        throw new Error('Only the renter can change the booking dates');
+      }
+      if (current.status !== 'active') {
+        throw new Error('Only an active rental can be extended or returned early');
+      }
+      if (this.pendingAmendment(current)) {
+        throw new Error('There is already a change waiting for the owner');
+      }
+      if (current.endDate !== request.endDate) {
+        throw new Error('The booking has changed, please try again');
+      }
+
+      const now = new Date().toISOString();
+      const amendment: RentalAmendment = {
+        type,
+        status: 'pending',
+        previousEndDate: current.endDate,
+        requestedEndDate: newEnd.toISOString(),
+        pricing,
+        requestedBy,
+        requestedAt: now,
+      };
+      if (current.pricing) amendment.previousPricing = current.pricing;
+      if (note.trim()) amendment.note = note.trim();
+
+      transaction.update(requestRef, {
+        amendments: [...(current.amendments || []), amendment],
+        updatedAt: now,
+      });
+      return amendment;
+    });
+  }
+
+  /**
+   * The owner's answer to the pending change. Approving moves the end date and
+   * replaces the booking's price; an extension's added days are checked for clashes
+   * within the same transaction, so a booking confirmed meanwhile can't overlap it.
+   */
+  static async respondToAmendment(requestId: string, approve: boolean, respondedBy: string): Promise<RentalAmendment> {
+    return runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'rentalRequests', requestId);
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Booking not found');
+      }
+
+      const current = requestSnap.data() as RentalRequest;
+      if (current.ownerId !== respondedBy) {
+        throw new Error('Only the owner can answer a change to the booking');
+      }
+      const pending = this.pendingAmendment(current);
+      if (!pending) {
+        throw new Error('There is no change waiting for an answer');
+      }
+      if (approve && current.status !== 'active') {
+        throw new Error('The rental has already ended');
+      }
+      if (approve && pending.type === 'extension') {
+        const extra = extensionRange(current, new Date(pending.requestedEndDate));
+        await RentalAvailabilityService.assertAvailableInTransaction(
+          transaction,
+          current.listingId,
+          extra.start,
+          extra.end,
+          requestId,
+          extra.start
+        );
+      }
+
+      const now = new Date().toISOString();
+      const answered: RentalAmendment = {
+        ...pending,
+        status: approve ? 'approved' : 'declined',
+        respondedBy,
+        respondedAt: now,
+      };
+      const updateData: Partial<RentalRequest> = {
+        amendments: (current.amendments || []).map(amendment => amendment === pending ? answered : amendment),
+        updatedAt: now,
+      };
+      if (approve) {
+        updateData.endDate = pending.requestedEndDate;
+        if (pending.pricing) {
+          updateData.pricing = pending.pricing;
+          updateData.totalCost = pending.pricing.total;
+        }
+      }
+
+      transaction.update(requestRef, updateData);
+      return answered;
+    });
+  }
+}
+
+export default RentalAmendmentService;
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { collection, doc, getDoc, getDocs, query, where, Transaction } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Listing, RentalRequest } from '../types';
+
+export type RentalUnavailableReason = 'booked' | 'outside_window' | 'past' | 'invalid_range';
+
+export class RentalUnavailableError extends Error {
+  reason: RentalUnavailableReason;
+
+  constructor(reason: RentalUnavailableReason, message: string) {
+    super(message);
+    this.name = 'RentalUnavailableError';
+    this.reason = reason;
+  }
+}
+
+export interface BookedRange {
+  requestId?: string;
+  start: Date;
+  end: Date;
+  status: RentalRequest['status'];
+}
+
+export type DayStatus = 'free' | 'booked' | 'unavailable';
+
+// Requests in these states hold their dates; pending ones don't until the owner approves
+export const BOOKING_STATUSES: RentalRequest['status'][] = ['approved', 'active'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rental dates arrive as Firestore Timestamps, ISO strings or Dates
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate?.() || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const endOfDay = (date: Date) => new Date(startOfDay(date).getTime() + DAY_MS - 1);
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const atHour = (date: Date, hour: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour);
+
+export const isSameDay = (a: Date, b: Date) => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+/**
+ * The whole days a booking occupies, as [first day, day after the last).
+ * A booking ending part-way through a day keeps that day.
+ */
+const toDaySpan = (start: Date, end: Date) => {
+  const first = startOfDay(start);
+  const endDay = startOfDay(end);
+  const afterLast = end.getTime() === endDay.getTime() ? endDay : addDays(endDay, 1);
+  return { first, afterLast: afterLast > first ? afterLast : addDays(first, 1) };
+};
+
+const toBookedRange = (requestId: string, data: RentalRequest): BookedRange | null => {
+  const start = toDate(data.startDate);
+  const end = toDate(data.endDate);
+  return start && end ? { requestId, start, end, status: data.status } : null;
+};
+
+const byStart = (a: BookedRange, b: BookedRange) => a.start.getTime() - b.start.getTime();
+
+const spansOverlap = (aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) => {
+  const a = toDaySpan(aStart, aEnd);
+  const b = toDaySpan(bStart, bEnd);
+  return a.first < b.afterLast && b.first < a.afterLast;
+};
+
+export class RentalAvailabilityService {
+  /**
+   * The approved and active bookings on a listing
+   */
+  static async getBookedRanges(listingId: string, excludeRequestId?: string): Promise<BookedRange[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'rentalRequests'),
+      where('listingId', '==', listingId),
+      where('status', 'in', BOOKING_STATUSES)
+    ));
+
+    const ranges: BookedRange[] = [];
+    snapshot.forEach(docSnap => {
+      if (docSnap.id === excludeRequestId) return;
+      const range = toBookedRange(docSnap.id, docSnap.data() as RentalRequest);
+      if (range) ranges.push(range);
+    });
+    return ranges.sort(byStart);
+  }
+
+  /**
+   * The listing's bookings read through a transaction, so it retries if one is
+   * approved, moved or cancelled before it commits. Pending requests are read too,
+   * since they are the ones that can be approved in the meantime.
+   */
+  static async getBookedRangesInTransaction(
+    transaction: Transaction,
+    listingId: string,
+    excludeRequestId?: string
+  ): Promise<BookedRange[]> {
+    // Transactions can't run queries, so find the requests first and read each one back
+    const snapshot = await getDocs(query(
+      collection(db, 'rentalRequests'),
+      where('listingId', '==', listingId),
+      where('status', 'in', ['pending', ...BOOKING_STATUSES])
+    ));
+    const requestSnaps = await Promise.all(
+      snapshot.docs
+        .filter(docSnap => docSnap.id !== excludeRequestId)
+        .map(docSnap => transaction.get(docSnap.ref))
+    );
+
+    const ranges: BookedRange[] = [];
+    requestSnaps.forEach(docSnap => {
+      const data = docSnap.data() as RentalRequest | undefined;
+      if (!data || !BOOKING_STATUSES.includes(data.status)) return;
+      const range = toBookedRange(docSnap.id, data);
+      if (range) ranges.push(range);
+    });
+    return ranges.sort(byStart);
+  }
+
+  /**
+   * The listing's availability window; either end may be open
+   */
+  static getWindow(listing: Pick<Listing, 'availableFrom' | 'availableUntil'>) {
+    return {
+      from: toDate(listing.availableFrom),
+      until: toDate(listing.availableUntil),
+    };
+  }
+
+  /**
+   * Whether a single day can be booked
+   */
+  static getDayStatus(
+    day: Date,
+    listing: Pick<Listing, 'availableFrom' | 'availableUntil'>,
+    bookedRanges: BookedRange[],
+    today: Date = new Date()
+  ): DayStatus {
+    const dayStart = startOfDay(day);
+    const { from, until } = this.getWindow(listing);
+
+    if (dayStart < startOfDay(today)) return 'unavailable';
+    if (from && dayStart < startOfDay(from)) return 'unavailable';
+    if (until && dayStart > startOfDay(until)) return 'unavailable';
+
+    const isBooked = bookedRanges.some(range => spansOverlap(dayStart, endOfDay(dayStart), range.start, range.end));
+    return isBooked ? 'booked' : 'free';
+  }
+
+  /**
+   * Throw a RentalUnavailableError unless the whole range is free and inside the listing's window
+   */
+  static assertRangeAvailable(
+    listing: Pick<Listing, 'availableFrom' | 'availableUntil'>,
+    start: Date,
+    end: Date,
+    bookedRanges: BookedRange[],
+    today: Date = new Date()
+  ): void {
+    if (end <= start) {
+      throw new RentalUnavailableError('invalid_range', 'End date must be after start date');
+    }
+    if (startOfDay(start) < startOfDay(today)) {
+      throw new RentalUnavailableError('past', 'The rental period has already started');
+    }
+
+    const { from, until } = this.getWindow(listing);
+    if (from && startOfDay(start) < startOfDay(from)) {
+      throw new RentalUnavailableError('outside_window', `This item can be rented from ${from.toLocaleDateString()}`);
+    }
+    if (until && startOfDay(end) > startOfDay(until)) {
+      throw new RentalUnavailableError('outside_window', `This item can only be rented until ${until.toLocaleDateString()}`);
+    }
+
+    const conflict = bookedRanges.find(range => spansOverlap(start, end, range.start, range.end));
+    if (conflict) {
+      throw new RentalUnavailableError(
+        'booked',
+        `This item is already booked from ${conflict.start.toLocaleDateString()} to ${conflict.end.toLocaleDateString()}`
+      );
+    }
+  }
+
+  /**
+   * Check a range against the listing's latest bookings, e.g. just before approving a request
+   */
+  static async assertAvailable(
+    listingId: string,
+    start: Date,
+    end: Date,
+    excludeRequestId?: string
+  ): Promise<void> {
+    const [listingDoc, bookedRanges] = await Promise.all([
+      getDoc(doc(db, 'listings', listingId)),
+      this.getBookedRanges(listingId, excludeRequestId),
+    ]);
+    const listing = listingDoc.exists() ? (listingDoc.data() as Listing) : {};
+
+    this.assertRangeAvailable(listing, start, end, bookedRanges);
+  }
+
+  /**
+   * assertAvailable for a write that confirms dates: the listing and its bookings are
+   * read through the transaction, so two confirmations can't both pass
+   */
+  static async assertAvailableInTransaction(
+    transaction: Transaction,
+    listingId: string,
+    start: Date,
+    end: Date,
+    excludeRequestId?: string,
+    today: Date = new Date()
+  ): Promise<void> {
+    const listingDoc = await transaction.get(doc(db, 'listings', listingId));
+    const bookedRanges = await this.getBookedRangesInTransaction(transaction, listingId, excludeRequestId);
+    const listing = listingDoc.exists() ? (listingDoc.data() as Listing) : {};
+
+    this.assertRangeAvailable(listing, start, end, bookedRanges, today);
+  }
+
+  /**
+   * Whether every day from start to end (inclusive) is free
+   */
+  static isRangeFree(
+    listing: Pick<Listing, 'availableFrom' | 'availableUntil'>,
+    start: Date,
+    end: Date,
+    bookedRanges: BookedRange[],
+    today: Date = new Date()
+  ): boolean {
+    for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+      if (this.getDayStatus(day, listing, bookedRanges, today) !== 'free') return false;
+    }
+    return true;
+  }
+}
+
+export default RentalAvailabilityService;
\ No newline at end of file
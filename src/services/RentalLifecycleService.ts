@@ -0,0 +1,261 @@
+import { collection, doc, getDoc, runTransaction, Transaction } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { RentalConditionPhoto, RentalConditionReport, RentalDepositSettlement, RentalRequest } from '../types';
+import RentalAvailabilityService from './RentalAvailabilityService';
+
+type RentalStatus = RentalRequest['status'];
+
+// Statuses a booking can move to next. A booking becomes active when the item is
+// handed over and completed when the owner checks the return in.
+const RENTAL_TRANSITIONS: { [status: string]: RentalStatus[] } = {
+  pending: ['approved', 'rejected', 'cancelled'],
+  approved: ['active', 'cancelled'],
+  active: ['completed'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export class IllegalRentalTransitionError extends Error {
+  from: string;
+  to: string;
+
+  constructor(from: string, to: string) {
+    super(`A ${from} booking can't be marked ${to}`);
+    this.name = 'IllegalRentalTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// What the person recording a handover or return fills in; photos are data URIs
+export interface ConditionReportInput {
+  notes: string;
+  photos: string[];
+}
+
+/**
+ * Save a report's photos to the booking's conditionPhotos subcollection and return
+ * the report to keep on the booking, which only holds their ids
+ */
+const writeConditionReport = (
+  transaction: Transaction,
+  requestId: string,
+  kind: RentalConditionPhoto['report'],
+  input: ConditionReportInput,
+  recordedBy: string,
+  recordedAt: string
+): RentalConditionReport => {
+  const photoIds = input.photos.map(data => {
+    const photoRef = doc(collection(db, 'rentalRequests', requestId, 'conditionPhotos'));
+    const photo: RentalConditionPhoto = { report: kind, data, recordedBy, recordedAt };
+    transaction.set(photoRef, photo);
+    return photoRef.id;
+  });
+  return { notes: input.notes.trim(), photoIds, recordedBy, recordedAt };
+};
+
+export class RentalLifecycleService {
+  static canTransition(request: Pick<RentalRequest, 'status'>, to: RentalStatus): boolean {
+    return (RENTAL_TRANSITIONS[request.status] || []).includes(to);
+  }
+
+  static assertTransition(request: Pick<RentalRequest, 'status'>, to: RentalStatus): void {
+    if (!this.canTransition(request, to)) {
+      throw new IllegalRentalTransitionError(request.status, to);
+    }
+  }
+
+  /**
+   * The refundable deposit held on a booking
+   */
+  static depositOf(request: Pick<RentalRequest, 'pricing'>): number {
+    return request.pricing?.securityDeposit || 0;
+  }
+
+  /**
+   * An active rental that should already have come back
+   */
+  static isOverdue(request: Pick<RentalRequest, 'status' | 'endDate'>, now: Date = new Date()): boolean {
+    return request.status === 'active' && !!request.endDate && now > new Date(request.endDate);
+  }
+
+  /**
+   * Whole days (rounded up) a return came in after the booking's end
+   */
+  static daysLate(endDate: any, returnedAt: Date): number {
+    const end = new Date(endDate);
+    if (isNaN(end.getTime()) || returnedAt <= end) return 0;
+    return Math.ceil((returnedAt.getTime() - end.getTime()) / DAY_MS);
+  }
+
+  /**
+   * The photo data for a condition report, in the order they were taken
+   */
+  static async getConditionPhotos(requestId: string, photoIds: string[]): Promise<string[]> {
+    const photoDocs = await Promise.all(
+      photoIds.map(photoId => getDoc(doc(db, 'rentalRequests', requestId, 'conditionPhotos', photoId)))
+    );
+    return photoDocs
+      .filter(photoDoc => photoDoc.exists())
+      .map(photoDoc => (photoDoc.data() as RentalConditionPhoto).data);
+  }
+
+  static needsDepositSettlement(request: Pick<RentalRequest, 'status' | 'pricing' | 'depositSettlement'>): boolean {
+    return request.status === 'completed' && this.depositOf(request) > 0 && !request.depositSettlement;
+  }
+
+  /**
+   * Approve a pending request. Its dates are checked against the listing's other
+   * bookings in the same transaction, so two overlapping requests can't both be approved.
+   */
+  static async approveRequest(requestId: string, approvedBy: string): Promise<void> {
+    await runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'rentalRequests', requestId);
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Booking not found');
+      }
+
+      const current = requestSnap.data() as RentalRequest;
+      if (approvedBy !== current.ownerId) {
+        throw new Error('Only the owner can approve a request');
+      }
+      this.assertTransition(current, 'approved');
+      await RentalAvailabilityService.assertAvailableInTransaction(
+        transaction,
+        current.listingId,
+        new Date(current.startDate),
+        new Date(current.endDate),
+        requestId
+      );
+
+      transaction.update(requestRef, {
+        status: 'approved',
+        updatedAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  /**
+   * Hand the item over: the booking becomes active with the item's condition at pickup.
+   * Either the owner or the renter can record it.
+   */
+  static async startRental(requestId: string, report: ConditionReportInput, recordedBy: string): Promise<Partial<RentalRequest>> {
+    return runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'rentalRequests', requestId);
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Booking not found');
+      }
+
+      const current = requestSnap.data() as RentalRequest;
+      if (recordedBy !== current.ownerId && recordedBy !== current.renterId) {
+        throw new Error('Only the owner or renter can record the handover');
+      }
+      this.assertTransition(current, 'active');
+
+      const now = new Date().toISOString();
+      const updateData: Partial<RentalRequest> = {
+        status: 'active',
+        handover: writeConditionReport(transaction, requestId, 'handover', report, recordedBy, now),
+        handedOverAt: now,
+        updatedAt: now,
+      };
+      transaction.update(requestRef, updateData);
+      return updateData;
+    });
+  }
+
+  /**
+   * Check the item back in: the booking is completed with its condition on return,
+   * and flagged when it came back after the end date. Only the owner can do this.
+   */
+  static async completeRental(requestId: string, report: ConditionReportInput, recordedBy: string): Promise<Partial<RentalRequest>> {
+    return runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'rentalRequests', requestId);
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Booking not found');
+      }
+
+      const current = requestSnap.data() as RentalRequest;
+      if (recordedBy !== current.ownerId) {
+        throw new Error('Only the owner can check a return in');
+      }
+      this.assertTransition(current, 'completed');
+
+      const returnedAt = new Date();
+      const now = returnedAt.toISOString();
+      const daysLate = this.daysLate(current.endDate, returnedAt);
+      const updateData: Partial<RentalRequest> = {
+        status: 'completed',
+        returnReport: writeConditionReport(transaction, requestId, 'return', report, recordedBy, now),
+        returnedAt: now,
+        isLateReturn: daysLate > 0,
+        daysLate,
+        updatedAt: now,
+      };
+      transaction.update(requestRef, updateData);
+      return updateData;
+    });
+  }
+
+  /**
+   * Settle the deposit on a completed booking: refund it all, or keep part of it
+   * with a reason the renter can see
+   */
+  static async settleDeposit(
+    requestId: string,
+    deductedAmount: number,
+    reason: string,
+    settledBy: string
+  ): Promise<RentalDepositSettlement> {
+    return runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'rentalRequests', requestId);
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Booking not found');
+      }
+
+      const current = requestSnap.data() as RentalRequest;
+      if (settledBy !== current.ownerId) {
+        throw new Error('Only the owner can settle the deposit');
+      }
+      if (current.status !== 'completed') {
+        throw new Error('The deposit is settled once the item has been returned');
+      }
+      if (current.depositSettlement) {
+        throw new Error('The deposit has already been settled');
+      }
+
+      const deposit = this.depositOf(current);
+      const deducted = roundCurrency(Number(deductedAmount) || 0);
+      if (deducted < 0 || deducted > deposit) {
+        throw new Error(`The deduction must be between K0.00 and K${deposit.toFixed(2)}`);
+      }
+      if (deducted > 0 && !reason.trim()) {
+        throw new Error('Give a reason for keeping part of the deposit');
+      }
+
+      const settlement: RentalDepositSettlement = {
+        deductedAmount: deducted,
+        refundedAmount: roundCurrency(deposit - deducted),
+        settledBy,
+        settledAt: new Date().toISOString(),
+      };
+      if (deducted > 0) {
+        settlement.reason = reason.trim();
+      }
+
+      transaction.update(requestRef, {
+        depositSettlement: settlement,
+        updatedAt: settlement.settledAt,
+      });
+      return settlement;
+    });
+  }
+}
+
+export default RentalLifecycleService;
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { Listing, RentalPeriod, RentalPriceBreakdown } from '../types';
+
+export type RentalPricingFailure = 'below_minimum' | 'above_maximum' | 'invalid_range';
+
+export class RentalPricingError extends Error {
+  reason: RentalPricingFailure;
+
+  constructor(reason: RentalPricingFailure, message: string) {
+    super(message);
+    this.name = 'RentalPricingError';
+    this.reason = reason;
+  }
+}
+
+type PricedListing = Pick<Listing, 'price' | 'rentalPeriod' | 'minimumRentalPeriod' | 'maximumRentalPeriod' | 'securityDeposit'>;
+
+// Listings posted before the period was collected have always been shown per month
+export const DEFAULT_RENTAL_PERIOD: RentalPeriod = 'monthly';
+
+const PERIOD_NAMES: Record<RentalPeriod, [string, string]> = {
+  hourly: ['hour', 'hours'],
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  yearly: ['year', 'years'],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const FIXED_PERIOD_MS: Partial<Record<RentalPeriod, number>> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Clamped to the end of shorter months, so Jan 31 + 1 month is the last day of February
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+export class RentalPricingService {
+  static periodOf(listing: Pick<Listing, 'rentalPeriod'>): RentalPeriod {
+    return listing.rentalPeriod && PERIOD_NAMES[listing.rentalPeriod] ? listing.rentalPeriod : DEFAULT_RENTAL_PERIOD;
+  }
+
+  /**
+   * "month" for monthly listings, for prices like K500/month
+   */
+  static periodLabel(period: RentalPeriod): string {
+    return PERIOD_NAMES[period][0];
+  }
+
+  static formatUnits(period: RentalPeriod, units: number): string {
+    const [singular, plural] = PERIOD_NAMES[period];
+    return `${units} ${units === 1 ? singular : plural}`;
+  }
+
+  /**
+   * How many periods a rental from start to end is charged for. Part periods count
+   * as whole ones; months and years follow the calendar rather than a fixed length.
+   */
+  static countUnits(period: RentalPeriod, start: Date, end: Date): number {
+    const duration = end.getTime() - start.getTime();
+    if (duration <= 0) return 0;
+
+    const fixed = FIXED_PERIOD_MS[period];
+    if (fixed) {
+      return Math.max(1, Math.ceil(duration / fixed));
+    }
+
+    const monthsPerUnit = period === 'yearly' ? 12 : 1;
+    let units = 1;
+    while (addMonths(start, units * monthsPerUnit) < end) {
+      units++;
+    }
+    return units;
+  }
+
+  /**
+   * The listing's minimum/maximum rental, in its own periods, that a rental breaks if any
+   */
+  static boundsError(listing: PricedListing, units: number): RentalPricingError | null {
+    const period = this.periodOf(listing);
+    const minimum = Number(listing.minimumRentalPeriod) || 0;
+    const maximum = Number(listing.maximumRentalPeriod) || 0;
+
+    if (minimum > 0 && units < minimum) {
+      return new RentalPricingError('below_minimum', `The minimum rental is ${this.formatUnits(period, minimum)}`);
+    }
+    if (maximum > 0 && units > maximum) {
+      return new RentalPricingError('above_maximum', `The maximum rental is ${this.formatUnits(period, maximum)}`);
+    }
+    return null;
+  }
+
+  /**
+   * The itemised price of renting the listing from start to end. The deposit is
+   * refundable but is paid up front, so it is part of the total.
+   */
+  static quote(listing: PricedListing, start: Date, end: Date): RentalPriceBreakdown {
+    const period = this.periodOf(listing);
+    const units = this.countUnits(period, start, end);
+    const rate = Math.max(Number(listing.price) || 0, 0);
+    const rentalCost = roundCurrency(rate * units);
+    const securityDeposit = roundCurrency(Math.max(Number(listing.securityDeposit) || 0, 0));
+
+    return {
+      rentalPeriod: period,
+      units,
+      rate,
+      rentalCost,
+      securityDeposit,
+      total: roundCurrency(rentalCost + securityDeposit),
+    };
+  }
+
+  /**
+   * Charge only the periods used when an item goes back early, counted the same way
+   * the booking was priced, so an hourly rental pays for the hours it was out. The
+   * deposit is unchanged.
+   */
+  static prorate(breakdown: RentalPriceBreakdown, start: Date, newEnd: Date): RentalPriceBreakdown {
+    // A second early return is still measured against the original booking
+    const fullCost = breakdown.proration?.fullCost ?? breakdown.rentalCost;
+    const bookedUnits = breakdown.proration?.bookedUnits ?? breakdown.units;
+    const usedUnits = Math.min(
+      Math.max(1, this.countUnits(breakdown.rentalPeriod, start, newEnd)),
+      bookedUnits
+    );
+    const rentalCost = bookedUnits > 0 ? roundCurrency(fullCost * usedUnits / bookedUnits) : fullCost;
+
+    return {
+      ...breakdown,
+      rentalCost,
+      total: roundCurrency(rentalCost + breakdown.securityDeposit),
+      proration: { usedUnits, bookedUnits, fullCost },
+    };
+  }
+
+  /**
+   * Price a rental, throwing a RentalPricingError if it's outside the listing's allowed periods
+   */
+  static quoteWithinBounds(listing: PricedListing, start: Date, end: Date): RentalPriceBreakdown {
+    if (end <= start) {
+      throw new RentalPricingError('invalid_range', 'End date must be after start date');
+    }
+
+    const breakdown = this.quote(listing, start, end);
+    const error = this.boundsError(listing, breakdown.units);
+    if (error) throw error;
+    return breakdown;
+  }
+}
+
+export default RentalPricingService;
\ No newline at end of file
@@ -0,0 +1,260 @@
+import { ItemCondition, Listing, ListingCategory, ListingType, Store } from '../types';
+import { LocationService } from './LocationService';
+
+// Words too common to tell listings apart
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'with', 'sale', 'selling', 'buy',
+]);
+
+// How much a term counts when it matches in each field
+const LISTING_FIELD_WEIGHTS = {
+  title: 3,
+  category: 2,
+  description: 1,
+  seller: 1,
+};
+
+const STORE_FIELD_WEIGHTS = {
+  name: 3,
+  categories: 2,
+  description: 1,
+};
+
+// Match quality relative to an exact (stemmed) hit
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const TYPO_MATCH = 0.4;
+
+export interface SearchFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  conditions?: ItemCondition[];
+  categories?: ListingCategory[];
+  types?: ListingType[];
+  maxDistanceKm?: number;
+  origin?: { latitude: number; longitude: number };
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+type FieldTokens = { [field: string]: string[] };
+
+interface IndexEntry<T> {
+  item: T;
+  fields: FieldTokens;
+}
+
+/**
+ * Light suffix stripping so plural and verb forms share a stem ("phones" -> "phone",
+ * "batteries" -> "battery", "charging" -> "charg")
+ */
+export const stem = (token: string): string => {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies') && token.length > 4) return token.slice(0, -3) + 'y';
+  if (token.endsWith('sses')) return token.slice(0, -2);
+  if (/(xes|ches|shes)$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('ing') && token.length > 5) return token.slice(0, -3);
+  if (token.endsWith('ed') && token.length > 4) return token.slice(0, -2);
+  if (token.endsWith('ly') && token.length > 4) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+  return token;
+};
+
+/**
+ * Lowercased words of the text with punctuation and stop words removed
+ */
+export const tokenize = (text?: string | null): string[] => {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+};
+
+/**
+ * Stemmed search terms for a query, in the order they were typed
+ */
+export const getQueryTerms = (text?: string | null): string[] => {
+  return [...new Set(tokenize(text).map(stem))];
+};
+
+// Typos allowed for a word of this length; short words must match exactly
+const maxTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+/**
+ * Levenshtein distance, giving up once it passes maxDistance
+ */
+const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// How well one query term matches one indexed token, 0 when it doesn't
+const matchQuality = (term: string, token: string): number => {
+  if (term === token) return EXACT_MATCH;
+  if (term.length >= 2 && token.startsWith(term)) return PREFIX_MATCH;
+  const allowed = maxTypos(term.length);
+  if (allowed > 0 && editDistance(term, token, allowed) <= allowed) return TYPO_MATCH;
+  return 0;
+};
+
+/**
+ * An in-memory index over already-fetched documents. Every query term has to match
+ * somewhere (exactly, as a prefix, or within a typo or two) for a document to be a hit;
+ * hits are ranked by how well and where their terms matched.
+ */
+export class SearchIndex<T> {
+  private entries: IndexEntry<T>[];
+  private weights: { [field: string]: number };
+
+  constructor(
+    items: T[],
+    weights: { [field: string]: number },
+    extractFields: (item: T) => { [field: string]: string | string[] | undefined }
+  ) {
+    this.weights = weights;
+    this.entries = items.map(item => {
+      const raw = extractFields(item);
+      const fields: FieldTokens = {};
+      Object.keys(weights).forEach(field => {
+        const value = raw[field];
+        const text = Array.isArray(value) ? value.join(' ') : value;
+        fields[field] = tokenize(text).map(stem);
+      });
+      return { item, fields };
+    });
+  }
+
+  search(text: string): SearchHit<T>[] {
+    const terms = getQueryTerms(text);
+    if (terms.length === 0) {
+      return this.entries.map(entry => ({ item: entry.item, score: 0 }));
+    }
+
+    const hits: SearchHit<T>[] = [];
+    this.entries.forEach(entry => {
+      let score = 0;
+
+      for (const term of terms) {
+        let best = 0;
+        Object.keys(entry.fields).forEach(field => {
+          entry.fields[field].forEach(token => {
+            best = Math.max(best, matchQuality(term, token) * this.weights[field]);
+          });
+        });
+        if (best === 0) return;
+        score += best;
+      }
+
+      hits.push({ item: entry.item, score });
+    });
+
+    // Array.prototype.sort is stable, so equal scores keep their incoming (newest first) order
+    return hits.sort((a, b) => b.score - a.score);
+  }
+}
+
+// Listings store coordinates either in location or the legacy lat/lng fields
+const getListingCoordinates = (listing: Listing) => {
+  if (listing.location?.latitude != null && listing.location?.longitude != null) {
+    return { latitude: listing.location.latitude, longitude: listing.location.longitude };
+  }
+  if (listing.lat != null && listing.lng != null) {
+    return { latitude: listing.lat, longitude: listing.lng };
+  }
+  return null;
+};
+
+export class SearchIndexService {
+  static buildListingIndex(listings: Listing[]): SearchIndex<Listing> {
+    return new SearchIndex(listings, LISTING_FIELD_WEIGHTS, listing => ({
+      title: listing.title,
+      category: listing.category,
+      description: listing.description,
+      seller: listing.sellerName,
+    }));
+  }
+
+  static buildStoreIndex(stores: Store[]): SearchIndex<Store> {
+    return new SearchIndex(stores, STORE_FIELD_WEIGHTS, store => ({
+      name: store.name,
+      categories: store.categories,
+      description: store.description,
+    }));
+  }
+
+  /**
+   * Listings matching the query, best first
+   */
+  static rankListings(listings: Listing[], text: string): Listing[] {
+    return this.buildListingIndex(listings).search(text).map(hit => hit.item);
+  }
+
+  /**
+   * Stores matching the query, best first
+   */
+  static rankStores(stores: Store[], text: string): Store[] {
+    return this.buildStoreIndex(stores).search(text).map(hit => hit.item);
+  }
+
+  /**
+   * Listings that pass every facet filter. Listings without coordinates are
+   * dropped when a distance limit is set.
+   */
+  static applyListingFilters(listings: Listing[], filters: SearchFilters): Listing[] {
+    return listings.filter(listing => {
+      if (filters.minPrice != null && listing.price < filters.minPrice) return false;
+      if (filters.maxPrice != null && listing.price > filters.maxPrice) return false;
+      if (filters.conditions?.length && (!listing.condition || !filters.conditions.includes(listing.condition))) {
+        return false;
+      }
+      if (filters.categories?.length && !filters.categories.includes(listing.category)) return false;
+      if (filters.types?.length && !filters.types.includes(listing.type)) return false;
+
+      if (filters.maxDistanceKm != null && filters.origin) {
+        const coordinates = getListingCoordinates(listing);
+        if (!coordinates) return false;
+        const distance = LocationService.calculateDistance(
+          filters.origin.latitude,
+          filters.origin.longitude,
+          coordinates.latitude,
+          coordinates.longitude
+        );
+        if (distance > filters.maxDistanceKm) return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Whether any filter that can only be checked on the device is set
+   */
+  static hasLocalFilters(filters: SearchFilters): boolean {
+    return filters.minPrice != null
+      || filters.maxPrice != null
+      || !!filters.conditions?.length
+      || (filters.maxDistanceKm != null && !!filters.origin);
+  }
+}
+
+export default SearchIndexService;
\ No newline at end of file
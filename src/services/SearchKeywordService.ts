@@ -0,0 +1,240 @@
+import {
+  collection,
+  query,
+  getDocs,
+  getDoc,
+  orderBy,
+  limit,
+  startAfter,
+  where,
+  documentId,
+  writeBatch,
+  DocumentReference,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Listing, Store } from '../types';
+import { stem, tokenize } from './SearchIndexService';
+
+// Firestore documents are capped at 1 MiB; this keeps keyword arrays well below that
+const MAX_KEYWORDS = 300;
+
+// Type-ahead matches from the second letter, up to this many letters
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 12;
+
+// Firestore allows up to 30 values in an array-contains-any filter
+const MAX_QUERY_KEYWORDS = 30;
+
+// Listing fields the keywords are built from. Updates touching any of these regenerate them.
+export const LISTING_KEYWORD_FIELDS: (keyof Listing)[] = [
+  'title', 'description', 'category', 'type', 'condition', 'sellerName', 'propertyType', 'carDetails',
+];
+
+export const STORE_KEYWORD_FIELDS: (keyof Store)[] = ['name', 'description', 'categories'];
+
+export interface KeywordBackfillResult {
+  scanned: number;
+  updated: number;
+}
+
+type ListingKeywordSource = Partial<Pick<Listing,
+  'title' | 'description' | 'category' | 'type' | 'condition' | 'sellerName' | 'propertyType' | 'carDetails'
+>>;
+
+type StoreKeywordSource = Partial<Pick<Store, 'name' | 'description' | 'categories'>>;
+
+// Every prefix of the word from MIN_PREFIX_LENGTH letters, so "sam" finds "samsung"
+const prefixesOf = (token: string): string[] => {
+  const prefixes: string[] = [];
+  const longest = Math.min(token.length, MAX_PREFIX_LENGTH);
+  for (let length = MIN_PREFIX_LENGTH; length <= longest; length++) {
+    prefixes.push(token.slice(0, length));
+  }
+  return prefixes;
+};
+
+/**
+ * Build a keyword set: names get every prefix for type-ahead, body text only
+ * gets whole words and their stems
+ */
+const buildKeywords = (names: (string | undefined)[], body: (string | undefined)[]): string[] => {
+  const keywords = new Set<string>();
+
+  names.forEach(text => {
+    tokenize(text).forEach(token => {
+      keywords.add(token);
+      keywords.add(stem(token));
+      prefixesOf(token).forEach(prefix => keywords.add(prefix));
+    });
+  });
+
+  body.forEach(text => {
+    tokenize(text).forEach(token => {
+      keywords.add(token);
+      keywords.add(stem(token));
+    });
+  });
+
+  return [...keywords].slice(0, MAX_KEYWORDS);
+};
+
+const hasAnyField = (data: object, fields: string[]) => fields.some(field => field in data);
+
+export class SearchKeywordService {
+  static generateListingKeywords(listing: ListingKeywordSource): string[] {
+    return buildKeywords(
+      [
+        listing.title,
+        listing.sellerName,
+        listing.carDetails?.make,
+        listing.carDetails?.model,
+      ],
+      [
+        listing.category,
+        listing.type,
+        listing.condition,
+        listing.propertyType,
+        listing.description,
+      ]
+    );
+  }
+
+  static generateStoreKeywords(store: StoreKeywordSource): string[] {
+    return buildKeywords(
+      [store.name],
+      [...(store.categories || []), store.description]
+    );
+  }
+
+  /**
+   * Fresh keywords for a partial listing update, or undefined when the update
+   * doesn't touch any field they're built from. Reads the stored listing so the
+   * untouched fields still count.
+   */
+  static async keywordsForListingUpdate(
+    listingRef: DocumentReference,
+    updateData: Partial<Listing>
+  ): Promise<string[] | undefined> {
+    if (!hasAnyField(updateData, LISTING_KEYWORD_FIELDS as string[])) return undefined;
+
+    const snapshot = await getDoc(listingRef);
+    const current = snapshot.exists() ? snapshot.data() : {};
+    return this.generateListingKeywords({ ...current, ...updateData });
+  }
+
+  /**
+   * Same as keywordsForListingUpdate, for store documents
+   */
+  static async keywordsForStoreUpdate(
+    storeRef: DocumentReference,
+    updateData: { [field: string]: any }
+  ): Promise<string[] | undefined> {
+    if (!hasAnyField(updateData, STORE_KEYWORD_FIELDS as string[])) return undefined;
+
+    const snapshot = await getDoc(storeRef);
+    const current = snapshot.exists() ? snapshot.data() : {};
+    return this.generateStoreKeywords({ ...current, ...updateData });
+  }
+
+  /**
+   * Keywords to narrow a search query on the server with array-contains-any: each
+   * typed word as written, its stem, and its longest indexed prefix. Any listing
+   * sharing one of them comes back; the device then ranks them and drops the rest.
+   */
+  static queryKeywords(text: string): string[] {
+    const keywords = new Set<string>();
+    tokenize(text).forEach(token => {
+      keywords.add(token);
+      keywords.add(stem(token));
+      keywords.add(token.slice(0, MAX_PREFIX_LENGTH));
+    });
+    return [...keywords].slice(0, MAX_QUERY_KEYWORDS);
+  }
+
+  /**
+   * Titles of listings whose names start with what's been typed so far
+   */
+  static async fetchSuggestions(text: string, maxResults: number = 6): Promise<string[]> {
+    const tokens = tokenize(text);
+    const lastToken = tokens[tokens.length - 1];
+    if (!lastToken || lastToken.length < MIN_PREFIX_LENGTH) return [];
+
+    const snapshot = await getDocs(query(
+      collection(db, 'listings'),
+      where('searchKeywords', 'array-contains', lastToken.slice(0, MAX_PREFIX_LENGTH)),
+      limit(maxResults * 2)
+    ));
+
+    const titles = snapshot.docs
+      .map(docSnap => docSnap.data())
+      .filter(data => data.isActive !== false && data.title)
+      .map(data => data.title as string);
+    return [...new Set(titles)].slice(0, maxResults);
+  }
+
+  /**
+   * Maintenance routine: regenerate searchKeywords on every document in a
+   * collection. Only writes documents whose keywords changed, so it is safe to
+   * re-run after the generator changes. Run from an account allowed to update
+   * every listing and store.
+   */
+  static async backfillKeywords(
+    collectionName: 'listings' | 'stores',
+    batchSize: number = 200
+  ): Promise<KeywordBackfillResult> {
+    const result: KeywordBackfillResult = { scanned: 0, updated: 0 };
+    let lastDoc: QueryDocumentSnapshot | null = null;
+
+    while (true) {
+      const constraints: any[] = [orderBy(documentId())];
+      if (lastDoc) {
+        constraints.push(startAfter(lastDoc));
+      }
+      constraints.push(limit(batchSize));
+
+      const snapshot = await getDocs(query(collection(db, collectionName), ...constraints));
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(db);
+      let pendingWrites = 0;
+
+      snapshot.docs.forEach((docSnap) => {
+        const data = docSnap.data();
+        result.scanned++;
+
+        const keywords = collectionName === 'listings'
+          ? this.generateListingKeywords(data)
+          : this.generateStoreKeywords(data);
+        const existing: string[] = Array.isArray(data.searchKeywords) ? data.searchKeywords : [];
+        const unchanged = existing.length === keywords.length && keywords.every((keyword, index) => existing[index] === keyword);
+        if (unchanged) return;
+
+        batch.update(docSnap.ref, { searchKeywords: keywords });
+        pendingWrites++;
+      });
+
+      if (pendingWrites > 0) {
+        await batch.commit();
+        result.updated += pendingWrites;
+      }
+
+      console.log(`Keyword backfill progress (${collectionName}):`, result);
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      if (snapshot.size < batchSize) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Regenerate keywords for all listings and stores
+   */
+  static async backfillAllKeywords(): Promise<{ listings: KeywordBackfillResult; stores: KeywordBackfillResult }> {
+    const listings = await this.backfillKeywords('listings');
+    const stores = await this.backfillKeywords('stores');
+    return { listings, stores };
+  }
+}
+
+export default SearchKeywordService;
\ No newline at end of file
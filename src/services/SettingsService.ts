@@ -0,0 +1,76 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { UserSettings } from '../types';
+
+const GUEST_SETTINGS_KEY = 'settings:guest';
+const userSettingsKey = (userId: string) => `settings:${userId}`;
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  pushNotifications: true,
+  emailNotifications: true,
+  orderUpdates: true,
+  newProducts: true,
+  promotions: false,
+  followSystemTheme: true,
+  darkMode: false,
+  soundEffects: true,
+  vibration: true,
+  locationTracking: true,
+  analytics: false,
+};
+
+export class SettingsService {
+  /**
+   * Fill in anything missing from saved settings, e.g. options added since they were saved
+   */
+  static withDefaults(settings?: Partial<UserSettings> | null): UserSettings {
+    const merged = { ...DEFAULT_USER_SETTINGS };
+    if (settings && typeof settings === 'object') {
+      (Object.keys(DEFAULT_USER_SETTINGS) as (keyof UserSettings)[]).forEach(key => {
+        if (typeof settings[key] === 'boolean') {
+          merged[key] = settings[key] as boolean;
+        }
+      });
+    }
+    return merged;
+  }
+
+  /**
+   * The settings saved on this device for the user (or the guest settings when signed out)
+   */
+  static async loadLocalSettings(userId: string | null): Promise<Partial<UserSettings> | null> {
+    try {
+      const raw = await AsyncStorage.getItem(userId ? userSettingsKey(userId) : GUEST_SETTINGS_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.warn('Failed to read saved settings:', error);
+      return null;
+    }
+  }
+
+  static async saveLocalSettings(userId: string | null, settings: UserSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        userId ? userSettingsKey(userId) : GUEST_SETTINGS_KEY,
+        JSON.stringify(settings)
+      );
+    } catch (error) {
+      console.warn('Failed to save settings:', error);
+    }
+  }
+
+  /**
+   * The settings on the user document, shared by all the user's devices
+   */
+  static async loadRemoteSettings(userId: string): Promise<Partial<UserSettings> | null> {
+    const snapshot = await getDoc(doc(db, 'users', userId));
+    return snapshot.exists() ? snapshot.data().settings || null : null;
+  }
+
+  static async saveRemoteSettings(userId: string, settings: UserSettings): Promise<void> {
+    await updateDoc(doc(db, 'users', userId), { settings });
+  }
+}
+
+export default SettingsService;
\ No newline at end of file
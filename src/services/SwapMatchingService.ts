@@ -0,0 +1,95 @@
+import { Listing, ListingType } from '../types';
+
+// How far apart two estimated values can be, as a share of the larger one, and still be a fair trade
+export const DEFAULT_VALUE_TOLERANCE = 0.3;
+
+export interface SwapMatch {
+  myListing: Listing;
+  listing: Listing; // the other user's listing being suggested
+  iWantTheirs: boolean;
+  theyWantMine: boolean;
+  isMutual: boolean;
+  valueDifference: number | null; // share of the larger value, null when either value is unknown
+}
+
+const normalise = (value?: string) => (value || '').trim().toLowerCase();
+
+export class SwapMatchingService {
+  /**
+   * What a listing is worth for a trade. Swap listings collect an estimated value
+   * in the price field, so older ones without swapValue fall back to it.
+   */
+  static valueOf(listing: Pick<Listing, 'swapValue' | 'price'>): number {
+    return Number(listing.swapValue) || Number(listing.price) || 0;
+  }
+
+  /**
+   * Whether the wanting listing's preferences name the offered listing's property type or category
+   */
+  static wants(wanting: Pick<Listing, 'swapPreferences'>, offered: Pick<Listing, 'propertyType' | 'category'>): boolean {
+    const preferences = (wanting.swapPreferences || []).map(normalise);
+    if (preferences.length === 0) return false;
+    return [offered.propertyType, offered.category].some(kind => !!kind && preferences.includes(normalise(kind)));
+  }
+
+  /**
+   * The gap between two values as a share of the larger, or null when either is unknown
+   */
+  static valueDifference(a: number, b: number): number | null {
+    if (a <= 0 || b <= 0) return null;
+    return Math.abs(a - b) / Math.max(a, b);
+  }
+
+  /**
+   * How one of my listings pairs with someone else's, or null when neither side
+   * wants the other or the values are too far apart
+   */
+  static match(myListing: Listing, listing: Listing, tolerance: number = DEFAULT_VALUE_TOLERANCE): SwapMatch | null {
+    const iWantTheirs = this.wants(myListing, listing);
+    const theyWantMine = this.wants(listing, myListing);
+    if (!iWantTheirs && !theyWantMine) return null;
+
+    const valueDifference = this.valueDifference(this.valueOf(myListing), this.valueOf(listing));
+    if (valueDifference !== null && valueDifference > tolerance) return null;
+
+    return { myListing, listing, iWantTheirs, theyWantMine, isMutual: iWantTheirs && theyWantMine, valueDifference };
+  }
+
+  /**
+   * Mutual matches first, then the closest in value; unknown values go after known ones
+   */
+  static compare(a: SwapMatch, b: SwapMatch): number {
+    if (a.isMutual !== b.isMutual) return a.isMutual ? -1 : 1;
+    return (a.valueDifference ?? Infinity) - (b.valueDifference ?? Infinity);
+  }
+
+  /**
+   * Other users' active swap listings worth offering one of mine for, best first.
+   * Each listing is suggested once, paired with whichever of mine suits it best.
+   */
+  static suggest(
+    myListings: Listing[],
+    candidates: Listing[],
+    tolerance: number = DEFAULT_VALUE_TOLERANCE
+  ): SwapMatch[] {
+    const mine = myListings.filter(listing => listing.type === ListingType.SWAP && listing.isActive !== false);
+    const ownerIds = new Set(mine.map(listing => listing.sellerId));
+    const bestByListing = new Map<string, SwapMatch>();
+
+    candidates.forEach(listing => {
+      if (listing.type !== ListingType.SWAP || listing.isActive === false || ownerIds.has(listing.sellerId)) return;
+
+      mine.forEach(myListing => {
+        const match = this.match(myListing, listing, tolerance);
+        const best = bestByListing.get(listing.id);
+        if (match && (!best || this.compare(match, best) < 0)) {
+          bestByListing.set(listing.id, match);
+        }
+      });
+    });
+
+    return Array.from(bestByListing.values()).sort((a, b) => this.compare(a, b));
+  }
+}
+
+export default SwapMatchingService;
\ No newline at end of file
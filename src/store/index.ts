@@ -8,6 +8,16 @@ import heroSlice from './slices/heroSlice';
 import storesSlice from './slices/storesSlice';
 import ordersSlice from './slices/ordersSlice';
 import dashboardSlice from './slices/dashboardSlice';
+import receiptsSlice from './slices/receiptsSlice';
+import quotationsSlice from './slices/quotationsSlice';
+import staffSlice from './slices/staffSlice';
+import deliverySlice from './slices/deliverySlice';
+import addressesSlice from './slices/addressesSlice';
+import settingsSlice from './slices/settingsSlice';
+import CartSyncService from '../services/CartSyncService';
+import SettingsService from '../services/SettingsService';
+import NotificationService from '../services/NotificationService';
+import LocationService from '../services/LocationService';
 
 export const store = configureStore({
   reducer: {
@@ -20,6 +30,12 @@ export const store = configureStore({
     stores: storesSlice,
     orders: ordersSlice,
     dashboard: dashboardSlice,
+    receipts: receiptsSlice,
+    quotations: quotationsSlice,
+    staff: staffSlice,
+    delivery: deliverySlice,
+    addresses: addressesSlice,
+    settings: settingsSlice,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -32,7 +48,14 @@ export const store = configureStore({
           'listings/fetchFeaturedListings/fulfilled',
           'dashboard/fetchStoreDashboardData/fulfilled',
           'orders/fetchStoreOrders/fulfilled',
+          'orders/fetchMoreStoreOrders/fulfilled',
+          'receipts/fetchStoreReceipts/fulfilled',
+          'quotations/fetchStoreQuotations/fulfilled',
+          'quotations/fetchCustomerQuotations/fulfilled',
+          'staff/fetchStoreStaff/fulfilled',
+          'delivery/fetchPartnerOrders/fulfilled',
           'stores/fetchStores/fulfilled',
+          'addresses/fetchAddresses/fulfilled',
           'auth/login/fulfilled',
           'auth/register/fulfilled'
         ],
@@ -44,16 +67,21 @@ export const store = configureStore({
           'listings.featuredItems',
           'listings.storeListings',
           'listings.currentListing',
-          'listings.lastDoc',
           'listings.stores',
           'listings.filteredStoreListings',
           'dashboard.storeOrders',
           'dashboard.storeOwner',
           'dashboard.currentStore',
           'orders.items',
+          'receipts.items',
+          'quotations.storeQuotations',
+          'quotations.customerQuotations',
+          'staff.members',
+          'delivery.orders',
           'stores.items',
           'stores.nearbyStores',
-          'stores.filteredStores'
+          'stores.filteredStores',
+          'addresses.items'
         ],
         ignoredActionsPaths: [
           'payload.postedDate',
@@ -85,5 +113,46 @@ export const store = configureStore({
     }),
 });
 
+// Save the cart on this device, and to Firestore for signed-in users, whenever it
+// changes. Nothing is saved until the stored cart has been restored.
+let lastSavedCartItems = store.getState().cart.items;
+store.subscribe(() => {
+  const { cart } = store.getState();
+  if (!cart.isHydrated || cart.items === lastSavedCartItems) return;
+
+  lastSavedCartItems = cart.items;
+  // Restoring or re-checking the cart keeps its time, so it can't outrank a newer copy
+  const updatedAt = cart.updatedAt || new Date().toISOString();
+  CartSyncService.saveLocalCart(cart.ownerId, cart.items, updatedAt);
+  if (cart.ownerId) {
+    CartSyncService.scheduleRemoteSave(cart.ownerId, cart.items, updatedAt);
+  }
+});
+
+// Apply settings to the services that honour them, and save them whenever they
+// are changed. Loading a user's settings applies them without saving them back.
+let lastAppliedSettings = store.getState().settings.values;
+let lastSettingsOwnerId = store.getState().settings.ownerId;
+store.subscribe(() => {
+  const { settings } = store.getState();
+  if (!settings.isHydrated) return;
+  if (settings.values === lastAppliedSettings && settings.ownerId === lastSettingsOwnerId) return;
+
+  const ownerChanged = settings.ownerId !== lastSettingsOwnerId;
+  lastAppliedSettings = settings.values;
+  lastSettingsOwnerId = settings.ownerId;
+
+  NotificationService.getInstance().setPreferences(settings.ownerId, settings.values);
+  LocationService.setTrackingEnabled(settings.values.locationTracking);
+  if (ownerChanged) return;
+
+  SettingsService.saveLocalSettings(settings.ownerId, settings.values);
+  if (settings.ownerId) {
+    SettingsService.saveRemoteSettings(settings.ownerId, settings.values).catch(error => {
+      console.warn('Failed to sync settings:', error);
+    });
+  }
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { Address } from '../../types';
+
+interface AddressesState {
+  items: Address[];
+  loadedForUserId: string | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const initialState: AddressesState = {
+  items: [],
+  loadedForUserId: null,
+  isLoading: false,
+  isSaving: false,
+  error: null,
+};
+
+// The fields a customer edits; ownership, the default flag and timestamps are managed here
+export type AddressInput = Omit<Address, 'userId' | 'isDefault' | 'createdAt' | 'updatedAt'> & {
+  isDefault?: boolean;
+};
+
+// Default first, then newest first
+const sortAddresses = (addresses: Address[]) => [...addresses].sort((a, b) => {
+  if (a.isDefault !== b.isDefault) return a.isDefault ? -1 : 1;
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+});
+
+const loadUserAddresses = async (userId: string): Promise<Address[]> => {
+  const snapshot = await getDocs(query(collection(db, 'addresses'), where('userId', '==', userId)));
+  return snapshot.docs.map(docSnap => {
+    const data = docSnap.data();
+    return {
+      ...data,
+      id: docSnap.id,
+      createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+      updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
+    } as Address;
+  });
+};
+
+// Mark one address as the default and clear the flag on the rest, in the same batch
+const withSingleDefault = (
+  batch: ReturnType<typeof writeBatch>,
+  addresses: Address[],
+  defaultId: string | null
+): Address[] => {
+  return addresses.map(address => {
+    const isDefault = address.id === defaultId;
+    if (address.isDefault !== isDefault) {
+      batch.update(doc(db, 'addresses', address.id!), { isDefault });
+    }
+    return { ...address, isDefault };
+  });
+};
+
+export const fetchAddresses = createAsyncThunk(
+  'addresses/fetchAddresses',
+  async (userId: string) => {
+    try {
+      const addresses = await loadUserAddresses(userId);
+      return { userId, addresses: sortAddresses(addresses) };
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+      throw error;
+    }
+  }
+);
+
+// Create or update an address. A user's first address is always the default,
+// and making one the default clears it everywhere else.
+export const saveAddress = createAsyncThunk(
+  'addresses/saveAddress',
+  async ({ userId, address }: { userId: string; address: AddressInput }) => {
+    try {
+      const existing = await loadUserAddresses(userId);
+      const batch = writeBatch(db);
+      const addressRef = address.id ? doc(db, 'addresses', address.id) : doc(collection(db, 'addresses'));
+      const previous = existing.find(item => item.id === addressRef.id);
+      const others = existing.filter(item => item.id !== addressRef.id);
+
+      if (address.id && !previous) {
+        throw new Error('Address not found');
+      }
+
+      const now = new Date().toISOString();
+      const isDefault = others.length === 0 || !!address.isDefault || !!previous?.isDefault;
+      const { id, ...fields } = address;
+      const saved: Address = {
+        ...fields,
+        id: addressRef.id,
+        userId,
+        isDefault,
+        createdAt: previous?.createdAt || now,
+        updatedAt: now,
+      };
+
+      const { id: _savedId, ...data } = saved;
+      // Firestore rejects undefined values, e.g. a missing pin on a legacy address
+      batch.set(addressRef, JSON.parse(JSON.stringify(data)));
+      const rest = isDefault ? withSingleDefault(batch, others, addressRef.id) : others;
+      await batch.commit();
+
+      return sortAddresses([...rest, saved]);
+    } catch (error) {
+      console.error('Error saving address:', error);
+      throw error;
+    }
+  }
+);
+
+// Delete an address; if it was the default, the newest remaining one takes over
+export const deleteAddress = createAsyncThunk(
+  'addresses/deleteAddress',
+  async ({ userId, addressId }: { userId: string; addressId: string }) => {
+    try {
+      const existing = await loadUserAddresses(userId);
+      const deleted = existing.find(item => item.id === addressId);
+      let remaining = existing.filter(item => item.id !== addressId);
+
+      const batch = writeBatch(db);
+      batch.delete(doc(db, 'addresses', addressId));
+      if (deleted?.isDefault && remaining.length > 0) {
+        const newest = sortAddresses(remaining.map(item => ({ ...item, isDefault: false })))[0];
+        remaining = withSingleDefault(batch, remaining, newest.id!);
+      }
+      await batch.commit();
+
+      return sortAddresses(remaining);
+    } catch (error) {
+      console.error('Error deleting address:', error);
+      throw error;
+    }
+  }
+);
+
+export const setDefaultAddress = createAsyncThunk(
+  'addresses/setDefaultAddress',
+  async ({ userId, addressId }: { userId: string; addressId: string }) => {
+    try {
+      const existing = await loadUserAddresses(userId);
+      if (!existing.some(item => item.id === addressId)) {
+        throw new Error('Address not found');
+      }
+
+      const batch = writeBatch(db);
+      const updated = withSingleDefault(batch, existing, addressId);
+      await batch.commit();
+
+      return sortAddresses(updated);
+    } catch (error) {
+      console.error('Error setting default address:', error);
+      throw error;
+    }
+  }
+);
+
+const addressesSlice = createSlice({
+  name: 'addresses',
+  initialState,
+  reducers: {
+    clearAddresses: (state) => {
+      state.items = [];
+      state.loadedForUserId = null;
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchAddresses.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchAddresses.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.items = action.payload.addresses;
+        state.loadedForUserId = action.payload.userId;
+      })
+      .addCase(fetchAddresses.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || 'Failed to load addresses';
+      });
+
+    // Every write returns the user's full, re-sorted address list
+    [saveAddress, deleteAddress, setDefaultAddress].forEach(thunk => {
+      builder
+        .addCase(thunk.pending, (state) => {
+          state.isSaving = true;
+          state.error = null;
+        })
+        .addCase(thunk.fulfilled, (state, action) => {
+          state.isSaving = false;
+          state.items = action.payload;
+        })
+        .addCase(thunk.rejected, (state, action) => {
+          state.isSaving = false;
+          state.error = action.error.message || 'Failed to update addresses';
+        });
+    });
+  },
+});
+
+export const { clearAddresses } = addressesSlice.actions;
+export default addressesSlice.reducer;
\ No newline at end of file
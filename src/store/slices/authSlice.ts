@@ -10,11 +10,19 @@ import { doc, setDoc, getDoc } from 'firebase/firestore';
 import { auth, db } from '../../config/firebase';
 import { User, UserRole } from '../../types';
 
+// A suspended account that tried to sign in, kept so the app can explain why it was turned away
+export interface AccountSuspension {
+  email: string;
+  name?: string;
+  reason?: string;
+}
+
 interface AuthState {
   user: User | null;
   isLoading: boolean;
   error: string | null;
   isAuthenticated: boolean;
+  suspension: AccountSuspension | null;
 }
 
 const initialState: AuthState = {
@@ -22,8 +30,16 @@ const initialState: AuthState = {
   isLoading: false,
   error: null,
   isAuthenticated: false,
+  suspension: null,
 };
 
+export class AccountSuspendedError extends Error {
+  constructor(reason?: string) {
+    super(reason || 'This account has been suspended');
+    this.name = 'AccountSuspendedError';
+  }
+}
+
 // Async thunks
 export const loginUser = createAsyncThunk(
   'auth/loginUser',
@@ -33,6 +49,11 @@ export const loginUser = createAsyncThunk(
     
     if (userDoc.exists()) {
       const userData = userDoc.data();
+      if (userData.isSuspended) {
+        // Don't leave a suspended account signed in on this device
+        await signOut(auth);
+        throw new AccountSuspendedError(userData.suspensionReason);
+      }
       // Ensure uid is included in the user object
       return {
         ...userData,
@@ -126,6 +147,14 @@ const authSlice = createSlice({
       state.user = null;
       state.isAuthenticated = false;
     },
+    accountSuspended: (state, action: PayloadAction<AccountSuspension>) => {
+      state.user = null;
+      state.isAuthenticated = false;
+      state.suspension = action.payload;
+    },
+    dismissSuspension: (state) => {
+      state.suspension = null;
+    },
   },
   extraReducers: (builder) => {
     // Login
@@ -143,6 +172,12 @@ const authSlice = createSlice({
       .addCase(loginUser.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.error.message || 'Login failed';
+        if (action.error.name === 'AccountSuspendedError') {
+          state.suspension = {
+            email: action.meta.arg.email,
+            reason: action.error.message,
+          };
+        }
       })
       
     // Register
@@ -211,5 +246,5 @@ const authSlice = createSlice({
   },
 });
 
-export const { clearError, setUser, clearUser } = authSlice.actions;
+export const { clearError, setUser, clearUser, accountSuspended, dismissSuspension } = authSlice.actions;
 export default authSlice.reducer;
\ No newline at end of file
@@ -1,24 +1,129 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { CartItem, Listing } from '../../types';
+import CartSyncService, { CartIssue, StoredCart } from '../../services/CartSyncService';
 
 interface CartState {
   items: CartItem[];
   totalAmount: number;
   totalItems: number;
+  issues: CartIssue[]; // problems found the last time the cart was checked against live listings
+  ownerId: string | null; // whose saved cart this is; null for a signed-out shopper
+  updatedAt: string | null; // when the shopper last changed the cart, saved with it to pick the newest copy
+  isHydrated: boolean;
+  isValidating: boolean;
 }
 
 const initialState: CartState = {
   items: [],
   totalAmount: 0,
   totalItems: 0,
+  issues: [],
+  ownerId: null,
+  updatedAt: null,
+  isHydrated: false,
+  isValidating: false,
 };
 
+// Cart items that are checked out together as one order
+export interface CartStoreGroup {
+  key: string; // storeId, or the seller's uid for listings not tied to a store
+  storeId?: string;
+  sellerId: string;
+  sellerName: string;
+  items: CartItem[];
+  subtotal: number;
+  itemCount: number;
+}
+
+// Group cart items by the store that sells them, keeping the order items were added in
+export const groupCartItemsByStore = (items: CartItem[]): CartStoreGroup[] => {
+  const groups: CartStoreGroup[] = [];
+
+  items.forEach(item => {
+    const key = item.listing.storeId || item.listing.sellerId;
+    let group = groups.find(existing => existing.key === key);
+
+    if (!group) {
+      group = {
+        key,
+        storeId: item.listing.storeId,
+        sellerId: item.listing.sellerId,
+        sellerName: item.listing.sellerName || 'Unknown Seller',
+        items: [],
+        subtotal: 0,
+        itemCount: 0,
+      };
+      groups.push(group);
+    }
+
+    group.items.push(item);
+    if (!item.unavailable) {
+      group.subtotal += item.listing.price * item.quantity;
+      group.itemCount += item.quantity;
+    }
+  });
+
+  return groups;
+};
+
+// Unavailable items stay in the cart so the shopper sees what happened, but don't count
 const calculateTotals = (items: CartItem[]) => {
-  const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-  const totalAmount = items.reduce((sum, item) => sum + (item.listing.price * item.quantity), 0);
+  const available = items.filter(item => !item.unavailable);
+  const totalItems = available.reduce((sum, item) => sum + item.quantity, 0);
+  const totalAmount = available.reduce((sum, item) => sum + (item.listing.price * item.quantity), 0);
   return { totalItems, totalAmount };
 };
 
+// Restore the saved cart when the app opens or the signed-in user changes.
+// A signed-in user gets whichever of this device's copy and the synced copy
+// changed last; signing in also brings along the guest cart.
+export const hydrateCart = createAsyncThunk(
+  'cart/hydrateCart',
+  async (userId: string | null, { getState }) => {
+    const { cart } = getState() as { cart: CartState };
+    // Items added before the saved cart loaded are kept, unless they belong to the previous user
+    const unsaved = cart.isHydrated ? [] : cart.items;
+
+    let saved: StoredCart | null;
+    let carried: CartItem[] = unsaved;
+    if (userId) {
+      let remote = null;
+      try {
+        remote = await CartSyncService.loadRemoteCart(userId);
+      } catch (error) {
+        console.warn('Failed to load synced cart:', error);
+      }
+      saved = CartSyncService.newerCart(await CartSyncService.loadLocalCart(userId), remote);
+
+      // Signing in, rather than switching straight from another account
+      if (cart.ownerId === null) {
+        const guest = await CartSyncService.loadLocalCart(null);
+        if (guest && guest.items.length > 0) {
+          carried = [...guest.items, ...unsaved];
+          await CartSyncService.clearGuestCart();
+        }
+      }
+    } else {
+      saved = await CartSyncService.loadLocalCart(null);
+    }
+
+    const items = CartSyncService.mergeCarts(saved?.items || [], carried);
+    const updatedAt = carried.length > 0 ? new Date().toISOString() : saved?.updatedAt || null;
+
+    const result = await CartSyncService.validateItems(items);
+    return { ...result, ownerId: userId, updatedAt };
+  }
+);
+
+// Re-check the cart against live listings, e.g. when the cart or checkout opens
+export const validateCart = createAsyncThunk(
+  'cart/validateCart',
+  async (_, { getState }) => {
+    const { cart } = getState() as { cart: CartState };
+    return CartSyncService.validateItems(cart.items);
+  }
+);
+
 const cartSlice = createSlice({
   name: 'cart',
   initialState,
@@ -40,6 +145,7 @@ const cartSlice = createSlice({
       const totals = calculateTotals(state.items);
       state.totalAmount = totals.totalAmount;
       state.totalItems = totals.totalItems;
+      state.updatedAt = new Date().toISOString();
     },
 
     removeFromCart: (state, action: PayloadAction<string>) => {
@@ -48,6 +154,7 @@ const cartSlice = createSlice({
       const totals = calculateTotals(state.items);
       state.totalAmount = totals.totalAmount;
       state.totalItems = totals.totalItems;
+      state.updatedAt = new Date().toISOString();
     },
 
     updateQuantity: (state, action: PayloadAction<{ id: string; quantity: number }>) => {
@@ -65,12 +172,19 @@ const cartSlice = createSlice({
       const totals = calculateTotals(state.items);
       state.totalAmount = totals.totalAmount;
       state.totalItems = totals.totalItems;
+      state.updatedAt = new Date().toISOString();
     },
 
     clearCart: (state) => {
       state.items = [];
       state.totalAmount = 0;
       state.totalItems = 0;
+      state.issues = [];
+      state.updatedAt = new Date().toISOString();
+    },
+
+    dismissCartIssues: (state) => {
+      state.issues = [];
     },
 
     incrementQuantity: (state, action: PayloadAction<string>) => {
@@ -82,6 +196,7 @@ const cartSlice = createSlice({
       const totals = calculateTotals(state.items);
       state.totalAmount = totals.totalAmount;
       state.totalItems = totals.totalItems;
+      state.updatedAt = new Date().toISOString();
     },
 
     decrementQuantity: (state, action: PayloadAction<string>) => {
@@ -97,8 +212,50 @@ const cartSlice = createSlice({
       const totals = calculateTotals(state.items);
       state.totalAmount = totals.totalAmount;
       state.totalItems = totals.totalItems;
+      state.updatedAt = new Date().toISOString();
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateCart.pending, (state) => {
+        state.isValidating = true;
+      })
+      .addCase(hydrateCart.fulfilled, (state, action) => {
+        state.isValidating = false;
+        state.isHydrated = true;
+        state.ownerId = action.payload.ownerId;
+        state.updatedAt = action.payload.updatedAt;
+        state.items = action.payload.items;
+        state.issues = action.payload.issues;
+
+        const totals = calculateTotals(state.items);
+        state.totalAmount = totals.totalAmount;
+        state.totalItems = totals.totalItems;
+      })
+      .addCase(hydrateCart.rejected, (state, action) => {
+        state.isValidating = false;
+        state.isHydrated = true;
+        state.ownerId = action.meta.arg;
+        console.error('Error restoring cart:', action.error);
+      })
+      .addCase(validateCart.pending, (state) => {
+        state.isValidating = true;
+      })
+      .addCase(validateCart.fulfilled, (state, action) => {
+        state.isValidating = false;
+        // Keep anything added or removed while the check was running
+        const checked = new Map(action.payload.items.map(item => [item.id, item]));
+        state.items = state.items.map(item => checked.get(item.id) || item);
+        state.issues = action.payload.issues;
+
+        const totals = calculateTotals(state.items);
+        state.totalAmount = totals.totalAmount;
+        state.totalItems = totals.totalItems;
+      })
+      .addCase(validateCart.rejected, (state) => {
+        state.isValidating = false;
+      });
+  },
 });
 
 export const {
@@ -106,6 +263,7 @@ export const {
   removeFromCart,
   updateQuantity,
   clearCart,
+  dismissCartIssues,
   incrementQuantity,
   decrementQuantity,
 } = cartSlice.actions;
@@ -4,8 +4,6 @@ import {
   query, 
   where, 
   getDocs, 
-  orderBy, 
-  limit,
   doc,
   getDoc,
   updateDoc,
@@ -14,12 +12,15 @@ import {
 } from 'firebase/firestore';
 import { db } from '../../config/firebase';
 import { Store, Listing, Order, OrderStatus } from '../../types';
+import OrderQueryService, { SellerOrderStats } from '../../services/OrderQueryService';
+import SearchKeywordService from '../../services/SearchKeywordService';
 
 interface DashboardState {
   currentStore: Store | null;
   storeOwner: any | null;
   storeProducts: Listing[];
-  storeOrders: Order[];
+  storeOrders: Order[]; // orders from the analytics window only
+  orderStats: SellerOrderStats; // store-wide, from aggregate queries
   isLoading: boolean;
   error: string | null;
   stats: {
@@ -47,6 +48,13 @@ const initialState: DashboardState = {
   storeOwner: null,
   storeProducts: [],
   storeOrders: [],
+  orderStats: {
+    totalOrders: 0,
+    pendingOrders: 0,
+    deliveredOrders: 0,
+    cancelledOrders: 0,
+    revenue: 0,
+  },
   isLoading: false,
   error: null,
   stats: {
@@ -69,6 +77,14 @@ const initialState: DashboardState = {
   },
 };
 
+// Items sold, payment methods and top products are worked out from this many days of orders
+export const ANALYTICS_WINDOW_DAYS = 30;
+
+const analyticsWindowStart = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() - (ANALYTICS_WINDOW_DAYS - 1));
+};
+
 // Comprehensive fetch for all store dashboard data
 export const fetchStoreDashboardData = createAsyncThunk(
   'dashboard/fetchStoreDashboardData',
@@ -146,66 +162,28 @@ export const fetchStoreDashboardData = createAsyncThunk(
       
       console.log('Found', products.length, 'products for store');
       
-      // Fetch store orders
-      const ordersQuery = query(
-        collection(db, 'orders'),
-        orderBy('createdAt', 'desc'),
-        limit(200)
-      );
-      const ordersSnapshot = await getDocs(ordersQuery);
-      const allOrders: Order[] = [];
-      
-      ordersSnapshot.forEach((docSnap) => {
-        const data = docSnap.data();
-        
-        // Convert all timestamp fields to ISO strings
-        const order = {
-          id: docSnap.id,
-          ...data,
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-          pickedUpAt: data.pickedUpAt?.toDate?.()?.toISOString() || data.pickedUpAt,
-          deliveredAt: data.deliveredAt?.toDate?.()?.toISOString() || data.deliveredAt,
-          cancelledAt: data.cancelledAt?.toDate?.()?.toISOString() || data.cancelledAt,
-          rejectedAt: data.rejectedAt?.toDate?.()?.toISOString() || data.rejectedAt,
-          confirmedAt: data.confirmedAt?.toDate?.()?.toISOString() || data.confirmedAt,
-          preparingAt: data.preparingAt?.toDate?.()?.toISOString() || data.preparingAt,
-          readyAt: data.readyAt?.toDate?.()?.toISOString() || data.readyAt,
-          inTransitAt: data.inTransitAt?.toDate?.()?.toISOString() || data.inTransitAt,
-          completedAt: data.completedAt?.toDate?.()?.toISOString() || data.completedAt,
-          assignedAt: data.assignedAt?.toDate?.()?.toISOString() || data.assignedAt,
-          // Handle nested items array timestamp fields
-          items: data.items?.map((item: any) => ({
-            ...item,
-            pickedUpAt: item.pickedUpAt?.toDate?.()?.toISOString() || item.pickedUpAt,
-            deliveredAt: item.deliveredAt?.toDate?.()?.toISOString() || item.deliveredAt,
-            createdAt: item.createdAt?.toDate?.()?.toISOString() || item.createdAt,
-            updatedAt: item.updatedAt?.toDate?.()?.toISOString() || item.updatedAt,
-          })) || data.items,
-        };
-        allOrders.push(order as unknown as Order);
-      });
-      
-      // Filter orders that contain items from this store
-      const storeOrders = allOrders.filter(order => 
-        order.items?.some(item => item.sellerId === ownerId)
-      );
+      // Counts and revenue are aggregated by Firestore; the charts only need recent orders
+      const [orderStats, recentOrders] = await Promise.all([
+        OrderQueryService.fetchSellerOrderStats(ownerId),
+        OrderQueryService.fetchSellerOrdersSince(ownerId, analyticsWindowStart()),
+      ]);
       
-      console.log('Found', storeOrders.length, 'orders for store');
+      console.log('Found', orderStats.totalOrders, 'orders for store,', recentOrders.length, 'in the last', ANALYTICS_WINDOW_DAYS, 'days');
       
       console.log('Dashboard data loaded successfully:', {
         storeId: store.id,
         storeName: store.name,
         ownerName: (storeOwner as any).name,
         productsCount: products.length,
-        ordersCount: storeOrders.length
+        ordersCount: orderStats.totalOrders
       });
       
       return {
         store,
         storeOwner,
         products,
-        orders: storeOrders,
+        orders: recentOrders,
+        orderStats,
       };
     } catch (error) {
       console.error('Error fetching store dashboard data:', error);
@@ -214,8 +192,9 @@ export const fetchStoreDashboardData = createAsyncThunk(
   }
 );
 
-// Calculate comprehensive statistics and analytics
-const calculateDashboardStats = (products: Listing[], orders: Order[]) => {
+// Calculate comprehensive statistics and analytics. Order counts and revenue are
+// store-wide; everything else is worked out from the recent orders passed in.
+const calculateDashboardStats = (products: Listing[], orders: Order[], orderStats: SellerOrderStats) => {
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   
@@ -233,14 +212,7 @@ const calculateDashboardStats = (products: Listing[], orders: Order[]) => {
   const completedOrders = orders.filter(order => 
     order.status === OrderStatus.COMPLETED || order.status === OrderStatus.DELIVERED
   );
-  const pendingOrders = orders.filter(order => order.status === OrderStatus.PENDING).length;
-  const deliveredOrders = orders.filter(order => order.status === OrderStatus.DELIVERED).length;
-  const cancelledOrders = orders.filter(order => order.status === OrderStatus.CANCELLED).length;
-  
-  // Revenue calculations
-  const totalRevenue = completedOrders.reduce((sum, order) => 
-    sum + (order.storeRevenueAmount || order.itemSubtotal || 0), 0
-  );
+  const { pendingOrders, deliveredOrders, cancelledOrders, revenue: totalRevenue } = orderStats;
   
   const totalSold = completedOrders.reduce((sum, order) => 
     sum + order.items.reduce((itemSum, item) => itemSum + item.quantity, 0), 0
@@ -372,6 +344,32 @@ export const fetchStoreByOwnerId = createAsyncThunk(
   }
 );
 
+// Fetch the store a staff member works at
+export const fetchStaffStore = createAsyncThunk(
+  'dashboard/fetchStaffStore',
+  async (storeId: string) => {
+    try {
+      console.log('Fetching store for staff member:', storeId);
+
+      const docSnap = await getDoc(doc(db, 'stores', storeId));
+      if (!docSnap.exists()) {
+        throw new Error('Store not found for this staff account');
+      }
+
+      const data = docSnap.data();
+      return {
+        ...data,
+        id: docSnap.id,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
+      } as Store;
+    } catch (error) {
+      console.error('Error fetching staff store:', error);
+      throw error;
+    }
+  }
+);
+
 // Fetch products for the store owner
 export const fetchStoreProducts = createAsyncThunk(
   'dashboard/fetchStoreProducts',
@@ -419,6 +417,7 @@ export const addStoreProduct = createAsyncThunk(
     try {
       const listingData = {
         ...productData,
+        searchKeywords: SearchKeywordService.generateListingKeywords(productData),
         postedDate: new Date().toISOString(),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -445,11 +444,16 @@ export const updateStoreProduct = createAsyncThunk(
   async ({ productId, updateData }: { productId: string; updateData: Partial<Listing> }) => {
     try {
       const productRef = doc(db, 'listings', productId);
-      const dataToUpdate = {
+      const dataToUpdate: Partial<Listing> = {
         ...updateData,
         updatedAt: new Date().toISOString(),
       };
       
+      const searchKeywords = await SearchKeywordService.keywordsForListingUpdate(productRef, updateData);
+      if (searchKeywords) {
+        dataToUpdate.searchKeywords = searchKeywords;
+      }
+      
       await updateDoc(productRef, dataToUpdate);
       
       return { productId, updateData: dataToUpdate };
@@ -493,13 +497,14 @@ const dashboardSlice = createSlice({
         state.error = null;
       })
       .addCase(fetchStoreDashboardData.fulfilled, (state, action) => {
-        const { store, storeOwner, products, orders } = action.payload;
+        const { store, storeOwner, products, orders, orderStats } = action.payload;
         state.currentStore = store;
         state.storeOwner = storeOwner;
         state.storeProducts = products;
         state.storeOrders = orders;
+        state.orderStats = orderStats;
         
-        const { stats, analytics } = calculateDashboardStats(products, orders);
+        const { stats, analytics } = calculateDashboardStats(products, orders, orderStats);
         state.stats = stats;
         state.analytics = analytics;
         
@@ -510,10 +515,18 @@ const dashboardSlice = createSlice({
         state.isLoading = false;
       })
       
+      // Fetch Staff Store
+      .addCase(fetchStaffStore.fulfilled, (state, action) => {
+        state.currentStore = action.payload;
+      })
+      .addCase(fetchStaffStore.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch store';
+      })
+      
       // Add Store Product
       .addCase(addStoreProduct.fulfilled, (state, action) => {
         state.storeProducts.push(action.payload);
-        const { stats } = calculateDashboardStats(state.storeProducts, state.storeOrders);
+        const { stats } = calculateDashboardStats(state.storeProducts, state.storeOrders, state.orderStats);
         state.stats = stats;
       })
       .addCase(addStoreProduct.rejected, (state, action) => {
@@ -529,7 +542,7 @@ const dashboardSlice = createSlice({
             ...state.storeProducts[productIndex],
             ...updateData,
           };
-          const { stats } = calculateDashboardStats(state.storeProducts, state.storeOrders);
+          const { stats } = calculateDashboardStats(state.storeProducts, state.storeOrders, state.orderStats);
           state.stats = stats;
         }
       })
@@ -540,7 +553,7 @@ const dashboardSlice = createSlice({
       // Delete Store Product
       .addCase(deleteStoreProduct.fulfilled, (state, action) => {
         state.storeProducts = state.storeProducts.filter(product => product.id !== action.payload);
-        const { stats } = calculateDashboardStats(state.storeProducts, state.storeOrders);
+        const { stats } = calculateDashboardStats(state.storeProducts, state.storeOrders, state.orderStats);
         state.stats = stats;
       })
       .addCase(deleteStoreProduct.rejected, (state, action) => {
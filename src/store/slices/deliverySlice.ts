@@ -0,0 +1,223 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  limit
+} from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { DeliveryPartner, Order, OrderStatus, User } from '../../types';
+import NotificationService from '../../services/NotificationService';
+import OrderQueryService from '../../services/OrderQueryService';
+import OrderLifecycleService from '../../services/OrderLifecycleService';
+
+export type DeliveryStep = 'accept' | 'pickup' | 'in_transit' | 'deliver';
+
+interface DeliveryState {
+  partner: DeliveryPartner | null;
+  orders: Order[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const initialState: DeliveryState = {
+  partner: null,
+  orders: [],
+  isLoading: false,
+  error: null,
+};
+
+const CLOSED_STATUSES: string[] = [
+  OrderStatus.DELIVERED,
+  OrderStatus.COMPLETED,
+  OrderStatus.CANCELLED,
+  OrderStatus.REJECTED,
+];
+
+// The next courier action for an order, or null when there is nothing left to do
+export const getNextDeliveryStep = (order: Order): DeliveryStep | null => {
+  if (CLOSED_STATUSES.includes(order.status)) return null;
+  if (!order.assignedAt) return 'accept';
+  if (!order.pickedUpAt) return 'pickup';
+  if (!order.inTransitAt) return 'in_transit';
+  return 'deliver';
+};
+
+// Label sent to the customer and store for each step; only the last two change the order status
+const STEP_STATUS_LABELS: { [step in DeliveryStep]: string } = {
+  accept: 'Assigned to a courier',
+  pickup: 'Picked up',
+  in_transit: OrderStatus.IN_TRANSIT,
+  deliver: OrderStatus.DELIVERED,
+};
+
+// Find the partner profile linked to a delivery user's login
+export const fetchDeliveryPartnerProfile = createAsyncThunk(
+  'delivery/fetchDeliveryPartnerProfile',
+  async (user: Pick<User, 'uid' | 'email'>) => {
+    try {
+      let snapshot = await getDocs(query(
+        collection(db, 'deliveryPartners'),
+        where('userId', '==', user.uid),
+        limit(1)
+      ));
+
+      // Partners created before logins were linked only have the contact email
+      if (snapshot.empty && user.email) {
+        snapshot = await getDocs(query(
+          collection(db, 'deliveryPartners'),
+          where('contactEmail', '==', user.email),
+          limit(1)
+        ));
+      }
+
+      if (snapshot.empty) {
+        throw new Error('No delivery partner profile is linked to this account');
+      }
+
+      const docSnap = snapshot.docs[0];
+      const data = docSnap.data();
+      return {
+        ...data,
+        id: docSnap.id,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+      } as DeliveryPartner;
+    } catch (error) {
+      console.error('Error fetching delivery partner profile:', error);
+      throw error;
+    }
+  }
+);
+
+// Fetch orders the customer chose this partner for, newest first
+export const fetchPartnerOrders = createAsyncThunk(
+  'delivery/fetchPartnerOrders',
+  async (partnerId: string) => {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'orders'),
+        where('partnerId', '==', partnerId)
+      ));
+
+      const orders = snapshot.docs.map(docSnap => OrderQueryService.normalizeOrder(docSnap));
+
+      orders.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+      console.log('Found', orders.length, 'orders for delivery partner');
+      return orders;
+    } catch (error) {
+      console.error('Error fetching partner orders:', error);
+      throw error;
+    }
+  }
+);
+
+// Record the courier's next step on an order and let the customer and store know
+export const advanceDelivery = createAsyncThunk(
+  'delivery/advanceDelivery',
+  async ({ order, step, partnerId, changedBy }: { order: Order; step: DeliveryStep; partnerId: string; changedBy: string }) => {
+    try {
+      const expectedStep = getNextDeliveryStep(order);
+      if (expectedStep !== step) {
+        throw new Error(
+          expectedStep
+            ? 'This order has moved on since you last refreshed. Pull to refresh and try again.'
+            : `Order is already ${order.status.toLowerCase()}`
+        );
+      }
+
+      let updateData: Partial<Order>;
+
+      if (step === 'in_transit' || step === 'deliver') {
+        // Status changes go through the order lifecycle so the store's steps are respected
+        const result = await OrderLifecycleService.transition(
+          order.id,
+          step === 'in_transit' ? OrderStatus.IN_TRANSIT : OrderStatus.DELIVERED,
+          changedBy
+        );
+        updateData = result.updateData;
+      } else {
+        // Checked against the live order so a cancelled or reassigned order can't be taken
+        updateData = await OrderLifecycleService.recordCourierStep(order.id, step, partnerId, changedBy);
+      }
+
+      try {
+        const storeOwnerId = order.items?.[0]?.sellerId;
+        if (storeOwnerId) {
+          const notificationService = NotificationService.getInstance();
+          await notificationService.notifyOrderStatusChange(
+            order.id,
+            order.customerId,
+            storeOwnerId,
+            order.status,
+            STEP_STATUS_LABELS[step],
+            order.totalAmount
+          );
+        }
+      } catch (notificationError) {
+        console.warn('Failed to send delivery notification:', notificationError);
+      }
+
+      return { orderId: order.id, updateData };
+    } catch (error) {
+      console.error('Error advancing delivery:', error);
+      throw error;
+    }
+  }
+);
+
+const deliverySlice = createSlice({
+  name: 'delivery',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch Delivery Partner Profile
+      .addCase(fetchDeliveryPartnerProfile.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchDeliveryPartnerProfile.fulfilled, (state, action) => {
+        state.partner = action.payload;
+        state.isLoading = false;
+      })
+      .addCase(fetchDeliveryPartnerProfile.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to load delivery profile';
+        state.isLoading = false;
+      })
+
+      // Fetch Partner Orders
+      .addCase(fetchPartnerOrders.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchPartnerOrders.fulfilled, (state, action) => {
+        state.orders = action.payload;
+        state.isLoading = false;
+      })
+      .addCase(fetchPartnerOrders.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch deliveries';
+        state.isLoading = false;
+      })
+
+      // Advance Delivery
+      .addCase(advanceDelivery.fulfilled, (state, action) => {
+        const { orderId, updateData } = action.payload;
+        const orderIndex = state.orders.findIndex(order => order.id === orderId);
+        if (orderIndex !== -1) {
+          state.orders[orderIndex] = {
+            ...state.orders[orderIndex],
+            ...updateData,
+          };
+        }
+      });
+  },
+});
+
+export const { clearError } = deliverySlice.actions;
+export default deliverySlice.reducer;
\ No newline at end of file
@@ -7,10 +7,16 @@ import {
   query, 
   where, 
   orderBy, 
-  limit
+  limit,
+  startAfter,
+  documentId,
+  Timestamp,
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
 import { db } from '../../config/firebase';
 import { Listing, ListingCategory, ListingType, Store } from '../../types';
+import SearchIndexService, { SearchFilters } from '../../services/SearchIndexService';
+import SearchKeywordService from '../../services/SearchKeywordService';
 
 // Client-side filtering utilities
 const filterListings = (listings: Listing[], filters: {
@@ -20,13 +26,9 @@ const filterListings = (listings: Listing[], filters: {
 }) => {
   let filtered = [...listings];
   
-  // Search across title/description
+  // Search across title/description/keywords, best matches first
   if (filters.searchQuery) {
-    const query = filters.searchQuery.toLowerCase();
-    filtered = filtered.filter(listing => 
-      listing.title.toLowerCase().includes(query) || 
-      listing.description.toLowerCase().includes(query)
-    );
+    filtered = SearchIndexService.rankListings(filtered, filters.searchQuery);
   }
   
   // Category filter
@@ -42,9 +44,38 @@ const filterListings = (listings: Listing[], filters: {
   return filtered;
 };
 
+export const LISTINGS_PAGE_SIZE = 20;
+export const FEATURED_PAGE_SIZE = 10;
+
+// Searches read the listings sharing a keyword with the query in batches and rank
+// them on the device, scanning a few batches per page so a narrow query (or facet
+// filters, which only apply on the device) still fills the screen
+const SEARCH_SCAN_SIZE = 50;
+const SEARCH_MAX_SCANS = 4;
+
+// Filters the current listings feed was fetched with, reused when loading the next page
+export interface ListingsFilters {
+  category?: ListingCategory;
+  type?: ListingType;
+  searchQuery?: string;
+  facets?: SearchFilters;
+}
+
+// Where the next page starts: the last listing's id and its postedDate as stored,
+// kept as plain values so the cursor can live in Redux
+export interface ListingsCursor {
+  id: string;
+  postedDate: string | { seconds: number; nanoseconds: number } | null;
+}
+
 interface ListingsState {
   items: Listing[];
+  cursor: ListingsCursor | null;
+  activeFilters: ListingsFilters;
+  isLoadingMore: boolean;
   featuredItems: Listing[];
+  featuredCursor: ListingsCursor | null;
+  featuredHasMore: boolean;
   stores: Store[];
   storeListings: { [storeId: string]: Listing[] };
   filteredStoreListings: { [storeId: string]: Listing[] };
@@ -59,7 +90,12 @@ interface ListingsState {
 
 const initialState: ListingsState = {
   items: [],
+  cursor: null,
+  activeFilters: {},
+  isLoadingMore: false,
   featuredItems: [],
+  featuredCursor: null,
+  featuredHasMore: true,
   stores: [],
   storeListings: {},
   filteredStoreListings: {},
@@ -72,92 +108,164 @@ const initialState: ListingsState = {
   selectedType: null,
 };
 
+const toListing = (docSnap: QueryDocumentSnapshot): Listing => {
+  const data = docSnap.data();
+  // Convert Firestore timestamps to ISO strings
+  return {
+    ...data,
+    id: docSnap.id,
+    postedDate: data.postedDate?.toDate?.()?.toISOString() || data.postedDate,
+    createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+    updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
+  } as unknown as Listing;
+};
+
+const toCursor = (docSnap: QueryDocumentSnapshot | undefined): ListingsCursor | null => {
+  if (!docSnap) return null;
+  const postedDate = docSnap.data().postedDate;
+  return {
+    id: docSnap.id,
+    postedDate: postedDate instanceof Timestamp
+      ? { seconds: postedDate.seconds, nanoseconds: postedDate.nanoseconds }
+      : postedDate ?? null,
+  };
+};
+
+// Feeds order by postedDate then id, so a cursor rebuilds both values for startAfter
+const startAfterCursor = (cursor: ListingsCursor) => {
+  const { postedDate } = cursor;
+  return startAfter(
+    postedDate && typeof postedDate === 'object'
+      ? new Timestamp(postedDate.seconds, postedDate.nanoseconds)
+      : postedDate,
+    cursor.id
+  );
+};
+
+// Keep the first copy of each listing when a page overlaps what's already loaded
+const appendUnique = (existing: Listing[], incoming: Listing[]) => {
+  const seen = new Set(existing.map(listing => listing.id));
+  return [...existing, ...incoming.filter(listing => !seen.has(listing.id))];
+};
+
+// Fetch the first page of listings, or the next page when loadMore is set.
+// Loading more reuses the filters and cursor of the current feed.
 export const fetchListings = createAsyncThunk(
   'listings/fetchListings',
   async ({ 
     category, 
     type, 
     searchQuery, 
+    facets,
     loadMore = false 
   }: { 
     category?: ListingCategory;
     type?: ListingType;
     searchQuery?: string;
+    facets?: SearchFilters;
     loadMore?: boolean;
   }, { getState }) => {
-    let q = query(collection(db, 'listings'), orderBy('postedDate', 'desc'));
+    const state = getState() as { listings: ListingsState };
+    const filters: ListingsFilters = loadMore
+      ? state.listings.activeFilters
+      : { category, type, searchQuery: searchQuery?.trim() || undefined, facets };
     
-    if (category) {
-      q = query(q, where('category', '==', category));
-    }
+    let q = query(collection(db, 'listings'), orderBy('postedDate', 'desc'), orderBy(documentId(), 'desc'));
     
-    if (type) {
-      q = query(q, where('type', '==', type));
+    if (filters.category) {
+      q = query(q, where('category', '==', filters.category));
     }
     
-    if (searchQuery) {
-      // Simple search by title - in production, consider using Algolia or similar
-      q = query(q, where('searchKeywords', 'array-contains-any', 
-        searchQuery.toLowerCase().split(' ')));
+    if (filters.type) {
+      q = query(q, where('type', '==', filters.type));
     }
     
-    // Simple pagination based on current items count
-    const state = getState() as { listings: ListingsState };
-    const offset = loadMore ? state.listings.items.length : 0;
+    // Needs composite indexes on searchKeywords with the category/type filters and postedDate
+    const searchKeywords = filters.searchQuery ? SearchKeywordService.queryKeywords(filters.searchQuery) : [];
+    if (searchKeywords.length > 0) {
+      q = query(q, where('searchKeywords', 'array-contains-any', searchKeywords));
+    }
     
-    q = query(q, limit(20));
+    const isSearch = !!filters.searchQuery || (!!filters.facets && SearchIndexService.hasLocalFilters(filters.facets));
+    const batchSize = isSearch ? SEARCH_SCAN_SIZE : LISTINGS_PAGE_SIZE;
+    let cursor = loadMore ? state.listings.cursor : null;
+    let listings: Listing[] = [];
+    let hasMore = true;
+    let scans = 0;
     
-    const querySnapshot = await getDocs(q);
+    // Plain feeds take one page; searches keep scanning until enough listings match
+    while (hasMore && scans < (isSearch ? SEARCH_MAX_SCANS : 1) && listings.length < LISTINGS_PAGE_SIZE) {
+      const pageQuery = cursor ? query(q, startAfterCursor(cursor), limit(batchSize)) : query(q, limit(batchSize));
+      const querySnapshot = await getDocs(pageQuery);
+      let batch = querySnapshot.docs.map(toListing);
+      
+      if (filters.facets) {
+        batch = SearchIndexService.applyListingFilters(batch, filters.facets);
+      }
+      if (filters.searchQuery) {
+        batch = SearchIndexService.rankListings(batch, filters.searchQuery);
+      }
+      
+      listings = [...listings, ...batch];
+      cursor = toCursor(querySnapshot.docs[querySnapshot.docs.length - 1]) || cursor;
+      hasMore = querySnapshot.docs.length === batchSize;
+      scans++;
+    }
     
-    const listings: Listing[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      // Convert Firestore timestamps to ISO strings
-      const listing = {
-        ...data,
-        id: doc.id,
-        postedDate: data.postedDate?.toDate?.()?.toISOString() || data.postedDate,
-        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-      } as unknown as Listing;
-      listings.push(listing);
-    });
+    // Rank the page as a whole, not batch by batch
+    if (filters.searchQuery) {
+      listings = SearchIndexService.rankListings(listings, filters.searchQuery);
+    }
     
     return {
       listings,
-      hasMore: querySnapshot.docs.length === 20,
+      cursor,
+      hasMore,
       loadMore,
+      filters,
     };
+  },
+  {
+    // Skip load-more calls while a page is in flight or after the last page
+    condition: ({ loadMore = false }, { getState }) => {
+      if (!loadMore) return true;
+      const { listings } = getState() as { listings: ListingsState };
+      return listings.hasMore && !listings.isLoadingMore && !listings.isLoading && !!listings.cursor;
+    },
   }
 );
 
 export const fetchFeaturedListings = createAsyncThunk(
   'listings/fetchFeaturedListings',
-  async () => {
-    const q = query(
+  async (arg: { loadMore?: boolean } | void, { getState }) => {
+    const loadMore = arg ? !!arg.loadMore : false;
+    const state = getState() as { listings: ListingsState };
+    let q = query(
       collection(db, 'listings'),
       where('isFeatured', '==', true),
       orderBy('postedDate', 'desc'),
-      limit(10)
+      orderBy(documentId(), 'desc')
     );
     
-    const querySnapshot = await getDocs(q);
+    if (loadMore && state.listings.featuredCursor) {
+      q = query(q, startAfterCursor(state.listings.featuredCursor));
+    }
     
-    const listings: Listing[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      // Convert Firestore timestamps to ISO strings
-      const listing = {
-        ...data,
-        id: doc.id,
-        postedDate: data.postedDate?.toDate?.()?.toISOString() || data.postedDate,
-        createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-      } as unknown as Listing;
-      listings.push(listing);
-    });
+    const querySnapshot = await getDocs(query(q, limit(FEATURED_PAGE_SIZE)));
     
-    return listings;
+    return {
+      listings: querySnapshot.docs.map(toListing),
+      cursor: toCursor(querySnapshot.docs[querySnapshot.docs.length - 1]),
+      hasMore: querySnapshot.docs.length === FEATURED_PAGE_SIZE,
+      loadMore,
+    };
+  },
+  {
+    condition: (arg, { getState }) => {
+      if (!arg || !arg.loadMore) return true;
+      const { listings } = getState() as { listings: ListingsState };
+      return listings.featuredHasMore && !listings.isLoadingMore && !!listings.featuredCursor;
+    },
   }
 );
 
@@ -274,6 +382,8 @@ const listingsSlice = createSlice({
     
     clearListings: (state) => {
       state.items = [];
+      state.cursor = null;
+      state.activeFilters = {};
       state.hasMore = true;
     },
     
@@ -306,30 +416,56 @@ const listingsSlice = createSlice({
   extraReducers: (builder) => {
     builder
       // Fetch listings
-      .addCase(fetchListings.pending, (state) => {
-        state.isLoading = true;
+      .addCase(fetchListings.pending, (state, action) => {
+        if (action.meta.arg.loadMore) {
+          state.isLoadingMore = true;
+        } else {
+          state.isLoading = true;
+        }
         state.error = null;
       })
       .addCase(fetchListings.fulfilled, (state, action) => {
         state.isLoading = false;
-        const { listings, hasMore, loadMore } = action.payload;
+        state.isLoadingMore = false;
+        const { listings, cursor, hasMore, loadMore, filters } = action.payload;
         
         if (loadMore) {
-          state.items = [...state.items, ...listings];
+          state.items = appendUnique(state.items, listings);
+          // A later page can hold better matches than earlier ones, so rank them all together
+          if (filters.searchQuery) {
+            state.items = SearchIndexService.rankListings(state.items, filters.searchQuery);
+          }
         } else {
           state.items = listings;
         }
         
+        // A page that comes back empty keeps the old cursor
+        state.cursor = cursor || (loadMore ? state.cursor : null);
+        state.activeFilters = filters;
         state.hasMore = hasMore;
       })
       .addCase(fetchListings.rejected, (state, action) => {
         state.isLoading = false;
+        state.isLoadingMore = false;
         state.error = action.error.message || 'Failed to fetch listings';
       })
       
       // Fetch featured listings
+      .addCase(fetchFeaturedListings.pending, (state, action) => {
+        if (action.meta.arg && action.meta.arg.loadMore) {
+          state.isLoadingMore = true;
+        }
+      })
       .addCase(fetchFeaturedListings.fulfilled, (state, action) => {
-        state.featuredItems = action.payload;
+        const { listings, cursor, hasMore, loadMore } = action.payload;
+        state.featuredItems = loadMore ? appendUnique(state.featuredItems, listings) : listings;
+        state.featuredCursor = cursor || (loadMore ? state.featuredCursor : null);
+        state.featuredHasMore = hasMore;
+        state.isLoadingMore = false;
+      })
+      .addCase(fetchFeaturedListings.rejected, (state, action) => {
+        state.isLoadingMore = false;
+        state.error = action.error.message || 'Failed to fetch featured listings';
       })
       
       // Fetch listing by ID
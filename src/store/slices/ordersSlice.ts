@@ -1,21 +1,16 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { 
-  collection, 
-  query, 
-  where, 
-  getDocs, 
-  orderBy, 
-  limit,
-  doc,
-  updateDoc
-} from 'firebase/firestore';
-import { db } from '../../config/firebase';
 import { Order, OrderStatus } from '../../types';
 import NotificationService from '../../services/NotificationService';
+import OrderQueryService from '../../services/OrderQueryService';
+import InventoryService from '../../services/InventoryService';
+import OrderLifecycleService from '../../services/OrderLifecycleService';
 
 interface OrdersState {
   items: Order[];
+  lastOrderId: string | null;
+  hasMore: boolean;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   stats: {
     totalOrders: number;
@@ -26,7 +21,10 @@ interface OrdersState {
 
 const initialState: OrdersState = {
   items: [],
+  lastOrderId: null,
+  hasMore: false,
   isLoading: false,
+  isLoadingMore: false,
   error: null,
   stats: {
     totalOrders: 0,
@@ -35,64 +33,17 @@ const initialState: OrdersState = {
   },
 };
 
-// Fetch orders for a specific store owner
+// Fetch the first page of orders for a specific store owner
 export const fetchStoreOrders = createAsyncThunk(
   'orders/fetchStoreOrders',
   async (storeOwnerId: string) => {
     try {
       console.log('Fetching orders for store owner:', storeOwnerId);
       
-      // Query orders where any item has sellerId matching the store owner
-      // Note: This might need to be optimized based on your actual data structure
-      const q = query(
-        collection(db, 'orders'),
-        orderBy('createdAt', 'desc'),
-        limit(100)
-      );
+      const page = await OrderQueryService.fetchSellerOrdersPage(storeOwnerId);
       
-      const querySnapshot = await getDocs(q);
-      const orders: Order[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        
-        // Check if any order item belongs to this store owner
-        const hasStoreItems = data.items?.some((item: any) => 
-          item.sellerId === storeOwnerId
-        );
-        
-        if (hasStoreItems) {
-          const order = {
-            id: doc.id,
-            ...data,
-            // Convert all timestamp fields to ISO strings
-            createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-            pickedUpAt: data.pickedUpAt?.toDate?.()?.toISOString() || data.pickedUpAt,
-            deliveredAt: data.deliveredAt?.toDate?.()?.toISOString() || data.deliveredAt,
-            cancelledAt: data.cancelledAt?.toDate?.()?.toISOString() || data.cancelledAt,
-            rejectedAt: data.rejectedAt?.toDate?.()?.toISOString() || data.rejectedAt,
-            confirmedAt: data.confirmedAt?.toDate?.()?.toISOString() || data.confirmedAt,
-            preparingAt: data.preparingAt?.toDate?.()?.toISOString() || data.preparingAt,
-            readyAt: data.readyAt?.toDate?.()?.toISOString() || data.readyAt,
-            inTransitAt: data.inTransitAt?.toDate?.()?.toISOString() || data.inTransitAt,
-            completedAt: data.completedAt?.toDate?.()?.toISOString() || data.completedAt,
-            assignedAt: data.assignedAt?.toDate?.()?.toISOString() || data.assignedAt,
-            // Handle nested items array timestamp fields
-            items: data.items?.map((item: any) => ({
-              ...item,
-              pickedUpAt: item.pickedUpAt?.toDate?.()?.toISOString() || item.pickedUpAt,
-              deliveredAt: item.deliveredAt?.toDate?.()?.toISOString() || item.deliveredAt,
-              createdAt: item.createdAt?.toDate?.()?.toISOString() || item.createdAt,
-              updatedAt: item.updatedAt?.toDate?.()?.toISOString() || item.updatedAt,
-            })) || data.items,
-          };
-          orders.push(order as Order);
-        }
-      });
-      
-      console.log('Found', orders.length, 'orders for store owner');
-      return orders;
+      console.log('Found', page.orders.length, 'orders for store owner');
+      return page;
     } catch (error) {
       console.error('Error fetching store orders:', error);
       throw error;
@@ -100,32 +51,69 @@ export const fetchStoreOrders = createAsyncThunk(
   }
 );
 
-// Update order status with notifications
+// Fetch the next page of orders after the last one loaded
+export const fetchMoreStoreOrders = createAsyncThunk(
+  'orders/fetchMoreStoreOrders',
+  async ({ storeOwnerId, afterOrderId }: { storeOwnerId: string; afterOrderId: string }) => {
+    try {
+      return await OrderQueryService.fetchSellerOrdersPage(storeOwnerId, afterOrderId);
+    } catch (error) {
+      console.error('Error fetching more store orders:', error);
+      throw error;
+    }
+  }
+);
+
+// Totals across every order the store has had, not just the pages loaded so far
+export const fetchStoreOrderStats = createAsyncThunk(
+  'orders/fetchStoreOrderStats',
+  async (storeOwnerId: string) => {
+    try {
+      const { totalOrders, pendingOrders, revenue } = await OrderQueryService.fetchSellerOrderStats(storeOwnerId);
+      return { totalOrders, pendingOrders, revenue };
+    } catch (error) {
+      console.error('Error fetching store order stats:', error);
+      throw error;
+    }
+  }
+);
+
+// Move an order along its lifecycle and let the customer and store know
 export const updateOrderStatus = createAsyncThunk(
   'orders/updateOrderStatus',
-  async ({ orderId, status, storeOwnerId }: { orderId: string; status: OrderStatus; storeOwnerId?: string }) => {
+  async ({ orderId, status, changedBy, storeOwnerId }: { orderId: string; status: OrderStatus; changedBy: string; storeOwnerId?: string }) => {
     try {
-      const orderRef = doc(db, 'orders', orderId);
-      await updateDoc(orderRef, {
-        status,
-        updatedAt: new Date().toISOString(),
-      });
+      const result = await OrderLifecycleService.transition(orderId, status, changedBy);
       
-      // If storeOwnerId is provided, send notifications
-      if (storeOwnerId) {
+      // Orders that won't be fulfilled give their reserved stock back
+      if (status === OrderStatus.CANCELLED || status === OrderStatus.REJECTED) {
         try {
-          // Get order details for notification (in real app, you'd fetch this)
-          // For now, we'll send a basic notification
+          const restored = await InventoryService.restoreOrderStock(orderId);
+          console.log('Restored stock for', restored.length, 'listings from order:', orderId);
+        } catch (stockError) {
+          console.error('Failed to restore stock for order:', orderId, stockError);
+        }
+      }
+      
+      try {
+        const notifyStoreOwnerId = storeOwnerId || result.order.items?.[0]?.sellerId;
+        if (notifyStoreOwnerId) {
           const notificationService = NotificationService.getInstance();
-          // This would normally include customer ID and other order details
-          console.log('Order status updated with notification support');
-        } catch (notificationError) {
-          console.warn('Failed to send order notification:', notificationError);
-          // Don't fail the order update if notification fails
+          await notificationService.notifyOrderStatusChange(
+            orderId,
+            result.order.customerId,
+            notifyStoreOwnerId,
+            result.previousStatus,
+            status,
+            result.order.totalAmount
+          );
         }
+      } catch (notificationError) {
+        console.warn('Failed to send order notification:', notificationError);
+        // Don't fail the order update if notification fails
       }
       
-      return { orderId, status };
+      return { orderId, updateData: result.updateData, change: result.change };
     } catch (error) {
       console.error('Error updating order status:', error);
       throw error;
@@ -134,7 +122,7 @@ export const updateOrderStatus = createAsyncThunk(
 );
 
 // Calculate store statistics
-const calculateStats = (orders: Order[]) => {
+const calculateStats = (orders: Pick<Order, 'status' | 'storeRevenueAmount' | 'itemSubtotal'>[]) => {
   const totalOrders = orders.length;
   const pendingOrders = orders.filter(order => 
     order.status === OrderStatus.PENDING
@@ -151,6 +139,17 @@ const calculateStats = (orders: Order[]) => {
   };
 };
 
+// Swap one order's old contribution to the totals for its new one
+const applyStatusChange = (stats: OrdersState['stats'], before: Order, after: Order) => {
+  const removed = calculateStats([before]);
+  const added = calculateStats([after]);
+  return {
+    totalOrders: stats.totalOrders,
+    pendingOrders: stats.pendingOrders - removed.pendingOrders + added.pendingOrders,
+    revenue: stats.revenue - removed.revenue + added.revenue,
+  };
+};
+
 const ordersSlice = createSlice({
   name: 'orders',
   initialState,
@@ -167,8 +166,9 @@ const ordersSlice = createSlice({
         state.error = null;
       })
       .addCase(fetchStoreOrders.fulfilled, (state, action) => {
-        state.items = action.payload;
-        state.stats = calculateStats(action.payload);
+        state.items = action.payload.orders;
+        state.lastOrderId = action.payload.lastOrderId;
+        state.hasMore = action.payload.hasMore;
         state.isLoading = false;
       })
       .addCase(fetchStoreOrders.rejected, (state, action) => {
@@ -176,15 +176,44 @@ const ordersSlice = createSlice({
         state.isLoading = false;
       })
       
+      // Fetch More Store Orders
+      .addCase(fetchMoreStoreOrders.pending, (state) => {
+        state.isLoadingMore = true;
+      })
+      .addCase(fetchMoreStoreOrders.fulfilled, (state, action) => {
+        const loadedIds = new Set(state.items.map(order => order.id));
+        state.items.push(...action.payload.orders.filter(order => !loadedIds.has(order.id)));
+        state.lastOrderId = action.payload.lastOrderId;
+        state.hasMore = action.payload.hasMore;
+        state.isLoadingMore = false;
+      })
+      .addCase(fetchMoreStoreOrders.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch more orders';
+        state.isLoadingMore = false;
+      })
+      
+      // Fetch Store Order Stats
+      .addCase(fetchStoreOrderStats.fulfilled, (state, action) => {
+        state.stats = action.payload;
+      })
+      .addCase(fetchStoreOrderStats.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch order stats';
+      })
+      
       // Update Order Status
       .addCase(updateOrderStatus.fulfilled, (state, action) => {
-        const { orderId, status } = action.payload;
+        const { orderId, updateData, change } = action.payload;
         const orderIndex = state.items.findIndex(order => order.id === orderId);
         if (orderIndex !== -1) {
-          state.items[orderIndex].status = status;
-          state.items[orderIndex].updatedAt = new Date().toISOString();
-          // Recalculate stats
-          state.stats = calculateStats(state.items);
+          const order = state.items[orderIndex];
+          const updatedOrder = {
+            ...order,
+            ...updateData,
+            statusHistory: [...(order.statusHistory || []), change],
+          };
+          state.items[orderIndex] = updatedOrder;
+          // Adjust the store-wide totals for this order's new status
+          state.stats = applyStatusChange(state.stats, order, updatedOrder);
         }
       })
       .addCase(updateOrderStatus.rejected, (state, action) => {
@@ -0,0 +1,448 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  addDoc,
+  updateDoc,
+  limit,
+  runTransaction,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { OrderItem, OrderStatus, Quotation, QuotationItem, QuotationStatus, Store } from '../../types';
+import NotificationService from '../../services/NotificationService';
+import OrderQueryService from '../../services/OrderQueryService';
+import InventoryService from '../../services/InventoryService';
+
+interface QuotationsState {
+  storeQuotations: Quotation[];
+  customerQuotations: Quotation[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const initialState: QuotationsState = {
+  storeQuotations: [],
+  customerQuotations: [],
+  isLoading: false,
+  error: null,
+};
+
+// Draft and sent quotations lapse once their validity date has passed
+export const isQuotationExpired = (quotation: Quotation, now: Date = new Date()) => {
+  if (quotation.status !== QuotationStatus.DRAFT && quotation.status !== QuotationStatus.SENT) {
+    return false;
+  }
+  if (!quotation.validUntil) {
+    return false;
+  }
+  const validUntil = new Date(quotation.validUntil);
+  return !isNaN(validUntil.getTime()) && validUntil.getTime() < now.getTime();
+};
+
+const mapQuotationDoc = (id: string, data: any): Quotation => ({
+  ...data,
+  id,
+  validUntil: data.validUntil?.toDate?.()?.toISOString() || data.validUntil,
+  sentAt: data.sentAt?.toDate?.()?.toISOString() || data.sentAt,
+  respondedAt: data.respondedAt?.toDate?.()?.toISOString() || data.respondedAt,
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
+  updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
+} as Quotation);
+
+// Persist the EXPIRED status for any quotations past validUntil
+const expireStaleQuotations = async (quotations: Quotation[]) => {
+  const now = new Date();
+  const stale = quotations.filter(quotation => isQuotationExpired(quotation, now));
+
+  await Promise.all(stale.map(async (quotation) => {
+    try {
+      const updatedAt = now.toISOString();
+      await updateDoc(doc(db, 'quotations', quotation.id), {
+        status: QuotationStatus.EXPIRED,
+        updatedAt,
+      });
+      quotation.status = QuotationStatus.EXPIRED;
+      quotation.updatedAt = updatedAt;
+    } catch (error) {
+      console.warn('Failed to expire quotation:', quotation.id, error);
+    }
+  }));
+
+  return quotations;
+};
+
+const sortNewestFirst = (quotations: Quotation[]) =>
+  quotations.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+// Fetch every quotation drafted by a store
+export const fetchStoreQuotations = createAsyncThunk(
+  'quotations/fetchStoreQuotations',
+  async (storeId: string) => {
+    try {
+      console.log('Fetching quotations for store:', storeId);
+
+      const q = query(
+        collection(db, 'quotations'),
+        where('storeId', '==', storeId)
+      );
+      const querySnapshot = await getDocs(q);
+      const quotations = querySnapshot.docs.map(docSnap => mapQuotationDoc(docSnap.id, docSnap.data()));
+
+      await expireStaleQuotations(quotations);
+
+      console.log('Found', quotations.length, 'quotations for store');
+      return sortNewestFirst(quotations);
+    } catch (error) {
+      console.error('Error fetching store quotations:', error);
+      throw error;
+    }
+  }
+);
+
+// Fetch quotations sent to a customer (drafts stay private to the store)
+export const fetchCustomerQuotations = createAsyncThunk(
+  'quotations/fetchCustomerQuotations',
+  async (customerId: string) => {
+    try {
+      console.log('Fetching quotations for customer:', customerId);
+
+      const q = query(
+        collection(db, 'quotations'),
+        where('customerId', '==', customerId)
+      );
+      const querySnapshot = await getDocs(q);
+      const quotations = querySnapshot.docs
+        .map(docSnap => mapQuotationDoc(docSnap.id, docSnap.data()))
+        .filter(quotation => quotation.status !== QuotationStatus.DRAFT);
+
+      await expireStaleQuotations(quotations);
+
+      console.log('Found', quotations.length, 'quotations for customer');
+      return sortNewestFirst(quotations);
+    } catch (error) {
+      console.error('Error fetching customer quotations:', error);
+      throw error;
+    }
+  }
+);
+
+// Draft a new quotation from store listings
+export const createQuotation = createAsyncThunk(
+  'quotations/createQuotation',
+  async ({
+    store,
+    items,
+    discountAmount = 0,
+    validDays,
+    notes,
+  }: {
+    store: Store;
+    items: QuotationItem[];
+    discountAmount?: number;
+    validDays: number;
+    notes?: string;
+  }) => {
+    try {
+      if (items.length === 0) {
+        throw new Error('A quotation needs at least one item');
+      }
+
+      const itemSubtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+      const totalAmount = Math.max(itemSubtotal - discountAmount, 0);
+
+      const validUntil = new Date();
+      validUntil.setDate(validUntil.getDate() + validDays);
+
+      const quotationData: Omit<Quotation, 'id'> = {
+        storeId: store.id,
+        storeName: store.name,
+        sellerId: store.ownerId,
+        items,
+        itemSubtotal,
+        discountAmount,
+        totalAmount,
+        status: QuotationStatus.DRAFT,
+        ...(notes && { notes }),
+        validUntil: validUntil.toISOString(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      const docRef = await addDoc(collection(db, 'quotations'), quotationData);
+      console.log('Quotation drafted with ID:', docRef.id);
+
+      return { ...quotationData, id: docRef.id } as Quotation;
+    } catch (error) {
+      console.error('Error creating quotation:', error);
+      throw error;
+    }
+  }
+);
+
+// Send a draft quotation to a registered customer, looked up by email
+export const sendQuotation = createAsyncThunk(
+  'quotations/sendQuotation',
+  async ({ quotation, customerEmail }: { quotation: Quotation; customerEmail: string }) => {
+    try {
+      if (quotation.status !== QuotationStatus.DRAFT) {
+        throw new Error('Only draft quotations can be sent');
+      }
+      if (isQuotationExpired(quotation)) {
+        throw new Error('This quotation has expired. Create a new one instead.');
+      }
+
+      // Emails are stored as typed at registration, so match both forms
+      const email = customerEmail.trim();
+      const emailVariants = [...new Set([email, email.toLowerCase()])];
+      const userQuery = query(
+        collection(db, 'users'),
+        where('email', 'in', emailVariants),
+        limit(1)
+      );
+      const userSnapshot = await getDocs(userQuery);
+
+      if (userSnapshot.empty) {
+        throw new Error(`No KUTRA account found for ${email}`);
+      }
+
+      const customerDoc = userSnapshot.docs[0];
+      const updateData = {
+        customerId: customerDoc.id,
+        customerName: customerDoc.data().name || email,
+        customerEmail: customerDoc.data().email || email,
+        status: QuotationStatus.SENT,
+        sentAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await updateDoc(doc(db, 'quotations', quotation.id), updateData);
+
+      try {
+        const notificationService = NotificationService.getInstance();
+        await notificationService.notifyQuotationSent(
+          quotation.id,
+          customerDoc.id,
+          quotation.storeName || 'A store',
+          quotation.totalAmount
+        );
+      } catch (notificationError) {
+        console.warn('Failed to send quotation notification:', notificationError);
+      }
+
+      return { quotationId: quotation.id, updateData };
+    } catch (error) {
+      console.error('Error sending quotation:', error);
+      throw error;
+    }
+  }
+);
+
+// Customer accepts or rejects a sent quotation
+export const respondToQuotation = createAsyncThunk(
+  'quotations/respondToQuotation',
+  async ({ quotation, accept }: { quotation: Quotation; accept: boolean }) => {
+    try {
+      if (isQuotationExpired(quotation)) {
+        const updateData = {
+          status: QuotationStatus.EXPIRED,
+          updatedAt: new Date().toISOString(),
+        };
+        await updateDoc(doc(db, 'quotations', quotation.id), updateData);
+        throw new Error('This quotation has expired');
+      }
+      if (quotation.status !== QuotationStatus.SENT) {
+        throw new Error(`This quotation is already ${quotation.status}`);
+      }
+
+      const updateData = {
+        status: accept ? QuotationStatus.ACCEPTED : QuotationStatus.REJECTED,
+        respondedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await updateDoc(doc(db, 'quotations', quotation.id), updateData);
+
+      if (quotation.sellerId) {
+        try {
+          const notificationService = NotificationService.getInstance();
+          await notificationService.notifyQuotationResponse(
+            quotation.id,
+            quotation.sellerId,
+            quotation.customerName || 'A customer',
+            accept
+          );
+        } catch (notificationError) {
+          console.warn('Failed to send quotation response notification:', notificationError);
+        }
+      }
+
+      return { quotationId: quotation.id, updateData };
+    } catch (error) {
+      console.error('Error responding to quotation:', error);
+      throw error;
+    }
+  }
+);
+
+// Turn an accepted quotation into a regular order at the quoted prices, reserving
+// stock for the listed items as checkout does. Custom lines with no listing aren't stocked.
+export const convertQuotationToOrder = createAsyncThunk(
+  'quotations/convertQuotationToOrder',
+  async (quotation: Quotation) => {
+    try {
+      if (quotation.status !== QuotationStatus.ACCEPTED) {
+        throw new Error('Only accepted quotations can be converted to orders');
+      }
+      if (quotation.orderId) {
+        throw new Error('This quotation has already been converted to an order');
+      }
+      if (!quotation.customerId) {
+        throw new Error('Quotation has no customer');
+      }
+
+      const orderItems: OrderItem[] = quotation.items.map(item => ({
+        listingId: item.listingId || '',
+        sellerId: quotation.sellerId || '',
+        storeId: quotation.storeId,
+        title: item.title,
+        priceAtPurchase: item.unitPrice,
+        quantity: item.quantity,
+        sellerName: quotation.storeName || 'Unknown Seller',
+      }));
+
+      const orderData = {
+        customerId: quotation.customerId,
+        storeId: quotation.storeId,
+        quotationId: quotation.id,
+        sellerIds: OrderQueryService.getSellerIds(orderItems),
+        items: orderItems,
+        totalAmount: quotation.totalAmount,
+        itemSubtotal: quotation.itemSubtotal,
+        discountAmount: quotation.discountAmount || 0,
+        deliveryCost: 0,
+        status: OrderStatus.PENDING,
+        shippingAddress: 'Pickup from store',
+        shippingLabel: 'Pickup from store',
+        deliveryMethod: 'pickup',
+        partnerId: null,
+        deliveryPayee: null,
+        storeRevenueAmount: quotation.totalAmount,
+        partnerDeliveryAmount: 0,
+        paymentMethod: 'cash',
+        stockReserved: true,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+
+      const orderRef = doc(collection(db, 'orders'));
+      const quotationRef = doc(db, 'quotations', quotation.id);
+      const updateData = {
+        orderId: orderRef.id,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const stockUpdates = await runTransaction(db, async (transaction) => {
+        const latest = (await transaction.get(quotationRef)).data();
+        if (latest?.orderId) {
+          throw new Error('This quotation has already been converted to an order');
+        }
+        if (latest?.status !== QuotationStatus.ACCEPTED) {
+          throw new Error('Only accepted quotations can be converted to orders');
+        }
+
+        const updates = await InventoryService.reserveStock(
+          transaction,
+          orderItems
+            .filter(item => item.listingId)
+            .map(item => ({ listingId: item.listingId, title: item.title, quantity: item.quantity })),
+          updateData.updatedAt
+        );
+        transaction.set(orderRef, orderData);
+        transaction.update(quotationRef, updateData);
+
+        return updates;
+      });
+      console.log('Quotation', quotation.id, 'converted to order', orderRef.id);
+
+      await InventoryService.notifyLowStock(stockUpdates);
+
+      return { quotationId: quotation.id, updateData };
+    } catch (error) {
+      console.error('Error converting quotation to order:', error);
+      throw error;
+    }
+  }
+);
+
+// Apply a partial update to a quotation wherever it appears in state
+const applyQuotationUpdate = (state: QuotationsState, quotationId: string, updateData: Partial<Quotation>) => {
+  [state.storeQuotations, state.customerQuotations].forEach(list => {
+    const index = list.findIndex(quotation => quotation.id === quotationId);
+    if (index !== -1) {
+      list[index] = { ...list[index], ...updateData };
+    }
+  });
+};
+
+const quotationsSlice = createSlice({
+  name: 'quotations',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch Store Quotations
+      .addCase(fetchStoreQuotations.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchStoreQuotations.fulfilled, (state, action) => {
+        state.storeQuotations = action.payload;
+        state.isLoading = false;
+      })
+      .addCase(fetchStoreQuotations.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch quotations';
+        state.isLoading = false;
+      })
+
+      // Fetch Customer Quotations
+      .addCase(fetchCustomerQuotations.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchCustomerQuotations.fulfilled, (state, action) => {
+        state.customerQuotations = action.payload;
+        state.isLoading = false;
+      })
+      .addCase(fetchCustomerQuotations.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch quotations';
+        state.isLoading = false;
+      })
+
+      // Create Quotation
+      .addCase(createQuotation.fulfilled, (state, action) => {
+        state.storeQuotations.unshift(action.payload);
+      })
+
+      // Send / Respond / Convert
+      .addCase(sendQuotation.fulfilled, (state, action) => {
+        applyQuotationUpdate(state, action.payload.quotationId, action.payload.updateData);
+      })
+      .addCase(respondToQuotation.fulfilled, (state, action) => {
+        applyQuotationUpdate(state, action.payload.quotationId, action.payload.updateData);
+      })
+      .addCase(convertQuotationToOrder.fulfilled, (state, action) => {
+        applyQuotationUpdate(state, action.payload.quotationId, action.payload.updateData);
+      });
+  },
+});
+
+export const { clearError } = quotationsSlice.actions;
+export default quotationsSlice.reducer;
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  updateDoc,
+  runTransaction
+} from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { Listing, Receipt, ReceiptItem, ReceiptStatus } from '../../types';
+import InventoryService from '../../services/InventoryService';
+import ReceiptService from '../../services/ReceiptService';
+
+interface ReceiptsState {
+  items: Receipt[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const initialState: ReceiptsState = {
+  items: [],
+  isLoading: false,
+  error: null,
+};
+
+export interface PosBasketItem {
+  listing: Listing;
+  quantity: number;
+}
+
+// Fetch all receipts issued by a store, newest first
+export const fetchStoreReceipts = createAsyncThunk(
+  'receipts/fetchStoreReceipts',
+  async (storeId: string) => {
+    try {
+      console.log('Fetching receipts for store:', storeId);
+
+      const q = query(
+        collection(db, 'receipts'),
+        where('storeId', '==', storeId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const receipts: Receipt[] = [];
+
+      querySnapshot.forEach((docSnap) => {
+        receipts.push(ReceiptService.normalizeReceipt(docSnap.id, docSnap.data()));
+      });
+
+      // Sort client-side to avoid requiring a composite index
+      receipts.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+      console.log('Found', receipts.length, 'receipts for store');
+      return receipts;
+    } catch (error) {
+      console.error('Error fetching store receipts:', error);
+      throw error;
+    }
+  }
+);
+
+// Ring up a walk-in sale: decrement stock and issue the receipt in one transaction
+export const recordPosSale = createAsyncThunk(
+  'receipts/recordPosSale',
+  async ({
+    storeId,
+    cashierId,
+    basket,
+    paymentMethod,
+    amountTendered,
+  }: {
+    storeId: string;
+    cashierId: string;
+    basket: PosBasketItem[];
+    paymentMethod: 'cash' | 'mobile_money';
+    amountTendered?: number;
+  }) => {
+    try {
+      if (basket.length === 0) {
+        throw new Error('Basket is empty');
+      }
+
+      const items: ReceiptItem[] = basket.map(({ listing, quantity }) => ({
+        listingId: listing.id,
+        title: listing.title,
+        quantity,
+        unitPrice: listing.price,
+        subtotal: listing.price * quantity,
+      }));
+      const itemSubtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+
+      if (paymentMethod === 'cash' && amountTendered !== undefined && amountTendered < itemSubtotal) {
+        throw new Error(`Amount tendered is less than the total of K${itemSubtotal.toFixed(2)}`);
+      }
+
+      const receiptRef = doc(collection(db, 'receipts'));
+      const now = new Date().toISOString();
+
+      const receiptData: Omit<Receipt, 'id'> = {
+        storeId,
+        items,
+        itemSubtotal,
+        totalAmount: itemSubtotal,
+        paymentMethod,
+        source: 'pos',
+        cashierId,
+        ...(paymentMethod === 'cash' && amountTendered !== undefined && {
+          amountTendered,
+          changeDue: amountTendered - itemSubtotal,
+        }),
+        status: ReceiptStatus.ISSUED,
+        createdAt: now,
+      };
+
+      const stockUpdates = await runTransaction(db, async (transaction) => {
+        const updates = await InventoryService.reserveStock(
+          transaction,
+          basket.map(({ listing, quantity }) => ({ listingId: listing.id, title: listing.title, quantity })),
+          now
+        );
+        transaction.set(receiptRef, receiptData);
+
+        return updates;
+      });
+
+      console.log('POS sale recorded with receipt ID:', receiptRef.id);
+
+      await InventoryService.notifyLowStock(stockUpdates);
+
+      return {
+        receipt: { ...receiptData, id: receiptRef.id } as Receipt,
+        stockUpdates: stockUpdates.map(({ listingId, stock }) => ({ listingId, stock })),
+      };
+    } catch (error) {
+      console.error('Error recording POS sale:', error);
+      throw error;
+    }
+  }
+);
+
+// Refund or void an issued receipt, recording why
+export const updateReceiptStatus = createAsyncThunk(
+  'receipts/updateReceiptStatus',
+  async ({ receipt, status, reason }: { receipt: Receipt; status: ReceiptStatus.REFUNDED | ReceiptStatus.VOIDED; reason: string }) => {
+    try {
+      if (receipt.status !== ReceiptStatus.ISSUED) {
+        throw new Error(`Receipt is already ${receipt.status} and cannot be changed`);
+      }
+      if (!reason.trim()) {
+        throw new Error('A reason is required to refund or void a receipt');
+      }
+
+      const updateData = {
+        status,
+        updatedAt: new Date().toISOString(),
+        statusReason: reason.trim(),
+      };
+
+      await updateDoc(doc(db, 'receipts', receipt.id), updateData);
+
+      return { receiptId: receipt.id, updateData };
+    } catch (error) {
+      console.error('Error updating receipt status:', error);
+      throw error;
+    }
+  }
+);
+
+const receiptsSlice = createSlice({
+  name: 'receipts',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch Store Receipts
+      .addCase(fetchStoreReceipts.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchStoreReceipts.fulfilled, (state, action) => {
+        state.items = action.payload;
+        state.isLoading = false;
+      })
+      .addCase(fetchStoreReceipts.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch receipts';
+        state.isLoading = false;
+      })
+
+      // Record POS Sale
+      .addCase(recordPosSale.fulfilled, (state, action) => {
+        state.items.unshift(action.payload.receipt);
+      })
+
+      // Update Receipt Status
+      .addCase(updateReceiptStatus.fulfilled, (state, action) => {
+        const { receiptId, updateData } = action.payload;
+        const receiptIndex = state.items.findIndex(receipt => receipt.id === receiptId);
+        if (receiptIndex !== -1) {
+          state.items[receiptIndex] = {
+            ...state.items[receiptIndex],
+            ...updateData,
+          };
+        }
+      })
+      .addCase(updateReceiptStatus.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to update receipt';
+      });
+  },
+});
+
+export const { clearError } = receiptsSlice.actions;
+export default receiptsSlice.reducer;
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { UserSettings } from '../../types';
+import SettingsService, { DEFAULT_USER_SETTINGS } from '../../services/SettingsService';
+
+interface SettingsState {
+  values: UserSettings;
+  ownerId: string | null; // whose settings these are; null for a guest
+  isHydrated: boolean;
+}
+
+const initialState: SettingsState = {
+  values: DEFAULT_USER_SETTINGS,
+  ownerId: null,
+  isHydrated: false,
+};
+
+// Load the user's settings: the user document wins over this device's copy,
+// so a change made on another device carries over
+export const hydrateSettings = createAsyncThunk(
+  'settings/hydrateSettings',
+  async (userId: string | null) => {
+    const local = await SettingsService.loadLocalSettings(userId);
+
+    let remote = null;
+    if (userId) {
+      try {
+        remote = await SettingsService.loadRemoteSettings(userId);
+      } catch (error) {
+        console.warn('Failed to load saved settings, using this device\'s copy:', error);
+      }
+    }
+
+    return {
+      userId,
+      values: SettingsService.withDefaults({ ...local, ...remote }),
+    };
+  }
+);
+
+const settingsSlice = createSlice({
+  name: 'settings',
+  initialState,
+  reducers: {
+    setSetting: (state, action: PayloadAction<{ key: keyof UserSettings; value: boolean }>) => {
+      state.values = { ...state.values, [action.payload.key]: action.payload.value };
+    },
+    resetSettings: (state) => {
+      state.values = DEFAULT_USER_SETTINGS;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateSettings.fulfilled, (state, action) => {
+        state.values = action.payload.values;
+        state.ownerId = action.payload.userId;
+        state.isHydrated = true;
+      })
+      .addCase(hydrateSettings.rejected, (state, action) => {
+        // Keep the defaults rather than leaving settings unsaved for the session
+        state.values = DEFAULT_USER_SETTINGS;
+        state.ownerId = action.meta.arg;
+        state.isHydrated = true;
+      });
+  },
+});
+
+export const { setSetting, resetSettings } = settingsSlice.actions;
+export default settingsSlice.reducer;
\ No newline at end of file
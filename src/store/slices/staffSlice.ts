@@ -0,0 +1,304 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  limit,
+  runTransaction
+} from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { Store, StoreStaffMember, UserRole } from '../../types';
+import NotificationService from '../../services/NotificationService';
+
+interface StaffState {
+  members: StoreStaffMember[];
+  invites: StoreStaffMember[]; // invites waiting for the signed-in user's answer
+  isLoading: boolean;
+  error: string | null;
+}
+
+const initialState: StaffState = {
+  members: [],
+  invites: [],
+  isLoading: false,
+  error: null,
+};
+
+// Roles an owner can hand out; each maps to the UserRole written on the staff user's profile
+export const STORE_STAFF_ROLES: UserRole[] = [UserRole.CASHIER];
+
+export const isPendingInvite = (member: Pick<StoreStaffMember, 'status'>) => member.status === 'pending';
+
+const toStaffMember = (id: string, data: any): StoreStaffMember => ({
+  ...data,
+  id,
+  addedAt: data.addedAt?.toDate?.()?.toISOString() || data.addedAt,
+} as StoreStaffMember);
+
+// Why a user can't join a store's staff, or null when they're free to:
+// owners, admins and anyone already working at a store are refused
+const staffConflict = async (userId: string, userData: any): Promise<string | null> => {
+  if (userData.role === UserRole.STORE_OWNER || userData.role === UserRole.ADMIN) {
+    return `is signed up as ${userData.role}`;
+  }
+  if (userData.storeId) {
+    return 'already works at a store';
+  }
+
+  const ownedStores = await getDocs(query(
+    collection(db, 'stores'),
+    where('ownerId', '==', userId),
+    limit(1)
+  ));
+  return ownedStores.empty ? null : 'already owns a store';
+};
+
+// Fetch everyone working at a store
+export const fetchStoreStaff = createAsyncThunk(
+  'staff/fetchStoreStaff',
+  async (storeId: string) => {
+    try {
+      const q = query(
+        collection(db, 'storeStaff'),
+        where('storeId', '==', storeId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const members: StoreStaffMember[] = [];
+
+      querySnapshot.forEach((docSnap) => {
+        members.push(toStaffMember(docSnap.id, docSnap.data()));
+      });
+
+      members.sort((a, b) => new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime());
+
+      console.log('Found', members.length, 'staff members for store');
+      return members;
+    } catch (error) {
+      console.error('Error fetching store staff:', error);
+      throw error;
+    }
+  }
+);
+
+// Invite a registered user, looked up by email, to the store's staff.
+// Nothing on their profile changes until they accept.
+export const inviteStaffMember = createAsyncThunk(
+  'staff/inviteStaffMember',
+  async ({ store, email, role, addedBy }: { store: Store; email: string; role: UserRole; addedBy: string }) => {
+    try {
+      if (!STORE_STAFF_ROLES.includes(role)) {
+        throw new Error(`${role} is not a store staff role`);
+      }
+
+      // Emails are stored as typed at registration, so match both forms
+      const trimmed = email.trim();
+      const emailVariants = [...new Set([trimmed, trimmed.toLowerCase()])];
+      const userSnapshot = await getDocs(query(
+        collection(db, 'users'),
+        where('email', 'in', emailVariants),
+        limit(1)
+      ));
+
+      if (userSnapshot.empty) {
+        throw new Error(`No KUTRA account found for ${trimmed}`);
+      }
+
+      const userDoc = userSnapshot.docs[0];
+      const userData = userDoc.data();
+
+      if (userDoc.id === store.ownerId) {
+        throw new Error('You already own this store');
+      }
+      const conflict = await staffConflict(userDoc.id, userData);
+      if (conflict) {
+        throw new Error(`${userData.name || trimmed} ${conflict} and cannot join as staff`);
+      }
+
+      const memberData: Omit<StoreStaffMember, 'id'> = {
+        storeId: store.id,
+        storeName: store.name,
+        userId: userDoc.id,
+        userName: userData.name || trimmed,
+        userEmail: userData.email || trimmed,
+        role,
+        status: 'pending',
+        addedAt: new Date().toISOString(),
+        addedBy,
+      };
+
+      // One invite per user per store, so a second tap can't send two
+      const inviteRef = doc(db, 'storeStaff', `${store.id}_${userDoc.id}`);
+      await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(inviteRef);
+        if (existing.exists()) {
+          throw new Error(`${memberData.userName} has already been invited to this store`);
+        }
+        transaction.set(inviteRef, memberData);
+      });
+
+      try {
+        const notificationService = NotificationService.getInstance();
+        await notificationService.notifyStaffInvited(userDoc.id, store.id, store.name, role);
+      } catch (notificationError) {
+        console.warn('Failed to send staff notification:', notificationError);
+      }
+
+      console.log('Invited staff member:', inviteRef.id, 'to store:', store.id);
+      return { ...memberData, id: inviteRef.id } as StoreStaffMember;
+    } catch (error) {
+      console.error('Error inviting staff member:', error);
+      throw error;
+    }
+  }
+);
+
+// Store invites waiting for a user to accept or decline
+export const fetchStaffInvites = createAsyncThunk(
+  'staff/fetchStaffInvites',
+  async (userId: string) => {
+    try {
+      const querySnapshot = await getDocs(query(
+        collection(db, 'storeStaff'),
+        where('userId', '==', userId),
+        where('status', '==', 'pending')
+      ));
+
+      return querySnapshot.docs.map(docSnap => toStaffMember(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('Error fetching staff invites:', error);
+      throw error;
+    }
+  }
+);
+
+// The invited user's answer. Accepting gives their profile the staff role, which
+// routes them to the store navigator; declining deletes the invite.
+export const respondToStaffInvite = createAsyncThunk(
+  'staff/respondToStaffInvite',
+  async ({ invite, accept, userId }: { invite: StoreStaffMember; accept: boolean; userId: string }) => {
+    try {
+      if (!invite.id) {
+        throw new Error('Invite has no ID');
+      }
+      if (invite.userId !== userId) {
+        throw new Error('This invite is for someone else');
+      }
+
+      const inviteRef = doc(db, 'storeStaff', invite.id);
+      if (!accept) {
+        await deleteDoc(inviteRef);
+        return { inviteId: invite.id, accepted: false as const };
+      }
+
+      const userRef = doc(db, 'users', userId);
+      const profile = { role: invite.role, storeId: invite.storeId, storeName: invite.storeName };
+      const acceptedAt = new Date().toISOString();
+
+      await runTransaction(db, async (transaction) => {
+        const inviteSnap = await transaction.get(inviteRef);
+        const userSnap = await transaction.get(userRef);
+        if (!inviteSnap.exists() || !isPendingInvite(inviteSnap.data() as StoreStaffMember)) {
+          throw new Error('This invite has been withdrawn');
+        }
+
+        const conflict = await staffConflict(userId, userSnap.data() || {});
+        if (conflict) {
+          throw new Error(`You can't join ${invite.storeName}: this account ${conflict}`);
+        }
+
+        transaction.update(inviteRef, { status: 'active', acceptedAt });
+        transaction.update(userRef, profile);
+      });
+
+      console.log('Accepted staff invite:', invite.id);
+      return { inviteId: invite.id, accepted: true as const, profile };
+    } catch (error) {
+      console.error('Error responding to staff invite:', error);
+      throw error;
+    }
+  }
+);
+
+// Remove a staff member and return their account to a regular customer,
+// or withdraw an invite that hasn't been answered yet
+export const removeStaffMember = createAsyncThunk(
+  'staff/removeStaffMember',
+  async (member: StoreStaffMember) => {
+    try {
+      if (!member.id) {
+        throw new Error('Staff member has no ID');
+      }
+
+      await deleteDoc(doc(db, 'storeStaff', member.id));
+      if (isPendingInvite(member)) {
+        return member.id;
+      }
+
+      await updateDoc(doc(db, 'users', member.userId), {
+        role: UserRole.CUSTOMER,
+        storeId: deleteField(),
+        storeName: deleteField(),
+      });
+
+      return member.id;
+    } catch (error) {
+      console.error('Error removing staff member:', error);
+      throw error;
+    }
+  }
+);
+
+const staffSlice = createSlice({
+  name: 'staff',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch Store Staff
+      .addCase(fetchStoreStaff.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchStoreStaff.fulfilled, (state, action) => {
+        state.members = action.payload;
+        state.isLoading = false;
+      })
+      .addCase(fetchStoreStaff.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch staff';
+        state.isLoading = false;
+      })
+
+      // Invite Staff Member
+      .addCase(inviteStaffMember.fulfilled, (state, action) => {
+        state.members.unshift(action.payload);
+      })
+
+      // Fetch Staff Invites
+      .addCase(fetchStaffInvites.fulfilled, (state, action) => {
+        state.invites = action.payload;
+      })
+
+      // Respond To Staff Invite
+      .addCase(respondToStaffInvite.fulfilled, (state, action) => {
+        state.invites = state.invites.filter(invite => invite.id !== action.payload.inviteId);
+      })
+
+      // Remove Staff Member
+      .addCase(removeStaffMember.fulfilled, (state, action) => {
+        state.members = state.members.filter(member => member.id !== action.payload);
+      });
+  },
+});
+
+export const { clearError } = staffSlice.actions;
+export default staffSlice.reducer;
\ No newline at end of file
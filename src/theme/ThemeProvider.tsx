@@ -0,0 +1,47 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { Theme, themes } from './tokens';
+
+const ThemeContext = createContext<Theme>(themes.light);
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Picks the light or dark theme from the user's settings: the device appearance
+ * while "Match System Theme" is on, otherwise the Dark Mode switch.
+ */
+const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const { followSystemTheme, darkMode } = useSelector((state: RootState) => state.settings.values);
+
+  const isDark = followSystemTheme ? systemScheme === 'dark' : darkMode;
+  const theme = isDark ? themes.dark : themes.light;
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      {children}
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+    </ThemeContext.Provider>
+  );
+};
+
+export const useTheme = () => {
+  const theme = useContext(ThemeContext);
+  return { theme, colors: theme.colors, isDark: theme.isDark };
+};
+
+/**
+ * Styles built from the current theme, rebuilt only when the theme changes.
+ * Screens define `const createStyles = (theme: Theme) => StyleSheet.create({...})`.
+ */
+export const useThemedStyles = <T,>(createStyles: (theme: Theme) => T): T => {
+  const theme = useContext(ThemeContext);
+  return useMemo(() => createStyles(theme), [createStyles, theme]);
+};
+
+export default ThemeProvider;
\ No newline at end of file
@@ -0,0 +1,142 @@
+export type ThemeName = 'light' | 'dark';
+
+export interface ThemeColors {
+  primary: string;
+  onPrimary: string; // text and icons on primary-coloured buttons and badges
+  background: string;
+  surface: string; // cards, headers, inputs
+  surfaceAlt: string; // chips, tinted rows and pressed states
+  overlay: string; // translucent surface over images
+  text: string;
+  textSecondary: string;
+  textMuted: string; // placeholders and disabled text
+  border: string;
+  divider: string;
+  accent: string;
+  disabled: string;
+  success: string;
+  successBackground: string;
+  error: string;
+  danger: string; // destructive actions and alerts
+  dangerBackground: string;
+  dangerBorder: string;
+  info: string;
+  infoBackground: string;
+  shadow: string;
+}
+
+const lightColors: ThemeColors = {
+  primary: '#8B4513',
+  onPrimary: '#FFFFFF',
+  background: '#F7F3F0',
+  surface: '#FFFFFF',
+  surfaceAlt: '#F5F1ED',
+  overlay: 'rgba(255, 255, 255, 0.9)',
+  text: '#2D1810',
+  textSecondary: '#8B7355',
+  textMuted: '#A8998C',
+  border: '#E8E2DD',
+  divider: '#F0EBE7',
+  accent: '#D2B48C',
+  disabled: '#CCCCCC',
+  success: '#27AE60',
+  successBackground: '#F0FAF4',
+  error: '#E74C3C',
+  danger: '#DC2626',
+  dangerBackground: '#FEF2F2',
+  dangerBorder: '#FECACA',
+  info: '#007AFF',
+  infoBackground: '#F0F8FF',
+  shadow: '#000000',
+};
+
+// Warm dark browns so the brand colours still read as the same app
+const darkColors: ThemeColors = {
+  primary: '#C27A45',
+  onPrimary: '#FFFFFF',
+  background: '#15100D',
+  surface: '#221A15',
+  surfaceAlt: '#2C221C',
+  overlay: 'rgba(34, 26, 21, 0.9)',
+  text: '#F3ECE6',
+  textSecondary: '#B8A593',
+  textMuted: '#7D6E62',
+  border: '#3A2E26',
+  divider: '#2E241E',
+  accent: '#8C7358',
+  disabled: '#4A3F38',
+  success: '#3DD68C',
+  successBackground: '#1C3326',
+  error: '#FF6B5B',
+  danger: '#F87171',
+  dangerBackground: '#3A1E1C',
+  dangerBorder: '#5C2A26',
+  info: '#4DA3FF',
+  infoBackground: '#1A2A3D',
+  shadow: '#000000',
+};
+
+export const typography = {
+  size: {
+    xs: 12,
+    sm: 14,
+    md: 16,
+    lg: 18,
+    xl: 20,
+    xxl: 24,
+  },
+  weight: {
+    regular: '400' as const,
+    medium: '500' as const,
+    semibold: '600' as const,
+    bold: '700' as const,
+  },
+};
+
+export const spacing = {
+  xs: 4,
+  sm: 8,
+  md: 12,
+  lg: 16,
+  xl: 20,
+  xxl: 24,
+};
+
+export const radius = {
+  sm: 6,
+  md: 8,
+  lg: 12,
+  xl: 16,
+  pill: 999,
+};
+
+export interface Theme {
+  name: ThemeName;
+  isDark: boolean;
+  colors: ThemeColors;
+  typography: typeof typography;
+  spacing: typeof spacing;
+  radius: typeof radius;
+  statusBarStyle: 'dark-content' | 'light-content';
+}
+
+export const themes: { [name in ThemeName]: Theme } = {
+  light: {
+    name: 'light',
+    isDark: false,
+    colors: lightColors,
+    typography,
+    spacing,
+    radius,
+    statusBarStyle: 'dark-content',
+  },
+  dark: {
+    name: 'dark',
+    isDark: true,
+    colors: darkColors,
+    typography,
+    spacing,
+    radius,
+    statusBarStyle: 'light-content',
+  },
+};
\ No newline at end of file
@@ -47,12 +47,28 @@ export interface User {
   joinedDate: any; // Firestore Timestamp or ISO string
   role: UserRole;
   isSuspended?: boolean;
+  suspensionReason?: string; // shown to the user when they try to sign in
   storeName?: string;
   storeId?: string;
   supplierId?: string; // linked supplier profile id when role is Supplier
   storeIsActive?: boolean | null; // null can mean not applicable or not yet determined
   createdAt?: any; // Firestore Timestamp
   fcmTokens?: string[]; // For push notifications
+  settings?: Partial<UserSettings>; // saved from the Settings screen
+}
+
+export interface UserSettings {
+  pushNotifications: boolean;
+  emailNotifications: boolean;
+  orderUpdates: boolean;
+  newProducts: boolean;
+  promotions: boolean;
+  followSystemTheme: boolean;
+  darkMode: boolean;
+  soundEffects: boolean;
+  vibration: boolean;
+  locationTracking: boolean;
+  analytics: boolean;
 }
 
 export interface Store {
@@ -121,12 +137,21 @@ export interface OrderItem {
   quantity: number;
   imageUrl?: string;
   sellerName?: string; 
+  discountAmount?: number; // promotion discount on this line
+}
+
+export interface OrderStatusChange {
+  from: string;
+  to: string;
+  changedBy: string; // uid of the owner, staff member or courier
+  changedAt: string;
 }
 
 export interface Order {
   id: string;
   customerId: string;
   storeId?: string; 
+  sellerIds?: string[]; // owners of the items, indexed so each store can query its orders
   items: OrderItem[];
   totalAmount: number;
   itemSubtotal: number;
@@ -138,12 +163,20 @@ export interface Order {
   shippingLabel?: string;
   contactPhone?: string;
   deliveryMethod: 'pickup' | 'delivery' | null;
-  partnerId?: string; // when deliveryMethod is 'third_party'
+  partnerId?: string; // set when a delivery partner carries the order
+  deliveryDistanceKm?: number; // store to drop-off, used to price partner delivery
   deliveryPayee?: 'store' | 'partner' | null; // who should receive the deliveryCost
   // Convenience amounts for settlement/reporting
   storeRevenueAmount?: number; // usually itemSubtotal; includes deliveryCost only if deliveryPayee==='store'
   partnerDeliveryAmount?: number; // equals deliveryCost if deliveryPayee==='partner'
   paymentMethod: 'cash' | 'mobile_money' | 'bank' | null;
+  discountAmount?: number;
+  promotionId?: string; // promotion applied at checkout, if any
+  discountCode?: string;
+  quotationId?: string; // set when the order was converted from a quotation
+  checkoutGroupId?: string; // shared by the per-store orders placed in one checkout
+  stockReserved?: boolean; // listing stock was decremented when the order was placed
+  stockRestoredAt?: string; // set once a cancelled/rejected order's stock is put back
   createdAt: any; // Firestore Timestamp or ISO string
   updatedAt: any; // Firestore Timestamp or ISO string
   // Order status progression timestamps
@@ -157,6 +190,9 @@ export interface Order {
   cancelledAt?: any; // Firestore Timestamp or ISO string
   rejectedAt?: any; // Firestore Timestamp or ISO string
   assignedAt?: any; // Firestore Timestamp or ISO string
+  courierId?: string; // uid of the courier who accepted the delivery
+  statusUpdatedBy?: string; // uid behind the latest status change
+  statusHistory?: OrderStatusChange[];
 }
 
 // Receipts & Quotations
@@ -167,6 +203,7 @@ export enum ReceiptStatus {
 }
 
 export interface ReceiptItem {
+  listingId?: string; // set for point-of-sale receipts
   title: string;
   quantity: number;
   unitPrice: number;
@@ -185,8 +222,14 @@ export interface Receipt {
   discountAmount?: number;
   totalAmount: number;
   paymentMethod: 'cash' | 'mobile_money' | 'card' | 'other';
+  source?: 'order' | 'pos'; // older receipts without a source came from orders
+  cashierId?: string; // who rang up a point-of-sale receipt
+  amountTendered?: number; // cash handed over at the till
+  changeDue?: number;
   status: ReceiptStatus | string;
+  statusReason?: string; // why a receipt was refunded or voided
   createdAt: any; // Firestore Timestamp or ISO string
+  updatedAt?: any; // Firestore Timestamp or ISO string
 }
 
 export enum QuotationStatus {
@@ -198,6 +241,7 @@ export enum QuotationStatus {
 }
 
 export interface QuotationItem {
+  listingId?: string; // source listing, used when converting to an order
   title: string;
   quantity: number;
   unitPrice: number;
@@ -207,16 +251,24 @@ export interface QuotationItem {
 export interface Quotation {
   id: string;
   storeId: string;
+  storeName?: string;
+  sellerId?: string; // store owner uid, mirrors OrderItem.sellerId
   customerId?: string;
   customerName?: string;
+  customerEmail?: string;
   items: QuotationItem[];
   itemSubtotal: number;
   discountAmount?: number;
   taxAmount?: number;
   totalAmount: number;
   status: QuotationStatus | string;
+  notes?: string;
   validUntil?: any; // Firestore Timestamp or ISO string
+  sentAt?: any; // Firestore Timestamp or ISO string
+  respondedAt?: any; // Firestore Timestamp or ISO string
+  orderId?: string; // set once an accepted quotation is converted to an order
   createdAt: any; // Firestore Timestamp or ISO string
+  updatedAt?: any; // Firestore Timestamp or ISO string
 }
 
 export type RatingValue = 1 | 2 | 3 | 4 | 5;
@@ -322,7 +374,7 @@ export interface Listing {
   carDetails?: CarDetails;
   
   // Rental specific fields
-  rentalPeriod?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+  rentalPeriod?: RentalPeriod;
   minimumRentalPeriod?: number; // in days/hours depending on rentalPeriod
   maximumRentalPeriod?: number;
   availableFrom?: any; // Firestore Timestamp or ISO string
@@ -516,13 +568,18 @@ export interface Address {
   lat?: number; // legacy records may be missing; new writes must include
   lng?: number;
   label?: string; // reverse-geocoded human label
+  name?: string; // what the customer calls it, e.g. Home or Hostel
+  phone?: string; // contact number for deliveries here
   createdAt: any; // Firestore Timestamp
+  updatedAt?: any; // Firestore Timestamp or ISO string
 }
 
 export interface PlatformSettings {
   id?: string; 
 }
 
+export type StaffInviteStatus = 'pending' | 'active';
+
 export interface StoreStaffMember {
   id?: string;
   storeId: string;
@@ -531,8 +588,10 @@ export interface StoreStaffMember {
   userName: string; 
   userEmail: string; 
   role: string; 
+  status?: StaffInviteStatus; // pending until the user accepts; older members have none and are active
   addedAt: any; // Firestore Timestamp
   addedBy: string; 
+  acceptedAt?: string;
 }
 
 export interface DeliveryPartner {
@@ -569,6 +628,7 @@ export interface CartItem {
   listing: Listing;
   quantity: number;
   selectedVariant?: string;
+  unavailable?: boolean; // listing removed, deactivated or sold out when the cart was last checked
 }
 
 export interface SwapRequest {
@@ -601,6 +661,63 @@ export interface SwapRequest {
   isPermanentSwap?: boolean;
 }
 
+export type RentalPeriod = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// The price a renter was quoted, saved on the request so owner and renter see the same figures
+export interface RentalPriceBreakdown {
+  rentalPeriod: RentalPeriod;
+  units: number; // periods charged, part periods rounded up
+  rate: number; // price per period
+  rentalCost: number;
+  securityDeposit: number; // refundable
+  total: number; // rental cost plus deposit
+  proration?: { // set when the item went back early and only the periods used are charged
+    usedUnits: number; // in rentalPeriod, like units
+    bookedUnits: number;
+    fullCost: number; // rental cost before the early return
+  };
+}
+
+// A change to an active booking's end date, asked for by the renter and approved or declined by the owner
+export interface RentalAmendment {
+  type: 'extension' | 'early_return';
+  status: 'pending' | 'approved' | 'declined';
+  previousEndDate: string;
+  requestedEndDate: string;
+  previousPricing?: RentalPriceBreakdown;
+  pricing?: RentalPriceBreakdown; // the booking's price if approved
+  note?: string;
+  requestedBy: string;
+  requestedAt: string;
+  respondedBy?: string;
+  respondedAt?: string;
+}
+
+// The item's condition when it changes hands, recorded by whoever is present
+export interface RentalConditionReport {
+  notes: string;
+  photoIds: string[]; // in the booking's conditionPhotos subcollection
+  recordedBy: string;
+  recordedAt: string;
+}
+
+// Kept out of the booking document so the photos can't push it past Firestore's size limit
+export interface RentalConditionPhoto {
+  id?: string;
+  report: 'handover' | 'return';
+  data: string; // resized JPEG data URI
+  recordedBy: string;
+  recordedAt: string;
+}
+
+export interface RentalDepositSettlement {
+  deductedAmount: number;
+  refundedAmount: number;
+  reason?: string; // why anything was kept back
+  settledBy: string;
+  settledAt: string;
+}
+
 export interface RentalRequest {
   id?: string;
   listingId: string;
@@ -609,9 +726,18 @@ export interface RentalRequest {
   startDate: any;
   endDate: any;
   totalCost: number;
-  status: 'pending' | 'approved' | 'active' | 'completed' | 'cancelled';
+  pricing?: RentalPriceBreakdown; // missing on requests made before itemised pricing
+  status: 'pending' | 'approved' | 'rejected' | 'active' | 'completed' | 'cancelled';
   message?: string;
   terms?: string;
+  handover?: RentalConditionReport; // at pickup, when the rental becomes active
+  handedOverAt?: string;
+  returnReport?: RentalConditionReport; // at return check-in, when it's completed
+  returnedAt?: string;
+  isLateReturn?: boolean;
+  daysLate?: number;
+  depositSettlement?: RentalDepositSettlement;
+  amendments?: RentalAmendment[]; // extensions and early returns, oldest first
   createdAt: any;
   updatedAt: any;
 }